@@ -88,4 +88,761 @@ USING (bucket_id = 'vault-assets' AND auth.uid() = owner);
 -- Policy: Users can delete their own assets
 CREATE POLICY "Users can delete their own assets"
 ON storage.objects FOR DELETE
-USING (bucket_id = 'vault-assets' AND auth.uid() = owner);
\ No newline at end of file
+USING (bucket_id = 'vault-assets' AND auth.uid() = owner);
+
+-- 8. Research Completion Tracking (Weekly Digest)
+-- research_completed_at is stamped whenever research finishes (Ready or Error),
+-- and previous_readiness_score keeps the score that a re-run replaced.
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS research_completed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS previous_readiness_score INTEGER;
+
+CREATE OR REPLACE FUNCTION public.track_research_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('Ready', 'Error') AND NEW.status IS DISTINCT FROM OLD.status THEN
+        NEW.research_completed_at = timezone('utc'::text, now());
+    END IF;
+    IF NEW.analysis_result IS DISTINCT FROM OLD.analysis_result
+        AND OLD.analysis_result ? 'readinessScore' THEN
+        NEW.previous_readiness_score = (OLD.analysis_result->>'readinessScore')::INTEGER;
+    END IF;
+    NEW.updated_at = timezone('utc'::text, now());
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_idea_research_update ON public.ideas;
+CREATE TRIGGER on_idea_research_update
+BEFORE UPDATE ON public.ideas
+FOR EACH ROW EXECUTE FUNCTION public.track_research_completion();
+
+CREATE INDEX IF NOT EXISTS idx_ideas_user_created ON public.ideas(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ideas_user_research_completed ON public.ideas(user_id, research_completed_at DESC);
+
+-- 9. Board Pipeline Stage
+-- User-owned kanban stage, independent from the machine-owned research status.
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS stage TEXT NOT NULL DEFAULT 'inbox'
+CHECK (stage IN ('inbox', 'discovery', 'researched', 'validating', 'building', 'archived'));
+
+CREATE INDEX IF NOT EXISTS idx_ideas_user_stage ON public.ideas(user_id, stage);
+
+-- 10. Full-Text Search
+-- Flattens the searchable parts of analysis_result (audience, competitors, action plan)
+-- into plain text so it can feed the tsvector alongside title and description.
+CREATE OR REPLACE FUNCTION public.idea_analysis_text(analysis JSONB)
+RETURNS TEXT AS $$
+    SELECT concat_ws(' ',
+        analysis->>'targetAudience',
+        analysis->>'topCompetitor',
+        analysis->>'trend',
+        (
+            SELECT string_agg(concat_ws(' ', c->>'name', c->>'strength', c->>'weakness'), ' ')
+            FROM jsonb_array_elements(
+                CASE WHEN jsonb_typeof(analysis->'competitors') = 'array' THEN analysis->'competitors' ELSE '[]'::jsonb END
+            ) AS c
+        ),
+        (
+            SELECT string_agg(step, ' ')
+            FROM jsonb_array_elements_text(
+                CASE WHEN jsonb_typeof(analysis->'actionPlan') = 'array' THEN analysis->'actionPlan' ELSE '[]'::jsonb END
+            ) AS step
+        )
+    )
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', public.idea_analysis_text(analysis_result)), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_search_vector ON public.ideas USING GIN (search_vector);
+
+-- Ranked search with highlighted snippets. Runs as the caller, so the ideas RLS
+-- policies still restrict results to the caller's own ideas. Every word is
+-- prefix-matched so results update while typing.
+CREATE OR REPLACE FUNCTION public.search_ideas(search_query TEXT, result_limit INTEGER DEFAULT 8)
+RETURNS TABLE (
+    id UUID,
+    title TEXT,
+    status TEXT,
+    rank REAL,
+    title_highlight TEXT,
+    snippet TEXT
+) AS $$
+    WITH q AS (
+        SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) AS query
+        FROM regexp_split_to_table(regexp_replace(search_query, '[^[:alnum:][:space:]]', ' ', 'g'), '\s+') AS word
+        WHERE word <> ''
+    )
+    SELECT
+        i.id,
+        i.title,
+        i.status,
+        ts_rank_cd(i.search_vector, q.query) AS rank,
+        ts_headline('english', i.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+        ts_headline(
+            'english',
+            concat_ws(' … ', i.description, public.idea_analysis_text(i.analysis_result)),
+            q.query,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+        )
+    FROM public.ideas i, q
+    WHERE q.query IS NOT NULL AND i.search_vector @@ q.query
+    ORDER BY rank DESC, i.updated_at DESC
+    LIMIT result_limit
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+-- 11. Captured Media
+-- Path inside the vault-assets bucket for voice notes and snapshots,
+-- stored as '<user_id>/<type>/<uuid>.<ext>'.
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS asset_path TEXT;
+
+-- 12. Public Share Links
+-- Read-only links to a single idea report. Only the SHA-256 hash of the URL token is
+-- stored; the public /share/<token> route looks links up with the service-role key,
+-- so the owner-only RLS policies below never need to be relaxed. Links are created
+-- and revoked only by server actions (which check the caller's role on the idea),
+-- so the browser gets no INSERT or UPDATE policy.
+CREATE TABLE IF NOT EXISTS public.idea_share_links (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    password_hash TEXT,
+    -- 'scrypt:<salt>:<hash>' when the link is password protected
+    hidden_sections TEXT[] NOT NULL DEFAULT '{}',
+    -- 'growth', 'competitors', 'actionPlan', 'discoveryTldr', 'founderFit', 'evaluationCriteria'
+    expires_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    view_count INTEGER NOT NULL DEFAULT 0,
+    last_viewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_idea ON public.idea_share_links(idea_id);
+
+-- Wrong passwords are counted per link; after too many the link refuses guesses for a while
+ALTER TABLE public.idea_share_links
+ADD COLUMN IF NOT EXISTS failed_password_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.idea_share_links
+ADD COLUMN IF NOT EXISTS password_locked_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.idea_share_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own share links" ON public.idea_share_links FOR
+SELECT USING (auth.uid() = user_id);
+DROP POLICY IF EXISTS "Users can insert their own share links" ON public.idea_share_links;
+DROP POLICY IF EXISTS "Users can update their own share links" ON public.idea_share_links;
+CREATE POLICY "Users can delete their own share links" ON public.idea_share_links FOR DELETE USING (auth.uid() = user_id);
+
+-- Atomic view counter used by the public share route (service-role key only)
+CREATE OR REPLACE FUNCTION public.record_share_link_view(link_id UUID)
+RETURNS VOID AS $$
+    UPDATE public.idea_share_links
+    SET view_count = view_count + 1,
+        last_viewed_at = timezone('utc'::text, now())
+    WHERE id = link_id;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.record_share_link_view(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Counts a wrong password; every max_failures-th one locks the link for lock_seconds
+CREATE OR REPLACE FUNCTION public.record_share_link_password_failure(
+    link_id UUID,
+    max_failures INTEGER DEFAULT 5,
+    lock_seconds INTEGER DEFAULT 900
+)
+RETURNS VOID AS $$
+    UPDATE public.idea_share_links
+    SET failed_password_attempts = CASE
+            WHEN failed_password_attempts + 1 >= max_failures THEN 0
+            ELSE failed_password_attempts + 1
+        END,
+        password_locked_until = CASE
+            WHEN failed_password_attempts + 1 >= max_failures
+                THEN timezone('utc'::text, now()) + make_interval(secs => lock_seconds)
+            ELSE password_locked_until
+        END
+    WHERE id = link_id;
+$$ LANGUAGE sql;
+
+REVOKE EXECUTE ON FUNCTION public.record_share_link_password_failure(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 13. Research Job Queue
+-- Research runs in a background worker (scripts/researchWorker.ts) instead of the
+-- browser. A job owns the idea's Analyzing -> Ready/Error lifecycle; failed attempts
+-- are retried with exponential backoff until max_attempts is reached.
+CREATE TABLE IF NOT EXISTS public.research_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    -- { config?, capture?, context?, enrichment? } - see lib/researchJobs.ts
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 3,
+    run_after TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    locked_by TEXT,
+    last_error TEXT,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+-- At most one active job per idea
+CREATE UNIQUE INDEX IF NOT EXISTS idx_research_jobs_active_idea ON public.research_jobs(idea_id)
+WHERE status IN ('queued', 'running');
+CREATE INDEX IF NOT EXISTS idx_research_jobs_queue ON public.research_jobs(run_after)
+WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_research_jobs_user_status ON public.research_jobs(user_id, status);
+
+ALTER TABLE public.research_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and processed with the service-role key; owners can only read them
+CREATE POLICY "Users can view their own research jobs" ON public.research_jobs FOR
+SELECT USING (auth.uid() = user_id);
+
+-- Claims the next runnable job for a worker.
+-- Stale 'running' jobs (worker crashed) are requeued first; workers refresh locked_at
+-- every minute while a job runs, so only silent ones go stale. Candidates are locked
+-- with SKIP LOCKED so several workers can poll at once, and a per-user advisory
+-- lock makes the concurrency check race-free.
+CREATE OR REPLACE FUNCTION public.claim_research_job(
+    worker_id TEXT,
+    max_per_user INTEGER DEFAULT 2,
+    stale_after_seconds INTEGER DEFAULT 600
+)
+RETURNS SETOF public.research_jobs AS $$
+DECLARE
+    candidate public.research_jobs;
+BEGIN
+    UPDATE public.research_jobs
+    SET status = 'queued',
+        locked_at = NULL,
+        locked_by = NULL,
+        last_error = 'Worker stopped responding',
+        updated_at = timezone('utc'::text, now())
+    WHERE status = 'running'
+      AND locked_at < timezone('utc'::text, now()) - make_interval(secs => stale_after_seconds);
+
+    FOR candidate IN
+        SELECT * FROM public.research_jobs
+        WHERE status = 'queued'
+          AND run_after <= timezone('utc'::text, now())
+        ORDER BY run_after, created_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        CONTINUE WHEN NOT pg_try_advisory_xact_lock(hashtext(candidate.user_id::text));
+        CONTINUE WHEN (
+            SELECT count(*) FROM public.research_jobs
+            WHERE user_id = candidate.user_id AND status = 'running'
+        ) >= max_per_user;
+
+        RETURN QUERY
+        UPDATE public.research_jobs
+        SET status = 'running',
+            attempts = attempts + 1,
+            locked_at = timezone('utc'::text, now()),
+            locked_by = worker_id,
+            updated_at = timezone('utc'::text, now())
+        WHERE id = candidate.id
+        RETURNING *;
+        RETURN;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE EXECUTE ON FUNCTION public.claim_research_job(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- 14. Streaming Research Progress
+-- The worker streams the model's answer and stores the fields that already pass
+-- schema validation, so the detail page can render sections as they arrive.
+ALTER TABLE public.research_jobs
+ADD COLUMN IF NOT EXISTS partial_result JSONB;
+
+-- 15. Research Versions
+-- Every research run is kept as an immutable version. ideas.analysis_result always
+-- mirrors the latest version; older ones stay available for comparison.
+CREATE TABLE IF NOT EXISTS public.research_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    analysis_result JSONB NOT NULL,
+    model TEXT,
+    provider TEXT,
+    -- SHA-256 of the system + user prompt sent to the model
+    prompt_hash TEXT,
+    research_job_id UUID REFERENCES public.research_jobs(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (idea_id, version)
+);
+
+ALTER TABLE public.research_versions ENABLE ROW LEVEL SECURITY;
+
+-- Versions are written by the research worker with the service-role key
+CREATE POLICY "Users can view their own research versions" ON public.research_versions FOR
+SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.prevent_research_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Only the ON DELETE SET NULL of research_job_id may touch a version
+    IF (to_jsonb(NEW) - 'research_job_id') IS DISTINCT FROM (to_jsonb(OLD) - 'research_job_id')
+        OR (NEW.research_job_id IS NOT NULL AND NEW.research_job_id IS DISTINCT FROM OLD.research_job_id) THEN
+        RAISE EXCEPTION 'research versions are immutable';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_research_version_update ON public.research_versions;
+CREATE TRIGGER on_research_version_update
+BEFORE UPDATE ON public.research_versions
+FOR EACH ROW EXECUTE FUNCTION public.prevent_research_version_update();
+
+-- Backfill: keep the current analysis of already researched ideas as version 1
+INSERT INTO public.research_versions (idea_id, user_id, version, analysis_result, created_at)
+SELECT id, user_id, 1, analysis_result, COALESCE(research_completed_at, updated_at)
+FROM public.ideas
+WHERE status = 'Ready'
+  AND analysis_result ? 'readinessScore'
+  AND NOT EXISTS (SELECT 1 FROM public.research_versions v WHERE v.idea_id = ideas.id);
+
+-- 16. Encrypted AI Provider Keys
+-- Users' API keys are encrypted server-side (AES-256-GCM, see lib/credentials.ts) and
+-- stored per provider profile. key_version names the CREDENTIALS_ENCRYPTION_KEYS entry
+-- used, so keys can be rotated with scripts/rotateCredentialKeys.ts.
+CREATE TABLE IF NOT EXISTS public.ai_credentials (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    profile_id TEXT NOT NULL,
+    -- '<iv>:<auth tag>:<ciphertext>', base64
+    encrypted_key TEXT NOT NULL,
+    key_version INTEGER NOT NULL,
+    -- Masked form shown in settings, e.g. 'sk-…3f9a'
+    key_hint TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    UNIQUE (user_id, profile_id)
+);
+
+ALTER TABLE public.ai_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Keys are written and decrypted with the service-role key. Owners may list their
+-- own rows, but the ciphertext column is never exposed to browser roles.
+CREATE POLICY "Users can view their own AI credentials" ON public.ai_credentials FOR
+SELECT USING (auth.uid() = user_id);
+
+REVOKE ALL ON public.ai_credentials FROM anon, authenticated;
+GRANT SELECT (id, user_id, profile_id, key_version, key_hint, created_at, updated_at)
+ON public.ai_credentials TO authenticated;
+
+-- Jobs queued before keys moved server-side may still carry a plain-text key;
+-- drop their routing so any still queued run on the server default provider
+UPDATE public.research_jobs
+SET payload = payload - 'config'
+WHERE payload -> 'config' ? 'apiKey'
+   OR jsonb_path_exists(payload, '$.config.profiles[*].apiKey');
+
+-- 17. AI Usage and Budgets
+-- Every completion is logged with its token counts and a cost estimate from
+-- config/aiPricing.ts (NULL when the model isn't priced). Rows are written with the
+-- service-role key; an optional monthly budget blocks new research once it's spent.
+CREATE TABLE IF NOT EXISTS public.ai_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    idea_id UUID REFERENCES public.ideas(id) ON DELETE SET NULL,
+    discovery_session_id UUID REFERENCES public.discovery_sessions(id) ON DELETE SET NULL,
+    task TEXT NOT NULL CHECK (task IN ('discovery', 'synthesis', 'research', 'capture')),
+    model TEXT NOT NULL,
+    provider TEXT,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    estimated_cost_usd NUMERIC(12, 6),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_created ON public.ai_usage(user_id, created_at);
+
+ALTER TABLE public.ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI usage" ON public.ai_usage FOR
+SELECT USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS public.ai_budgets (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    monthly_limit_usd NUMERIC(10, 2) NOT NULL CHECK (monthly_limit_usd > 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI budget" ON public.ai_budgets FOR
+SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own AI budget" ON public.ai_budgets FOR
+INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own AI budget" ON public.ai_budgets FOR
+UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own AI budget" ON public.ai_budgets FOR DELETE USING (auth.uid() = user_id);
+
+-- Usage grouped by month, model and idea for the usage page and budget checks.
+-- Runs as the caller, so RLS limits browser callers to their own rows.
+CREATE OR REPLACE FUNCTION public.ai_usage_rollup(p_user_id UUID, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    month DATE,
+    model TEXT,
+    idea_id UUID,
+    calls BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT,
+    cost_usd NUMERIC,
+    unpriced_calls BIGINT
+) AS $$
+    SELECT date_trunc('month', u.created_at AT TIME ZONE 'utc')::date,
+        u.model,
+        u.idea_id,
+        count(*),
+        COALESCE(sum(u.prompt_tokens), 0),
+        COALESCE(sum(u.completion_tokens), 0),
+        COALESCE(sum(u.estimated_cost_usd), 0),
+        count(*) FILTER (WHERE u.estimated_cost_usd IS NULL)
+    FROM public.ai_usage u
+    WHERE u.user_id = p_user_id
+      AND u.created_at >= p_since
+    GROUP BY 1, 2, 3;
+$$ LANGUAGE sql STABLE;
+
+-- 18. Discovery Facts Checklist
+-- What discovery has learned so far, per phase objective (see the playbooks in
+-- config/discoveryPlaybooks.ts): {phase: [{id, label, covered, confidence, fact}]}.
+-- Updated every turn; synthesis is generated from it instead of the transcript.
+ALTER TABLE public.discovery_sessions
+ADD COLUMN IF NOT EXISTS extracted_facts JSONB NOT NULL DEFAULT '{}';
+
+-- 19. Discovery Playbooks
+-- The playbook (config/discoveryPlaybooks.ts) a session follows, and the version it
+-- was started with, so changes to a playbook don't affect sessions already running.
+-- Existing sessions used the original four-phase flow, now the 'general' playbook v1.
+ALTER TABLE public.discovery_sessions
+ADD COLUMN IF NOT EXISTS playbook_id TEXT NOT NULL DEFAULT 'general',
+ADD COLUMN IF NOT EXISTS playbook_version INTEGER NOT NULL DEFAULT 1;
+
+-- 20. Discovery on Researched Ideas
+-- "Send to Discovery" seeds a session with a summary of the idea's last research
+-- (competitors, score, action plan), included in every prompt of the session.
+-- When the session completes it is linked via ideas.discovery_session_id and the
+-- idea is re-researched with the refined prompt.
+ALTER TABLE public.discovery_sessions
+ADD COLUMN IF NOT EXISTS research_context TEXT;
+
+-- 21. Discovery Syntheses
+-- The validated synthesis output of a completed session (see lib/discoverySyntheses.ts):
+-- TL;DR, research prompt and founder-fit, with the founder-fit score and evaluation
+-- criteria in their own columns so they can be queried. Written with the service-role
+-- key; regenerating a session's synthesis replaces its row.
+CREATE TABLE IF NOT EXISTS public.discovery_syntheses (
+    session_id UUID PRIMARY KEY REFERENCES public.discovery_sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    idea_id UUID REFERENCES public.ideas(id) ON DELETE SET NULL,
+    playbook_id TEXT NOT NULL,
+    playbook_version INTEGER NOT NULL,
+    -- NULL only for backfilled sessions whose TL;DR couldn't be recovered
+    tldr JSONB,
+    full_prompt JSONB NOT NULL,
+    -- NULL for playbooks without a founder-fit phase
+    founder_fit JSONB,
+    founder_fit_score SMALLINT CHECK (founder_fit_score BETWEEN 1 AND 10),
+    evaluation_criteria TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_discovery_syntheses_user ON public.discovery_syntheses(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_discovery_syntheses_idea ON public.discovery_syntheses(idea_id);
+
+ALTER TABLE public.discovery_syntheses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own discovery syntheses" ON public.discovery_syntheses FOR
+SELECT USING (auth.uid() = user_id);
+
+-- discovery_sessions.refined_prompt and founder_fit are no longer written. Existing
+-- sessions are copied over with `npm run backfill-syntheses` (it also recovers the
+-- TL;DR those columns never stored); drop the columns once that has run.
+COMMENT ON COLUMN public.discovery_sessions.refined_prompt IS 'Deprecated: superseded by discovery_syntheses.full_prompt';
+COMMENT ON COLUMN public.discovery_sessions.founder_fit IS 'Deprecated: superseded by discovery_syntheses.founder_fit';
+
+-- 22. Team Workspaces
+-- Ideas belong to a workspace instead of a single user. Members are owners (manage
+-- members and invitations), editors (add and change ideas) or viewers (read only).
+-- Every user has a personal workspace, created on first use; existing ideas move
+-- into their owner's. ideas.user_id stays as the idea's creator.
+CREATE TABLE IF NOT EXISTS public.workspaces (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+    created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    personal BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_workspaces_personal ON public.workspaces(created_by) WHERE personal;
+
+CREATE TABLE IF NOT EXISTS public.workspace_members (
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL,
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user ON public.workspace_members(user_id);
+
+-- Invitations are links carrying a random token, of which only the SHA-256 hash is
+-- stored (as with share links). Only the invited email address can accept one.
+CREATE TABLE IF NOT EXISTS public.workspace_invitations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    workspace_id UUID NOT NULL REFERENCES public.workspaces(id) ON DELETE CASCADE,
+    -- Stored lowercase
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    token_hash TEXT NOT NULL UNIQUE,
+    invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_invitations_workspace ON public.workspace_invitations(workspace_id);
+
+-- The caller's role in a workspace (NULL if not a member). SECURITY DEFINER so the
+-- policies below can check membership without recursing into workspace_members' own RLS.
+CREATE OR REPLACE FUNCTION public.workspace_role(ws UUID)
+RETURNS TEXT AS $$
+    SELECT role FROM public.workspace_members WHERE workspace_id = ws AND user_id = auth.uid()
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.can_edit_workspace(ws UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(public.workspace_role(ws) IN ('owner', 'editor'), false)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Returns a user's personal workspace, creating it (with them as owner) if needed
+CREATE OR REPLACE FUNCTION public.ensure_personal_workspace(uid UUID)
+RETURNS UUID AS $$
+DECLARE
+    ws UUID;
+BEGIN
+    SELECT id INTO ws FROM public.workspaces WHERE created_by = uid AND personal;
+    IF ws IS NULL THEN
+        INSERT INTO public.workspaces (name, created_by, personal)
+        VALUES ('Personal', uid, true)
+        ON CONFLICT (created_by) WHERE personal DO NOTHING
+        RETURNING id INTO ws;
+        -- Created concurrently by another request
+        IF ws IS NULL THEN
+            SELECT id INTO ws FROM public.workspaces WHERE created_by = uid AND personal;
+        END IF;
+    END IF;
+    INSERT INTO public.workspace_members (workspace_id, user_id, role)
+    VALUES (ws, uid, 'owner')
+    ON CONFLICT (workspace_id, user_id) DO NOTHING;
+    RETURN ws;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by the server (service-role key) and the trigger below, never by browsers
+REVOKE EXECUTE ON FUNCTION public.ensure_personal_workspace(UUID) FROM PUBLIC, anon, authenticated;
+
+ALTER TABLE public.ideas
+ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE;
+
+-- Ideas inserted without a workspace (e.g. by older clients) go to the creator's personal one
+CREATE OR REPLACE FUNCTION public.default_idea_workspace()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.workspace_id IS NULL THEN
+        NEW.workspace_id = public.ensure_personal_workspace(NEW.user_id);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_idea_insert_workspace ON public.ideas;
+CREATE TRIGGER on_idea_insert_workspace
+BEFORE INSERT ON public.ideas
+FOR EACH ROW EXECUTE FUNCTION public.default_idea_workspace();
+
+-- Backfill: existing ideas move into their owner's personal workspace
+UPDATE public.ideas
+SET workspace_id = public.ensure_personal_workspace(user_id)
+WHERE workspace_id IS NULL;
+
+ALTER TABLE public.ideas ALTER COLUMN workspace_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ideas_workspace_created ON public.ideas(workspace_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ideas_workspace_research_completed ON public.ideas(workspace_id, research_completed_at DESC);
+
+-- Idea access follows membership instead of ownership. search_ideas runs as the
+-- caller, so search now covers every workspace the caller belongs to.
+DROP POLICY IF EXISTS "Users can view their own ideas" ON public.ideas;
+DROP POLICY IF EXISTS "Users can insert their own ideas" ON public.ideas;
+DROP POLICY IF EXISTS "Users can update their own ideas" ON public.ideas;
+DROP POLICY IF EXISTS "Users can delete their own ideas" ON public.ideas;
+
+CREATE POLICY "Members can view workspace ideas" ON public.ideas FOR
+SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+-- A new idea may only point at a voice note or snapshot in its creator's own folder
+CREATE POLICY "Editors can insert workspace ideas" ON public.ideas FOR
+INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND public.can_edit_workspace(workspace_id)
+    AND (asset_path IS NULL OR split_part(asset_path, '/', 1) = auth.uid()::text)
+);
+CREATE POLICY "Editors can update workspace ideas" ON public.ideas FOR
+UPDATE USING (public.can_edit_workspace(workspace_id)) WITH CHECK (public.can_edit_workspace(workspace_id));
+CREATE POLICY "Editors can delete workspace ideas" ON public.ideas FOR DELETE USING (public.can_edit_workspace(workspace_id));
+
+-- Editors may change any idea of their workspace, but never who created it or which
+-- captured file it points at: members can read an idea's asset (see the storage policy
+-- below), so a rewritten asset_path would expose someone else's vault file.
+CREATE OR REPLACE FUNCTION public.prevent_idea_owner_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id OR NEW.asset_path IS DISTINCT FROM OLD.asset_path THEN
+        RAISE EXCEPTION 'an idea''s creator and captured asset cannot be changed';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_idea_owner_update ON public.ideas;
+CREATE TRIGGER on_idea_owner_update
+BEFORE UPDATE ON public.ideas
+FOR EACH ROW EXECUTE FUNCTION public.prevent_idea_owner_change();
+
+-- Research runs and versions follow their idea's workspace too: any member can follow
+-- a run and read its history, whoever queued it (research_jobs.user_id is who pays).
+DROP POLICY IF EXISTS "Users can view their own research jobs" ON public.research_jobs;
+DROP POLICY IF EXISTS "Users can view their own research versions" ON public.research_versions;
+
+CREATE POLICY "Members can view workspace research jobs" ON public.research_jobs FOR
+SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.ideas i
+        WHERE i.id = research_jobs.idea_id
+          AND public.workspace_role(i.workspace_id) IS NOT NULL
+    )
+);
+CREATE POLICY "Members can view workspace research versions" ON public.research_versions FOR
+SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.ideas i
+        WHERE i.id = research_versions.idea_id
+          AND public.workspace_role(i.workspace_id) IS NOT NULL
+    )
+);
+
+-- Voice notes and snapshots stay in their uploader's folder; members may view those of
+-- ideas in their workspaces, as long as the file is in the idea creator's folder
+CREATE POLICY "Members can view workspace idea assets"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'vault-assets'
+    AND EXISTS (
+        SELECT 1 FROM public.ideas i
+        WHERE i.asset_path = storage.objects.name
+          AND split_part(storage.objects.name, '/', 1) = i.user_id::text
+          AND public.workspace_role(i.workspace_id) IS NOT NULL
+    )
+);
+
+-- Workspaces, memberships and invitations are written with the service-role key
+-- (src/app/actions/workspaces.ts); browsers can only read what their role allows.
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspace_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their workspaces" ON public.workspaces FOR
+SELECT USING (public.workspace_role(id) IS NOT NULL);
+CREATE POLICY "Members can view their workspace's members" ON public.workspace_members FOR
+SELECT USING (public.workspace_role(workspace_id) IS NOT NULL);
+CREATE POLICY "Owners can view their workspace's invitations" ON public.workspace_invitations FOR
+SELECT USING (public.workspace_role(workspace_id) = 'owner');
+
+-- 23. Idea Comments
+-- Threaded discussion on an idea's report, either on the report as a whole or on
+-- one competitor or action-plan step (anchor_key is the competitor name or step
+-- number; anchor_label keeps what was commented on in case the report is re-run).
+-- Replies point at the thread's first comment, which also carries its resolved
+-- state. Access follows the idea's workspace: members read, editors comment.
+-- Written with the service-role key (src/app/actions/comments.ts).
+CREATE TABLE IF NOT EXISTS public.idea_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+    parent_id UUID REFERENCES public.idea_comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    anchor_section TEXT NOT NULL DEFAULT 'report' CHECK (anchor_section IN ('report', 'competitors', 'actionPlan')),
+    anchor_key TEXT,
+    anchor_label TEXT,
+    body TEXT NOT NULL CHECK (length(trim(body)) > 0),
+    mentions UUID[] NOT NULL DEFAULT '{}',
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_idea_comments_idea_created ON public.idea_comments(idea_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_idea_comments_parent ON public.idea_comments(parent_id);
+
+-- When each user last opened an idea's comments; later comments by others are unread
+CREATE TABLE IF NOT EXISTS public.idea_comment_reads (
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    idea_id UUID NOT NULL REFERENCES public.ideas(id) ON DELETE CASCADE,
+    last_read_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (user_id, idea_id)
+);
+
+ALTER TABLE public.idea_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.idea_comment_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view comments on workspace ideas" ON public.idea_comments FOR
+SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.ideas i
+        WHERE i.id = idea_comments.idea_id
+          AND public.workspace_role(i.workspace_id) IS NOT NULL
+    )
+);
+CREATE POLICY "Users can view their own comment reads" ON public.idea_comment_reads FOR
+SELECT USING (auth.uid() = user_id);
+
+-- Unread comments per idea of a workspace for the dashboard cards. Runs as the
+-- caller, so RLS limits browser callers to workspaces they belong to.
+CREATE OR REPLACE FUNCTION public.idea_comment_unread(p_user_id UUID, p_workspace_id UUID)
+RETURNS TABLE (idea_id UUID, unread INTEGER, mentioned BOOLEAN) AS $$
+    SELECT c.idea_id,
+           COUNT(*)::INTEGER,
+           bool_or(p_user_id = ANY (c.mentions))
+    FROM public.idea_comments c
+    JOIN public.ideas i ON i.id = c.idea_id
+    LEFT JOIN public.idea_comment_reads r ON r.idea_id = c.idea_id AND r.user_id = p_user_id
+    WHERE i.workspace_id = p_workspace_id
+      AND c.user_id <> p_user_id
+      AND (r.last_read_at IS NULL OR c.created_at > r.last_read_at)
+    GROUP BY c.idea_id
+$$ LANGUAGE sql STABLE;
+
+-- 24. Discovery Turn Revisions
+-- Bumped by every saved turn. A turn is only saved if the session is still at the
+-- revision it was prepared from, so overlapping turns (a double submit, a stream
+-- plus a retry) can't overwrite each other's messages.
+ALTER TABLE public.discovery_sessions
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,29 @@
+/**
+ * @module scripts/backfillDiscoverySyntheses
+ * @description Copies the synthesis of sessions completed before discovery_syntheses
+ * existed from discovery_sessions.refined_prompt / founder_fit into that table.
+ *
+ * Run once after applying schema.sql section 21. The TL;DR, which older sessions
+ * didn't store, is recovered from the transcript where possible. Sessions that
+ * already have a row are skipped, so it is safe to re-run. Requires
+ * SUPABASE_SERVICE_ROLE_KEY.
+ *
+ * @usage npm run backfill-syntheses [-- --dry-run]
+ * @purpose Moves existing sessions to the normalized synthesis storage.
+ */
+
+import { backfillSyntheses } from '../src/lib/discoverySyntheses';
+
+async function main() {
+    const dryRun = process.argv.includes('--dry-run');
+    console.log(`[Syntheses] Backfilling discovery syntheses${dryRun ? ' (dry run)' : ''}...`);
+    const { copied, skipped, failed } = await backfillSyntheses({ dryRun });
+    console.log(`[Syntheses] ${dryRun ? 'Would copy' : 'Copied'} ${copied} session(s), ${skipped} skipped, ${failed} failed`);
+
+    if (failed > 0) process.exit(1);
+}
+
+main().catch(error => {
+    console.error('[Syntheses] Fatal error:', error);
+    process.exit(1);
+});
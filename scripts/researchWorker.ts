@@ -0,0 +1,81 @@
+/**
+ * @module scripts/researchWorker
+ * @description Background worker that processes the research job queue.
+ *
+ * Polls the research_jobs table, claims runnable jobs (respecting the per-user
+ * concurrency limit enforced by claim_research_job) and runs them to completion.
+ * Several workers can run side by side; claims use SKIP LOCKED so a job is only
+ * ever processed once. Requires SUPABASE_SERVICE_ROLE_KEY.
+ *
+ * @usage npm run worker            (keeps polling until Ctrl+C)
+ * @usage npm run worker -- --once  (drains runnable jobs, then exits; handy for cron)
+ * @purpose Keeps research running after the browser tab that requested it is closed.
+ */
+
+import { hostname } from 'os';
+import { claimResearchJob, processResearchJob, type ResearchJobRow } from '../src/lib/researchJobs';
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const CONCURRENCY = Number(process.env.RESEARCH_WORKER_CONCURRENCY) || 2;
+const POLL_INTERVAL_MS = Number(process.env.RESEARCH_WORKER_POLL_MS) || 2000;
+const RUN_ONCE = process.argv.includes('--once');
+
+let stopping = false;
+const inFlight = new Set<Promise<void>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Starts a job without waiting for it, tracking it until it settles.
+ */
+function start(job: ResearchJobRow) {
+    const task: Promise<void> = processResearchJob(job)
+        .catch(error => console.error(`[Worker] Job ${job.id} crashed:`, error))
+        .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+}
+
+async function main() {
+    console.log(`[Worker] ${WORKER_ID} started (concurrency ${CONCURRENCY}${RUN_ONCE ? ', --once' : ''})`);
+
+    while (!stopping) {
+        if (inFlight.size >= CONCURRENCY) {
+            await Promise.race(inFlight);
+            continue;
+        }
+
+        let job: ResearchJobRow | null = null;
+        try {
+            job = await claimResearchJob(WORKER_ID);
+        } catch (error) {
+            console.error('[Worker] Claim failed:', error);
+        }
+
+        if (job) {
+            start(job);
+            continue;
+        }
+
+        if (RUN_ONCE && inFlight.size === 0) break;
+        await sleep(POLL_INTERVAL_MS);
+    }
+
+    if (inFlight.size > 0) {
+        console.log(`[Worker] Waiting for ${inFlight.size} running job(s) to finish...`);
+        await Promise.all(inFlight);
+    }
+    console.log('[Worker] Stopped');
+}
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+        if (stopping) process.exit(1);
+        console.log(`[Worker] ${signal} received, finishing current jobs (repeat to force quit)`);
+        stopping = true;
+    });
+}
+
+main().catch(error => {
+    console.error('[Worker] Fatal error:', error);
+    process.exit(1);
+});
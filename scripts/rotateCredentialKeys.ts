@@ -0,0 +1,27 @@
+/**
+ * @module scripts/rotateCredentialKeys
+ * @description Re-encrypts stored AI provider keys with the active encryption key.
+ *
+ * To rotate: generate a key (`openssl rand -base64 32`), put it at the front of
+ * CREDENTIALS_ENCRYPTION_KEYS with a higher version (e.g. `2:<new>,1:<old>`),
+ * deploy, then run this script. Once it reports no failures the old entry can
+ * be removed. Requires SUPABASE_SERVICE_ROLE_KEY.
+ *
+ * @usage npm run rotate-credentials
+ * @purpose Lets the credential encryption key be replaced without users re-entering keys.
+ */
+
+import { activeKeyVersion, reencryptCredentials } from '../src/lib/credentials';
+
+async function main() {
+    console.log(`[Credentials] Re-encrypting keys with key version ${activeKeyVersion()}...`);
+    const { rotated, failed } = await reencryptCredentials();
+    console.log(`[Credentials] Re-encrypted ${rotated} key(s), ${failed} failed`);
+
+    if (failed > 0) process.exit(1);
+}
+
+main().catch(error => {
+    console.error('[Credentials] Fatal error:', error);
+    process.exit(1);
+});
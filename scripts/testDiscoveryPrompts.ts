@@ -3,22 +3,20 @@
  * @description Test script for iterating on discovery prompts locally.
  * 
  * Run this script to simulate the discovery conversation flow with mock responses.
- * Use it to refine prompts in src/config/discoveryPrompts.ts before testing in the app.
+ * Use it to refine prompts in src/config/discoveryPrompts.ts and the playbooks in
+ * src/config/discoveryPlaybooks.ts before testing in the app.
  * 
- * @usage npx tsx scripts/testDiscoveryPrompts.ts
+ * @usage npx tsx scripts/testDiscoveryPrompts.ts [playbookId]
  * @purpose Enables rapid prompt iteration without full app deployment.
  */
 
 import OpenAI from 'openai';
 import * as readline from 'readline';
-import {
-    DISCOVERY_SYSTEM_PROMPT,
-    PHASE_PROMPTS,
-    DISCOVERY_WELCOME_MESSAGE,
-    PHASE_TRANSITION_SIGNALS,
-    DISCOVERY_PHASES,
-    type DiscoveryPhase
-} from '../src/config/discoveryPrompts';
+import { DISCOVERY_PHASES } from '../src/config/discoveryPrompts';
+import { findPhase, getPlaybook, nextPhase, phaseLabel, systemPromptFor } from '../src/lib/discoveryPlaybooks';
+import { parseDiscoveryReply, phaseControlPrompt, resolveNextPhase, usesPhaseControl } from '../src/lib/phaseControl';
+import { mergePhaseFacts } from '../src/lib/discoveryFacts';
+import type { DiscoveryFacts } from '../src/types';
 
 // Load environment variables
 import * as dotenv from 'dotenv';
@@ -36,39 +34,6 @@ interface Message {
     content: string;
 }
 
-/**
- * Detects phase transition based on AI response.
- */
-function detectPhaseTransition(currentPhase: DiscoveryPhase, aiResponse: string): DiscoveryPhase {
-    const lowerResponse = aiResponse.toLowerCase();
-
-    if (currentPhase === DISCOVERY_PHASES.VISION) {
-        for (const signal of PHASE_TRANSITION_SIGNALS.vision_to_gaps) {
-            if (lowerResponse.includes(signal.toLowerCase())) {
-                return DISCOVERY_PHASES.GAPS;
-            }
-        }
-    }
-
-    if (currentPhase === DISCOVERY_PHASES.GAPS) {
-        for (const signal of PHASE_TRANSITION_SIGNALS.gaps_to_founder_fit) {
-            if (lowerResponse.includes(signal.toLowerCase())) {
-                return DISCOVERY_PHASES.FOUNDER_FIT;
-            }
-        }
-    }
-
-    if (currentPhase === DISCOVERY_PHASES.FOUNDER_FIT) {
-        for (const signal of PHASE_TRANSITION_SIGNALS.founder_fit_to_synthesis) {
-            if (lowerResponse.includes(signal.toLowerCase())) {
-                return DISCOVERY_PHASES.SYNTHESIS;
-            }
-        }
-    }
-
-    return currentPhase;
-}
-
 /**
  * Main interactive test loop.
  */
@@ -83,38 +48,36 @@ async function runDiscoveryTest() {
     console.log('  /quit      - Exit the test');
     console.log('═'.repeat(50));
 
+    const playbook = getPlaybook(process.argv[2]);
+    console.log(`Playbook: ${playbook.name} (${playbook.id} v${playbook.version})`);
+
     const rl = readline.createInterface({
         input: process.stdin,
         output: process.stdout
     });
 
-    let currentPhase: DiscoveryPhase = DISCOVERY_PHASES.VISION;
+    let currentPhase = playbook.phases[0].id;
     const messages: Message[] = [];
+    let facts: DiscoveryFacts = {};
 
     // Show welcome message
     console.log('\n🤖 Assistant:');
-    console.log(DISCOVERY_WELCOME_MESSAGE);
+    console.log(playbook.welcomeMessage);
     console.log();
 
     messages.push({
         role: 'assistant',
-        content: DISCOVERY_WELCOME_MESSAGE
+        content: playbook.welcomeMessage
     });
 
     const prompt = (query: string): Promise<string> => {
         return new Promise(resolve => rl.question(query, resolve));
     };
 
-    const phaseLabels: Record<DiscoveryPhase, string> = {
-        vision: '💡 Vision Extraction',
-        gaps: '🎯 Gap Analysis',
-        founder_fit: '👤 Founder Fit',
-        synthesis: '✨ Synthesis',
-        complete: '✅ Complete'
-    };
+    const label = (phaseId: string) => phaseLabel(phaseId, playbook.id);
 
     while (true) {
-        const userInput = await prompt(`\n[${phaseLabels[currentPhase]}] You: `);
+        const userInput = await prompt(`\n[${label(currentPhase)}] You: `);
 
         if (userInput.startsWith('/')) {
             const command = userInput.slice(1).toLowerCase();
@@ -126,16 +89,17 @@ async function runDiscoveryTest() {
             }
 
             if (command === 'phase') {
-                console.log(`\n📍 Current Phase: ${phaseLabels[currentPhase]}`);
+                console.log(`\n📍 Current Phase: ${label(currentPhase)}`);
                 continue;
             }
 
             if (command === 'advance') {
-                const phases: DiscoveryPhase[] = ['vision', 'gaps', 'founder_fit', 'synthesis', 'complete'];
-                const currentIndex = phases.indexOf(currentPhase);
-                if (currentIndex < phases.length - 1) {
-                    currentPhase = phases[currentIndex + 1];
-                    console.log(`\n⏩ Advanced to: ${phaseLabels[currentPhase]}`);
+                const advanced = currentPhase === DISCOVERY_PHASES.SYNTHESIS
+                    ? DISCOVERY_PHASES.COMPLETE
+                    : nextPhase(playbook, currentPhase);
+                if (advanced !== currentPhase) {
+                    currentPhase = advanced;
+                    console.log(`\n⏩ Advanced to: ${label(currentPhase)}`);
                 } else {
                     console.log('\n⚠️ Already at final phase');
                 }
@@ -163,12 +127,19 @@ async function runDiscoveryTest() {
         });
 
         // Build prompt for current phase
-        const systemPrompt = `${DISCOVERY_SYSTEM_PROMPT}\n\n${PHASE_PROMPTS[currentPhase]}`;
+        const phase = findPhase(playbook, currentPhase);
+        const isSynthesis = currentPhase === DISCOVERY_PHASES.SYNTHESIS;
+        const phasePrompt = isSynthesis
+            ? `${playbook.synthesis.prompt}\n\nUse this exact JSON schema:\n${playbook.synthesis.schema}`
+            : phase?.prompt;
+        const systemPrompt = [systemPromptFor(playbook), phasePrompt, phaseControlPrompt(phase, facts)]
+            .filter(Boolean)
+            .join('\n\n');
 
         try {
             console.log('\n🔄 Thinking...');
 
-            const isSynthesis = currentPhase === DISCOVERY_PHASES.SYNTHESIS;
+            const phaseControl = usesPhaseControl(phase);
 
             const response = await openai.chat.completions.create({
                 model: MODEL,
@@ -179,10 +150,16 @@ async function runDiscoveryTest() {
                         content: m.content
                     }))
                 ],
-                ...(isSynthesis && { response_format: { type: 'json_object' as const } })
+                ...((isSynthesis || phaseControl) && { response_format: { type: 'json_object' as const } })
             });
 
-            const aiContent = response.choices[0].message.content || 'No response';
+            const rawContent = response.choices[0].message.content || 'No response';
+            const parsed = parseDiscoveryReply(rawContent, phase);
+            const aiContent = parsed.reply;
+            if (parsed.progress && phase) {
+                facts = mergePhaseFacts(facts, phase, parsed.progress);
+                parsed.progress = facts[currentPhase] || parsed.progress;
+            }
 
             // Add to history
             messages.push({
@@ -194,8 +171,7 @@ async function runDiscoveryTest() {
             console.log('\n🤖 Assistant:');
             if (isSynthesis) {
                 try {
-                    const parsed = JSON.parse(aiContent);
-                    console.log(JSON.stringify(parsed, null, 2));
+                    console.log(JSON.stringify(JSON.parse(aiContent), null, 2));
                 } catch {
                     console.log(aiContent);
                 }
@@ -203,10 +179,16 @@ async function runDiscoveryTest() {
                 console.log(aiContent);
             }
 
+            if (phaseControl) {
+                console.log(parsed.progress
+                    ? `\n📋 ${parsed.progress.map(o => `${o.covered ? '✓' : '·'} ${o.id} (${o.confidence.toFixed(2)})`).join('  ')}`
+                    : '\n⚠️ No phase-control envelope; falling back to transition phrases');
+            }
+
             // Detect phase transition
-            const newPhase = detectPhaseTransition(currentPhase, aiContent);
+            const newPhase = resolveNextPhase(playbook, currentPhase, parsed);
             if (newPhase !== currentPhase) {
-                console.log(`\n🔄 Phase transition detected: ${phaseLabels[currentPhase]} → ${phaseLabels[newPhase]}`);
+                console.log(`\n🔄 Phase transition detected: ${label(currentPhase)} → ${label(newPhase)}`);
                 currentPhase = newPhase;
             }
 
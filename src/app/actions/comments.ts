@@ -0,0 +1,296 @@
+/**
+ * @module actions/comments
+ * @description Server Actions for threaded comments on idea reports.
+ *
+ * Threads attach to the report as a whole or to one competitor or action-plan
+ * step (see lib/ideaComments). Access follows the idea's workspace: any member
+ * can read the discussion, editors and owners can comment and resolve threads.
+ * Every action resolves the caller from the Supabase auth cookies and checks
+ * their role in the idea's workspace (lib/workspaceAccess).
+ *
+ * @dependencies Supabase, lib/workspaceAccess, lib/ideaComments
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { requireIdeaRole, requireWorkspaceRole, getUserEmails } from '@/lib/workspaceAccess';
+import { hasWorkspaceRole } from '@/lib/workspaceRoles';
+import { COMMENT_MAX_LENGTH, REPORT_ANCHOR, extractMentions } from '@/lib/ideaComments';
+import type { CommentAnchor, CommentSection, CommentThread, IdeaComment, UnreadComments } from '@/types';
+
+const COMMENT_SECTIONS: CommentSection[] = ['report', 'competitors', 'actionPlan'];
+const ANCHOR_LABEL_MAX_LENGTH = 500;
+
+interface CommentRow {
+    id: string;
+    idea_id: string;
+    parent_id: string | null;
+    user_id: string;
+    anchor_section: CommentSection;
+    anchor_key: string | null;
+    anchor_label: string | null;
+    body: string;
+    mentions: string[];
+    resolved_at: string | null;
+    resolved_by: string | null;
+    created_at: string;
+}
+
+const COMMENT_COLUMNS = 'id, idea_id, parent_id, user_id, anchor_section, anchor_key, anchor_label, body, mentions, resolved_at, resolved_by, created_at';
+
+const toComment = (row: CommentRow, authorEmail: string | null): IdeaComment => ({
+    id: row.id,
+    parentId: row.parent_id,
+    anchor: { section: row.anchor_section, key: row.anchor_key, label: row.anchor_label },
+    authorId: row.user_id,
+    authorEmail,
+    body: row.body,
+    mentions: row.mentions || [],
+    createdAt: row.created_at
+});
+
+/**
+ * Loads a comment, failing if it doesn't exist.
+ */
+async function getCommentRow(commentId: string): Promise<CommentRow> {
+    const { data } = await supabaseAdmin
+        .from('idea_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('id', commentId)
+        .maybeSingle();
+
+    if (!data) {
+        throw new Error('Comment not found');
+    }
+    return data as CommentRow;
+}
+
+/**
+ * Checks an anchor sent by the browser and trims its label.
+ */
+function normalizeAnchor(anchor: CommentAnchor): CommentAnchor {
+    if (!COMMENT_SECTIONS.includes(anchor.section)) {
+        throw new Error('Unknown report section');
+    }
+    if (anchor.section === 'report') return REPORT_ANCHOR;
+
+    const key = anchor.key?.trim();
+    if (!key) {
+        throw new Error('Choose what to comment on');
+    }
+    return {
+        section: anchor.section,
+        key,
+        label: anchor.label?.trim().slice(0, ANCHOR_LABEL_MAX_LENGTH) || null
+    };
+}
+
+/**
+ * Lists an idea's comment threads, oldest first.
+ *
+ * @param ideaId - The idea
+ * @returns The threads, the idea's workspace (for mention suggestions) and
+ *          whether the caller may comment
+ * @keyTechnologies Supabase, Supabase Auth Admin
+ */
+export async function listIdeaComments(ideaId: string): Promise<{
+    threads: CommentThread[];
+    workspaceId: string;
+    canComment: boolean;
+}> {
+    const userId = await requireUserId();
+    const { workspaceId, role } = await requireIdeaRole(userId, ideaId, 'viewer');
+
+    const { data, error } = await supabaseAdmin
+        .from('idea_comments')
+        .select(COMMENT_COLUMNS)
+        .eq('idea_id', ideaId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error listing comments:', error);
+        throw new Error('Failed to load comments');
+    }
+
+    const rows = data as CommentRow[];
+    const emails = await getUserEmails(rows.map(row => row.user_id));
+
+    const threads = new Map<string, CommentThread>();
+    for (const row of rows.filter(r => !r.parent_id)) {
+        threads.set(row.id, {
+            root: toComment(row, emails.get(row.user_id) || null),
+            replies: [],
+            resolvedAt: row.resolved_at,
+            resolvedBy: row.resolved_by
+        });
+    }
+    for (const row of rows.filter(r => r.parent_id)) {
+        threads.get(row.parent_id!)?.replies.push(toComment(row, emails.get(row.user_id) || null));
+    }
+
+    return { threads: [...threads.values()], workspaceId, canComment: hasWorkspaceRole(role, 'editor') };
+}
+
+/**
+ * Starts a thread or replies to one. Editors and owners only.
+ *
+ * Mentions are resolved against the workspace's members when saving; replies
+ * share their thread's anchor.
+ *
+ * @param ideaId - The idea
+ * @param body - The comment text
+ * @param target - Where a new thread attaches (default: the whole report), or the thread to reply to
+ * @returns The saved comment
+ */
+export async function addIdeaComment(
+    ideaId: string,
+    body: string,
+    target: { anchor?: CommentAnchor; parentId?: string } = {}
+): Promise<IdeaComment> {
+    const userId = await requireUserId();
+    const { workspaceId } = await requireIdeaRole(userId, ideaId, 'editor');
+
+    const text = body.trim();
+    if (!text) {
+        throw new Error('Comment is empty');
+    }
+    if (text.length > COMMENT_MAX_LENGTH) {
+        throw new Error(`Comments are limited to ${COMMENT_MAX_LENGTH} characters`);
+    }
+
+    let anchor = normalizeAnchor(target.anchor || REPORT_ANCHOR);
+    if (target.parentId) {
+        const parent = await getCommentRow(target.parentId);
+        // Threads are one level deep: replies always point at the first comment
+        if (parent.idea_id !== ideaId || parent.parent_id) {
+            throw new Error('Comment not found');
+        }
+        anchor = { section: parent.anchor_section, key: parent.anchor_key, label: parent.anchor_label };
+    }
+
+    const { data: memberRows } = await supabaseAdmin
+        .from('workspace_members')
+        .select('user_id')
+        .eq('workspace_id', workspaceId);
+
+    const emails = await getUserEmails((memberRows || []).map(row => row.user_id));
+    const members = [...emails].map(([memberId, email]) => ({ userId: memberId, email }));
+
+    const { data, error } = await supabaseAdmin
+        .from('idea_comments')
+        .insert({
+            idea_id: ideaId,
+            parent_id: target.parentId || null,
+            user_id: userId,
+            anchor_section: anchor.section,
+            anchor_key: anchor.key,
+            anchor_label: anchor.label,
+            body: text,
+            mentions: extractMentions(text, members).filter(id => id !== userId)
+        })
+        .select(COMMENT_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        console.error('Error adding comment:', error);
+        throw new Error('Failed to add comment');
+    }
+
+    return toComment(data as CommentRow, emails.get(userId) || null);
+}
+
+/**
+ * Resolves or reopens a thread. Editors and owners only.
+ *
+ * @param commentId - The thread's first comment
+ * @param resolved - Whether the discussion is settled
+ */
+export async function setCommentThreadResolved(commentId: string, resolved: boolean) {
+    const userId = await requireUserId();
+    const comment = await getCommentRow(commentId);
+    await requireIdeaRole(userId, comment.idea_id, 'editor');
+    if (comment.parent_id) {
+        throw new Error('Only whole threads can be resolved');
+    }
+
+    const { error } = await supabaseAdmin
+        .from('idea_comments')
+        .update(resolved
+            ? { resolved_at: new Date().toISOString(), resolved_by: userId }
+            : { resolved_at: null, resolved_by: null })
+        .eq('id', commentId);
+
+    if (error) {
+        console.error('Error resolving thread:', error);
+        throw new Error('Failed to update thread');
+    }
+}
+
+/**
+ * Deletes a comment, and its replies if it starts a thread. Authors can delete
+ * their own comments and workspace owners any comment.
+ *
+ * @param commentId - The comment
+ */
+export async function deleteIdeaComment(commentId: string) {
+    const userId = await requireUserId();
+    const comment = await getCommentRow(commentId);
+    await requireIdeaRole(userId, comment.idea_id, comment.user_id === userId ? 'viewer' : 'owner');
+
+    const { error } = await supabaseAdmin
+        .from('idea_comments')
+        .delete()
+        .eq('id', commentId);
+
+    if (error) {
+        console.error('Error deleting comment:', error);
+        throw new Error('Failed to delete comment');
+    }
+}
+
+/**
+ * Marks an idea's comments as read by the caller, clearing its unread badge.
+ *
+ * @param ideaId - The idea
+ */
+export async function markIdeaCommentsRead(ideaId: string) {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'viewer');
+
+    const { error } = await supabaseAdmin
+        .from('idea_comment_reads')
+        .upsert({ user_id: userId, idea_id: ideaId, last_read_at: new Date().toISOString() });
+
+    if (error) {
+        console.error('Error marking comments read:', error);
+    }
+}
+
+/**
+ * Counts comments by others the caller hasn't read yet, per idea of a workspace.
+ *
+ * @param workspaceId - The workspace shown on the dashboard
+ * @returns Unread comments by idea ID; ideas without any are left out
+ */
+export async function getUnreadComments(workspaceId: string): Promise<Record<string, UnreadComments>> {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, 'viewer');
+
+    const { data, error } = await supabaseAdmin.rpc('idea_comment_unread', {
+        p_user_id: userId,
+        p_workspace_id: workspaceId
+    });
+
+    if (error) {
+        console.error('Error counting unread comments:', error);
+        return {};
+    }
+
+    const unread: Record<string, UnreadComments> = {};
+    for (const row of (data || []) as Array<{ idea_id: string; unread: number; mentioned: boolean }>) {
+        unread[row.idea_id] = { count: row.unread, mentioned: row.mentioned };
+    }
+    return unread;
+}
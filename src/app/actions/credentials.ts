@@ -0,0 +1,138 @@
+/**
+ * @module actions/credentials
+ * @description Server Actions for users' stored AI provider keys.
+ *
+ * A key is sent to the server once, when the user enters or replaces it in
+ * Settings, and is stored encrypted. Afterwards the browser only ever sees a
+ * masked hint; AI requests look the key up server-side by provider profile.
+ * Every action acts on the caller from the Supabase auth cookies
+ * (lib/supabaseServer), never on a user ID sent by the browser.
+ *
+ * @dependencies Supabase, lib/credentials, lib/aiProviders
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { encryptApiKey, loadProviderKeys, maskApiKey, toCredentialSummary, type CredentialRow } from '@/lib/credentials';
+import { createProfileCandidate } from '@/lib/aiProviders';
+import type { AICredentialSummary, AIProviderProfile, ConnectionTestResult } from '@/types';
+
+const CONNECTION_TEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Lists the caller's stored keys as masked hints.
+ *
+ * @returns One summary per provider profile that has a stored key
+ */
+export async function listProviderKeys(): Promise<AICredentialSummary[]> {
+    const userId = await requireUserId();
+    const { data, error } = await supabaseAdmin
+        .from('ai_credentials')
+        .select('profile_id, key_hint, updated_at')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Failed to list provider keys:', error);
+        throw new Error('Failed to load stored API keys');
+    }
+
+    return ((data || []) as CredentialRow[]).map(toCredentialSummary);
+}
+
+/**
+ * Stores or replaces (rotates) the key for a provider profile.
+ *
+ * @param profileId - The provider profile the key belongs to
+ * @param apiKey - The plain-text key, encrypted before it is stored
+ * @returns The masked summary of the stored key
+ * @keyTechnologies Supabase, AES-256-GCM
+ */
+export async function saveProviderKey(profileId: string, apiKey: string): Promise<AICredentialSummary> {
+    const userId = await requireUserId();
+    const key = apiKey.trim();
+    if (!profileId || !key) {
+        throw new Error('A provider and API key are required');
+    }
+
+    const { encrypted, version } = encryptApiKey(key, userId, profileId);
+    const { data, error } = await supabaseAdmin
+        .from('ai_credentials')
+        .upsert({
+            user_id: userId,
+            profile_id: profileId,
+            encrypted_key: encrypted,
+            key_version: version,
+            key_hint: maskApiKey(key),
+            updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id,profile_id' })
+        .select('profile_id, key_hint, updated_at')
+        .single();
+
+    if (error || !data) {
+        console.error('Failed to save provider key:', error);
+        throw new Error('Failed to save API key');
+    }
+
+    return toCredentialSummary(data as CredentialRow);
+}
+
+/**
+ * Deletes the stored key for a provider profile.
+ *
+ * @param profileId - The provider profile whose key to delete
+ */
+export async function deleteProviderKey(profileId: string) {
+    const userId = await requireUserId();
+    const { error } = await supabaseAdmin
+        .from('ai_credentials')
+        .delete()
+        .eq('user_id', userId)
+        .eq('profile_id', profileId);
+
+    if (error) {
+        console.error('Failed to delete provider key:', error);
+        throw new Error('Failed to delete API key');
+    }
+}
+
+/**
+ * Checks that a provider profile is reachable and accepts its key by listing
+ * the provider's models, and warns when the default model isn't among them.
+ *
+ * @param profile - The profile to test (may have unsaved edits)
+ * @param apiKey - A key typed but not yet saved; the stored key is used otherwise
+ * @returns Whether the connection worked, with a short explanation
+ */
+export async function testProviderConnection(
+    profile: AIProviderProfile,
+    apiKey?: string
+): Promise<ConnectionTestResult> {
+    const userId = await requireUserId();
+    const storedKey = apiKey?.trim() || (await loadProviderKeys(userId))[profile.id];
+    const { client, model, provider } = createProfileCandidate(profile, storedKey);
+    const startedAt = Date.now();
+
+    try {
+        const models = await client.models.list({ timeout: CONNECTION_TEST_TIMEOUT_MS, maxRetries: 0 });
+        const modelIds = models.data.map(m => m.id);
+        const latencyMs = Date.now() - startedAt;
+
+        if (profile.defaultModel && modelIds.length > 0 && !modelIds.includes(profile.defaultModel)) {
+            return {
+                ok: true,
+                message: `Connected to ${provider}, but "${profile.defaultModel}" isn't in its model list`,
+                latencyMs
+            };
+        }
+
+        return { ok: true, message: `Connected to ${provider} (${model})`, latencyMs };
+    } catch (error) {
+        return {
+            ok: false,
+            message: error instanceof Error ? error.message : 'Connection failed',
+            latencyMs: Date.now() - startedAt
+        };
+    }
+}
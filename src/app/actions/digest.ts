@@ -0,0 +1,159 @@
+/**
+ * @module actions/digest
+ * @description Server Action for building the Weekly Digest of a user's vault.
+ *
+ * The digest is assembled server-side as a plain structured object so the same
+ * payload can be rendered in the dashboard, emailed, or exported later. The
+ * digest is always the caller's, resolved from the Supabase auth cookies: it
+ * covers the ideas of every workspace they belong to, whoever created them,
+ * and their own discovery sessions.
+ *
+ * @dependencies Supabase, lib/workspaceAccess
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { listMemberWorkspaceIds } from '@/lib/workspaceAccess';
+import { phaseLabel } from '@/lib/discoveryPlaybooks';
+import type {
+    DigestDiscoverySession,
+    DigestIdea,
+    DigestResearchRun,
+    DigestScoreChange,
+    Idea,
+    WeeklyDigest
+} from '@/types';
+
+const DIGEST_PERIOD_DAYS = 7;
+
+/**
+ * Generates the Weekly Digest for the signed-in user.
+ *
+ * Collects everything that happened in the caller's workspaces over the last seven days:
+ * newly captured ideas, research runs that finished (Ready) or failed (Error),
+ * readiness score changes from re-runs, and discovery sessions still in progress.
+ *
+ * @param periodEnd - Optional end of the digest window as an ISO date (defaults to now)
+ * @returns The structured digest
+ * @throws When periodEnd is not a valid date
+ * @keyTechnologies Supabase, Database Operations
+ */
+export async function generateWeeklyDigest(periodEnd?: string): Promise<WeeklyDigest> {
+    const userId = await requireUserId();
+    const end = periodEnd ? new Date(periodEnd) : new Date();
+    if (Number.isNaN(end.getTime())) {
+        throw new Error('Invalid digest period end');
+    }
+    const start = new Date(end.getTime() - DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+    const startIso = start.toISOString();
+    const endIso = end.toISOString();
+    const workspaceIds = await listMemberWorkspaceIds(userId);
+
+    const [createdResult, completedResult, sessionsResult] = await Promise.all([
+        supabaseAdmin
+            .from('ideas')
+            .select('*')
+            .in('workspace_id', workspaceIds)
+            .gte('created_at', startIso)
+            .lte('created_at', endIso)
+            .order('created_at', { ascending: false }),
+        supabaseAdmin
+            .from('ideas')
+            .select('*')
+            .in('workspace_id', workspaceIds)
+            .in('status', ['Ready', 'Error'])
+            .gte('research_completed_at', startIso)
+            .lte('research_completed_at', endIso)
+            .order('research_completed_at', { ascending: false }),
+        supabaseAdmin
+            .from('discovery_sessions')
+            .select('id, idea_id, current_phase, playbook_id, messages, created_at, ideas!discovery_sessions_idea_id_fkey(title)')
+            .eq('user_id', userId)
+            .eq('status', 'active')
+            .order('created_at', { ascending: false })
+    ]);
+
+    if (createdResult.error || completedResult.error || sessionsResult.error) {
+        console.error('Failed to build weekly digest:', createdResult.error || completedResult.error || sessionsResult.error);
+        throw new Error('Failed to generate weekly digest');
+    }
+
+    const createdIdeas = (createdResult.data || []) as Idea[];
+    const completedIdeas = (completedResult.data || []) as Idea[];
+
+    const newIdeas: DigestIdea[] = createdIdeas.map(idea => ({
+        id: idea.id,
+        title: idea.title,
+        inputType: idea.input_type,
+        status: idea.status,
+        createdAt: idea.created_at
+    }));
+
+    const completedResearch: DigestResearchRun[] = completedIdeas.map(idea => ({
+        ideaId: idea.id,
+        title: idea.title,
+        status: idea.status as DigestResearchRun['status'],
+        completedAt: idea.research_completed_at!,
+        readinessScore: idea.analysis_result?.readinessScore ?? null,
+        error: idea.status === 'Error' ? idea.analysis_result?.error || 'Unknown error' : null
+    }));
+
+    const scoreChanges: DigestScoreChange[] = completedIdeas
+        .filter(idea =>
+            idea.status === 'Ready' &&
+            idea.previous_readiness_score !== null &&
+            typeof idea.analysis_result?.readinessScore === 'number' &&
+            idea.analysis_result.readinessScore !== idea.previous_readiness_score
+        )
+        .map(idea => {
+            const currentScore = idea.analysis_result!.readinessScore!;
+            const previousScore = idea.previous_readiness_score!;
+            return {
+                ideaId: idea.id,
+                title: idea.title,
+                previousScore,
+                currentScore,
+                delta: currentScore - previousScore
+            };
+        })
+        .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+    const activeDiscoverySessions: DigestDiscoverySession[] = (sessionsResult.data || []).map(session => {
+        const linkedIdea = session.ideas as unknown as { title: string } | null;
+        return {
+            sessionId: session.id,
+            ideaId: session.idea_id,
+            ideaTitle: linkedIdea?.title ?? null,
+            currentPhase: session.current_phase,
+            phaseLabel: phaseLabel(session.current_phase, session.playbook_id),
+            messageCount: Array.isArray(session.messages) ? session.messages.length : 0,
+            startedAt: session.created_at
+        };
+    });
+
+    const readyScores = completedResearch
+        .map(run => run.readinessScore)
+        .filter((score): score is number => score !== null);
+
+    return {
+        userId,
+        periodStart: startIso,
+        periodEnd: endIso,
+        generatedAt: new Date().toISOString(),
+        newIdeas,
+        completedResearch,
+        scoreChanges,
+        activeDiscoverySessions,
+        totals: {
+            newIdeas: newIdeas.length,
+            researchReady: completedResearch.filter(run => run.status === 'Ready').length,
+            researchFailed: completedResearch.filter(run => run.status === 'Error').length,
+            activeDiscoverySessions: activeDiscoverySessions.length,
+            averageReadiness: readyScores.length
+                ? Math.round(readyScores.reduce((sum, score) => sum + score, 0) / readyScores.length)
+                : null
+        }
+    };
+}
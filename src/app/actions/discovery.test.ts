@@ -0,0 +1,135 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { requireUserId } from '@/lib/supabaseServer';
+import { withAIFallback } from '@/lib/aiProviders';
+import { resetTables, tables } from '@/test/fakeSupabase';
+import {
+    advanceDiscoveryPhase,
+    forceSynthesis,
+    getActiveDiscoverySessions,
+    getDiscoverySession,
+    getSessionSummary,
+    sendDiscoveryMessage,
+    skipDiscovery,
+    startDiscoverySession
+} from './discovery';
+
+vi.mock('@/lib/supabaseAdmin', () => import('@/test/fakeSupabase'));
+vi.mock('@/lib/supabaseServer', () => ({ requireUserId: vi.fn() }));
+vi.mock('@/lib/aiProviders', () => ({
+    withAIFallback: vi.fn(async () => {
+        throw new Error('The AI must not be called for a rejected request');
+    })
+}));
+
+const USER_A = '00000000-0000-4000-8000-00000000000a';
+const USER_B = '00000000-0000-4000-8000-00000000000b';
+const WORKSPACE_A = '00000000-0000-4000-8000-0000000000a1';
+const IDEA_A = '00000000-0000-4000-8000-0000000000a2';
+const SESSION_A = '00000000-0000-4000-8000-0000000000a3';
+
+const sessionOfA = {
+    id: SESSION_A,
+    user_id: USER_A,
+    idea_id: IDEA_A,
+    messages: [{ role: 'assistant', content: 'What problem are you solving?', timestamp: '2026-01-01T00:00:00.000Z' }],
+    current_phase: 'problem',
+    playbook_id: 'general',
+    playbook_version: 1,
+    extracted_facts: {},
+    research_context: null,
+    status: 'completed',
+    completed_at: '2026-01-01T01:00:00.000Z',
+    created_at: '2026-01-01T00:00:00.000Z'
+};
+
+const signInAs = (userId: string) => vi.mocked(requireUserId).mockResolvedValue(userId);
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    resetTables({
+        workspace_members: [{ workspace_id: WORKSPACE_A, user_id: USER_A, role: 'owner' }],
+        ideas: [{ id: IDEA_A, user_id: USER_A, workspace_id: WORKSPACE_A, title: 'Idea A', description: 'Private', analysis_result: null }],
+        discovery_sessions: [sessionOfA]
+    });
+});
+
+describe('discovery actions', () => {
+    it('let the owner read their session', async () => {
+        signInAs(USER_A);
+        await expect(getDiscoverySession(SESSION_A)).resolves.toMatchObject({ id: SESSION_A });
+    });
+
+    it("let the owner advance to a phase of the session's playbook", async () => {
+        signInAs(USER_A);
+        await expect(advanceDiscoveryPhase(SESSION_A, 'gaps')).resolves.toMatchObject({ current_phase: 'gaps' });
+    });
+
+    it("reject advancing to a phase outside the session's playbook", async () => {
+        signInAs(USER_A);
+        await expect(advanceDiscoveryPhase(SESSION_A, 'anything')).rejects.toThrow('Unknown discovery phase');
+        expect(tables.discovery_sessions).toEqual([sessionOfA]);
+    });
+
+    describe("as another user against someone else's session", () => {
+        beforeEach(() => signInAs(USER_B));
+
+        it('reject starting discovery on their idea', async () => {
+            await expect(startDiscoverySession(IDEA_A)).rejects.toThrow();
+            expect(tables.discovery_sessions).toHaveLength(1);
+        });
+
+        it('reject sending a message', async () => {
+            await expect(sendDiscoveryMessage(SESSION_A, 'Show me your idea')).rejects.toThrow('Session not found');
+        });
+
+        it('hide the session', async () => {
+            await expect(getDiscoverySession(SESSION_A)).resolves.toBeNull();
+            await expect(getSessionSummary(SESSION_A)).resolves.toBeNull();
+            await expect(getActiveDiscoverySessions()).resolves.toEqual([]);
+        });
+
+        it('reject changing the phase', async () => {
+            await expect(advanceDiscoveryPhase(SESSION_A, 'synthesis')).rejects.toThrow('Failed to advance phase');
+        });
+
+        it('reject skipping discovery', async () => {
+            await expect(skipDiscovery(SESSION_A)).rejects.toThrow('Failed to skip discovery');
+        });
+
+        it('reject forcing synthesis', async () => {
+            await expect(forceSynthesis(SESSION_A)).rejects.toThrow('Session not found');
+        });
+
+        it('leave the session untouched and never call the AI', async () => {
+            await Promise.allSettled([
+                sendDiscoveryMessage(SESSION_A, 'Show me your idea'),
+                advanceDiscoveryPhase(SESSION_A, 'synthesis'),
+                skipDiscovery(SESSION_A),
+                forceSynthesis(SESSION_A)
+            ]);
+
+            expect(tables.discovery_sessions).toEqual([sessionOfA]);
+            expect(withAIFallback).not.toHaveBeenCalled();
+        });
+    });
+
+    it('reject every call without a signed-in user', async () => {
+        vi.mocked(requireUserId).mockRejectedValue(new Error('Not authenticated'));
+
+        const results = await Promise.allSettled([
+            startDiscoverySession(IDEA_A),
+            sendDiscoveryMessage(SESSION_A, 'Hello'),
+            getDiscoverySession(SESSION_A),
+            getActiveDiscoverySessions(),
+            advanceDiscoveryPhase(SESSION_A, 'synthesis'),
+            skipDiscovery(SESSION_A),
+            getSessionSummary(SESSION_A),
+            forceSynthesis(SESSION_A)
+        ]);
+
+        for (const result of results) {
+            expect(result).toMatchObject({ status: 'rejected', reason: new Error('Not authenticated') });
+        }
+        expect(tables.discovery_sessions).toEqual([sessionOfA]);
+    });
+});
@@ -8,28 +8,28 @@
  * @purpose Enables a structured discovery process before research/validation begins.
  * @dependencies OpenAI API, Supabase, Zod for validation
  * @role Processes discovery conversations and manages session state in the database.
+ *
+ * Every action resolves the caller from the Supabase auth cookies
+ * (lib/supabaseServer) and only touches sessions that caller owns; a session
+ * ID belonging to someone else behaves as if it didn't exist.
  */
 
 'use server';
 
-import OpenAI from 'openai';
 import { z } from 'zod';
-import { createClient } from '@supabase/supabase-js';
-import {
-    DISCOVERY_SYSTEM_PROMPT,
-    PHASE_PROMPTS,
-    DISCOVERY_WELCOME_MESSAGE,
-    SYNTHESIS_OUTPUT_SCHEMA,
-    PHASE_TRANSITION_SIGNALS,
-    DISCOVERY_PHASES,
-    type DiscoveryPhase
-} from '@/config/discoveryPrompts';
-
-// Initialize Supabase client for server-side operations
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!; // <--- REPLACE WITH YOUR ENV VAR FROM .ENV
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!; // <--- REPLACE WITH YOUR ENV VAR FROM .ENV
-
-const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { requireIdeaRole } from '@/lib/workspaceAccess';
+import { CONCURRENT_TURN_ERROR, discoverySystemPrompt, prepareDiscoveryTurn, researchIdeaFromSession, saveDiscoveryTurn } from '@/lib/discovery';
+import { withAIFallback } from '@/lib/aiProviders';
+import { recordUsage, toTokenUsage } from '@/lib/usage';
+import { generateSynthesis } from '@/lib/synthesis';
+import { getSynthesis, saveSynthesis } from '@/lib/discoverySyntheses';
+import { buildSynthesisPrompt, hasFacts } from '@/lib/discoveryFacts';
+import { findPhase, getPlaybook } from '@/lib/discoveryPlaybooks';
+import { hasResearch, researchedIdeaWelcome, summarizeResearch } from '@/lib/discoveryResearch';
+import { DISCOVERY_PHASES } from '@/config/discoveryPrompts';
+import type { AIRoutingConfig, DiscoveryFacts, Idea } from '@/types';
 
 /**
  * Message schema for conversation history.
@@ -40,25 +40,6 @@ const messageSchema = z.object({
     timestamp: z.string()
 });
 
-/**
- * Schema for founder-fit assessment data.
- */
-const founderFitSchema = z.object({
-    technicalSkills: z.object({
-        has: z.array(z.string()),
-        needs: z.array(z.string())
-    }),
-    domainExpertise: z.string(),
-    resources: z.object({
-        time: z.string(),
-        capital: z.string(),
-        network: z.string()
-    }),
-    motivation: z.string(),
-    learningPath: z.array(z.string()),
-    hireRecommendations: z.array(z.string())
-});
-
 /**
  * Discovery session schema for database records.
  */
@@ -68,8 +49,10 @@ const sessionSchema = z.object({
     user_id: z.string().uuid(),
     messages: z.array(messageSchema),
     current_phase: z.string(),
-    founder_fit: founderFitSchema.nullable(),
-    refined_prompt: z.any().nullable(),
+    extracted_facts: z.any().nullable(),
+    playbook_id: z.string(),
+    playbook_version: z.number(),
+    research_context: z.string().nullable(),
     status: z.string(),
     created_at: z.string(),
     completed_at: z.string().nullable()
@@ -78,50 +61,54 @@ const sessionSchema = z.object({
 type DiscoverySession = z.infer<typeof sessionSchema>;
 type Message = z.infer<typeof messageSchema>;
 
-/**
- * Creates an OpenAI client with the provided or default configuration.
- * 
- * Uses environment variables for API configuration, allowing override
- * via the config parameter for user-specific settings.
- * 
- * @param config - Optional configuration for API key, base URL, and model
- * @returns Configured OpenAI client and model name
- */
-function getAIClient(config?: { apiKey?: string; baseURL?: string; model?: string }) {
-    const aiConfig = {
-        apiKey: config?.apiKey || process.env.AI_API_KEY || process.env.OPENAI_API_KEY,
-        baseURL: config?.baseURL || process.env.AI_BASE_URL || "https://api.openai.com/v1",
-        model: config?.model || process.env.AI_MODEL || "gpt-4o"
-    };
-
-    const client = new OpenAI({
-        apiKey: aiConfig.apiKey,
-        baseURL: aiConfig.baseURL
-    });
-
-    return { client, model: aiConfig.model };
-}
-
 /**
  * Starts a new discovery session for a user.
  * 
- * Initializes a fresh conversation with the welcome message and stores
- * the session in the database. Can optionally be linked to an existing idea.
+ * Initializes a fresh conversation with the playbook's welcome message and
+ * first phase, and stores the session in the database together with the
+ * playbook id and version, so later changes to the playbook don't affect it.
+ * Can optionally be linked to an existing idea; if that idea has already been
+ * researched, the session is seeded with a summary of the research, which
+ * every turn's prompt includes ("Send to Discovery").
  * 
- * @param userId - The authenticated user's ID
- * @param ideaId - Optional ID of an existing idea to run discovery on
+ * @param ideaId - Optional ID of an existing idea (the caller must be able to edit it) to run discovery on
  * @param initialIdea - Optional initial idea text if starting fresh
+ * @param playbookId - The playbook to follow (defaults to the General playbook)
  * @returns The created session with the welcome message
  * @keyTechnologies Supabase, Database Operations
  */
 export async function startDiscoverySession(
-    userId: string,
     ideaId?: string,
-    initialIdea?: { title: string; description: string }
+    initialIdea?: { title: string; description: string },
+    playbookId?: string
 ) {
+    const userId = await requireUserId();
+    const playbook = getPlaybook(playbookId);
+
+    let researchedIdea: Pick<Idea, 'title' | 'description' | 'analysis_result'> | null = null;
+    if (ideaId) {
+        await requireIdeaRole(userId, ideaId, 'editor');
+        const { data: idea, error: ideaError } = await supabaseAdmin
+            .from('ideas')
+            .select('title, description, analysis_result')
+            .eq('id', ideaId)
+            .single();
+
+        if (ideaError || !idea) {
+            throw new Error('Idea not found');
+        }
+        researchedIdea = idea;
+    }
+    const analysis = researchedIdea?.analysis_result;
+    const researchContext = researchedIdea && hasResearch(analysis)
+        ? summarizeResearch({ ...researchedIdea, analysis_result: analysis })
+        : null;
+
     const welcomeMessage: Message = {
         role: 'assistant',
-        content: DISCOVERY_WELCOME_MESSAGE,
+        content: researchedIdea && researchContext
+            ? researchedIdeaWelcome(researchedIdea.title, analysis?.readinessScore)
+            : playbook.welcomeMessage,
         timestamp: new Date().toISOString()
     };
 
@@ -131,7 +118,10 @@ export async function startDiscoverySession(
             user_id: userId,
             idea_id: ideaId || null,
             messages: [welcomeMessage],
-            current_phase: DISCOVERY_PHASES.VISION,
+            current_phase: playbook.phases[0].id,
+            playbook_id: playbook.id,
+            playbook_version: playbook.version,
+            research_context: researchContext,
             status: 'active'
         })
         .select()
@@ -160,162 +150,68 @@ export async function startDiscoverySession(
  * 4. Detects phase transitions
  * 5. Updates the session state
  * 
+ * Returns only once the whole reply is available; DiscoveryChat uses the
+ * streaming route (POST /api/discovery/stream) built on the same lib/discovery turn.
+ * 
  * @param sessionId - The discovery session ID
  * @param userMessage - The user's message content
- * @param config - Optional AI configuration overrides
+ * @param config - The user's AI routing config (routed as 'discovery', or 'synthesis' in that phase)
  * @returns AI response, updated phase, and any generated outputs
  * @keyTechnologies OpenAI Chat Completions, Multi-turn Conversation
  */
 export async function sendDiscoveryMessage(
     sessionId: string,
     userMessage: string,
-    config?: { apiKey?: string; baseURL?: string; model?: string }
+    config?: AIRoutingConfig
 ) {
-    // Fetch current session
-    const { data: session, error: fetchError } = await supabaseAdmin
-        .from('discovery_sessions')
-        .select('*')
-        .eq('id', sessionId)
-        .single();
-
-    if (fetchError || !session) {
-        throw new Error('Session not found');
-    }
-
-    const currentPhase = session.current_phase as DiscoveryPhase;
-    const messages: Message[] = session.messages || [];
-
-    // Add user message
-    const userMsg: Message = {
-        role: 'user',
-        content: userMessage,
-        timestamp: new Date().toISOString()
-    };
-    messages.push(userMsg);
-
-    // Build AI prompt with phase context
-    const { client, model } = getAIClient(config);
-
-    const systemPrompt = `${DISCOVERY_SYSTEM_PROMPT}\n\n${PHASE_PROMPTS[currentPhase]}`;
-
-    // Convert to OpenAI message format
-    const openAIMessages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-        { role: 'system', content: systemPrompt },
-        ...messages.map(m => ({
-            role: m.role as 'user' | 'assistant',
-            content: m.content
-        }))
-    ];
-
-    // Handle synthesis phase specially - request JSON output
-    const isSynthesis = currentPhase === DISCOVERY_PHASES.SYNTHESIS;
+    const userId = await requireUserId();
+    const turn = await prepareDiscoveryTurn(sessionId, userId, userMessage, config);
 
+    let result;
     try {
-        const response = await client.chat.completions.create({
-            model,
-            messages: openAIMessages,
-            ...(isSynthesis && { response_format: { type: 'json_object' } })
+        const { result: response, candidate } = await withAIFallback(turn.task, { userId: turn.userId, config }, ({ client, model }) =>
+            client.chat.completions.create({ ...turn.request, model })
+        );
+        await recordUsage({
+            userId: turn.userId,
+            ideaId: turn.ideaId,
+            discoverySessionId: sessionId,
+            task: turn.task,
+            model: candidate.model,
+            provider: candidate.provider,
+            usage: toTokenUsage(response.usage)
         });
-
         const aiContent = response.choices[0].message.content || 'I apologize, I encountered an issue. Could you repeat that?';
 
-        // Add AI response to messages
-        const aiMsg: Message = {
-            role: 'assistant',
-            content: aiContent,
-            timestamp: new Date().toISOString()
-        };
-        messages.push(aiMsg);
-
-        // Detect phase transition
-        let nextPhase = currentPhase;
-        let synthesisOutput = null;
-
-        if (isSynthesis) {
-            // Parse the JSON output
-            try {
-                synthesisOutput = JSON.parse(aiContent);
-                nextPhase = DISCOVERY_PHASES.COMPLETE;
-            } catch {
-                console.error('Failed to parse synthesis output');
-            }
-        } else {
-            nextPhase = detectPhaseTransition(currentPhase, aiContent);
-        }
-
-        // Update session
-        const updateData: Record<string, unknown> = {
-            messages,
-            current_phase: nextPhase
-        };
-
-        if (synthesisOutput) {
-            updateData.refined_prompt = synthesisOutput.fullPrompt || synthesisOutput;
-            updateData.founder_fit = synthesisOutput.founderFit;
-            updateData.status = 'completed';
-            updateData.completed_at = new Date().toISOString();
-        }
-
-        const { error: updateError } = await supabaseAdmin
-            .from('discovery_sessions')
-            .update(updateData)
-            .eq('id', sessionId);
-
-        if (updateError) {
-            console.error('Failed to update session:', updateError);
-        }
-
-        return {
-            response: aiContent,
-            currentPhase: nextPhase,
-            isComplete: nextPhase === DISCOVERY_PHASES.COMPLETE,
-            synthesisOutput,
-            messageCount: messages.length
-        };
+        result = await saveDiscoveryTurn(turn, aiContent);
     } catch (error) {
         console.error('AI request failed:', error);
-        throw new Error('Failed to process message');
+        throw new Error(error instanceof Error && error.message === CONCURRENT_TURN_ERROR ? CONCURRENT_TURN_ERROR : 'Failed to process message');
     }
+
+    if (result.synthesisError) {
+        throw new Error(result.synthesisError);
+    }
+    return result;
 }
 
 /**
- * Detects if the AI's response signals a phase transition.
- * 
- * Scans the AI response for predefined transition signals that indicate
- * readiness to move to the next discovery phase.
- * 
- * @param currentPhase - The current discovery phase
- * @param aiResponse - The AI's latest response
- * @returns The next phase (same as current if no transition detected)
+ * Loads a session if it belongs to the given user.
  */
-function detectPhaseTransition(currentPhase: DiscoveryPhase, aiResponse: string): DiscoveryPhase {
-    const lowerResponse = aiResponse.toLowerCase();
-
-    if (currentPhase === DISCOVERY_PHASES.VISION) {
-        for (const signal of PHASE_TRANSITION_SIGNALS.vision_to_gaps) {
-            if (lowerResponse.includes(signal.toLowerCase())) {
-                return DISCOVERY_PHASES.GAPS;
-            }
-        }
-    }
-
-    if (currentPhase === DISCOVERY_PHASES.GAPS) {
-        for (const signal of PHASE_TRANSITION_SIGNALS.gaps_to_founder_fit) {
-            if (lowerResponse.includes(signal.toLowerCase())) {
-                return DISCOVERY_PHASES.FOUNDER_FIT;
-            }
-        }
-    }
+async function fetchOwnedSession(sessionId: string, userId: string) {
+    const { data, error } = await supabaseAdmin
+        .from('discovery_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .maybeSingle();
 
-    if (currentPhase === DISCOVERY_PHASES.FOUNDER_FIT) {
-        for (const signal of PHASE_TRANSITION_SIGNALS.founder_fit_to_synthesis) {
-            if (lowerResponse.includes(signal.toLowerCase())) {
-                return DISCOVERY_PHASES.SYNTHESIS;
-            }
-        }
+    if (error) {
+        console.error('Failed to fetch session:', error);
+        return null;
     }
 
-    return currentPhase;
+    return data as DiscoverySession | null;
 }
 
 /**
@@ -324,32 +220,21 @@ function detectPhaseTransition(currentPhase: DiscoveryPhase, aiResponse: string)
  * Used when resuming a session or displaying session history.
  * 
  * @param sessionId - The discovery session ID
- * @returns The session data or null if not found
+ * @returns The session data or null if not found (or not the caller's)
  */
 export async function getDiscoverySession(sessionId: string) {
-    const { data, error } = await supabaseAdmin
-        .from('discovery_sessions')
-        .select('*')
-        .eq('id', sessionId)
-        .single();
-
-    if (error) {
-        console.error('Failed to fetch session:', error);
-        return null;
-    }
-
-    return data as DiscoverySession;
+    return fetchOwnedSession(sessionId, await requireUserId());
 }
 
 /**
- * Fetches active discovery sessions for a user.
+ * Fetches the caller's active discovery sessions.
  * 
  * Returns sessions that are still in progress, ordered by most recent.
  * 
- * @param userId - The user's ID
  * @returns Array of active sessions
  */
-export async function getActiveDiscoverySessions(userId: string) {
+export async function getActiveDiscoverySessions() {
+    const userId = await requireUserId();
     const { data, error } = await supabaseAdmin
         .from('discovery_sessions')
         .select('*')
@@ -372,14 +257,27 @@ export async function getActiveDiscoverySessions(userId: string) {
  * when the AI doesn't naturally signal a transition.
  * 
  * @param sessionId - The discovery session ID
- * @param targetPhase - The phase to advance to
+ * @param targetPhase - The phase to advance to (a phase of the session's playbook, or synthesis)
  * @returns Updated session data
+ * @throws When the session isn't the caller's or the phase isn't part of its playbook
  */
-export async function advanceDiscoveryPhase(sessionId: string, targetPhase: DiscoveryPhase) {
+export async function advanceDiscoveryPhase(sessionId: string, targetPhase: string) {
+    const userId = await requireUserId();
+    const session = await fetchOwnedSession(sessionId, userId);
+    if (!session) {
+        throw new Error('Failed to advance phase');
+    }
+
+    const playbook = getPlaybook(session.playbook_id, session.playbook_version);
+    if (targetPhase !== DISCOVERY_PHASES.SYNTHESIS && !findPhase(playbook, targetPhase)) {
+        throw new Error('Unknown discovery phase');
+    }
+
     const { data, error } = await supabaseAdmin
         .from('discovery_sessions')
         .update({ current_phase: targetPhase })
         .eq('id', sessionId)
+        .eq('user_id', userId)
         .select()
         .single();
 
@@ -400,6 +298,7 @@ export async function advanceDiscoveryPhase(sessionId: string, targetPhase: Disc
  * @returns Updated session data
  */
 export async function skipDiscovery(sessionId: string) {
+    const userId = await requireUserId();
     const { data, error } = await supabaseAdmin
         .from('discovery_sessions')
         .update({
@@ -407,6 +306,7 @@ export async function skipDiscovery(sessionId: string) {
             completed_at: new Date().toISOString()
         })
         .eq('id', sessionId)
+        .eq('user_id', userId)
         .select()
         .single();
 
@@ -420,23 +320,25 @@ export async function skipDiscovery(sessionId: string) {
 /**
  * Gets the synthesis output (TL;DR and full prompt) from a completed session.
  * 
- * Retrieves the refined prompt and founder-fit assessment generated
- * at the end of successful discovery conversations.
+ * Retrieves the TL;DR, refined prompt and founder-fit assessment generated
+ * at the end of successful discovery conversations (see lib/discoverySyntheses).
  * 
  * @param sessionId - The discovery session ID
  * @returns Synthesis output or null if not available
  */
 export async function getSessionSummary(sessionId: string) {
-    const session = await getDiscoverySession(sessionId);
+    const session = await fetchOwnedSession(sessionId, await requireUserId());
 
     if (!session || session.status !== 'completed') {
         return null;
     }
 
+    const synthesis = await getSynthesis(sessionId);
+
     return {
-        tldr: session.refined_prompt?.tldr || null,
-        fullPrompt: session.refined_prompt || null,
-        founderFit: session.founder_fit || null,
+        tldr: synthesis?.tldr || null,
+        fullPrompt: synthesis?.fullPrompt || null,
+        founderFit: synthesis?.founderFit || null,
         messageCount: session.messages?.length || 0
     };
 }
@@ -445,56 +347,82 @@ export async function getSessionSummary(sessionId: string) {
  * Forces synthesis generation for a session.
  * 
  * Useful when you want to generate the research prompt without
- * waiting for the AI to naturally transition. Takes all conversation
- * context and generates the structured output.
+ * waiting for the AI to naturally transition. Generates the structured
+ * output from the session's facts checklist (or the transcript, for
+ * sessions that have none), validated against the playbook's schema with
+ * repair round-trips. A session started on an idea is linked to it and the
+ * idea's re-research is queued (lib/discovery).
  * 
  * @param sessionId - The discovery session ID
- * @param config - Optional AI configuration
+ * @param config - The user's AI routing config (routed as 'synthesis')
  * @returns Generated synthesis output
+ * @throws When the output is still invalid after every repair attempt
  */
 export async function forceSynthesis(
     sessionId: string,
-    config?: { apiKey?: string; baseURL?: string; model?: string }
+    config?: AIRoutingConfig
 ) {
-    const session = await getDiscoverySession(sessionId);
+    const session = await fetchOwnedSession(sessionId, await requireUserId());
     if (!session) {
         throw new Error('Session not found');
     }
 
-    const { client, model } = getAIClient(config);
-
-    const synthesisPrompt = `${DISCOVERY_SYSTEM_PROMPT}
+    // Built from the facts checklist; sessions without facts fall back to the transcript
+    const playbook = getPlaybook(session.playbook_id, session.playbook_version);
+    const systemPrompt = discoverySystemPrompt(playbook, session.research_context);
+    const facts = (session.extracted_facts || {}) as DiscoveryFacts;
+    const synthesisPrompt = hasFacts(facts)
+        ? `${systemPrompt}\n\n${buildSynthesisPrompt(playbook, facts)}`
+        : `${systemPrompt}
 
 Based on the following conversation, generate a comprehensive output following this exact JSON schema:
-${SYNTHESIS_OUTPUT_SCHEMA}
+${playbook.synthesis.schema}
 
 CONVERSATION:
 ${session.messages.map((m: Message) => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n')}`;
 
+    let synthesis;
     try {
-        const response = await client.chat.completions.create({
-            model,
-            messages: [{ role: 'user', content: synthesisPrompt }],
-            response_format: { type: 'json_object' }
+        synthesis = await generateSynthesis({
+            userId: session.user_id,
+            ideaId: session.idea_id,
+            sessionId,
+            playbook,
+            config,
+            messages: [{ role: 'user', content: synthesisPrompt }]
         });
-
-        const output = JSON.parse(response.choices[0].message.content || '{}');
-
-        // Update session with synthesis
-        await supabaseAdmin
-            .from('discovery_sessions')
-            .update({
-                refined_prompt: output.fullPrompt || output,
-                founder_fit: output.founderFit,
-                current_phase: DISCOVERY_PHASES.COMPLETE,
-                status: 'completed',
-                completed_at: new Date().toISOString()
-            })
-            .eq('id', sessionId);
-
-        return output;
     } catch (error) {
         console.error('Synthesis failed:', error);
         throw new Error('Failed to generate synthesis');
     }
+
+    if (!synthesis.output) {
+        throw new Error(synthesis.error);
+    }
+    const output = synthesis.output;
+
+    await saveSynthesis({
+        sessionId,
+        userId: session.user_id,
+        ideaId: session.idea_id,
+        playbookId: playbook.id,
+        playbookVersion: playbook.version
+    }, output);
+
+    // Mark the session completed
+    await supabaseAdmin
+        .from('discovery_sessions')
+        .update({
+            current_phase: DISCOVERY_PHASES.COMPLETE,
+            status: 'completed',
+            completed_at: new Date().toISOString()
+        })
+        .eq('id', sessionId)
+        .eq('user_id', session.user_id);
+
+    if (session.idea_id) {
+        await researchIdeaFromSession({ sessionId, userId: session.user_id, ideaId: session.idea_id, config }, output);
+    }
+
+    return output;
 }
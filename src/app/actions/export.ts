@@ -0,0 +1,68 @@
+/**
+ * @module actions/export
+ * @description Server Action for exporting an idea's research packet.
+ *
+ * Reports are rendered server-side so every export looks the same no matter
+ * which browser requested it, and can be handed to advisors without vault accounts.
+ * Any member of the idea's workspace may export it; the caller is resolved from
+ * the Supabase auth cookies.
+ *
+ * @dependencies Supabase, lib/report, lib/workspaceAccess
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { requireIdeaRole } from '@/lib/workspaceAccess';
+import { buildReportMarkdown, buildReportPdf, reportFilename, type ReportFormat } from '@/lib/report';
+import type { Idea } from '@/types';
+
+/**
+ * Exports the research packet for an idea as Markdown or PDF.
+ *
+ * The file content is returned as a string (UTF-8 for Markdown, base64 for PDF)
+ * because server actions can only return serializable values; the client turns
+ * it back into a Blob to download.
+ *
+ * @param ideaId - The idea to export
+ * @param format - 'markdown' or 'pdf'
+ * @returns Filename, MIME type, encoding and file content
+ * @keyTechnologies pdf-lib, Supabase
+ */
+export async function exportIdeaReport(ideaId: string, format: ReportFormat) {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'viewer');
+
+    const { data, error } = await supabaseAdmin
+        .from('ideas')
+        .select('*')
+        .eq('id', ideaId)
+        .single();
+
+    if (error || !data) {
+        throw new Error('Idea not found');
+    }
+
+    const idea = data as Idea;
+    if (idea.status !== 'Ready' || !idea.analysis_result) {
+        throw new Error('Research is not ready to export yet');
+    }
+
+    if (format === 'pdf') {
+        const bytes = await buildReportPdf(idea);
+        return {
+            filename: reportFilename(idea, 'pdf'),
+            mimeType: 'application/pdf',
+            encoding: 'base64' as const,
+            content: Buffer.from(bytes).toString('base64')
+        };
+    }
+
+    return {
+        filename: reportFilename(idea, 'markdown'),
+        mimeType: 'text/markdown;charset=utf-8',
+        encoding: 'utf8' as const,
+        content: buildReportMarkdown(idea)
+    };
+}
@@ -1,146 +1,116 @@
 /**
  * @module actions/research
- * @description Server Action for generating AI-powered startup research.
+ * @description Server Actions for queueing AI-powered startup research.
+ *
+ * Research itself runs in the background worker (scripts/researchWorker.ts);
+ * these actions only enqueue jobs, report their progress and list the
+ * immutable versions each run leaves behind. Every action resolves the caller
+ * from the Supabase auth cookies and checks their role in the idea's workspace:
+ * editors and owners queue research, any member follows it.
+ *
+ * @dependencies Supabase, lib/researchJobs, lib/usage, lib/workspaceAccess
  */
 
 'use server';
 
-import OpenAI from 'openai';
-import { z } from 'zod';
-
-const researchSchema = z.object({
-    readinessScore: z.number().min(0).max(100),
-    marketSize: z.string(),
-    targetAudience: z.string(),
-    topCompetitor: z.string(),
-    trend: z.string(),
-    growthMetrics: z.array(z.object({
-        year: z.string(),
-        value: z.number()
-    })),
-    competitors: z.array(z.object({
-        name: z.string(),
-        strength: z.string(),
-        weakness: z.string()
-    })),
-    actionPlan: z.array(z.string())
-});
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { requireIdeaRole } from '@/lib/workspaceAccess';
+import { normalizeRoutingConfig } from '@/lib/aiSettings';
+import { assertWithinBudget } from '@/lib/usage';
+import {
+    enqueueResearchJob,
+    toResearchJob,
+    type ResearchJobPayload,
+    type ResearchJobRow
+} from '@/lib/researchJobs';
+import type { AnalysisResult, ResearchJob, ResearchVersion } from '@/types';
 
 /**
- * Analyzes a startup idea using GPT-4o.
- * 
- * Takes the user's title and description and returns a comprehensive 
- * research packet including market metrics and an action plan.
- * The response is forced into a valid JSON format via system prompting.
- * 
- * @param {string} title - The title of the startup concept
- * @param {string} description - Detailed description of the idea
- * @returns {Promise<any>} The generated research packet
- * @keyTechnologies OpenAI, GPT-4o, Zod
+ * Queues research for an idea.
+ *
+ * The idea moves to 'Analyzing' immediately; the worker moves it to 'Ready'
+ * or 'Error' when it finishes, whether or not the browser is still open.
+ * Editors and owners only; the run is billed to the caller and refused once
+ * their monthly AI budget is spent.
+ *
+ * @param ideaId - The idea to research
+ * @param options - AI routing config, pending capture step, research context and enrichment
+ * @returns The queued job; if one was already queued, the options are merged into it
+ * @throws When research is already running for the idea
+ * @keyTechnologies Supabase, Database Operations
  */
-export async function performResearch(title: string, description: string, config?: { apiKey?: string, baseURL?: string, model?: string }) {
-    console.log('[Research] Starting research for:', title);
-
-    const aiConfig = {
-        apiKey: config?.apiKey || process.env.AI_API_KEY || process.env.OPENAI_API_KEY,
-        baseURL: config?.baseURL || process.env.AI_BASE_URL || "https://api.openai.com/v1",
-        model: config?.model || process.env.AI_MODEL || "gpt-4o"
-    };
-
-    console.log('[Research] Using config:', {
-        baseURL: aiConfig.baseURL,
-        model: aiConfig.model,
-        hasApiKey: !!aiConfig.apiKey
-    });
-
-    const client = new OpenAI({
-        apiKey: aiConfig.apiKey,
-        baseURL: aiConfig.baseURL
-    });
-
-    const systemPrompt = `You are an experienced startup research analyst. Your job is to ANALYZE and VALIDATE startup ideas by researching the market, competitors, and viability. The current date is January 2026.
-
-## Your Role:
-- YOU do the research and analysis - don't tell the founder to "go interview customers" or "validate the market"
-- YOU identify competitors, market gaps, and realistic opportunities
-- YOU provide actionable intelligence based on your analysis
-- Think like a thorough due diligence analyst, not a cheerleader
-
-## Analysis Standards:
-1. **Honest assessment** - If an idea has problems, say so clearly
-2. **Real competitor research** - Name actual companies, not generic categories
-3. **Specific market data** - Reference real market sizes when possible, acknowledge when estimating
-4. **Grounded action steps** - What should the founder BUILD or DO based on YOUR findings
-
-## Scoring (be conservative):
-- 0-30: Fundamental issues (saturated market, no clear differentiation, technically infeasible)
-- 31-50: Interesting but major gaps (unclear value prop, tough competitive landscape)
-- 51-70: Solid concept (clear problem, identifiable path forward, competitive but possible)
-- 71-85: Strong idea (validated problem space, clear differentiation, reasonable market)
-- 86-100: Exceptional (only with evidence of real traction or unique unfair advantage)
-
-## Action Plan Guidelines:
-- Based on YOUR analysis, recommend specific next steps
-- Focus on: building MVP features, targeting specific customer segments, differentiation strategies
-- Can mention IP protection IF the idea has genuinely novel technical innovation
-- Don't recommend "research" or "validation" - YOU just did that
-- Be specific about WHAT to build and WHO to target based on your competitive analysis
-
-Return JSON with this structure:
-{
-    "readinessScore": number (0-100),
-    "marketSize": "string (e.g., $2.1B SAM - cite basis for estimate)",
-    "targetAudience": "string (specific: role, company size, pain point)",
-    "topCompetitor": "string (single most direct competitor)",
-    "trend": "string (current market reality as of 2026)",
-    "growthMetrics": [{"year": "2026", "value": number}, {"year": "2027", "value": number}, {"year": "2028", "value": number}, {"year": "2029", "value": number}, {"year": "2030", "value": number}],
-    "competitors": [{"name": "string", "strength": "string", "weakness": "string"}, ...2-4 real companies],
-    "actionPlan": ["step 1 based on analysis", "step 2", "step 3"]
+export async function queueResearch(
+    ideaId: string,
+    options: ResearchJobPayload = {}
+): Promise<ResearchJob> {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'editor');
+    await assertWithinBudget(userId);
+
+    // Only profiles and routes are stored with the job; keys stay in the credential store
+    const payload = options.config ? { ...options, config: normalizeRoutingConfig(options.config) } : options;
+    const job = await enqueueResearchJob(userId, ideaId, payload);
+    return toResearchJob(job);
 }
 
-Return ONLY valid JSON. No markdown, no explanation.`;
-
-    try {
-        console.log('[Research] Calling AI API...');
-
-        // Note: response_format is OpenAI-specific, removed for compatibility with other providers
-        const response = await client.chat.completions.create({
-            model: aiConfig.model,
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: `Idea Title: ${title}\nIdea Description: ${description}\n\nRespond with ONLY the JSON object, no other text.` }
-            ]
-        });
-
-        console.log('[Research] AI response received');
-        const content = response.choices[0].message.content;
-        console.log('[Research] Raw content length:', content?.length);
-
-        if (!content) throw new Error("No response from AI");
-
-        // Try to extract JSON from the response (handle markdown code blocks)
-        let jsonStr = content.trim();
+/**
+ * Returns the most recent research job for an idea, if any, whoever queued it.
+ *
+ * @param ideaId - The idea whose job to fetch
+ * @returns The latest job, or null if research was never queued
+ * @keyTechnologies Supabase
+ */
+export async function getResearchJob(ideaId: string): Promise<ResearchJob | null> {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'viewer');
+
+    const { data, error } = await supabaseAdmin
+        .from('research_jobs')
+        .select('*')
+        .eq('idea_id', ideaId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Error fetching research job:', error);
+        return null;
+    }
 
-        // Remove markdown code blocks if present
-        if (jsonStr.startsWith('```json')) {
-            jsonStr = jsonStr.slice(7);
-        } else if (jsonStr.startsWith('```')) {
-            jsonStr = jsonStr.slice(3);
-        }
-        if (jsonStr.endsWith('```')) {
-            jsonStr = jsonStr.slice(0, -3);
-        }
-        jsonStr = jsonStr.trim();
+    return data ? toResearchJob(data as ResearchJobRow) : null;
+}
 
-        console.log('[Research] Attempting to parse JSON...');
-        const result = JSON.parse(jsonStr);
-        console.log('[Research] Parsed result, validating schema...');
-        const validated = researchSchema.parse(result);
-        console.log('[Research] Success! Readiness score:', validated.readinessScore);
-        return validated;
-    } catch (error) {
-        console.error("[Research] FAILED:", error);
-        throw new Error(`Failed to process idea with AI: ${error instanceof Error ? error.message : String(error)}`);
+/**
+ * Lists every research version of an idea, newest first.
+ *
+ * @param ideaId - The idea whose versions to list
+ * @returns The versions with their analysis and provenance
+ * @keyTechnologies Supabase
+ */
+export async function listResearchVersions(ideaId: string): Promise<ResearchVersion[]> {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'viewer');
+
+    const { data, error } = await supabaseAdmin
+        .from('research_versions')
+        .select('id, idea_id, version, analysis_result, model, provider, prompt_hash, created_at')
+        .eq('idea_id', ideaId)
+        .order('version', { ascending: false });
+
+    if (error) {
+        console.error('Error listing research versions:', error);
+        return [];
     }
-}
 
+    return data.map(row => ({
+        id: row.id,
+        ideaId: row.idea_id,
+        version: row.version,
+        analysis: row.analysis_result as AnalysisResult,
+        model: row.model,
+        provider: row.provider,
+        promptHash: row.prompt_hash,
+        createdAt: row.created_at
+    }));
+}
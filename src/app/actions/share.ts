@@ -0,0 +1,243 @@
+/**
+ * @module actions/share
+ * @description Server Actions for public, revocable share links to idea reports.
+ *
+ * Editors create read-only links that can expire, require a password, and hide
+ * individual report sections. Hidden sections are stripped server-side, so a
+ * visitor never receives data the team chose not to share. Managing links
+ * resolves the caller from the Supabase auth cookies and requires the editor
+ * role in the idea's workspace; only getSharedReport is public.
+ *
+ * @dependencies Supabase, lib/shareTokens, lib/report, lib/workspaceAccess
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { requireIdeaRole } from '@/lib/workspaceAccess';
+import { generateShareToken, hashSharePassword, hashShareToken, verifySharePassword } from '@/lib/shareTokens';
+import { redactAnalysis } from '@/lib/report';
+import { HIDEABLE_REPORT_SECTIONS } from '@/config/reportSections';
+import type { Idea, ReportSection, ShareLink, SharedReport } from '@/types';
+
+interface ShareLinkRow {
+    id: string;
+    idea_id: string;
+    password_hash: string | null;
+    hidden_sections: string[] | null;
+    expires_at: string | null;
+    revoked_at: string | null;
+    view_count: number;
+    last_viewed_at: string | null;
+    failed_password_attempts: number;
+    password_locked_until: string | null;
+    created_at: string;
+}
+
+export type SharedReportResult =
+    | { status: 'ok'; report: SharedReport }
+    | { status: 'password_required' | 'invalid_password' | 'too_many_attempts' | 'not_found' | 'expired' | 'revoked' };
+
+const LINK_COLUMNS = 'id, idea_id, password_hash, hidden_sections, expires_at, revoked_at, view_count, last_viewed_at, failed_password_attempts, password_locked_until, created_at';
+
+const sanitizeSections = (sections: string[] | null | undefined): ReportSection[] =>
+    (sections || []).filter((section): section is ReportSection =>
+        HIDEABLE_REPORT_SECTIONS.some(s => s.id === section)
+    );
+
+const toShareLink = (row: ShareLinkRow): ShareLink => ({
+    id: row.id,
+    ideaId: row.idea_id,
+    hiddenSections: sanitizeSections(row.hidden_sections),
+    hasPassword: !!row.password_hash,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at,
+    viewCount: row.view_count,
+    lastViewedAt: row.last_viewed_at,
+    createdAt: row.created_at
+});
+
+/**
+ * Creates a share link for an idea. Editors and owners only.
+ *
+ * The raw token is returned only once; the database keeps just its hash, so a
+ * lost link cannot be recovered — only revoked and replaced.
+ *
+ * @param ideaId - The idea to share
+ * @param options - Expiry in days (null for never), optional password, hidden sections
+ * @returns The created link and its raw token
+ * @keyTechnologies Supabase, Node crypto
+ */
+export async function createShareLink(
+    ideaId: string,
+    options: { expiresInDays?: number | null; password?: string; hiddenSections?: ReportSection[] }
+): Promise<{ link: ShareLink; token: string }> {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'editor');
+
+    const { data: idea, error: ideaError } = await supabaseAdmin
+        .from('ideas')
+        .select('id, status')
+        .eq('id', ideaId)
+        .single();
+
+    if (ideaError || !idea) {
+        throw new Error('Idea not found');
+    }
+    if (idea.status !== 'Ready') {
+        throw new Error('Only ideas with finished research can be shared');
+    }
+
+    const token = generateShareToken();
+    const password = options.password?.trim();
+    const expiresAt = options.expiresInDays
+        ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : null;
+
+    const { data, error } = await supabaseAdmin
+        .from('idea_share_links')
+        .insert({
+            idea_id: ideaId,
+            user_id: userId,
+            token_hash: hashShareToken(token),
+            password_hash: password ? await hashSharePassword(password) : null,
+            hidden_sections: sanitizeSections(options.hiddenSections),
+            expires_at: expiresAt
+        })
+        .select(LINK_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        console.error('Error creating share link:', error);
+        throw new Error('Failed to create share link');
+    }
+
+    return { link: toShareLink(data as ShareLinkRow), token };
+}
+
+/**
+ * Lists all share links for an idea, newest first, whoever created them.
+ * Editors and owners only.
+ *
+ * @param ideaId - The idea whose links to list
+ * @returns The share links, including revoked and expired ones
+ * @keyTechnologies Supabase
+ */
+export async function listShareLinks(ideaId: string): Promise<ShareLink[]> {
+    const userId = await requireUserId();
+    await requireIdeaRole(userId, ideaId, 'editor');
+
+    const { data, error } = await supabaseAdmin
+        .from('idea_share_links')
+        .select(LINK_COLUMNS)
+        .eq('idea_id', ideaId)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error listing share links:', error);
+        throw new Error('Failed to load share links');
+    }
+
+    return (data as ShareLinkRow[]).map(toShareLink);
+}
+
+/**
+ * Revokes a share link. Revoked links stay listed so their view counts remain visible.
+ * Editors and owners of the idea's workspace only.
+ *
+ * @param linkId - The link to revoke
+ * @keyTechnologies Supabase
+ */
+export async function revokeShareLink(linkId: string) {
+    const userId = await requireUserId();
+    const { data: link } = await supabaseAdmin
+        .from('idea_share_links')
+        .select('idea_id')
+        .eq('id', linkId)
+        .maybeSingle();
+
+    if (!link) {
+        throw new Error('Share link not found');
+    }
+    await requireIdeaRole(userId, link.idea_id, 'editor');
+
+    const { error } = await supabaseAdmin
+        .from('idea_share_links')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', linkId)
+        .is('revoked_at', null);
+
+    if (error) {
+        console.error('Error revoking share link:', error);
+        throw new Error('Failed to revoke share link');
+    }
+}
+
+/**
+ * Resolves a public share token to a redacted, read-only report.
+ *
+ * Called without authentication from the /share/[token] page. A view is only
+ * counted once the visitor actually receives the report. Wrong passwords are
+ * throttled per link: after five, the link refuses guesses for 15 minutes.
+ *
+ * @param token - The raw token from the share URL
+ * @param password - The password entered by the visitor, if any
+ * @returns The report, or the reason it cannot be shown
+ * @keyTechnologies Supabase, Node crypto
+ */
+export async function getSharedReport(token: string, password?: string): Promise<SharedReportResult> {
+    if (!token) return { status: 'not_found' };
+
+    const { data: link } = await supabaseAdmin
+        .from('idea_share_links')
+        .select(LINK_COLUMNS)
+        .eq('token_hash', hashShareToken(token))
+        .maybeSingle();
+
+    if (!link) return { status: 'not_found' };
+
+    const row = link as ShareLinkRow;
+    if (row.revoked_at) return { status: 'revoked' };
+    if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return { status: 'expired' };
+
+    if (row.password_hash) {
+        if (!password) return { status: 'password_required' };
+        // Checked before hashing, so guesses at a locked link cost no scrypt work
+        if (row.password_locked_until && new Date(row.password_locked_until).getTime() > Date.now()) {
+            return { status: 'too_many_attempts' };
+        }
+        if (!await verifySharePassword(password, row.password_hash)) {
+            await supabaseAdmin.rpc('record_share_link_password_failure', { link_id: row.id });
+            return { status: 'invalid_password' };
+        }
+        if (row.failed_password_attempts > 0) {
+            await supabaseAdmin.from('idea_share_links').update({ failed_password_attempts: 0 }).eq('id', row.id);
+        }
+    }
+
+    const { data: idea } = await supabaseAdmin
+        .from('ideas')
+        .select('title, description, status, analysis_result')
+        .eq('id', row.idea_id)
+        .single();
+
+    const sharedIdea = idea as Pick<Idea, 'title' | 'description' | 'status' | 'analysis_result'> | null;
+    if (!sharedIdea || sharedIdea.status !== 'Ready' || !sharedIdea.analysis_result) {
+        return { status: 'not_found' };
+    }
+
+    const hiddenSections = sanitizeSections(row.hidden_sections);
+
+    await supabaseAdmin.rpc('record_share_link_view', { link_id: row.id });
+
+    return {
+        status: 'ok',
+        report: {
+            title: sharedIdea.title,
+            description: sharedIdea.description,
+            analysis: redactAnalysis(sharedIdea.analysis_result, hiddenSections),
+            hiddenSections
+        }
+    };
+}
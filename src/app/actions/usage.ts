@@ -0,0 +1,113 @@
+/**
+ * @module actions/usage
+ * @description Server Actions for AI usage reporting and the monthly budget.
+ *
+ * Usage and budgets are the caller's own, resolved from the Supabase auth
+ * cookies (lib/supabaseServer).
+ *
+ * @dependencies Supabase, lib/usage
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { listMemberWorkspaceIds } from '@/lib/workspaceAccess';
+import { getBudgetStatus, loadUsageRollup, monthStart, type UsageRollupRow } from '@/lib/usage';
+import type { BudgetStatus, UsageBucket, UsageSummary } from '@/types';
+
+const SUMMARY_MONTHS = 12;
+
+/**
+ * Sums rollup rows into buckets, most expensive first.
+ */
+function groupUsage(rows: UsageRollupRow[], keyOf: (row: UsageRollupRow) => string, labelOf: (key: string) => string) {
+    const buckets = new Map<string, UsageBucket>();
+
+    for (const row of rows) {
+        const key = keyOf(row);
+        const bucket = buckets.get(key) || { key, label: labelOf(key), calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0 };
+        bucket.calls += row.calls;
+        bucket.promptTokens += row.prompt_tokens;
+        bucket.completionTokens += row.completion_tokens;
+        bucket.costUsd += row.cost_usd;
+        buckets.set(key, bucket);
+    }
+
+    return [...buckets.values()].sort((a, b) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Summarizes the last twelve months of AI usage: spend per month, per model
+ * and per idea, plus the current month's budget status.
+ *
+ * @returns The usage summary
+ * @keyTechnologies Supabase RPC
+ */
+export async function getUsageSummary(): Promise<UsageSummary> {
+    const userId = await requireUserId();
+    const since = monthStart();
+    since.setUTCMonth(since.getUTCMonth() - (SUMMARY_MONTHS - 1));
+
+    const [rows, budget] = await Promise.all([loadUsageRollup(userId, since), getBudgetStatus(userId)]);
+
+    // Titles only of ideas in workspaces the caller still belongs to
+    const ideaIds = [...new Set(rows.map(row => row.idea_id).filter((id): id is string => !!id))];
+    const workspaceIds = await listMemberWorkspaceIds(userId);
+    const { data: ideas } = ideaIds.length > 0 && workspaceIds.length > 0
+        ? await supabaseAdmin.from('ideas').select('id, title').in('workspace_id', workspaceIds).in('id', ideaIds)
+        : { data: [] };
+    const titles = new Map((ideas || []).map(idea => [idea.id as string, idea.title as string]));
+
+    const byMonth = groupUsage(rows, row => row.month.slice(0, 7), key =>
+        new Date(`${key}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    ).sort((a, b) => a.key.localeCompare(b.key));
+
+    return {
+        byMonth,
+        byModel: groupUsage(rows, row => row.model, key => key),
+        byIdea: groupUsage(rows, row => row.idea_id || 'none', key =>
+            key === 'none' ? 'No idea (or deleted)' : titles.get(key) || 'Untitled Idea'
+        ),
+        unpricedModels: [...new Set(rows.filter(row => row.unpriced_calls > 0).map(row => row.model))],
+        budget
+    };
+}
+
+/**
+ * Returns this month's spend against the caller's budget.
+ *
+ * @returns The budget status
+ */
+export async function getMonthlyBudget(): Promise<BudgetStatus> {
+    return getBudgetStatus(await requireUserId());
+}
+
+/**
+ * Sets or clears the caller's monthly budget.
+ *
+ * @param limitUsd - Monthly limit in USD, or null to remove the budget
+ * @returns The updated budget status
+ */
+export async function setMonthlyBudget(limitUsd: number | null): Promise<BudgetStatus> {
+    const userId = await requireUserId();
+    if (limitUsd === null) {
+        const { error } = await supabaseAdmin.from('ai_budgets').delete().eq('user_id', userId);
+        if (error) throw new Error('Failed to remove budget');
+    } else {
+        if (!Number.isFinite(limitUsd) || limitUsd <= 0) {
+            throw new Error('Budget must be a positive amount');
+        }
+
+        const { error } = await supabaseAdmin
+            .from('ai_budgets')
+            .upsert({
+                user_id: userId,
+                monthly_limit_usd: Math.round(limitUsd * 100) / 100,
+                updated_at: new Date().toISOString()
+            });
+        if (error) throw new Error('Failed to save budget');
+    }
+
+    return getBudgetStatus(userId);
+}
@@ -0,0 +1,466 @@
+/**
+ * @module actions/workspaces
+ * @description Server Actions for shared team workspaces.
+ *
+ * Ideas live in workspaces; members are owners, editors or viewers (see
+ * lib/workspaceRoles). Every user has a personal workspace, created on first
+ * use. Owners invite people by email: the invitation is a link with a random
+ * token, of which only the hash is stored, and only the invited address can
+ * accept it.
+ *
+ * Every action resolves the caller from the Supabase auth cookies
+ * (lib/supabaseServer) and checks their role before touching the workspace.
+ *
+ * @dependencies Supabase, lib/shareTokens, lib/workspaceRoles, lib/workspaceAccess
+ */
+
+'use server';
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { requireUserId } from '@/lib/supabaseServer';
+import { requireWorkspaceRole, getUserEmails } from '@/lib/workspaceAccess';
+import { generateShareToken, hashShareToken } from '@/lib/shareTokens';
+import { hasWorkspaceRole, isWorkspaceRole } from '@/lib/workspaceRoles';
+import type { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/types';
+
+/** How long an invitation link stays valid */
+const INVITATION_TTL_DAYS = 7;
+
+interface MembershipRow {
+    role: WorkspaceRole;
+    workspaces: { id: string; name: string; personal: boolean; created_at: string };
+}
+
+interface InvitationRow {
+    id: string;
+    workspace_id: string;
+    email: string;
+    role: WorkspaceRole;
+    expires_at: string;
+    accepted_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+}
+
+export type InvitationResult =
+    | { status: 'ok'; workspaceId: string; workspaceName: string; role: WorkspaceRole }
+    | { status: 'not_found' | 'expired' | 'revoked' | 'accepted' }
+    | { status: 'wrong_email'; email: string };
+
+const INVITATION_COLUMNS = 'id, workspace_id, email, role, expires_at, accepted_at, revoked_at, created_at';
+
+const toWorkspace = (row: MembershipRow): Workspace => ({
+    id: row.workspaces.id,
+    name: row.workspaces.name,
+    personal: row.workspaces.personal,
+    role: row.role,
+    createdAt: row.workspaces.created_at
+});
+
+const toInvitation = (row: InvitationRow): WorkspaceInvitation => ({
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at
+});
+
+/**
+ * Fails if a change would leave the workspace without an owner.
+ */
+async function assertAnotherOwner(workspaceId: string, memberId: string) {
+    const { count } = await supabaseAdmin
+        .from('workspace_members')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('workspace_id', workspaceId)
+        .eq('role', 'owner')
+        .neq('user_id', memberId);
+
+    if (!count) {
+        throw new Error('A workspace needs at least one owner');
+    }
+}
+
+/**
+ * Looks up an invitation by its raw token and checks it can still be used.
+ */
+async function findInvitation(token: string) {
+    const { data } = await supabaseAdmin
+        .from('workspace_invitations')
+        .select(`${INVITATION_COLUMNS}, workspaces(name)`)
+        .eq('token_hash', hashShareToken(token))
+        .maybeSingle();
+
+    if (!data) return { status: 'not_found' as const };
+    const row = data as unknown as InvitationRow & { workspaces: { name: string } };
+    if (row.revoked_at) return { status: 'revoked' as const };
+    if (row.accepted_at) return { status: 'accepted' as const };
+    if (new Date(row.expires_at) < new Date()) return { status: 'expired' as const };
+    return { status: 'ok' as const, row };
+}
+
+/**
+ * Lists the workspaces the caller belongs to, personal workspace first.
+ * Creates the personal workspace on first use.
+ *
+ * @returns The workspaces with the caller's role in each
+ * @keyTechnologies Supabase
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+    const userId = await requireUserId();
+
+    const { error: personalError } = await supabaseAdmin.rpc('ensure_personal_workspace', { uid: userId });
+    if (personalError) {
+        console.error('Failed to create personal workspace:', personalError);
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('workspace_members')
+        .select('role, workspaces(id, name, personal, created_at)')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error listing workspaces:', error);
+        throw new Error('Failed to load workspaces');
+    }
+
+    return (data as unknown as MembershipRow[])
+        .map(toWorkspace)
+        .sort((a, b) => Number(b.personal) - Number(a.personal) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Creates a team workspace with the caller as its owner.
+ *
+ * @param name - The workspace name
+ * @returns The new workspace
+ */
+export async function createWorkspace(name: string): Promise<Workspace> {
+    const userId = await requireUserId();
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error('Workspace name is required');
+    }
+
+    const { data: workspace, error } = await supabaseAdmin
+        .from('workspaces')
+        .insert({ name: trimmed, created_by: userId })
+        .select('id, name, personal, created_at')
+        .single();
+
+    if (error || !workspace) {
+        console.error('Error creating workspace:', error);
+        throw new Error('Failed to create workspace');
+    }
+
+    const { error: memberError } = await supabaseAdmin
+        .from('workspace_members')
+        .insert({ workspace_id: workspace.id, user_id: userId, role: 'owner' });
+
+    if (memberError) {
+        console.error('Error adding workspace owner:', memberError);
+        await supabaseAdmin.from('workspaces').delete().eq('id', workspace.id);
+        throw new Error('Failed to create workspace');
+    }
+
+    return toWorkspace({ role: 'owner', workspaces: workspace });
+}
+
+/**
+ * Renames a workspace. Owners only.
+ *
+ * @param workspaceId - The workspace to rename
+ * @param name - The new name
+ */
+export async function renameWorkspace(workspaceId: string, name: string) {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, 'owner');
+    const trimmed = name.trim();
+    if (!trimmed) {
+        throw new Error('Workspace name is required');
+    }
+
+    const { error } = await supabaseAdmin
+        .from('workspaces')
+        .update({ name: trimmed })
+        .eq('id', workspaceId);
+
+    if (error) {
+        console.error('Error renaming workspace:', error);
+        throw new Error('Failed to rename workspace');
+    }
+}
+
+/**
+ * Lists a workspace's members. Any member may see who else belongs to it.
+ *
+ * @param workspaceId - The workspace
+ * @returns Members with their email addresses and roles, owners first
+ * @keyTechnologies Supabase, Supabase Auth Admin
+ */
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, 'viewer');
+
+    const { data, error } = await supabaseAdmin
+        .from('workspace_members')
+        .select('user_id, role, created_at')
+        .eq('workspace_id', workspaceId)
+        .order('created_at', { ascending: true });
+
+    if (error) {
+        console.error('Error listing workspace members:', error);
+        throw new Error('Failed to load members');
+    }
+
+    const emails = await getUserEmails(data.map(row => row.user_id));
+    const members = data.map(row => ({
+        userId: row.user_id,
+        email: emails.get(row.user_id) || null,
+        role: row.role as WorkspaceRole,
+        joinedAt: row.created_at
+    }));
+
+    return members.sort((a, b) => Number(b.role === 'owner') - Number(a.role === 'owner'));
+}
+
+/**
+ * Changes a member's role. Owners only; the last owner can't be demoted.
+ *
+ * @param workspaceId - The workspace
+ * @param memberId - The member's user ID
+ * @param role - The new role
+ */
+export async function updateWorkspaceMemberRole(workspaceId: string, memberId: string, role: WorkspaceRole) {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, 'owner');
+    if (!isWorkspaceRole(role)) {
+        throw new Error('Unknown role');
+    }
+    if (role !== 'owner') {
+        await assertAnotherOwner(workspaceId, memberId);
+    }
+
+    const { error } = await supabaseAdmin
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', memberId);
+
+    if (error) {
+        console.error('Error updating member role:', error);
+        throw new Error('Failed to update role');
+    }
+}
+
+/**
+ * Removes a member. Owners can remove anyone and members can leave; the last
+ * owner can't, and nobody can leave their own personal workspace.
+ *
+ * @param workspaceId - The workspace
+ * @param memberId - The member's user ID
+ */
+export async function removeWorkspaceMember(workspaceId: string, memberId: string) {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, memberId === userId ? 'viewer' : 'owner');
+
+    const { data: workspace } = await supabaseAdmin
+        .from('workspaces')
+        .select('personal, created_by')
+        .eq('id', workspaceId)
+        .single();
+
+    if (workspace?.personal && workspace.created_by === memberId) {
+        throw new Error('A personal workspace always keeps its owner');
+    }
+    await assertAnotherOwner(workspaceId, memberId);
+
+    const { error } = await supabaseAdmin
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', memberId);
+
+    if (error) {
+        console.error('Error removing member:', error);
+        throw new Error('Failed to remove member');
+    }
+}
+
+/**
+ * Lists a workspace's pending invitations. Owners only.
+ *
+ * @param workspaceId - The workspace
+ * @returns Invitations not yet accepted, revoked or expired, newest first
+ */
+export async function listWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitation[]> {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, 'owner');
+
+    const { data, error } = await supabaseAdmin
+        .from('workspace_invitations')
+        .select(INVITATION_COLUMNS)
+        .eq('workspace_id', workspaceId)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('Error listing invitations:', error);
+        throw new Error('Failed to load invitations');
+    }
+
+    return (data as InvitationRow[]).map(toInvitation);
+}
+
+/**
+ * Invites someone to a workspace by email. Owners only.
+ *
+ * The raw token is returned only once, for the invitation link
+ * (/dashboard/invite/<token>); the database keeps just its hash.
+ *
+ * @param workspaceId - The workspace
+ * @param email - The address that may accept the invitation
+ * @param role - The role they join with
+ * @returns The invitation and its raw token
+ * @keyTechnologies Supabase, Node crypto
+ */
+export async function createWorkspaceInvitation(
+    workspaceId: string,
+    email: string,
+    role: WorkspaceRole
+): Promise<{ invitation: WorkspaceInvitation; token: string }> {
+    const userId = await requireUserId();
+    await requireWorkspaceRole(userId, workspaceId, 'owner');
+
+    const normalizedEmail = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) {
+        throw new Error('Enter a valid email address');
+    }
+    if (!isWorkspaceRole(role)) {
+        throw new Error('Unknown role');
+    }
+
+    const token = generateShareToken();
+    const { data, error } = await supabaseAdmin
+        .from('workspace_invitations')
+        .insert({
+            workspace_id: workspaceId,
+            email: normalizedEmail,
+            role,
+            token_hash: hashShareToken(token),
+            invited_by: userId,
+            expires_at: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+        })
+        .select(INVITATION_COLUMNS)
+        .single();
+
+    if (error || !data) {
+        console.error('Error creating invitation:', error);
+        throw new Error('Failed to create invitation');
+    }
+
+    return { invitation: toInvitation(data as InvitationRow), token };
+}
+
+/**
+ * Revokes a pending invitation. Owners only.
+ *
+ * @param invitationId - The invitation to revoke
+ */
+export async function revokeWorkspaceInvitation(invitationId: string) {
+    const userId = await requireUserId();
+    const { data: invitation } = await supabaseAdmin
+        .from('workspace_invitations')
+        .select('workspace_id')
+        .eq('id', invitationId)
+        .maybeSingle();
+
+    if (!invitation) {
+        throw new Error('Invitation not found');
+    }
+    await requireWorkspaceRole(userId, invitation.workspace_id, 'owner');
+
+    const { error } = await supabaseAdmin
+        .from('workspace_invitations')
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', invitationId)
+        .is('accepted_at', null);
+
+    if (error) {
+        console.error('Error revoking invitation:', error);
+        throw new Error('Failed to revoke invitation');
+    }
+}
+
+/**
+ * Shows what an invitation link is for, without accepting it.
+ *
+ * @param token - The raw token from the invitation link
+ * @returns The workspace and role, or why the invitation can't be used
+ */
+export async function previewWorkspaceInvitation(token: string): Promise<InvitationResult> {
+    await requireUserId();
+    const found = await findInvitation(token);
+    if (found.status !== 'ok') return { status: found.status };
+
+    const { row } = found;
+    return { status: 'ok', workspaceId: row.workspace_id, workspaceName: row.workspaces.name, role: row.role };
+}
+
+/**
+ * Accepts an invitation for the signed-in user, whose email must match the
+ * invited address. Existing members keep the higher of their current and the
+ * invited role.
+ *
+ * @param token - The raw token from the invitation link
+ * @returns The joined workspace, or why the invitation can't be used
+ */
+export async function acceptWorkspaceInvitation(token: string): Promise<InvitationResult> {
+    const userId = await requireUserId();
+    const found = await findInvitation(token);
+    if (found.status !== 'ok') return { status: found.status };
+
+    const { row } = found;
+    const { data: user } = await supabaseAdmin.auth.admin.getUserById(userId);
+    if (user?.user?.email?.toLowerCase() !== row.email) {
+        return { status: 'wrong_email', email: row.email };
+    }
+
+    // Claim the invitation first so it can't be used twice
+    const { data: claimed } = await supabaseAdmin
+        .from('workspace_invitations')
+        .update({ accepted_at: new Date().toISOString(), accepted_by: userId })
+        .eq('id', row.id)
+        .is('accepted_at', null)
+        .is('revoked_at', null)
+        .select('id')
+        .maybeSingle();
+
+    if (!claimed) return { status: 'accepted' };
+
+    const { data: existing } = await supabaseAdmin
+        .from('workspace_members')
+        .select('role')
+        .eq('workspace_id', row.workspace_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!existing || !hasWorkspaceRole(existing.role, row.role)) {
+        const { error } = await supabaseAdmin
+            .from('workspace_members')
+            .upsert({ workspace_id: row.workspace_id, user_id: userId, role: row.role });
+
+        if (error) {
+            console.error('Error adding workspace member:', error);
+            await supabaseAdmin
+                .from('workspace_invitations')
+                .update({ accepted_at: null, accepted_by: null })
+                .eq('id', row.id);
+            throw new Error('Failed to join workspace');
+        }
+    }
+
+    return { status: 'ok', workspaceId: row.workspace_id, workspaceName: row.workspaces.name, role: row.role };
+}
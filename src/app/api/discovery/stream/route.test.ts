@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { requireUserId } from '@/lib/supabaseServer';
+import { withAIFallback } from '@/lib/aiProviders';
+import { resetTables, tables } from '@/test/fakeSupabase';
+import { POST } from './route';
+
+vi.mock('@/lib/supabaseAdmin', () => import('@/test/fakeSupabase'));
+vi.mock('@/lib/supabaseServer', () => ({ requireUserId: vi.fn() }));
+vi.mock('@/lib/aiProviders', () => ({
+    withAIFallback: vi.fn(async () => {
+        throw new Error('The AI must not be called for a rejected request');
+    })
+}));
+
+const USER_A = '00000000-0000-4000-8000-00000000000a';
+const USER_B = '00000000-0000-4000-8000-00000000000b';
+const SESSION_A = '00000000-0000-4000-8000-0000000000a3';
+
+const sessionOfA = {
+    id: SESSION_A,
+    user_id: USER_A,
+    idea_id: null,
+    messages: [{ role: 'assistant', content: 'What problem are you solving?', timestamp: '2026-01-01T00:00:00.000Z' }],
+    current_phase: 'problem',
+    playbook_id: 'general',
+    playbook_version: 1,
+    extracted_facts: {},
+    research_context: null,
+    status: 'active',
+    created_at: '2026-01-01T00:00:00.000Z'
+};
+
+const streamRequest = (body: unknown) =>
+    new Request('http://localhost/api/discovery/stream', { method: 'POST', body: JSON.stringify(body) });
+
+beforeEach(() => {
+    vi.clearAllMocks();
+    resetTables({ discovery_sessions: [sessionOfA] });
+});
+
+describe('POST /api/discovery/stream', () => {
+    it("rejects continuing another user's session", async () => {
+        vi.mocked(requireUserId).mockResolvedValue(USER_B);
+
+        const response = await POST(streamRequest({ sessionId: SESSION_A, message: 'Show me your idea' }));
+
+        expect(response.status).toBe(404);
+        expect(withAIFallback).not.toHaveBeenCalled();
+        expect(tables.discovery_sessions).toEqual([sessionOfA]);
+    });
+
+    it('rejects requests without a signed-in user', async () => {
+        vi.mocked(requireUserId).mockRejectedValue(new Error('Not authenticated'));
+
+        const response = await POST(streamRequest({ sessionId: SESSION_A, message: 'Hello' }));
+
+        expect(response.status).toBe(401);
+        expect(withAIFallback).not.toHaveBeenCalled();
+        expect(tables.discovery_sessions).toEqual([sessionOfA]);
+    });
+});
@@ -0,0 +1,132 @@
+/**
+ * @module app/api/discovery/stream/route
+ * @description Streams Discovery Mode replies token by token.
+ *
+ * Responds with newline-delimited JSON (DiscoveryStreamEvent): `delta` events
+ * while the model writes, then a single `done` event with the turn result once
+ * the reply has been saved. The session history is only written after the
+ * full reply arrives, so a dropped connection leaves the stored conversation
+ * exactly as it was. In conversational phases only the reply inside the
+ * phase-control envelope is streamed, not the control data around it.
+ * Synthesis output that stays invalid after its repair attempts ends the
+ * stream with an `error` event explaining why, and the turn isn't saved.
+ * The caller is resolved from the auth cookies (401 without a session), and
+ * only their own sessions can be continued (404 otherwise).
+ *
+ * @dependencies OpenAI Chat Completions (streaming), lib/discovery, lib/phaseControl, lib/aiProviders, lib/supabaseServer
+ */
+
+import { CONCURRENT_TURN_ERROR, prepareDiscoveryTurn, saveDiscoveryTurn, type DiscoveryTurn } from '@/lib/discovery';
+import { withAIFallback } from '@/lib/aiProviders';
+import { streamedReplyText } from '@/lib/phaseControl';
+import { recordUsage, toTokenUsage, type TokenUsage } from '@/lib/usage';
+import { requireUserId } from '@/lib/supabaseServer';
+import type { AIRoutingConfig, DiscoveryStreamEvent } from '@/types';
+
+interface StreamRequestBody {
+    sessionId?: string;
+    message?: string;
+    config?: AIRoutingConfig;
+}
+
+const encoder = new TextEncoder();
+const encodeEvent = (event: DiscoveryStreamEvent) => encoder.encode(`${JSON.stringify(event)}\n`);
+
+/**
+ * Sends a user message and streams the AI's reply.
+ *
+ * @param request - JSON body with sessionId, message and the user's AI routing config
+ * @returns An NDJSON stream of DiscoveryStreamEvent
+ * @keyTechnologies Next.js Route Handlers, ReadableStream, OpenAI Streaming
+ */
+export async function POST(request: Request) {
+    const { sessionId, message, config }: StreamRequestBody = await request.json().catch(() => ({}));
+
+    if (!sessionId || !message?.trim()) {
+        return Response.json({ error: 'sessionId and message are required' }, { status: 400 });
+    }
+
+    let userId: string;
+    try {
+        userId = await requireUserId();
+    } catch {
+        return Response.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    let turn: DiscoveryTurn;
+    try {
+        turn = await prepareDiscoveryTurn(sessionId, userId, message.trim(), config);
+    } catch {
+        return Response.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            try {
+                // Fallback providers are only tried before the first token is sent
+                const { result: completion, candidate } = await withAIFallback(turn.task, { userId: turn.userId, config: turn.config }, ({ client, model }) =>
+                    client.chat.completions.create(
+                        { ...turn.request, model, stream: true, stream_options: { include_usage: true } },
+                        { signal: request.signal }
+                    )
+                );
+
+                let aiContent = '';
+                let sentReply = '';
+                let usage: TokenUsage | null = null;
+                for await (const chunk of completion) {
+                    if (chunk.usage) usage = toTokenUsage(chunk.usage);
+                    const delta = chunk.choices[0]?.delta?.content;
+                    if (!delta) continue;
+                    aiContent += delta;
+
+                    const reply = turn.phaseControl ? streamedReplyText(aiContent) ?? aiContent : aiContent;
+                    if (reply.length > sentReply.length && reply.startsWith(sentReply)) {
+                        controller.enqueue(encodeEvent({ type: 'delta', content: reply.slice(sentReply.length) }));
+                        sentReply = reply;
+                    }
+                }
+
+                if (!aiContent) {
+                    aiContent = 'I apologize, I encountered an issue. Could you repeat that?';
+                }
+
+                await recordUsage({
+                    userId: turn.userId,
+                    ideaId: turn.ideaId,
+                    discoverySessionId: turn.sessionId,
+                    task: turn.task,
+                    model: candidate.model,
+                    provider: candidate.provider,
+                    usage
+                });
+
+                // Only persist once the client is still listening and the reply is complete
+                if (request.signal.aborted) return;
+
+                const result = await saveDiscoveryTurn(turn, aiContent);
+                controller.enqueue(result.synthesisError
+                    ? encodeEvent({ type: 'error', message: result.synthesisError })
+                    : encodeEvent({ type: 'done', result }));
+            } catch (error) {
+                if (request.signal.aborted) return;
+                console.error('AI stream failed:', error);
+                const message = error instanceof Error && error.message === CONCURRENT_TURN_ERROR ? CONCURRENT_TURN_ERROR : 'Failed to process message';
+                controller.enqueue(encodeEvent({ type: 'error', message }));
+            } finally {
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed because the client disconnected
+                }
+            }
+        }
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'application/x-ndjson; charset=utf-8',
+            'Cache-Control': 'no-cache, no-transform'
+        }
+    });
+}
@@ -0,0 +1,43 @@
+/**
+ * @module app/auth/callback/route
+ * @description Completes sign-ins that leave the site: magic links, email
+ * confirmations, password reset links and GitHub/Google OAuth.
+ *
+ * Supabase Auth redirects here with a one-time `code` (PKCE), which is
+ * exchanged for a session stored in the auth cookies; the user then continues
+ * to `next`. Expired or invalid links, cancelled OAuth consent and failed
+ * exchanges go back to the login page with ?error=<code> (see lib/authErrors).
+ *
+ * @dependencies lib/supabaseServer, lib/authRedirect
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { loginErrorPath, safeNextPath } from '@/lib/authRedirect';
+
+/**
+ * @param request - The redirect from Supabase Auth (`code` and `next`, or `error`/`error_code`)
+ * @returns A redirect to `next` with the session cookies set, or to the login page
+ * @keyTechnologies Next.js Route Handlers, Supabase SSR
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = request.nextUrl;
+    const next = safeNextPath(searchParams.get('next'));
+    const code = searchParams.get('code');
+
+    // Set by Supabase when the link has expired, was already used or consent was denied
+    const linkError = searchParams.get('error_code') || searchParams.get('error');
+    if (linkError || !code) {
+        return NextResponse.redirect(new URL(loginErrorPath(linkError || 'missing_code', next), request.url));
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+
+    if (error) {
+        console.error('Failed to exchange auth code:', error);
+        return NextResponse.redirect(new URL(loginErrorPath(error.code || 'missing_code', next), request.url));
+    }
+
+    return NextResponse.redirect(new URL(next, request.url));
+}
@@ -0,0 +1,191 @@
+/**
+ * @module app/dashboard/board/page
+ * @description Kanban pipeline view of the active workspace's ideas grouped by stage.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { IdeaCard } from '@/components/dashboard/IdeaCard';
+import { useWorkspace } from '@/components/layout/WorkspaceContext';
+import { supabase } from '@/lib/supabase';
+import { getUnreadComments } from '@/app/actions/comments';
+import { loginPathFor } from '@/lib/authRedirect';
+import { cn } from '@/lib/utils';
+import { BOARD_STAGES, DEFAULT_BOARD_STAGE } from '@/config/boardStages';
+import type { Idea, IdeaStage, UnreadComments } from '@/types';
+
+/**
+ * Board View.
+ *
+ * Renders one column per pipeline stage and lets users drag idea cards
+ * between them. Stage changes are applied optimistically and rolled back
+ * if the database update fails. Viewers see the board but cannot drag.
+ *
+ * @returns {JSX.Element} The rendered board
+ */
+export default function BoardPage() {
+    const { activeWorkspace, canEdit } = useWorkspace();
+    const workspaceId = activeWorkspace?.id;
+    const [ideas, setIdeas] = useState<Idea[]>([]);
+    const [unreadComments, setUnreadComments] = useState<Record<string, UnreadComments>>({});
+    const [loading, setLoading] = useState(true);
+    const [draggingId, setDraggingId] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<IdeaStage | null>(null);
+
+    useEffect(() => {
+        if (!workspaceId) return;
+        let cancelled = false;
+
+        const fetchIdeas = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) {
+                window.location.href = loginPathFor(window.location.pathname + window.location.search);
+                return;
+            }
+
+            const [{ data, error }, unread] = await Promise.all([
+                supabase
+                    .from('ideas')
+                    .select('*')
+                    .eq('workspace_id', workspaceId)
+                    .order('updated_at', { ascending: false }),
+                getUnreadComments(workspaceId).catch(unreadError => {
+                    console.error('Error fetching unread comments:', unreadError);
+                    return {};
+                })
+            ]);
+
+            if (cancelled) return;
+            if (error) {
+                console.error('Error fetching ideas:', error);
+            } else {
+                setIdeas((data || []) as Idea[]);
+                setUnreadComments(unread);
+            }
+            setLoading(false);
+        };
+
+        fetchIdeas();
+        return () => {
+            cancelled = true;
+        };
+    }, [workspaceId]);
+
+    /**
+     * Moves an idea to a new stage and persists the change.
+     */
+    const moveIdea = async (ideaId: string, stage: IdeaStage) => {
+        const idea = ideas.find(i => i.id === ideaId);
+        if (!idea || idea.stage === stage) return;
+
+        const previousStage = idea.stage;
+        setIdeas(prev => prev.map(i => (i.id === ideaId ? { ...i, stage } : i)));
+
+        const { error } = await supabase
+            .from('ideas')
+            .update({ stage })
+            .eq('id', ideaId);
+
+        if (error) {
+            console.error('Failed to move idea:', error);
+            setIdeas(prev => prev.map(i => (i.id === ideaId ? { ...i, stage: previousStage } : i)));
+        }
+    };
+
+    const handleDrop = (e: React.DragEvent, stage: IdeaStage) => {
+        e.preventDefault();
+        const ideaId = e.dataTransfer.getData('text/idea-id');
+        setDropTarget(null);
+        setDraggingId(null);
+        if (ideaId) moveIdea(ideaId, stage);
+    };
+
+    if (loading) return <div className="p-8 text-center animate-pulse text-slate-500">Loading your pipeline...</div>;
+
+    return (
+        <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                <h2 className="text-3xl font-extrabold text-white mb-2">Board</h2>
+                <p className="text-slate-400">
+                    {canEdit ? 'Drag ideas through your pipeline.' : 'You have view-only access to this workspace.'}
+                </p>
+            </div>
+
+            <div className="flex gap-4 overflow-x-auto pb-4 -mx-4 px-4 lg:mx-0 lg:px-0">
+                {BOARD_STAGES.map(stage => {
+                    const columnIdeas = ideas.filter(i => (i.stage || DEFAULT_BOARD_STAGE) === stage.id);
+
+                    return (
+                        <section
+                            key={stage.id}
+                            onDragOver={e => {
+                                e.preventDefault();
+                                e.dataTransfer.dropEffect = 'move';
+                                if (dropTarget !== stage.id) setDropTarget(stage.id);
+                            }}
+                            onDragLeave={e => {
+                                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+                            }}
+                            onDrop={e => handleDrop(e, stage.id)}
+                            className={cn(
+                                "flex-shrink-0 w-72 flex flex-col bg-slate-900/40 border rounded-2xl transition-colors",
+                                dropTarget === stage.id ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-slate-800'
+                            )}
+                        >
+                            <header className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+                                <div className="flex items-center gap-2">
+                                    <span className={cn("w-2 h-2 rounded-full", stage.accent)} />
+                                    <h3 className="font-bold text-white text-sm">{stage.label}</h3>
+                                    <span className="text-xs text-slate-500">{columnIdeas.length}</span>
+                                </div>
+                                <span className="text-[10px] uppercase tracking-wider text-slate-600">{stage.description}</span>
+                            </header>
+
+                            <div className="flex-1 p-3 space-y-3 min-h-[200px]">
+                                {columnIdeas.map(idea => (
+                                    <div
+                                        key={idea.id}
+                                        draggable={canEdit}
+                                        onDragStart={e => {
+                                            e.dataTransfer.setData('text/idea-id', idea.id);
+                                            e.dataTransfer.effectAllowed = 'move';
+                                            setDraggingId(idea.id);
+                                        }}
+                                        onDragEnd={() => {
+                                            setDraggingId(null);
+                                            setDropTarget(null);
+                                        }}
+                                        className={cn(
+                                            "transition-opacity",
+                                            canEdit && 'cursor-grab active:cursor-grabbing',
+                                            draggingId === idea.id && 'opacity-40'
+                                        )}
+                                    >
+                                        <IdeaCard
+                                            idea={{
+                                                id: idea.id,
+                                                title: idea.title,
+                                                description: idea.description,
+                                                inputType: idea.input_type || 'Text',
+                                                status: idea.status,
+                                                tags: []
+                                            }}
+                                            unreadComments={unreadComments[idea.id]}
+                                        />
+                                    </div>
+                                ))}
+
+                                {columnIdeas.length === 0 && (
+                                    <div className="h-24 border-2 border-dashed border-slate-800 rounded-xl flex items-center justify-center">
+                                        <p className="text-xs text-slate-600">Drop ideas here</p>
+                                    </div>
+                                )}
+                            </div>
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
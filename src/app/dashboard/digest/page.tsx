@@ -0,0 +1,229 @@
+/**
+ * @module app/dashboard/digest/page
+ * @description Weekly Digest summarizing the past seven days of the vault.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+    Lightbulb,
+    CheckCircle2,
+    XCircle,
+    TrendingUp,
+    TrendingDown,
+    MessageSquare,
+    RefreshCw
+} from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { supabase } from '@/lib/supabase';
+import { loginPathFor } from '@/lib/authRedirect';
+import { cn } from '@/lib/utils';
+import { generateWeeklyDigest } from '@/app/actions/digest';
+import type { WeeklyDigest } from '@/types';
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/**
+ * Weekly Digest View.
+ *
+ * Requests the server-generated digest for the signed-in user and renders
+ * new captures, finished research, score movements and open discovery sessions.
+ *
+ * @returns {JSX.Element} The rendered digest page
+ */
+export default function DigestPage() {
+    const [digest, setDigest] = useState<WeeklyDigest | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadDigest = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) {
+                window.location.href = loginPathFor(window.location.pathname + window.location.search);
+                return;
+            }
+            setDigest(await generateWeeklyDigest());
+        } catch (err) {
+            console.error('Failed to load digest:', err);
+            setError('Could not generate your weekly digest.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadDigest();
+    }, []);
+
+    if (loading) return <div className="p-8 text-center animate-pulse text-slate-500">Compiling your week...</div>;
+
+    if (error || !digest) {
+        return (
+            <div className="py-20 flex flex-col items-center gap-4">
+                <p className="text-rose-400">{error || 'Digest unavailable.'}</p>
+                <button
+                    onClick={loadDigest}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 rounded-lg transition-colors"
+                >
+                    <RefreshCw size={14} /> Try again
+                </button>
+            </div>
+        );
+    }
+
+    const { totals } = digest;
+
+    return (
+        <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                <h2 className="text-3xl font-extrabold text-white mb-2">Weekly Digest</h2>
+                <p className="text-slate-400">
+                    {formatDate(digest.periodStart)} – {formatDate(digest.periodEnd)}
+                </p>
+            </div>
+
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                {[
+                    { label: 'New Ideas', value: totals.newIdeas, color: 'text-indigo-400' },
+                    { label: 'Research Ready', value: totals.researchReady, color: 'text-emerald-400' },
+                    { label: 'Research Failed', value: totals.researchFailed, color: 'text-rose-400' },
+                    { label: 'Open Discoveries', value: totals.activeDiscoverySessions, color: 'text-violet-400' },
+                    { label: 'Avg. Readiness', value: totals.averageReadiness ?? '—', color: 'text-amber-400' }
+                ].map(stat => (
+                    <div key={stat.label} className="bg-slate-800/40 border border-slate-700/50 p-5 rounded-2xl">
+                        <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-2">{stat.label}</p>
+                        <div className={cn('text-3xl font-black', stat.color)}>{stat.value}</div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* New Ideas */}
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <Lightbulb size={18} className="text-indigo-400" /> Captured This Week
+                    </h3>
+                    {digest.newIdeas.length === 0 ? (
+                        <p className="text-slate-500 text-sm">No new ideas this week.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {digest.newIdeas.map(idea => (
+                                <li key={idea.id}>
+                                    <Link
+                                        href={`/dashboard/ideas/${idea.id}`}
+                                        className="flex items-center justify-between gap-4 p-3 rounded-xl hover:bg-slate-800 transition-colors"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="text-white font-medium truncate">{idea.title}</p>
+                                            <p className="text-xs text-slate-500">{idea.inputType} · {formatDate(idea.createdAt)}</p>
+                                        </div>
+                                        <Badge status={idea.status} />
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {/* Research Runs */}
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <CheckCircle2 size={18} className="text-emerald-400" /> Research Runs
+                    </h3>
+                    {digest.completedResearch.length === 0 ? (
+                        <p className="text-slate-500 text-sm">No research finished this week.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {digest.completedResearch.map(run => (
+                                <li key={run.ideaId}>
+                                    <Link
+                                        href={`/dashboard/ideas/${run.ideaId}`}
+                                        className="flex items-center justify-between gap-4 p-3 rounded-xl hover:bg-slate-800 transition-colors"
+                                    >
+                                        <div className="min-w-0">
+                                            <p className="text-white font-medium truncate">{run.title}</p>
+                                            <p className={cn('text-xs truncate', run.error ? 'text-rose-400' : 'text-slate-500')}>
+                                                {run.error || `Finished ${formatDate(run.completedAt)}`}
+                                            </p>
+                                        </div>
+                                        {run.status === 'Ready' ? (
+                                            <span className="text-xl font-black text-indigo-400">{run.readinessScore ?? '—'}</span>
+                                        ) : (
+                                            <XCircle size={20} className="text-rose-400 flex-shrink-0" />
+                                        )}
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {/* Score Changes */}
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <TrendingUp size={18} className="text-amber-400" /> Readiness Changes
+                    </h3>
+                    {digest.scoreChanges.length === 0 ? (
+                        <p className="text-slate-500 text-sm">No readiness scores moved this week.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {digest.scoreChanges.map(change => (
+                                <li key={change.ideaId}>
+                                    <Link
+                                        href={`/dashboard/ideas/${change.ideaId}`}
+                                        className="flex items-center justify-between gap-4 p-3 rounded-xl hover:bg-slate-800 transition-colors"
+                                    >
+                                        <p className="text-white font-medium truncate">{change.title}</p>
+                                        <div className="flex items-center gap-3 flex-shrink-0">
+                                            <span className="text-sm text-slate-500">{change.previousScore} → {change.currentScore}</span>
+                                            <span className={cn(
+                                                'flex items-center gap-1 text-sm font-bold',
+                                                change.delta > 0 ? 'text-emerald-400' : 'text-rose-400'
+                                            )}>
+                                                {change.delta > 0 ? <TrendingUp size={14} /> : <TrendingDown size={14} />}
+                                                {change.delta > 0 ? `+${change.delta}` : change.delta}
+                                            </span>
+                                        </div>
+                                    </Link>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+
+                {/* Active Discovery */}
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <MessageSquare size={18} className="text-violet-400" /> Discovery In Progress
+                    </h3>
+                    {digest.activeDiscoverySessions.length === 0 ? (
+                        <p className="text-slate-500 text-sm">No open discovery sessions.</p>
+                    ) : (
+                        <ul className="space-y-3">
+                            {digest.activeDiscoverySessions.map(session => (
+                                <li key={session.sessionId} className="flex items-center justify-between gap-4 p-3 rounded-xl">
+                                    <div className="min-w-0">
+                                        <p className="text-white font-medium truncate">{session.ideaTitle || 'New idea'}</p>
+                                        <p className="text-xs text-slate-500">
+                                            Started {formatDate(session.startedAt)} · {session.messageCount} messages
+                                        </p>
+                                    </div>
+                                    <span className="text-xs font-bold uppercase tracking-wider text-violet-300 bg-violet-500/10 border border-violet-500/20 px-2.5 py-1 rounded-full flex-shrink-0">
+                                        {session.phaseLabel}
+                                    </span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+}
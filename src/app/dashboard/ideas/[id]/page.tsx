@@ -5,55 +5,114 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
-    TrendingUp,
-    Users,
-    ShieldCheck,
     Share2,
     Download,
-    CheckCircle2,
-    AlertCircle,
     RefreshCw,
     XCircle,
-    Loader2
+    Loader2,
+    FileText,
+    FileDown,
+    Sparkles
 } from 'lucide-react';
 import { Badge } from '@/components/ui/Badge';
-import { GrowthChart } from '@/components/dashboard/GrowthChart';
-import { supabase } from '@/lib/supabase';
+import { ResearchReport } from '@/components/dashboard/ResearchReport';
+import { VersionSwitcher } from '@/components/dashboard/VersionSwitcher';
+import { ResearchDiffView } from '@/components/dashboard/ResearchDiffView';
+import { IdeaComments } from '@/components/dashboard/IdeaComments';
+import { ShareModal } from '@/components/modals/ShareModal';
+import { useWorkspace } from '@/components/layout/WorkspaceContext';
+import { DiscoveryModal } from '@/components/modals/DiscoveryModal';
+import { supabase, getAssetUrl } from '@/lib/supabase';
 import { useParams } from 'next/navigation';
-import { performResearch } from '@/app/actions/research';
-import { Idea } from '@/types';
+import { queueResearch, getResearchJob, listResearchVersions } from '@/app/actions/research';
+import { getMonthlyBudget } from '@/app/actions/usage';
+import { budgetExceededMessage } from '@/lib/usageFormat';
+import { exportIdeaReport } from '@/app/actions/export';
+import { diffResearch } from '@/lib/researchDiff';
+import { hasWorkspaceRole } from '@/lib/workspaceRoles';
+import { loadAISettings, toRoutingConfig } from '@/lib/aiSettings';
+import { CommentAnchor, Idea, ResearchJob, ResearchVersion } from '@/types';
 
 /**
  * Detailed Research View.
  * 
  * Displays the complete AI-generated research packet including market metrics,
  * competitor analysis, and action plans. Polls for updates while analyzing.
+ * Earlier research runs stay browsable and can be diffed against each other.
+ * "Send to Discovery" refines a researched idea in a discovery session seeded
+ * with its research, then re-runs research with the refined prompt.
+ * Below the report, the workspace discusses it in comment threads. Viewers
+ * only read: re-running, discovery and sharing are for editors and owners.
  * 
  * @returns {JSX.Element} The rendered detail page
  */
 export default function IdeaDetailPage() {
     const params = useParams();
     const id = params.id as string;
+    const { workspaces } = useWorkspace();
     const [idea, setIdea] = useState<Idea | null>(null);
     const [loading, setLoading] = useState(true);
     const [retrying, setRetrying] = useState(false);
+    const [assetUrl, setAssetUrl] = useState<string | null>(null);
+    const [exportMenuOpen, setExportMenuOpen] = useState(false);
+    const [exporting, setExporting] = useState<'markdown' | 'pdf' | null>(null);
+    const [shareOpen, setShareOpen] = useState(false);
+    const [discoveryOpen, setDiscoveryOpen] = useState(false);
+    const [job, setJob] = useState<ResearchJob | null>(null);
+    const [versions, setVersions] = useState<ResearchVersion[]>([]);
+    const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+    const [compareVersionId, setCompareVersionId] = useState<string | null>(null);
+    const [commentAnchor, setCommentAnchor] = useState<CommentAnchor | null>(null);
+    const [commentCounts, setCommentCounts] = useState<Record<string, number>>({});
 
     useEffect(() => {
         if (id) fetchIdea();
     }, [id]);
 
-    // Poll for updates while status is 'Analyzing'
+    // Poll for updates while status is 'Analyzing' (faster while sections are streaming in)
     useEffect(() => {
         if (idea?.status === 'Analyzing') {
             const interval = setInterval(() => {
                 fetchIdea();
-            }, 3000); // Check every 3 seconds
+            }, job?.status === 'running' ? 1000 : 3000);
 
             return () => clearInterval(interval);
         }
-    }, [idea?.status]);
+    }, [idea?.status, job?.status]);
+
+    // Sign the captured voice note / snapshot so it stays playable from the report
+    useEffect(() => {
+        if (idea?.asset_path) {
+            getAssetUrl(idea.asset_path).then(setAssetUrl);
+        }
+    }, [idea?.asset_path]);
+
+    // Reload the version history whenever a research run lands
+    useEffect(() => {
+        if (idea?.status === 'Ready') {
+            listResearchVersions(id)
+                .then(history => {
+                    setVersions(history);
+                    setSelectedVersionId(history[0]?.id ?? null);
+                    setCompareVersionId(null);
+                })
+                .catch(error => console.error('Error fetching research versions:', error));
+        }
+    }, [idea?.status, id]);
+
+    const selectedVersion = versions.find(v => v.id === selectedVersionId) || null;
+    const compareVersion = versions.find(v => v.id === compareVersionId) || null;
+
+    // Always diff older → newer, whichever side the user picked first
+    const versionDiff = useMemo(() => {
+        if (!selectedVersion || !compareVersion) return null;
+        const [older, newer] = compareVersion.version < selectedVersion.version
+            ? [compareVersion, selectedVersion]
+            : [selectedVersion, compareVersion];
+        return { diff: diffResearch(older.analysis, newer.analysis), from: older.version, to: newer.version };
+    }, [selectedVersion, compareVersion]);
 
     const fetchIdea = async () => {
         if (!loading) {
@@ -73,59 +132,81 @@ export default function IdeaDetailPage() {
         } else if (data) {
             // Explicitly casting data to Idea as Supabase types might not be fully generated/in-sync
             setIdea(data as unknown as Idea);
+            if (data.status === 'Analyzing') {
+                setJob(await getResearchJob(id));
+            }
         }
         setLoading(false);
     };
 
+    /**
+     * Queues a research run.
+     */
     const retryResearch = async () => {
         if (!idea) return;
 
         setRetrying(true);
 
-        // Update status to Analyzing
-        await supabase
-            .from('ideas')
-            .update({ status: 'Analyzing' })
-            .eq('id', id);
+        try {
+            const budget = await getMonthlyBudget();
+            if (budget.exceeded) {
+                alert(budgetExceededMessage(budget));
+                return;
+            }
 
-        setIdea({ ...idea, status: 'Analyzing' });
+            // Get provider routing from localStorage
+            setJob(await queueResearch(id, { config: toRoutingConfig(loadAISettings()) }));
+            setIdea({ ...idea, status: 'Analyzing' });
+        } catch (error) {
+            console.error('Retry failed:', error);
+            alert('Could not queue research. Please try again.');
+        } finally {
+            setRetrying(false);
+        }
+    };
 
-        try {
-            // Get AI config from localStorage
-            const savedSettings = localStorage.getItem('vault_ai_settings');
-            const aiConfig = savedSettings ? JSON.parse(savedSettings) : {};
+    /**
+     * Follows the re-research the server queued when the discovery session
+     * completed (with its refined prompt, linked to this idea).
+     */
+    const handleDiscoveryComplete = () => {
+        fetchIdea();
+    };
 
-            const analysis = await performResearch(idea.title, idea.description, aiConfig);
+    /**
+     * Generates the report server-side and hands it to the browser as a download.
+     */
+    const downloadReport = async (format: 'markdown' | 'pdf') => {
+        if (!idea) return;
 
-            await supabase
-                .from('ideas')
-                .update({
-                    status: 'Ready',
-                    analysis_result: analysis
-                })
-                .eq('id', id);
+        setExporting(format);
+        try {
+            const file = await exportIdeaReport(idea.id, format);
+            const body = file.encoding === 'base64'
+                ? Uint8Array.from(atob(file.content), c => c.charCodeAt(0))
+                : file.content;
+            const url = URL.createObjectURL(new Blob([body], { type: file.mimeType }));
 
-            fetchIdea();
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = file.filename;
+            link.click();
+            URL.revokeObjectURL(url);
         } catch (error) {
-            console.error('Retry failed:', error);
-            await supabase
-                .from('ideas')
-                .update({
-                    status: 'Error',
-                    analysis_result: { error: String(error) }
-                })
-                .eq('id', id);
-            fetchIdea();
+            console.error('Export failed:', error);
+            alert('Could not export this report. Please try again.');
         } finally {
-            setRetrying(false);
+            setExporting(null);
+            setExportMenuOpen(false);
         }
     };
 
     if (loading) return <div className="p-8 text-center animate-pulse text-slate-500">Retrieving intelligence...</div>;
     if (!idea) return <div className="p-8 text-center text-slate-500">Concept not found in the vault.</div>;
 
-    const analysis = idea.analysis_result || {};
+    const analysis = selectedVersion?.analysis || idea.analysis_result || {};
     const isReady = idea.status === 'Ready';
+    const canEdit = hasWorkspaceRole(workspaces.find(w => w.id === idea.workspace_id)?.role, 'editor');
     const isError = idea.status === 'Error';
     const isAnalyzing = idea.status === 'Analyzing';
 
@@ -137,106 +218,108 @@ export default function IdeaDetailPage() {
                     <Badge status={idea.status} />
                     <h1 className="text-4xl font-extrabold text-white mt-4 mb-2">{idea.title}</h1>
                     <p className="text-slate-400 max-w-2xl leading-relaxed">{idea.description}</p>
+                    {idea.input_type === 'Voice' && assetUrl && (
+                        <audio controls src={assetUrl} className="mt-4 h-10 w-full max-w-md" />
+                    )}
+                    {idea.input_type === 'Image' && assetUrl && (
+                        <a href={assetUrl} target="_blank" rel="noopener noreferrer" className="block mt-4 w-fit">
+                            {/* eslint-disable-next-line @next/next/no-img-element -- short-lived signed URL */}
+                            <img
+                                src={assetUrl}
+                                alt={`Snapshot of ${idea.title}`}
+                                className="max-h-48 rounded-2xl border border-slate-700 hover:border-indigo-500/50 transition-colors"
+                            />
+                        </a>
+                    )}
                 </div>
                 <div className="flex items-center gap-3">
-                    <button className="p-3 bg-slate-800 border border-slate-700 rounded-xl hover:bg-slate-700 transition-colors">
-                        <Share2 size={20} className="text-slate-300" />
-                    </button>
-                    <button className="p-3 bg-slate-800 border border-slate-700 rounded-xl hover:bg-slate-700 transition-colors">
-                        <Download size={20} className="text-slate-300" />
-                    </button>
+                    {canEdit && (
+                        <>
+                            <button
+                                onClick={() => setDiscoveryOpen(true)}
+                                disabled={!isReady || retrying}
+                                title="Send to Discovery"
+                                className="flex items-center gap-2 px-4 py-3 bg-indigo-600/10 border border-indigo-500/30 text-indigo-300 rounded-xl hover:bg-indigo-600/20 transition-colors disabled:opacity-50 text-sm font-bold"
+                            >
+                                <Sparkles size={18} />
+                                Send to Discovery
+                            </button>
+                            <button
+                                onClick={() => {
+                                    if (confirm('Re-run research? The current report is kept as a previous version.')) retryResearch();
+                                }}
+                                disabled={!isReady || retrying}
+                                title="Re-run research"
+                                className="p-3 bg-slate-800 border border-slate-700 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-50"
+                            >
+                                <RefreshCw size={20} className={retrying ? 'text-slate-300 animate-spin' : 'text-slate-300'} />
+                            </button>
+                            <button
+                                onClick={() => setShareOpen(true)}
+                                disabled={!isReady}
+                                title="Share report"
+                                className="p-3 bg-slate-800 border border-slate-700 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-50"
+                            >
+                                <Share2 size={20} className="text-slate-300" />
+                            </button>
+                        </>
+                    )}
+                    <div className="relative">
+                        <button
+                            onClick={() => setExportMenuOpen(open => !open)}
+                            disabled={!isReady || !!exporting}
+                            title="Export report"
+                            className="p-3 bg-slate-800 border border-slate-700 rounded-xl hover:bg-slate-700 transition-colors disabled:opacity-50"
+                        >
+                            {exporting ? (
+                                <Loader2 size={20} className="text-slate-300 animate-spin" />
+                            ) : (
+                                <Download size={20} className="text-slate-300" />
+                            )}
+                        </button>
+                        {exportMenuOpen && (
+                            <div className="absolute right-0 mt-2 w-48 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl p-1 z-20 animate-in fade-in duration-150">
+                                <button
+                                    onClick={() => downloadReport('pdf')}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-300 hover:bg-slate-700 rounded-lg transition-colors"
+                                >
+                                    <FileDown size={16} className="text-rose-400" /> Download PDF
+                                </button>
+                                <button
+                                    onClick={() => downloadReport('markdown')}
+                                    className="w-full flex items-center gap-2 px-3 py-2 text-sm text-slate-300 hover:bg-slate-700 rounded-lg transition-colors"
+                                >
+                                    <FileText size={16} className="text-indigo-400" /> Download Markdown
+                                </button>
+                            </div>
+                        )}
+                    </div>
                 </div>
             </div>
 
             {isReady ? (
-                <>
-                    {/* Grid Metrics */}
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-                        <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl">
-                            <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-2">Readiness Score</p>
-                            <div className="text-5xl font-black text-indigo-400">
-                                {analysis.readinessScore}<span className="text-xl text-slate-600">/100</span>
-                            </div>
-                            <div className="w-full h-2 bg-slate-700 rounded-full mt-4 overflow-hidden">
-                                <div className="h-full bg-indigo-500" style={{ width: `${analysis.readinessScore}%` }} />
-                            </div>
-                        </div>
-                        <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl flex flex-col justify-center">
-                            <div className="flex items-center gap-3 text-emerald-400 mb-2">
-                                <TrendingUp size={20} />
-                                <span className="text-xs font-bold uppercase tracking-wider text-slate-500">TAM (Market)</span>
-                            </div>
-                            <div className="text-3xl font-bold text-white">{analysis.marketSize}</div>
-                        </div>
-                        <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl flex flex-col justify-center">
-                            <div className="flex items-center gap-3 text-violet-400 mb-2">
-                                <Users size={20} />
-                                <span className="text-xs font-bold uppercase tracking-wider text-slate-500">Target Audience</span>
-                            </div>
-                            <div className="text-xl font-bold text-white line-clamp-1">{analysis.targetAudience}</div>
-                        </div>
-                        <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl flex flex-col justify-center">
-                            <div className="flex items-center gap-3 text-amber-400 mb-2">
-                                <ShieldCheck size={20} />
-                                <span className="text-xs font-bold uppercase tracking-wider text-slate-500">Top Competitor</span>
-                            </div>
-                            <div className="text-xl font-bold text-white truncate">{analysis.topCompetitor}</div>
-                        </div>
-                    </div>
-
-                    {/* Chart & Insights Section */}
-                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                        <div className="lg:col-span-2 bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl">
-                            <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-3">
-                                Market Growth Projection <span className="text-xs font-normal text-slate-500 italic">(Estimated by AI Agent)</span>
-                            </h3>
-                            <GrowthChart data={analysis.growthMetrics || []} />
-                        </div>
-
-                        <div className="bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl flex flex-col">
-                            <h3 className="text-xl font-bold text-white mb-6">Competitor List</h3>
-                            <div className="space-y-6 flex-1">
-                                {analysis.competitors?.map((comp, idx) => (
-                                    <div key={idx} className="space-y-2 pb-4 border-b border-slate-700 last:border-0">
-                                        <div className="text-white font-bold">{comp.name}</div>
-                                        <div className="flex items-start gap-2 text-xs">
-                                            <CheckCircle2 size={14} className="text-emerald-400 mt-0.5" />
-                                            <span className="text-slate-400">
-                                                <span className="text-emerald-400 font-bold">PRO:</span> {comp.strength}
-                                            </span>
-                                        </div>
-                                        <div className="flex items-start gap-2 text-xs">
-                                            <AlertCircle size={14} className="text-amber-400 mt-0.5" />
-                                            <span className="text-slate-400">
-                                                <span className="text-amber-400 font-bold">CON:</span> {comp.weakness}
-                                            </span>
-                                        </div>
-                                    </div>
-                                ))}
-                            </div>
-                            <div className="mt-6 p-4 bg-indigo-500/5 border border-indigo-500/20 rounded-2xl">
-                                <p className="text-xs text-indigo-400 font-medium leading-relaxed">
-                                    💡 Market Trend: {analysis.trend}
-                                </p>
-                            </div>
-                        </div>
-                    </div>
-
-                    {/* Action Plan */}
-                    <div className="bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl">
-                        <h3 className="text-xl font-bold text-white mb-6">Agent's Recommended Action Plan</h3>
-                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                            {analysis.actionPlan?.map((step: string, idx: number) => (
-                                <div key={idx} className="flex gap-4 items-start bg-slate-900/50 p-5 rounded-2xl border border-slate-700/30">
-                                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-slate-800 flex items-center justify-center text-indigo-400 font-bold text-sm border border-indigo-500/20">
-                                        {idx + 1}
-                                    </div>
-                                    <p className="text-slate-300 text-sm leading-relaxed">{step}</p>
-                                </div>
-                            ))}
-                        </div>
-                    </div>
-                </>
+                <div className="space-y-8">
+                    {versions.length > 1 && selectedVersionId && (
+                        <VersionSwitcher
+                            versions={versions}
+                            selectedId={selectedVersionId}
+                            compareId={compareVersionId}
+                            onSelect={versionId => {
+                                setSelectedVersionId(versionId);
+                                if (versionId === compareVersionId) setCompareVersionId(null);
+                            }}
+                            onCompare={setCompareVersionId}
+                        />
+                    )}
+                    {versionDiff && (
+                        <ResearchDiffView
+                            diff={versionDiff.diff}
+                            fromLabel={`v${versionDiff.from}`}
+                            toLabel={`v${versionDiff.to}`}
+                        />
+                    )}
+                    <ResearchReport analysis={analysis} commentCounts={commentCounts} onComment={setCommentAnchor} />
+                </div>
             ) : isError ? (
                 <div className="py-20 flex flex-col items-center justify-center space-y-6">
                     <div className="p-6 bg-rose-500/10 border border-rose-500/20 rounded-full">
@@ -251,30 +334,74 @@ export default function IdeaDetailPage() {
                             )}
                         </p>
                     </div>
-                    <button
-                        onClick={retryResearch}
-                        disabled={retrying}
-                        className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors disabled:opacity-50"
-                    >
-                        {retrying ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
-                        {retrying ? 'Retrying...' : 'Retry Analysis'}
-                    </button>
+                    {canEdit && (
+                        <button
+                            onClick={() => retryResearch()}
+                            disabled={retrying}
+                            className="flex items-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold transition-colors disabled:opacity-50"
+                        >
+                            {retrying ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+                            {retrying ? 'Retrying...' : 'Retry Analysis'}
+                        </button>
+                    )}
                 </div>
+            ) : job?.status === 'running' && job.partialResult && Object.keys(job.partialResult).length > 0 ? (
+                <>
+                    <div className="flex items-center gap-3 text-sm text-slate-400">
+                        <Loader2 size={16} className="animate-spin text-indigo-400" />
+                        Research in progress — sections appear as the analyst writes them
+                    </div>
+                    <ResearchReport analysis={job.partialResult} isStreaming />
+                </>
             ) : (
                 <div className="py-20 flex flex-col items-center justify-center space-y-4">
                     <div className="w-12 h-12 border-4 border-indigo-500/20 border-t-indigo-500 rounded-full animate-spin" />
-                    <p className="text-slate-400 font-medium">Artificial Intelligence is currently synthesizing market data...</p>
-                    <p className="text-slate-500 text-sm">This page will update automatically when ready</p>
-                    <button
-                        onClick={retryResearch}
-                        disabled={retrying}
-                        className="mt-4 flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 rounded-lg transition-colors disabled:opacity-50"
-                    >
-                        {retrying ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
-                        {retrying ? 'Retrying...' : 'Stuck? Retry Analysis'}
-                    </button>
+                    <p className="text-slate-400 font-medium">
+                        {job?.status === 'queued' && job.attempts === 0
+                            ? 'Queued — waiting for a research agent to pick this up...'
+                            : 'Artificial Intelligence is currently synthesizing market data...'}
+                    </p>
+                    {job && job.attempts > 0 && (
+                        <p className="text-slate-500 text-sm">
+                            {job.status === 'queued'
+                                ? `Attempt ${job.attempts} of ${job.maxAttempts} failed — retrying at ${new Date(job.runAfter).toLocaleTimeString()}`
+                                : `Attempt ${job.attempts} of ${job.maxAttempts}`}
+                        </p>
+                    )}
+                    <p className="text-slate-500 text-sm">Research continues in the background — feel free to close this page</p>
+                    {!job && canEdit && (
+                        <button
+                            onClick={() => retryResearch()}
+                            disabled={retrying}
+                            className="mt-4 flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                            {retrying ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                            {retrying ? 'Retrying...' : 'Stuck? Retry Analysis'}
+                        </button>
+                    )}
                 </div>
             )}
+
+            <IdeaComments
+                ideaId={idea.id}
+                focusAnchor={commentAnchor}
+                onFocusAnchorChange={setCommentAnchor}
+                onOpenCountsChange={setCommentCounts}
+            />
+
+            <ShareModal
+                isOpen={shareOpen}
+                onClose={() => setShareOpen(false)}
+                ideaId={idea.id}
+            />
+
+            <DiscoveryModal
+                isOpen={discoveryOpen}
+                onClose={() => setDiscoveryOpen(false)}
+                onComplete={handleDiscoveryComplete}
+                existingIdeaId={idea.id}
+                existingIdeaData={{ title: idea.title, description: idea.description }}
+            />
         </div>
     );
 }
@@ -0,0 +1,107 @@
+/**
+ * @module app/dashboard/invite/[token]/page
+ * @description Landing page for a workspace invitation link.
+ */
+
+'use client';
+
+import React, { useState, useEffect, use } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2, UsersRound } from 'lucide-react';
+import { WORKSPACE_ROLE_LABELS, WORKSPACE_ROLE_DESCRIPTIONS } from '@/lib/workspaceRoles';
+import { useWorkspace } from '@/components/layout/WorkspaceContext';
+import { previewWorkspaceInvitation, acceptWorkspaceInvitation, type InvitationResult } from '@/app/actions/workspaces';
+
+const UNUSABLE_MESSAGES: Record<'not_found' | 'expired' | 'revoked' | 'accepted', string> = {
+    not_found: 'This invitation link is not valid. Check that you copied all of it.',
+    expired: 'This invitation has expired. Ask the workspace owner for a new one.',
+    revoked: 'This invitation was withdrawn by the workspace owner.',
+    accepted: 'This invitation has already been used.'
+};
+
+/**
+ * Invitation View.
+ *
+ * Shows which workspace and role the link is for and joins on confirmation.
+ * The dashboard layout has already made sure the visitor is signed in.
+ *
+ * @param props.params - Route params containing the raw invitation token
+ * @returns {JSX.Element} The rendered invitation page
+ */
+export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = use(params);
+    const router = useRouter();
+    const { setActiveWorkspaceId, refreshWorkspaces } = useWorkspace();
+    const [invitation, setInvitation] = useState<InvitationResult | null>(null);
+    const [accepting, setAccepting] = useState(false);
+
+    useEffect(() => {
+        const loadInvitation = async () => {
+            try {
+                setInvitation(await previewWorkspaceInvitation(token));
+            } catch (err) {
+                console.error('Failed to load invitation:', err);
+                setInvitation({ status: 'not_found' });
+            }
+        };
+        loadInvitation();
+    }, [token]);
+
+    const accept = async () => {
+        setAccepting(true);
+        try {
+            const result = await acceptWorkspaceInvitation(token);
+            if (result.status === 'ok') {
+                await refreshWorkspaces();
+                setActiveWorkspaceId(result.workspaceId);
+                router.push('/dashboard');
+                return;
+            }
+            setInvitation(result);
+        } catch (err) {
+            console.error('Failed to accept invitation:', err);
+            alert('Could not join the workspace. Please try again.');
+        }
+        setAccepting(false);
+    };
+
+    if (!invitation) return <div className="p-8 text-center animate-pulse text-slate-500">Checking your invitation...</div>;
+
+    return (
+        <div className="max-w-md mx-auto mt-12 bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl text-center animate-in fade-in zoom-in-95 duration-500">
+            <div className="mx-auto w-12 h-12 bg-indigo-500/20 rounded-full flex items-center justify-center mb-4">
+                <UsersRound className="text-indigo-400" />
+            </div>
+
+            {invitation.status === 'ok' ? (
+                <>
+                    <h2 className="text-2xl font-bold text-white mb-2">Join {invitation.workspaceName}</h2>
+                    <p className="text-slate-400 text-sm mb-6">
+                        You&apos;re invited as {WORKSPACE_ROLE_LABELS[invitation.role].toLowerCase()}: {WORKSPACE_ROLE_DESCRIPTIONS[invitation.role].toLowerCase()}.
+                    </p>
+                    <button
+                        onClick={accept}
+                        disabled={accepting}
+                        className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                    >
+                        {accepting && <Loader2 className="animate-spin" size={18} />}
+                        Join Workspace
+                    </button>
+                </>
+            ) : (
+                <>
+                    <h2 className="text-2xl font-bold text-white mb-2">Invitation Unavailable</h2>
+                    <p className="text-slate-400 text-sm mb-6">
+                        {invitation.status === 'wrong_email'
+                            ? `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`
+                            : UNUSABLE_MESSAGES[invitation.status]}
+                    </p>
+                    <Link href="/dashboard" className="text-sm font-bold text-indigo-400 hover:text-indigo-300">
+                        Back to your ideas
+                    </Link>
+                </>
+            )}
+        </div>
+    );
+}
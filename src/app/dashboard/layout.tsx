@@ -3,40 +3,38 @@
  * @description Layout wrapper for the authenticated dashboard area.
  */
 
-'use client';
-
-import React, { useState } from 'react';
-import { Sidebar } from '@/components/layout/Sidebar';
-import { Header } from '@/components/layout/Header';
+import React from 'react';
+import { headers } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { DashboardShell } from '@/components/layout/DashboardShell';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import { REQUEST_PATH_HEADER, loginPathFor, safeNextPath } from '@/lib/authRedirect';
 
 /**
  * Authenticated Layout.
  * 
- * Manages the state for the responsive sidebar and provides the core 
- * layout structure for all dashboard views.
+ * Checks the session on the server before any dashboard view renders, so
+ * pages never load without a signed-in user. The proxy (src/proxy.ts)
+ * normally redirects first and keeps the requested path in `next`; this is
+ * the fallback for anything it lets through, and keeps `next` the same way
+ * from the path the proxy forwards.
  * 
  * @param {Object} props - Component properties
  * @param {React.ReactNode} props.children - Sub-pages
  * @returns {JSX.Element} The layout wrapper
  */
-export default function DashboardLayout({
+export default async function DashboardLayout({
     children,
 }: {
     children: React.ReactNode;
 }) {
-    const [sidebarOpen, setSidebarOpen] = useState(false);
-
-    return (
-        <div className="min-h-screen bg-[#0f172a] text-slate-200 flex font-sans">
-            <Sidebar isOpen={sidebarOpen} setOpen={setSidebarOpen} />
+    const supabase = await createSupabaseServerClient();
+    const { data: { user } } = await supabase.auth.getUser();
 
-            <main className="flex-1 lg:ml-64 relative pb-24 lg:pb-0 min-h-screen flex flex-col">
-                <Header onMenuClick={() => setSidebarOpen(true)} />
+    if (!user) {
+        const requestedPath = (await headers()).get(REQUEST_PATH_HEADER);
+        redirect(loginPathFor(safeNextPath(requestedPath)));
+    }
 
-                <div className="p-4 lg:p-8 max-w-7xl mx-auto w-full flex-1">
-                    {children}
-                </div>
-            </main>
-        </div>
-    );
+    return <DashboardShell>{children}</DashboardShell>;
 }
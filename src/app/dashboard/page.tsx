@@ -5,15 +5,24 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Plus, Settings, HelpCircle, Sparkles } from 'lucide-react';
 import { IdeaCard } from '@/components/dashboard/IdeaCard';
 import { CaptureModal } from '@/components/modals/CaptureModal';
 import { SettingsModal } from '@/components/modals/SettingsModal';
 import { AboutModal } from '@/components/modals/AboutModal';
 import { DiscoveryModal } from '@/components/modals/DiscoveryModal';
-import { supabase } from '@/lib/supabase';
-import { performResearch } from '@/app/actions/research';
+import { useWorkspace } from '@/components/layout/WorkspaceContext';
+import { supabase, uploadFile, VAULT_ASSETS_BUCKET } from '@/lib/supabase';
+import { loginPathFor } from '@/lib/authRedirect';
+import { queueResearch } from '@/app/actions/research';
+import { getMonthlyBudget } from '@/app/actions/usage';
+import { getUnreadComments } from '@/app/actions/comments';
+import { budgetExceededMessage } from '@/lib/usageFormat';
+import { researchOptionsFromSynthesis, type SynthesisResearchInput } from '@/lib/discoveryResearch';
+import { saveProviderKey } from '@/app/actions/credentials';
+import { loadAISettings, readLegacyApiKeys, saveAISettings, toRoutingConfig } from '@/lib/aiSettings';
+import type { AISettings, UnreadComments } from '@/types';
 
 interface Idea {
     id: string;
@@ -26,58 +35,68 @@ interface Idea {
     created_at: string;
 }
 
-interface AIConfig {
-    apiKey?: string;
-    baseURL?: string;
-    model?: string;
-    discoveryModeEnabled?: boolean;
-}
+/**
+ * The ideas of one workspace, newest first.
+ */
+const workspaceIdeasQuery = (workspaceId: string) => supabase
+    .from('ideas')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false });
 
 /**
  * Dashboard View.
  * 
- * Fetches ideas from Supabase and allows users to trigger new AI research.
+ * Fetches the active workspace's ideas from Supabase and allows users to
+ * trigger new AI research. Viewers of a workspace can browse but not add ideas.
  * Supports both Quick Capture and Discovery Mode for new ideas.
  * Uses real server actions for processing and optimism where applicable.
  * 
  * @returns {JSX.Element} The rendered dashboard
  */
 export default function DashboardPage() {
+    const { activeWorkspace, canEdit } = useWorkspace();
+    const workspaceId = activeWorkspace?.id;
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
     const [isAboutOpen, setIsAboutOpen] = useState(false);
     const [isDiscoveryOpen, setIsDiscoveryOpen] = useState(false);
     const [ideas, setIdeas] = useState<Idea[]>([]);
+    const [unreadComments, setUnreadComments] = useState<Record<string, UnreadComments>>({});
     const [loading, setLoading] = useState(true);
-    const [aiConfig, setAiConfig] = useState<AIConfig>({});
+    const [aiConfig, setAiConfig] = useState<AISettings>({ profiles: [], routes: {}, discoveryModeEnabled: false });
     const [userId, setUserId] = useState<string | null>(null);
     const [pendingIdeaData, setPendingIdeaData] = useState<{ title: string; description: string } | null>(null);
+    // Set when discovery runs on an existing idea ("Send to Discovery") rather than a new one
+    const [discoveryIdea, setDiscoveryIdea] = useState<Idea | null>(null);
 
     useEffect(() => {
         const checkAuth = async () => {
             const { data: { user } } = await supabase.auth.getUser();
             if (!user) {
-                window.location.href = '/login';
+                window.location.href = loginPathFor(window.location.pathname + window.location.search);
                 return;
             }
             setUserId(user.id);
-            fetchIdeas();
+
+            // Move keys saved in the browser by older versions into the encrypted store
+            const legacyKeys = readLegacyApiKeys();
+            if (legacyKeys.length > 0) {
+                Promise.all(legacyKeys.map(({ profileId, apiKey }) => saveProviderKey(profileId, apiKey)))
+                    .then(() => saveAISettings(loadAISettings()))
+                    .catch(error => console.error('Failed to move API keys to the server:', error));
+            }
         };
 
-        const savedSettings = localStorage.getItem('vault_ai_settings');
-        if (savedSettings) {
-            setAiConfig(JSON.parse(savedSettings));
-        }
+        setAiConfig(loadAISettings());
 
         checkAuth();
     }, []);
 
-    const fetchIdeas = async () => {
-        setLoading(true);
-        const { data, error } = await supabase
-            .from('ideas')
-            .select('*')
-            .order('created_at', { ascending: false });
+    const fetchIdeas = useCallback(async (silent = false) => {
+        if (!workspaceId) return;
+        if (!silent) setLoading(true);
+        const { data, error } = await workspaceIdeasQuery(workspaceId);
 
         if (error) {
             console.error('Error fetching ideas:', error);
@@ -85,6 +104,52 @@ export default function DashboardPage() {
             setIdeas(data || []);
         }
         setLoading(false);
+    }, [workspaceId]);
+
+    // Load once signed in, and again whenever the sidebar switches workspace
+    useEffect(() => {
+        if (!userId || !workspaceId) return;
+        let cancelled = false;
+        workspaceIdeasQuery(workspaceId).then(({ data, error }) => {
+            // A later switch has already replaced this request
+            if (cancelled) return;
+            if (error) {
+                console.error('Error fetching ideas:', error);
+            } else {
+                setIdeas(data || []);
+            }
+            setLoading(false);
+        });
+        getUnreadComments(workspaceId)
+            .then(unread => {
+                if (!cancelled) setUnreadComments(unread);
+            })
+            .catch(error => console.error('Error fetching unread comments:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, workspaceId]);
+
+    // Research runs in the background worker; refresh quietly until it settles
+    const hasAnalyzing = ideas.some(idea => idea.status === 'Analyzing');
+    useEffect(() => {
+        if (!hasAnalyzing) return;
+        const interval = setInterval(() => fetchIdeas(true), 5000);
+        return () => clearInterval(interval);
+    }, [hasAnalyzing, fetchIdeas]);
+
+    /**
+     * Provider profiles and routing from settings, without UI-only flags.
+     */
+    const researchConfig = () => toRoutingConfig(aiConfig);
+
+    /**
+     * Fails with a readable message when the monthly AI budget is spent.
+     * queueResearch enforces the budget too, but its errors are masked in production.
+     */
+    const assertBudgetAvailable = async () => {
+        const budget = await getMonthlyBudget();
+        if (budget.exceeded) throw new Error(budgetExceededMessage(budget));
     };
 
     /**
@@ -94,17 +159,31 @@ export default function DashboardPage() {
     const handleNewIdeaClick = () => {
         if (aiConfig.discoveryModeEnabled) {
             setPendingIdeaData(null);
+            setDiscoveryIdea(null);
             setIsDiscoveryOpen(true);
         } else {
             setIsModalOpen(true);
         }
     };
 
+    /**
+     * Opens Discovery Mode on an existing, researched idea. The session is
+     * seeded with the idea's research, and finishing it re-researches the idea.
+     */
+    const handleSendToDiscovery = (idea: Idea) => {
+        setDiscoveryIdea(idea);
+        setPendingIdeaData({ title: idea.title, description: idea.description });
+        setIsDiscoveryOpen(true);
+    };
+
     /**
      * Handles quick capture submission (non-discovery mode).
-     * Creates idea record and triggers AI research immediately.
+     * Creates idea record and queues AI research in the background worker.
+     * Voice notes and snapshots are uploaded to storage first; the worker
+     * transcribes voice notes and reads images with a vision model into the
+     * title and description before research runs (with the image attached as context).
      */
-    const handleAddIdea = async (data: { title: string; description: string; type: string }) => {
+    const handleAddIdea = async (data: { title: string; description: string; type: string; file?: File }) => {
         // 1. Insert placeholder/initial record
         let currentUserId = userId;
 
@@ -115,15 +194,24 @@ export default function DashboardPage() {
 
         if (!currentUserId) throw new Error("User not authenticated");
 
+        let assetPath: string | null = null;
+        if (data.file) {
+            const extension = data.file.name.split('.').pop() || 'bin';
+            assetPath = `${currentUserId}/${data.type}/${crypto.randomUUID()}.${extension}`;
+            await uploadFile(VAULT_ASSETS_BUCKET, assetPath, data.file);
+        }
+
         const { data: newRecord, error } = await supabase
             .from('ideas')
             .insert([{
-                title: data.title,
+                title: data.title || (data.type === 'voice' ? 'Transcribing voice note…' : data.type === 'image' ? 'Reading snapshot…' : 'Untitled Idea'),
                 description: data.description,
                 input_type: data.type.charAt(0).toUpperCase() + data.type.slice(1),
+                asset_path: assetPath,
                 status: 'Analyzing',
                 capture_mode: 'quick',
-                user_id: currentUserId
+                user_id: currentUserId,
+                workspace_id: workspaceId
             }])
             .select()
             .single();
@@ -133,29 +221,22 @@ export default function DashboardPage() {
         // Optimistically update UI
         setIdeas(prev => [newRecord, ...prev]);
 
-        // 2. Trigger AI Research
+        // 2. Queue AI Research (transcription / snapshot reading happen in the worker too)
         try {
-            const analysis = await performResearch(data.title, data.description, aiConfig);
-
-            // 3. Update record with results
-            await supabase
-                .from('ideas')
-                .update({
-                    status: 'Ready',
-                    analysis_result: analysis
-                })
-                .eq('id', newRecord.id);
-
-            // Refresh list
-            fetchIdeas();
-        } catch (researchError) {
-            console.error("Research failed:", researchError);
-            // Update status to show error
+            await assertBudgetAvailable();
+            await queueResearch(newRecord.id, {
+                config: researchConfig(),
+                capture: assetPath && (data.type === 'voice' || data.type === 'image')
+                    ? { kind: data.type, title: data.title, description: data.description }
+                    : undefined
+            });
+        } catch (queueError) {
+            console.error("Failed to queue research:", queueError);
             await supabase
                 .from('ideas')
                 .update({
                     status: 'Error',
-                    analysis_result: { error: String(researchError) }
+                    analysis_result: { error: String(queueError) }
                 })
                 .eq('id', newRecord.id);
             fetchIdeas();
@@ -164,9 +245,11 @@ export default function DashboardPage() {
 
     /**
      * Handles completion of Discovery Mode.
-     * Uses the refined prompt from discovery to trigger research.
+     * Discovery on an existing idea already queued its re-research on the
+     * server, so the list only has to pick up the 'Analyzing' status; otherwise
+     * a new idea is created from the synthesis and researched with its refined prompt.
      */
-    const handleDiscoveryComplete = async (synthesisOutput: any) => {
+    const handleDiscoveryComplete = async (synthesisOutput: SynthesisResearchInput) => {
         let currentUserId = userId;
 
         if (!currentUserId) {
@@ -179,6 +262,11 @@ export default function DashboardPage() {
             return;
         }
 
+        if (discoveryIdea) {
+            fetchIdeas(true);
+            return;
+        }
+
         // Extract title and description from synthesis
         const title = synthesisOutput.tldr?.refinedIdea || pendingIdeaData?.title || 'Untitled Idea';
         const description = synthesisOutput.fullPrompt?.problemStatement || pendingIdeaData?.description || '';
@@ -192,7 +280,8 @@ export default function DashboardPage() {
                 input_type: 'Text',
                 status: 'Analyzing',
                 capture_mode: 'discovery',
-                user_id: currentUserId
+                user_id: currentUserId,
+                workspace_id: workspaceId
             }])
             .select()
             .single();
@@ -205,37 +294,23 @@ export default function DashboardPage() {
         // Optimistically update UI
         setIdeas(prev => [newRecord, ...prev]);
 
-        // Trigger research with the refined prompt context
         try {
-            // Build enhanced prompt from discovery output
-            const enhancedDescription = `
-Problem: ${synthesisOutput.fullPrompt?.problemStatement || description}
-Target Customer: ${synthesisOutput.fullPrompt?.targetCustomer?.profile || 'Not specified'}
-Value Proposition: ${synthesisOutput.fullPrompt?.valueProposition || 'Not specified'}
-Key Hypotheses: ${synthesisOutput.fullPrompt?.hypotheses?.join(', ') || 'None'}
-            `.trim();
-
-            const analysis = await performResearch(title, enhancedDescription, aiConfig);
-
-            // Merge discovery founder-fit with research results
-            const enrichedAnalysis = {
-                ...analysis,
-                founderFit: synthesisOutput.founderFit,
-                discoveryTldr: synthesisOutput.tldr,
-                evaluationCriteria: synthesisOutput.fullPrompt?.evaluationCriteria
-            };
-
+            await assertBudgetAvailable();
+            // Research runs on the refined prompt; discovery founder-fit is merged into the result by the worker
+            await queueResearch(newRecord.id, {
+                config: researchConfig(),
+                ...researchOptionsFromSynthesis(synthesisOutput, description)
+            });
+        } catch (researchError) {
+            console.error("Failed to queue research:", researchError);
             await supabase
                 .from('ideas')
                 .update({
-                    status: 'Ready',
-                    analysis_result: enrichedAnalysis
+                    status: 'Error',
+                    analysis_result: { error: String(researchError) }
                 })
                 .eq('id', newRecord.id);
-
             fetchIdeas();
-        } catch (researchError) {
-            console.error("Research failed:", researchError);
         }
     };
 
@@ -261,22 +336,24 @@ Key Hypotheses: ${synthesisOutput.fullPrompt?.hypotheses?.join(', ') || 'None'}
                     >
                         <Settings size={20} />
                     </button>
-                    <button
-                        onClick={handleNewIdeaClick}
-                        className="flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold shadow-lg shadow-indigo-600/20 transition-all"
-                    >
-                        {aiConfig.discoveryModeEnabled ? (
-                            <>
-                                <Sparkles size={20} />
-                                Discover Idea
-                            </>
-                        ) : (
-                            <>
-                                <Plus size={20} />
-                                New Idea
-                            </>
-                        )}
-                    </button>
+                    {canEdit && (
+                        <button
+                            onClick={handleNewIdeaClick}
+                            className="flex items-center justify-center gap-2 px-6 py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-2xl font-bold shadow-lg shadow-indigo-600/20 transition-all"
+                        >
+                            {aiConfig.discoveryModeEnabled ? (
+                                <>
+                                    <Sparkles size={20} />
+                                    Discover Idea
+                                </>
+                            ) : (
+                                <>
+                                    <Plus size={20} />
+                                    New Idea
+                                </>
+                            )}
+                        </button>
+                    )}
                 </div>
             </div>
 
@@ -307,12 +384,18 @@ Key Hypotheses: ${synthesisOutput.fullPrompt?.hypotheses?.join(', ') || 'None'}
                                 status: idea.status,
                                 tags: idea.analysis_result?.tags || ["#Processing"]
                             }}
+                            onSendToDiscovery={canEdit && idea.status === 'Ready' ? () => handleSendToDiscovery(idea) : undefined}
+                            unreadComments={unreadComments[idea.id]}
                         />
                     ))}
 
                     {ideas.length === 0 && (
                         <div className="col-span-full py-20 text-center border-2 border-dashed border-slate-800 rounded-3xl">
-                            <p className="text-slate-500">Your vault is empty. Capture your first idea to begin!</p>
+                            <p className="text-slate-500">
+                                {canEdit
+                                    ? 'Your vault is empty. Capture your first idea to begin!'
+                                    : 'This workspace has no ideas yet.'}
+                            </p>
                         </div>
                     )}
                 </div>
@@ -332,9 +415,10 @@ Key Hypotheses: ${synthesisOutput.fullPrompt?.hypotheses?.join(', ') || 'None'}
                     onClose={() => {
                         setIsDiscoveryOpen(false);
                         setPendingIdeaData(null);
+                        setDiscoveryIdea(null);
                     }}
                     onComplete={handleDiscoveryComplete}
-                    userId={userId}
+                    existingIdeaId={discoveryIdea?.id}
                     existingIdeaData={pendingIdeaData || undefined}
                 />
             )}
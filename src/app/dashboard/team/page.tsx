@@ -0,0 +1,361 @@
+/**
+ * @module app/dashboard/team/page
+ * @description Members, roles and invitations of the active workspace, and creating new workspaces.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+    UsersRound,
+    UserPlus,
+    Mail,
+    Plus,
+    Copy,
+    Check,
+    X,
+    LogOut,
+    Pencil
+} from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+import { WORKSPACE_ROLES, WORKSPACE_ROLE_LABELS, WORKSPACE_ROLE_DESCRIPTIONS } from '@/lib/workspaceRoles';
+import { useWorkspace } from '@/components/layout/WorkspaceContext';
+import {
+    createWorkspace,
+    renameWorkspace,
+    listWorkspaceMembers,
+    updateWorkspaceMemberRole,
+    removeWorkspaceMember,
+    listWorkspaceInvitations,
+    createWorkspaceInvitation,
+    revokeWorkspaceInvitation
+} from '@/app/actions/workspaces';
+import type { WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/types';
+
+const errorText = (err: unknown, fallback: string) => (err instanceof Error && err.message) || fallback;
+
+const RoleSelect = ({ value, onChange, disabled }: { value: WorkspaceRole; onChange: (role: WorkspaceRole) => void; disabled?: boolean }) => (
+    <select
+        value={value}
+        disabled={disabled}
+        onChange={e => onChange(e.target.value as WorkspaceRole)}
+        className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-indigo-500 disabled:opacity-50"
+    >
+        {WORKSPACE_ROLES.map(role => (
+            <option key={role} value={role}>{WORKSPACE_ROLE_LABELS[role]}</option>
+        ))}
+    </select>
+);
+
+/**
+ * Team View.
+ *
+ * Everyone sees who belongs to the active workspace; owners also change
+ * roles, remove members and invite people by email. The invitation link is
+ * shown once, right after it is created, for the owner to send on.
+ *
+ * @returns {JSX.Element} The rendered team page
+ */
+export default function TeamPage() {
+    const { activeWorkspace, setActiveWorkspaceId, refreshWorkspaces } = useWorkspace();
+    const workspaceId = activeWorkspace?.id;
+    const isOwner = activeWorkspace?.role === 'owner';
+
+    const [userId, setUserId] = useState<string | null>(null);
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+    const [busy, setBusy] = useState(false);
+
+    const [renaming, setRenaming] = useState(false);
+    const [nameInput, setNameInput] = useState('');
+    const [newWorkspaceName, setNewWorkspaceName] = useState('');
+    const [inviteEmail, setInviteEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<WorkspaceRole>('editor');
+    const [inviteLink, setInviteLink] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const loadTeam = useCallback(async () => {
+        if (!workspaceId) return;
+        try {
+            const [memberList, invitationList] = await Promise.all([
+                listWorkspaceMembers(workspaceId),
+                isOwner ? listWorkspaceInvitations(workspaceId) : Promise.resolve([])
+            ]);
+            setMembers(memberList);
+            setInvitations(invitationList);
+        } catch (err) {
+            console.error('Failed to load team:', err);
+        }
+    }, [workspaceId, isOwner]);
+
+    useEffect(() => {
+        const loadUser = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            setUserId(user?.id || null);
+        };
+        loadUser();
+    }, []);
+
+    useEffect(() => {
+        const load = async () => {
+            await loadTeam();
+            setInviteLink(null);
+            setRenaming(false);
+        };
+        load();
+    }, [loadTeam]);
+
+    /**
+     * Runs a change, then reloads the team; failures are reported to the user.
+     */
+    const runAction = async (action: () => Promise<unknown>, fallbackError: string) => {
+        setBusy(true);
+        try {
+            await action();
+            await loadTeam();
+            return true;
+        } catch (err) {
+            console.error(fallbackError, err);
+            alert(errorText(err, fallbackError));
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRename = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!workspaceId) return;
+        const ok = await runAction(() => renameWorkspace(workspaceId, nameInput), 'Could not rename the workspace.');
+        if (ok) {
+            setRenaming(false);
+            await refreshWorkspaces();
+        }
+    };
+
+    const handleCreateWorkspace = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        try {
+            const workspace = await createWorkspace(newWorkspaceName);
+            setNewWorkspaceName('');
+            await refreshWorkspaces();
+            setActiveWorkspaceId(workspace.id);
+        } catch (err) {
+            console.error('Failed to create workspace:', err);
+            alert(errorText(err, 'Could not create the workspace.'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!workspaceId) return;
+        await runAction(async () => {
+            const { token } = await createWorkspaceInvitation(workspaceId, inviteEmail, inviteRole);
+            setInviteLink(`${window.location.origin}/dashboard/invite/${token}`);
+            setCopied(false);
+            setInviteEmail('');
+        }, 'Could not create the invitation.');
+    };
+
+    const handleRemove = async (member: WorkspaceMember) => {
+        if (!workspaceId) return;
+        const leaving = member.userId === userId;
+        const question = leaving
+            ? `Leave ${activeWorkspace?.name}? You will lose access to its ideas.`
+            : `Remove ${member.email || 'this member'} from ${activeWorkspace?.name}?`;
+        if (!confirm(question)) return;
+
+        const ok = await runAction(() => removeWorkspaceMember(workspaceId, member.userId), 'Could not remove the member.');
+        // Leaving drops the workspace from the switcher, which falls back to another one
+        if (ok && leaving) await refreshWorkspaces();
+    };
+
+    const copyInviteLink = async () => {
+        if (!inviteLink) return;
+        await navigator.clipboard.writeText(inviteLink);
+        setCopied(true);
+    };
+
+    if (!activeWorkspace) return <div className="p-8 text-center animate-pulse text-slate-500">Loading your team...</div>;
+
+    return (
+        <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                {renaming ? (
+                    <form onSubmit={handleRename} className="flex items-center gap-2 mb-2">
+                        <input
+                            autoFocus
+                            value={nameInput}
+                            onChange={e => setNameInput(e.target.value)}
+                            className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-1.5 text-2xl font-extrabold text-white focus:outline-none focus:border-indigo-500"
+                        />
+                        <button disabled={busy || !nameInput.trim()} className="p-2 text-emerald-400 hover:text-emerald-300 disabled:opacity-50">
+                            <Check size={20} />
+                        </button>
+                        <button type="button" onClick={() => setRenaming(false)} className="p-2 text-slate-500 hover:text-white">
+                            <X size={20} />
+                        </button>
+                    </form>
+                ) : (
+                    <div className="flex items-center gap-3 mb-2">
+                        <h2 className="text-3xl font-extrabold text-white">{activeWorkspace.name}</h2>
+                        {isOwner && (
+                            <button
+                                onClick={() => {
+                                    setNameInput(activeWorkspace.name);
+                                    setRenaming(true);
+                                }}
+                                className="p-1.5 text-slate-500 hover:text-white transition-colors"
+                                title="Rename workspace"
+                            >
+                                <Pencil size={16} />
+                            </button>
+                        )}
+                    </div>
+                )}
+                <p className="text-slate-400">
+                    {activeWorkspace.personal ? 'Your personal workspace.' : 'A shared workspace.'} You are {WORKSPACE_ROLE_LABELS[activeWorkspace.role].toLowerCase()} here: {WORKSPACE_ROLE_DESCRIPTIONS[activeWorkspace.role].toLowerCase()}.
+                </p>
+            </div>
+
+            {/* Members */}
+            <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                    <UsersRound size={18} className="text-indigo-400" /> Members
+                </h3>
+                <ul className="divide-y divide-slate-700/50">
+                    {members.map(member => {
+                        const isSelf = member.userId === userId;
+                        const canRemove = isSelf ? !activeWorkspace.personal : isOwner;
+                        return (
+                            <li key={member.userId} className="py-3 flex items-center gap-4">
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-white truncate">
+                                        {member.email || 'Unknown user'}
+                                        {isSelf && <span className="ml-2 text-xs text-slate-500">(you)</span>}
+                                    </p>
+                                    <p className="text-xs text-slate-500">Joined {new Date(member.joinedAt).toLocaleDateString()}</p>
+                                </div>
+                                {isOwner ? (
+                                    <RoleSelect
+                                        value={member.role}
+                                        disabled={busy}
+                                        onChange={role => runAction(
+                                            () => updateWorkspaceMemberRole(workspaceId!, member.userId, role),
+                                            'Could not change the role.'
+                                        )}
+                                    />
+                                ) : (
+                                    <span className="text-xs uppercase tracking-wider text-slate-400">{WORKSPACE_ROLE_LABELS[member.role]}</span>
+                                )}
+                                {canRemove && (
+                                    <button
+                                        onClick={() => handleRemove(member)}
+                                        disabled={busy}
+                                        className="p-2 text-slate-500 hover:text-rose-400 disabled:opacity-50 transition-colors"
+                                        title={isSelf ? 'Leave workspace' : 'Remove member'}
+                                    >
+                                        {isSelf ? <LogOut size={16} /> : <X size={16} />}
+                                    </button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            </section>
+
+            {/* Invitations */}
+            {isOwner && (
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl space-y-5">
+                    <h3 className="text-lg font-bold text-white flex items-center gap-2">
+                        <UserPlus size={18} className="text-emerald-400" /> Invite People
+                    </h3>
+                    <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-2">
+                        <input
+                            type="email"
+                            required
+                            value={inviteEmail}
+                            onChange={e => setInviteEmail(e.target.value)}
+                            placeholder="teammate@example.com"
+                            className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                        />
+                        <RoleSelect value={inviteRole} onChange={setInviteRole} />
+                        <button
+                            disabled={busy || !inviteEmail}
+                            className="px-4 py-2 text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-xl transition-colors flex items-center justify-center gap-2"
+                        >
+                            <Mail size={14} /> Create Invitation
+                        </button>
+                    </form>
+                    <p className="text-xs text-slate-500">{WORKSPACE_ROLE_LABELS[inviteRole]}s: {WORKSPACE_ROLE_DESCRIPTIONS[inviteRole].toLowerCase()}.</p>
+
+                    {inviteLink && (
+                        <div className="p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-2xl space-y-2">
+                            <p className="text-sm text-emerald-200">
+                                Send this link to your teammate. It works once, for their email address, and expires in 7 days.
+                            </p>
+                            <div className="flex items-center gap-2">
+                                <code className="flex-1 truncate text-xs text-emerald-100 bg-slate-900/60 px-3 py-2 rounded-lg">{inviteLink}</code>
+                                <button
+                                    onClick={copyInviteLink}
+                                    className="p-2 text-emerald-300 hover:text-white transition-colors"
+                                    title="Copy link"
+                                >
+                                    {copied ? <Check size={16} /> : <Copy size={16} />}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+
+                    {invitations.length > 0 && (
+                        <ul className="divide-y divide-slate-700/50">
+                            {invitations.map(invitation => (
+                                <li key={invitation.id} className="py-3 flex items-center gap-4 text-sm">
+                                    <span className="flex-1 truncate text-slate-300">{invitation.email}</span>
+                                    <span className="text-xs uppercase tracking-wider text-slate-400">{WORKSPACE_ROLE_LABELS[invitation.role]}</span>
+                                    <span className="text-xs text-slate-500">Expires {new Date(invitation.expiresAt).toLocaleDateString()}</span>
+                                    <button
+                                        onClick={() => runAction(() => revokeWorkspaceInvitation(invitation.id), 'Could not revoke the invitation.')}
+                                        disabled={busy}
+                                        className="text-xs text-slate-500 hover:text-rose-400 disabled:opacity-50 transition-colors"
+                                    >
+                                        Revoke
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </section>
+            )}
+
+            {/* New Workspace */}
+            <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                    <Plus size={18} className="text-violet-400" /> New Workspace
+                </h3>
+                <form onSubmit={handleCreateWorkspace} className="flex gap-2">
+                    <input
+                        value={newWorkspaceName}
+                        onChange={e => setNewWorkspaceName(e.target.value)}
+                        placeholder="e.g. Acme Ventures"
+                        className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                    />
+                    <button
+                        disabled={busy || !newWorkspaceName.trim()}
+                        className={cn(
+                            "px-4 py-2 text-sm font-semibold rounded-xl transition-colors",
+                            "bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white"
+                        )}
+                    >
+                        Create
+                    </button>
+                </form>
+                <p className="mt-2 text-xs text-slate-500">You become its owner and can invite others.</p>
+            </section>
+        </div>
+    );
+}
@@ -0,0 +1,291 @@
+/**
+ * @module app/dashboard/usage/page
+ * @description AI usage and estimated spend per month, model and idea, with the monthly budget.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+    Wallet,
+    CalendarDays,
+    Cpu,
+    Lightbulb,
+    AlertTriangle,
+    RefreshCw
+} from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { loginPathFor } from '@/lib/authRedirect';
+import { cn } from '@/lib/utils';
+import { formatUsd } from '@/lib/usageFormat';
+import { getUsageSummary, setMonthlyBudget } from '@/app/actions/usage';
+import type { UsageBucket, UsageSummary } from '@/types';
+
+const formatTokens = (tokens: number) =>
+    tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+        : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k`
+            : String(tokens);
+
+/**
+ * Table of usage buckets, optionally linking each row.
+ */
+const UsageTable = ({ buckets, hrefFor }: { buckets: UsageBucket[]; hrefFor?: (bucket: UsageBucket) => string | null }) => (
+    <table className="w-full text-sm">
+        <thead>
+            <tr className="text-left text-xs font-bold uppercase tracking-wider text-slate-500">
+                <th className="pb-3 font-bold">Name</th>
+                <th className="pb-3 font-bold text-right">Calls</th>
+                <th className="pb-3 font-bold text-right">Tokens in / out</th>
+                <th className="pb-3 font-bold text-right">Est. cost</th>
+            </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-700/50">
+            {buckets.map(bucket => {
+                const href = hrefFor?.(bucket);
+                return (
+                    <tr key={bucket.key}>
+                        <td className="py-3 pr-4 max-w-0 w-full">
+                            {href ? (
+                                <Link href={href} className="block truncate text-white font-medium hover:text-indigo-300 transition-colors">
+                                    {bucket.label}
+                                </Link>
+                            ) : (
+                                <span className="block truncate text-slate-300">{bucket.label}</span>
+                            )}
+                        </td>
+                        <td className="py-3 pl-4 text-right text-slate-400">{bucket.calls}</td>
+                        <td className="py-3 pl-4 text-right text-slate-400 whitespace-nowrap">
+                            {formatTokens(bucket.promptTokens)} / {formatTokens(bucket.completionTokens)}
+                        </td>
+                        <td className="py-3 pl-4 text-right text-white font-semibold">{formatUsd(bucket.costUsd)}</td>
+                    </tr>
+                );
+            })}
+        </tbody>
+    </table>
+);
+
+/**
+ * Usage View.
+ *
+ * Shows estimated AI spend for the signed-in user over the last twelve months
+ * and lets them set a monthly budget; once it is spent, new research is refused.
+ *
+ * @returns {JSX.Element} The rendered usage page
+ */
+export default function UsagePage() {
+    const [summary, setSummary] = useState<UsageSummary | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [budgetInput, setBudgetInput] = useState('');
+    const [savingBudget, setSavingBudget] = useState(false);
+
+    const loadUsage = async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) {
+                window.location.href = loginPathFor(window.location.pathname + window.location.search);
+                return;
+            }
+            const result = await getUsageSummary();
+            setSummary(result);
+            setBudgetInput(result.budget.limitUsd !== null ? String(result.budget.limitUsd) : '');
+        } catch (err) {
+            console.error('Failed to load usage:', err);
+            setError('Could not load your AI usage.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadUsage();
+    }, []);
+
+    const saveBudget = async (limitUsd: number | null) => {
+        if (!summary) return;
+        if (limitUsd !== null && !(limitUsd > 0)) {
+            alert('Enter a budget greater than $0, or clear it.');
+            return;
+        }
+
+        setSavingBudget(true);
+        try {
+            const budget = await setMonthlyBudget(limitUsd);
+            setSummary({ ...summary, budget });
+            setBudgetInput(budget.limitUsd !== null ? String(budget.limitUsd) : '');
+        } catch (err) {
+            console.error('Failed to save budget:', err);
+            alert('Could not save your budget. Please try again.');
+        } finally {
+            setSavingBudget(false);
+        }
+    };
+
+    if (loading) return <div className="p-8 text-center animate-pulse text-slate-500">Adding up your usage...</div>;
+
+    if (error || !summary) {
+        return (
+            <div className="py-20 flex flex-col items-center gap-4">
+                <p className="text-rose-400">{error || 'Usage unavailable.'}</p>
+                <button
+                    onClick={loadUsage}
+                    className="flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 rounded-lg transition-colors"
+                >
+                    <RefreshCw size={14} /> Try again
+                </button>
+            </div>
+        );
+    }
+
+    const { budget } = summary;
+    const budgetShare = budget.limitUsd ? Math.min(budget.spentUsd / budget.limitUsd, 1) : 0;
+    const maxMonthCost = Math.max(...summary.byMonth.map(month => month.costUsd), 0);
+
+    return (
+        <div className="space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+            <div>
+                <h2 className="text-3xl font-extrabold text-white mb-2">Usage</h2>
+                <p className="text-slate-400">Estimated AI spend over the last twelve months.</p>
+            </div>
+
+            {/* This Month & Budget */}
+            <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl space-y-5">
+                <div className="flex flex-col md:flex-row md:items-end justify-between gap-6">
+                    <div>
+                        <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+                            <Wallet size={18} className="text-indigo-400" /> This Month
+                        </h3>
+                        <div className="text-4xl font-black text-white">
+                            {formatUsd(budget.spentUsd)}
+                            {budget.limitUsd !== null && (
+                                <span className="text-lg font-semibold text-slate-500"> of {formatUsd(budget.limitUsd)}</span>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="relative">
+                            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500 text-sm">$</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="1"
+                                value={budgetInput}
+                                onChange={e => setBudgetInput(e.target.value)}
+                                placeholder="No budget"
+                                className="w-36 bg-slate-900 border border-slate-700 rounded-xl pl-7 pr-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                            />
+                        </div>
+                        <button
+                            onClick={() => saveBudget(Number(budgetInput))}
+                            disabled={savingBudget || !budgetInput}
+                            className="px-4 py-2 text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-xl transition-colors"
+                        >
+                            Save
+                        </button>
+                        {budget.limitUsd !== null && (
+                            <button
+                                onClick={() => saveBudget(null)}
+                                disabled={savingBudget}
+                                className="px-4 py-2 text-sm text-slate-400 hover:text-white border border-slate-700 hover:border-slate-500 disabled:opacity-50 rounded-xl transition-colors"
+                            >
+                                Clear
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {budget.limitUsd !== null ? (
+                    <div className="space-y-2">
+                        <div className="h-2 bg-slate-900 rounded-full overflow-hidden">
+                            <div
+                                className={cn(
+                                    'h-full rounded-full transition-all',
+                                    budget.exceeded ? 'bg-rose-500' : budgetShare >= 0.8 ? 'bg-amber-500' : 'bg-indigo-500'
+                                )}
+                                style={{ width: `${budgetShare * 100}%` }}
+                            />
+                        </div>
+                        <p className={cn('text-xs', budget.exceeded ? 'text-rose-400' : 'text-slate-500')}>
+                            {budget.exceeded
+                                ? 'Budget reached: new research is paused until next month or until you raise the budget.'
+                                : `${formatUsd(budget.limitUsd - budget.spentUsd)} left this month.`}
+                        </p>
+                    </div>
+                ) : (
+                    <p className="text-xs text-slate-500">
+                        Set a monthly budget to stop new research once estimated spend reaches it.
+                    </p>
+                )}
+            </section>
+
+            {summary.unpricedModels.length > 0 && (
+                <div className="flex items-start gap-3 p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl text-sm text-amber-200">
+                    <AlertTriangle size={18} className="text-amber-400 flex-shrink-0 mt-0.5" />
+                    <p>
+                        No price is configured for {summary.unpricedModels.join(', ')}, so those calls count tokens but no cost.
+                        Add them to <code className="text-amber-100">AI_MODEL_PRICES</code> to include them.
+                    </p>
+                </div>
+            )}
+
+            {/* Per Month */}
+            <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                    <CalendarDays size={18} className="text-violet-400" /> By Month
+                </h3>
+                {summary.byMonth.length === 0 ? (
+                    <p className="text-slate-500 text-sm">No AI calls recorded yet.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {summary.byMonth.map(month => (
+                            <li key={month.key} className="flex items-center gap-4 text-sm">
+                                <span className="w-20 flex-shrink-0 text-slate-400">{month.label}</span>
+                                <div className="flex-1 h-2 bg-slate-900 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-violet-500 rounded-full"
+                                        style={{ width: `${maxMonthCost > 0 ? (month.costUsd / maxMonthCost) * 100 : 0}%` }}
+                                    />
+                                </div>
+                                <span className="w-20 flex-shrink-0 text-right text-white font-semibold">{formatUsd(month.costUsd)}</span>
+                                <span className="w-20 flex-shrink-0 text-right text-xs text-slate-500">{month.calls} calls</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Per Model */}
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <Cpu size={18} className="text-emerald-400" /> By Model
+                    </h3>
+                    {summary.byModel.length === 0 ? (
+                        <p className="text-slate-500 text-sm">No AI calls recorded yet.</p>
+                    ) : (
+                        <UsageTable buckets={summary.byModel} />
+                    )}
+                </section>
+
+                {/* Per Idea */}
+                <section className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-3xl">
+                    <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+                        <Lightbulb size={18} className="text-amber-400" /> By Idea
+                    </h3>
+                    {summary.byIdea.length === 0 ? (
+                        <p className="text-slate-500 text-sm">No AI calls recorded yet.</p>
+                    ) : (
+                        <UsageTable
+                            buckets={summary.byIdea}
+                            hrefFor={bucket => bucket.key !== 'none' ? `/dashboard/ideas/${bucket.key}` : null}
+                        />
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+}
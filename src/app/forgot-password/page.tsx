@@ -0,0 +1,80 @@
+/**
+ * @module app/forgot-password/page
+ * @description Requests a password reset email.
+ *
+ * The emailed link signs the user in through /auth/callback and continues to
+ * /reset-password, where they choose a new password.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import type { AuthError } from '@supabase/supabase-js';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { authCallbackUrl, LOGIN_PATH, RESET_PASSWORD_PATH } from '@/lib/authRedirect';
+import { authErrorMessage } from '@/lib/authErrors';
+import { AuthCard, AuthNotice, type AuthNoticeData } from '@/components/auth/AuthCard';
+
+export default function ForgotPasswordPage() {
+    const [loading, setLoading] = useState(false);
+    const [email, setEmail] = useState('');
+    const [notice, setNotice] = useState<AuthNoticeData | null>(null);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setNotice(null);
+
+        const { error } = await supabase.auth.resetPasswordForEmail(email, {
+            redirectTo: authCallbackUrl(window.location.origin, RESET_PASSWORD_PATH)
+        });
+        setLoading(false);
+
+        if (error) {
+            setNotice({ type: 'error', text: authErrorMessage(error as AuthError) });
+        } else {
+            // Same message whether or not the address has an account
+            setNotice({ type: 'success', text: 'If an account exists for that email, a reset link is on its way.' });
+        }
+    };
+
+    return (
+        <AuthCard
+            title="Reset Password"
+            subtitle="We'll email you a link to choose a new one."
+            icon={<KeyRound className="text-indigo-400" />}
+        >
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Email</label>
+                    <input
+                        type="email"
+                        required
+                        className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                    />
+                </div>
+
+                {notice && <AuthNotice notice={notice} />}
+
+                <button
+                    disabled={loading}
+                    className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                >
+                    {loading && <Loader2 className="animate-spin" size={18} />}
+                    Send Reset Link
+                </button>
+            </form>
+
+            <div className="mt-6 text-center text-sm text-slate-400">
+                Remembered it?{' '}
+                <Link href={LOGIN_PATH} className="text-indigo-400 hover:text-indigo-300 font-bold">
+                    Sign In
+                </Link>
+            </div>
+        </AuthCard>
+    );
+}
@@ -1,112 +1,25 @@
 /**
  * @module app/login/page
  * @description Login / Sign Up Page using Supabase Auth
+ *
+ * Supports password, magic-link and GitHub/Google sign-in (components/auth/LoginForm).
+ * After signing in, users return to the page in the `next` query parameter
+ * (set when a protected page redirected them here), or the dashboard. Failed
+ * email links and OAuth sign-ins arrive with an `error` code to explain.
  */
 
-'use client';
+import React from 'react';
+import { LoginForm } from '@/components/auth/LoginForm';
+import { safeNextPath } from '@/lib/authRedirect';
 
-import React, { useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
-import { Loader2, ShieldCheck } from 'lucide-react';
-
-export default function LoginPage() {
-    const router = useRouter();
-    const [loading, setLoading] = useState(false);
-    const [email, setEmail] = useState('');
-    const [password, setPassword] = useState('');
-    const [mode, setMode] = useState<'signin' | 'signup'>('signin');
-    const [msg, setMsg] = useState('');
-
-    const handleAuth = async (e: React.FormEvent) => {
-        e.preventDefault();
-        setLoading(true);
-        setMsg('');
-
-        try {
-            if (mode === 'signup') {
-                const { error } = await supabase.auth.signUp({
-                    email,
-                    password,
-                });
-                if (error) throw error;
-                setMsg('Success! Check your email to confirm account.');
-            } else {
-                const { error } = await supabase.auth.signInWithPassword({
-                    email,
-                    password,
-                });
-                if (error) throw error;
-                router.push('/dashboard');
-            }
-        } catch (err: any) {
-            setMsg(err.message || 'Authentication failed');
-        } finally {
-            setLoading(false);
-        }
-    };
-
-    return (
-        <div className="min-h-screen bg-[#0f172a] text-white flex items-center justify-center p-4">
-            <div className="w-full max-w-md bg-slate-800/50 border border-slate-700 p-8 rounded-3xl animate-in fade-in zoom-in-95 duration-500">
-                <div className="text-center mb-8">
-                    <div className="mx-auto w-12 h-12 bg-indigo-500/20 rounded-full flex items-center justify-center mb-4">
-                        <ShieldCheck className="text-indigo-400" />
-                    </div>
-                    <h1 className="text-2xl font-bold">{mode === 'signin' ? 'Welcome Back' : 'Create Account'}</h1>
-                    <p className="text-slate-400 text-sm">Targeting ideas securely.</p>
-                </div>
-
-                <form onSubmit={handleAuth} className="space-y-4">
-                    <div>
-                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Email</label>
-                        <input
-                            type="email"
-                            required
-                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
-                            value={email}
-                            onChange={(e) => setEmail(e.target.value)}
-                        />
-                    </div>
-                    <div>
-                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Password</label>
-                        <input
-                            type="password"
-                            required
-                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                        />
-                    </div>
+interface LoginPageProps {
+    searchParams: Promise<{ next?: string | string[]; error?: string | string[] }>;
+}
 
-                    {msg && (
-                        <div className={`text-sm text-center p-2 rounded ${msg.includes('Success') ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'}`}>
-                            {msg}
-                        </div>
-                    )}
+const first = (value?: string | string[]) => (Array.isArray(value) ? value[0] : value);
 
-                    <button
-                        disabled={loading}
-                        className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2"
-                    >
-                        {loading && <Loader2 className="animate-spin" size={18} />}
-                        {mode === 'signin' ? 'Sign In' : 'Sign Up'}
-                    </button>
-                </form>
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+    const { next, error } = await searchParams;
 
-                <div className="mt-6 text-center text-sm text-slate-400">
-                    {mode === 'signin' ? "Don't have an account? " : "Already have an account? "}
-                    <button
-                        onClick={() => {
-                            setMode(mode === 'signin' ? 'signup' : 'signin');
-                            setMsg('');
-                        }}
-                        className="text-indigo-400 hover:text-indigo-300 font-bold"
-                    >
-                        {mode === 'signin' ? 'Sign Up' : 'Sign In'}
-                    </button>
-                </div>
-            </div>
-        </div>
-    );
+    return <LoginForm next={safeNextPath(first(next))} initialError={first(error) || null} />;
 }
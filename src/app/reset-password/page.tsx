@@ -0,0 +1,113 @@
+/**
+ * @module app/reset-password/page
+ * @description Sets a new password after following a reset link.
+ *
+ * The reset link signs the user in through /auth/callback; without that
+ * session (e.g. the page was opened directly or the session has ended) the
+ * user is asked to request a new link.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { AuthError } from '@supabase/supabase-js';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { DEFAULT_AFTER_LOGIN_PATH, FORGOT_PASSWORD_PATH } from '@/lib/authRedirect';
+import { authErrorMessage } from '@/lib/authErrors';
+import { AuthCard, AuthNotice, type AuthNoticeData } from '@/components/auth/AuthCard';
+
+export default function ResetPasswordPage() {
+    const router = useRouter();
+    const [hasSession, setHasSession] = useState<boolean | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [notice, setNotice] = useState<AuthNoticeData | null>(null);
+
+    useEffect(() => {
+        const checkSession = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            setHasSession(!!user);
+        };
+        checkSession();
+    }, []);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (password !== confirmPassword) {
+            setNotice({ type: 'error', text: 'The passwords don\'t match.' });
+            return;
+        }
+
+        setLoading(true);
+        setNotice(null);
+        const { error } = await supabase.auth.updateUser({ password });
+        setLoading(false);
+
+        if (error) {
+            setNotice({ type: 'error', text: authErrorMessage(error as AuthError) });
+            return;
+        }
+        setNotice({ type: 'success', text: 'Password updated. Taking you to your dashboard...' });
+        router.push(DEFAULT_AFTER_LOGIN_PATH);
+    };
+
+    return (
+        <AuthCard
+            title="Choose a New Password"
+            subtitle="Use at least 8 characters."
+            icon={<KeyRound className="text-indigo-400" />}
+        >
+            {hasSession === null ? (
+                <div className="flex justify-center py-6">
+                    <Loader2 className="animate-spin text-indigo-400" size={24} />
+                </div>
+            ) : !hasSession ? (
+                <div className="space-y-4 text-center">
+                    <AuthNotice notice={{ type: 'error', text: authErrorMessage('session_not_found') }} />
+                    <Link href={FORGOT_PASSWORD_PATH} className="inline-block text-sm text-indigo-400 hover:text-indigo-300 font-bold">
+                        Request a new reset link
+                    </Link>
+                </div>
+            ) : (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">New Password</label>
+                        <input
+                            type="password"
+                            required
+                            minLength={8}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Confirm Password</label>
+                        <input
+                            type="password"
+                            required
+                            minLength={8}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
+                            value={confirmPassword}
+                            onChange={(e) => setConfirmPassword(e.target.value)}
+                        />
+                    </div>
+
+                    {notice && <AuthNotice notice={notice} />}
+
+                    <button
+                        disabled={loading}
+                        className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                    >
+                        {loading && <Loader2 className="animate-spin" size={18} />}
+                        Update Password
+                    </button>
+                </form>
+            )}
+        </AuthCard>
+    );
+}
@@ -0,0 +1,135 @@
+/**
+ * @module app/share/[token]/page
+ * @description Public, read-only view of a shared idea report.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import { Loader2, Lock, Link2Off, Rocket } from 'lucide-react';
+import { ResearchReport } from '@/components/dashboard/ResearchReport';
+import { getSharedReport, type SharedReportResult } from '@/app/actions/share';
+
+const UNAVAILABLE_MESSAGES: Record<string, { title: string; body: string }> = {
+    not_found: { title: 'Link not found', body: 'This share link does not exist or the report is no longer available.' },
+    expired: { title: 'Link expired', body: 'This share link has expired. Ask the owner for a new one.' },
+    revoked: { title: 'Link revoked', body: 'The owner has revoked access to this report.' }
+};
+
+/**
+ * Shared Report Page.
+ *
+ * Accessible without an account. Resolves the token server-side, asks for a
+ * password when the link is protected, and renders the report with the
+ * owner's hidden sections already stripped.
+ *
+ * @returns {JSX.Element} The rendered shared report
+ */
+export default function SharedReportPage() {
+    const params = useParams();
+    const token = params.token as string;
+    const [result, setResult] = useState<SharedReportResult | null>(null);
+    const [password, setPassword] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+
+    useEffect(() => {
+        getSharedReport(token)
+            .then(setResult)
+            .catch(() => setResult({ status: 'not_found' }));
+    }, [token]);
+
+    const handleUnlock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        try {
+            setResult(await getSharedReport(token, password));
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const renderBody = () => {
+        if (!result) {
+            return (
+                <div className="flex justify-center py-32">
+                    <Loader2 className="animate-spin text-indigo-500" size={48} />
+                </div>
+            );
+        }
+
+        if (result.status === 'ok') {
+            const { report } = result;
+            return (
+                <div className="space-y-8 animate-in fade-in duration-500">
+                    <div>
+                        <h1 className="text-4xl font-extrabold text-white mb-2">{report.title}</h1>
+                        <p className="text-slate-400 max-w-2xl leading-relaxed">{report.description}</p>
+                    </div>
+                    <ResearchReport analysis={report.analysis} hiddenSections={report.hiddenSections} />
+                </div>
+            );
+        }
+
+        if (result.status === 'password_required' || result.status === 'invalid_password' || result.status === 'too_many_attempts') {
+            return (
+                <div className="w-full max-w-sm mx-auto mt-24 bg-slate-800/50 border border-slate-700 p-8 rounded-3xl">
+                    <div className="mx-auto w-12 h-12 bg-indigo-500/20 rounded-full flex items-center justify-center mb-4">
+                        <Lock className="text-indigo-400" />
+                    </div>
+                    <h1 className="text-xl font-bold text-center mb-1">Password required</h1>
+                    <p className="text-slate-400 text-sm text-center mb-6">This report is password protected.</p>
+                    <form onSubmit={handleUnlock} className="space-y-4">
+                        <input
+                            type="password"
+                            required
+                            autoFocus
+                            value={password}
+                            onChange={e => setPassword(e.target.value)}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
+                        />
+                        {result.status === 'invalid_password' && (
+                            <div className="text-sm text-center p-2 rounded bg-red-500/10 text-red-400">Incorrect password</div>
+                        )}
+                        {result.status === 'too_many_attempts' && (
+                            <div className="text-sm text-center p-2 rounded bg-red-500/10 text-red-400">Too many incorrect passwords. Try again in 15 minutes.</div>
+                        )}
+                        <button
+                            disabled={submitting}
+                            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                            {submitting && <Loader2 className="animate-spin" size={18} />}
+                            View Report
+                        </button>
+                    </form>
+                </div>
+            );
+        }
+
+        const message = UNAVAILABLE_MESSAGES[result.status];
+        return (
+            <div className="py-32 flex flex-col items-center text-center space-y-4">
+                <div className="p-6 bg-slate-800/50 border border-slate-700 rounded-full">
+                    <Link2Off size={40} className="text-slate-500" />
+                </div>
+                <h1 className="text-2xl font-bold">{message.title}</h1>
+                <p className="text-slate-400 max-w-md">{message.body}</p>
+            </div>
+        );
+    };
+
+    return (
+        <div className="min-h-screen bg-[#0f172a] text-white">
+            <header className="border-b border-slate-800 px-6 py-4 flex items-center gap-3">
+                <div className="p-2 bg-indigo-500/20 rounded-xl">
+                    <Rocket className="text-indigo-400" size={18} />
+                </div>
+                <span className="font-bold">Ideas Vault</span>
+                <span className="text-xs text-slate-500">Shared research report · read-only</span>
+            </header>
+            <main className="max-w-7xl mx-auto p-6 md:p-10">
+                {renderBody()}
+            </main>
+        </div>
+    );
+}
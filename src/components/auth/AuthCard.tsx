@@ -0,0 +1,65 @@
+/**
+ * @module components/auth/AuthCard
+ * @description Shared frame and status banner for the sign-in pages.
+ */
+
+import React from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+export interface AuthNoticeData {
+    type: 'error' | 'success';
+    text: string;
+}
+
+interface AuthCardProps {
+    title: string;
+    subtitle: string;
+    icon?: React.ReactNode;
+    children: React.ReactNode;
+}
+
+/**
+ * Centered card used by the login, forgot-password and reset-password pages.
+ *
+ * @param props - Heading, optional icon and the page's form
+ * @returns The rendered card
+ */
+export function AuthCard({ title, subtitle, icon, children }: AuthCardProps) {
+    return (
+        <div className="min-h-screen bg-[#0f172a] text-white flex items-center justify-center p-4">
+            <div className="w-full max-w-md bg-slate-800/50 border border-slate-700 p-8 rounded-3xl animate-in fade-in zoom-in-95 duration-500">
+                <div className="text-center mb-8">
+                    <div className="mx-auto w-12 h-12 bg-indigo-500/20 rounded-full flex items-center justify-center mb-4">
+                        {icon || <ShieldCheck className="text-indigo-400" />}
+                    </div>
+                    <h1 className="text-2xl font-bold">{title}</h1>
+                    <p className="text-slate-400 text-sm">{subtitle}</p>
+                </div>
+
+                {children}
+            </div>
+        </div>
+    );
+}
+
+/**
+ * Error or success banner inside an auth form.
+ *
+ * @param props.notice - The message to show
+ * @param props.children - Optional follow-up action (e.g. resend a link)
+ */
+export function AuthNotice({ notice, children }: { notice: AuthNoticeData; children?: React.ReactNode }) {
+    return (
+        <div
+            role={notice.type === 'error' ? 'alert' : 'status'}
+            className={cn(
+                'text-sm text-center p-2 rounded',
+                notice.type === 'success' ? 'bg-green-500/10 text-green-400' : 'bg-red-500/10 text-red-400'
+            )}
+        >
+            {notice.text}
+            {children}
+        </div>
+    );
+}
@@ -0,0 +1,260 @@
+/**
+ * @module components/auth/LoginForm
+ * @description Sign-in and sign-up form: password, magic link and GitHub/Google OAuth.
+ *
+ * Magic links, confirmation emails and OAuth return through /auth/callback,
+ * which creates the session and continues to `next`.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { AuthError, Provider } from '@supabase/supabase-js';
+import { Loader2, Mail } from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { authCallbackUrl, FORGOT_PASSWORD_PATH, RESET_PASSWORD_PATH } from '@/lib/authRedirect';
+import { authErrorMessage, EXPIRED_LINK_ERRORS } from '@/lib/authErrors';
+import { cn } from '@/lib/utils';
+import { AuthCard, AuthNotice, type AuthNoticeData } from '@/components/auth/AuthCard';
+
+type LoginMode = 'signin' | 'magic' | 'signup';
+
+const OAUTH_PROVIDERS: Array<{ id: Provider; label: string }> = [
+    { id: 'github', label: 'GitHub' },
+    { id: 'google', label: 'Google' }
+];
+
+const MODE_TITLES: Record<LoginMode, string> = {
+    signin: 'Welcome Back',
+    magic: 'Welcome Back',
+    signup: 'Create Account'
+};
+
+interface LoginFormProps {
+    /** Where to go after signing in (already validated by safeNextPath) */
+    next: string;
+    /** Error code from /auth/callback, e.g. an expired link */
+    initialError?: string | null;
+}
+
+/**
+ * Login page form.
+ *
+ * @param props - The post-login path and any error passed back from the auth callback
+ * @returns The rendered form
+ */
+export function LoginForm({ next, initialError }: LoginFormProps) {
+    const router = useRouter();
+    const [loading, setLoading] = useState(false);
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [mode, setMode] = useState<LoginMode>('signin');
+    const [notice, setNotice] = useState<AuthNoticeData | null>(
+        initialError ? { type: 'error', text: authErrorMessage(initialError) } : null
+    );
+    // Set when sign-in fails because the address was never confirmed
+    const [unconfirmed, setUnconfirmed] = useState(false);
+
+    const expiredResetLink = !!initialError && EXPIRED_LINK_ERRORS.includes(initialError) && next === RESET_PASSWORD_PATH;
+
+    const switchMode = (newMode: LoginMode) => {
+        setMode(newMode);
+        setNotice(null);
+        setUnconfirmed(false);
+    };
+
+    const showError = (error: unknown) => {
+        const authError = error as AuthError;
+        setNotice({ type: 'error', text: authErrorMessage(authError) });
+        setUnconfirmed(authError.code === 'email_not_confirmed');
+    };
+
+    const handleAuth = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setNotice(null);
+        setUnconfirmed(false);
+
+        const emailRedirectTo = authCallbackUrl(window.location.origin, next);
+        try {
+            if (mode === 'signup') {
+                const { data, error } = await supabase.auth.signUp({
+                    email,
+                    password,
+                    options: { emailRedirectTo }
+                });
+                if (error) throw error;
+                // With email confirmation on, an existing address "succeeds" without identities
+                if (data.user && data.user.identities?.length === 0) {
+                    setNotice({ type: 'error', text: authErrorMessage('user_already_exists') });
+                    return;
+                }
+                if (data.session) {
+                    router.push(next);
+                    return;
+                }
+                setNotice({ type: 'success', text: 'Success! Check your email to confirm your account.' });
+            } else if (mode === 'magic') {
+                const { error } = await supabase.auth.signInWithOtp({
+                    email,
+                    options: { emailRedirectTo }
+                });
+                if (error) throw error;
+                setNotice({ type: 'success', text: 'Check your email for a sign-in link. It expires in one hour.' });
+            } else {
+                const { error } = await supabase.auth.signInWithPassword({
+                    email,
+                    password,
+                });
+                if (error) throw error;
+                router.push(next);
+            }
+        } catch (err) {
+            showError(err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleOAuth = async (provider: Provider) => {
+        setNotice(null);
+        setUnconfirmed(false);
+        // Leaves the page for the provider on success
+        const { error } = await supabase.auth.signInWithOAuth({
+            provider,
+            options: { redirectTo: authCallbackUrl(window.location.origin, next) }
+        });
+        if (error) showError(error);
+    };
+
+    const resendConfirmation = async () => {
+        setLoading(true);
+        const { error } = await supabase.auth.resend({
+            type: 'signup',
+            email,
+            options: { emailRedirectTo: authCallbackUrl(window.location.origin, next) }
+        });
+        setLoading(false);
+
+        if (error) {
+            showError(error);
+        } else {
+            setUnconfirmed(false);
+            setNotice({ type: 'success', text: 'Confirmation email sent. Check your inbox.' });
+        }
+    };
+
+    return (
+        <AuthCard title={MODE_TITLES[mode]} subtitle="Targeting ideas securely.">
+            <div className="space-y-2 mb-6">
+                {OAUTH_PROVIDERS.map(provider => (
+                    <button
+                        key={provider.id}
+                        type="button"
+                        onClick={() => handleOAuth(provider.id)}
+                        className="w-full py-3 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded-xl text-sm font-bold transition-colors"
+                    >
+                        Continue with {provider.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex items-center gap-3 mb-6 text-xs font-bold uppercase text-slate-500">
+                <div className="h-px flex-1 bg-slate-700" />
+                or
+                <div className="h-px flex-1 bg-slate-700" />
+            </div>
+
+            {mode !== 'signup' && (
+                <div className="grid grid-cols-2 gap-1 p-1 mb-4 bg-slate-900 border border-slate-700 rounded-xl text-sm font-bold">
+                    {(['signin', 'magic'] as const).map(tab => (
+                        <button
+                            key={tab}
+                            type="button"
+                            onClick={() => switchMode(tab)}
+                            className={cn(
+                                'py-2 rounded-lg transition-colors',
+                                mode === tab ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'
+                            )}
+                        >
+                            {tab === 'signin' ? 'Password' : 'Email link'}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            <form onSubmit={handleAuth} className="space-y-4">
+                <div>
+                    <label className="block text-xs font-bold uppercase text-slate-500 mb-1">Email</label>
+                    <input
+                        type="email"
+                        required
+                        className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                    />
+                </div>
+                {mode !== 'magic' && (
+                    <div>
+                        <div className="flex items-center justify-between mb-1">
+                            <label className="block text-xs font-bold uppercase text-slate-500">Password</label>
+                            {mode === 'signin' && (
+                                <Link href={FORGOT_PASSWORD_PATH} className="text-xs text-indigo-400 hover:text-indigo-300">
+                                    Forgot password?
+                                </Link>
+                            )}
+                        </div>
+                        <input
+                            type="password"
+                            required
+                            minLength={mode === 'signup' ? 8 : undefined}
+                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 outline-none focus:border-indigo-500 transition-colors"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                        />
+                    </div>
+                )}
+
+                {notice && (
+                    <AuthNotice notice={notice}>
+                        {unconfirmed && (
+                            <button
+                                type="button"
+                                onClick={resendConfirmation}
+                                disabled={loading || !email}
+                                className="block mx-auto mt-1 font-bold underline disabled:opacity-50"
+                            >
+                                Resend confirmation email
+                            </button>
+                        )}
+                        {expiredResetLink && (
+                            <Link href={FORGOT_PASSWORD_PATH} className="block mt-1 font-bold underline">
+                                Request a new reset link
+                            </Link>
+                        )}
+                    </AuthNotice>
+                )}
+
+                <button
+                    disabled={loading}
+                    className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-all flex items-center justify-center gap-2"
+                >
+                    {loading ? <Loader2 className="animate-spin" size={18} /> : mode === 'magic' && <Mail size={18} />}
+                    {mode === 'signin' ? 'Sign In' : mode === 'magic' ? 'Email Me a Link' : 'Sign Up'}
+                </button>
+            </form>
+
+            <div className="mt-6 text-center text-sm text-slate-400">
+                {mode === 'signup' ? 'Already have an account? ' : 'Don\'t have an account? '}
+                <button
+                    onClick={() => switchMode(mode === 'signup' ? 'signin' : 'signup')}
+                    className="text-indigo-400 hover:text-indigo-300 font-bold"
+                >
+                    {mode === 'signup' ? 'Sign In' : 'Sign Up'}
+                </button>
+            </div>
+        </AuthCard>
+    );
+}
@@ -4,10 +4,11 @@
  */
 
 import React from 'react';
-import { Mic, Image as ImageIcon, FileText } from 'lucide-react';
+import { Mic, Image as ImageIcon, FileText, Sparkles, MessageSquare, AtSign } from 'lucide-react';
 import { Badge } from '@/components/ui/Badge';
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
+import type { UnreadComments } from '@/types';
 
 interface IdeaCardProps {
     idea: {
@@ -19,6 +20,10 @@ interface IdeaCardProps {
         tags: string[];
     };
     className?: string;
+    /** Shows a "Send to Discovery" action (for researched ideas) */
+    onSendToDiscovery?: () => void;
+    /** Comments by others the user hasn't read yet */
+    unreadComments?: UnreadComments;
 }
 
 /**
@@ -30,7 +35,7 @@ interface IdeaCardProps {
  * @param {IdeaCardProps} props - Component properties
  * @returns {JSX.Element} The rendered idea card
  */
-export const IdeaCard = ({ idea, className }: IdeaCardProps) => {
+export const IdeaCard = ({ idea, className, onSendToDiscovery, unreadComments }: IdeaCardProps) => {
     const Icon = idea.inputType === "Voice" ? Mic : idea.inputType === "Image" ? ImageIcon : FileText;
 
     return (
@@ -47,9 +52,23 @@ export const IdeaCard = ({ idea, className }: IdeaCardProps) => {
 
             <div className="flex justify-between items-start mb-4">
                 <Badge status={idea.status} />
-                <span className="text-slate-500 text-xs flex items-center gap-1">
-                    {idea.inputType}
-                </span>
+                <div className="flex items-center gap-3">
+                    {unreadComments && unreadComments.count > 0 && (
+                        <span
+                            title={`${unreadComments.count} unread comment${unreadComments.count === 1 ? '' : 's'}${unreadComments.mentioned ? ', mentioning you' : ''}`}
+                            className={cn(
+                                "flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] font-bold",
+                                unreadComments.mentioned ? 'bg-indigo-500 text-white' : 'bg-indigo-500/15 text-indigo-300'
+                            )}
+                        >
+                            {unreadComments.mentioned ? <AtSign size={12} /> : <MessageSquare size={12} />}
+                            {unreadComments.count}
+                        </span>
+                    )}
+                    <span className="text-slate-500 text-xs flex items-center gap-1">
+                        {idea.inputType}
+                    </span>
+                </div>
             </div>
 
             <h3 className="text-white font-bold text-lg mb-2 group-hover:text-indigo-300 transition-colors">
@@ -60,12 +79,29 @@ export const IdeaCard = ({ idea, className }: IdeaCardProps) => {
                 {idea.description}
             </p>
 
-            <div className="flex flex-wrap gap-2">
-                {idea.tags?.map(tag => (
-                    <span key={tag} className="text-[10px] uppercase tracking-wider font-bold text-slate-500">
-                        {tag}
-                    </span>
-                ))}
+            <div className="flex items-end justify-between gap-3">
+                <div className="flex flex-wrap gap-2">
+                    {idea.tags?.map(tag => (
+                        <span key={tag} className="text-[10px] uppercase tracking-wider font-bold text-slate-500">
+                            {tag}
+                        </span>
+                    ))}
+                </div>
+                {onSendToDiscovery && (
+                    <button
+                        onClick={e => {
+                            // The card itself is a link to the report
+                            e.preventDefault();
+                            e.stopPropagation();
+                            onSendToDiscovery();
+                        }}
+                        title="Send to Discovery"
+                        className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-[11px] font-bold text-indigo-300 bg-indigo-500/10 border border-indigo-500/20 hover:bg-indigo-500/20 rounded-lg opacity-0 group-hover:opacity-100 focus:opacity-100 transition-all"
+                    >
+                        <Sparkles size={12} />
+                        Discover
+                    </button>
+                )}
             </div>
         </Link>
     );
@@ -0,0 +1,421 @@
+/**
+ * @module components/dashboard/IdeaComments
+ * @description Threaded discussion on an idea's report, with @mentions and resolving.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+    MessageSquare,
+    CheckCircle2,
+    RotateCcw,
+    Trash2,
+    X,
+    Loader2,
+    Send
+} from 'lucide-react';
+import { supabase } from '@/lib/supabase';
+import { cn } from '@/lib/utils';
+import {
+    COMMENT_MAX_LENGTH,
+    REPORT_ANCHOR,
+    anchorId,
+    mentionHandle,
+    mentionQueryAt,
+    splitMentions
+} from '@/lib/ideaComments';
+import {
+    listIdeaComments,
+    addIdeaComment,
+    setCommentThreadResolved,
+    deleteIdeaComment,
+    markIdeaCommentsRead
+} from '@/app/actions/comments';
+import { listWorkspaceMembers } from '@/app/actions/workspaces';
+import type { CommentAnchor, CommentThread, IdeaComment, WorkspaceMember } from '@/types';
+
+const SECTION_LABELS: Record<CommentAnchor['section'], string> = {
+    report: 'Report',
+    competitors: 'Competitor',
+    actionPlan: 'Action plan'
+};
+
+const anchorTitle = (anchor: CommentAnchor) => {
+    if (anchor.section === 'report') return 'Whole report';
+    const item = anchor.section === 'actionPlan' ? `Step ${anchor.key}` : anchor.key;
+    return `${SECTION_LABELS[anchor.section]} · ${item}`;
+};
+
+interface IdeaCommentsProps {
+    ideaId: string;
+    /** Report item picked for a new thread (from the comment buttons in the report) */
+    focusAnchor: CommentAnchor | null;
+    onFocusAnchorChange: (anchor: CommentAnchor | null) => void;
+    /** Reports the number of open threads per anchor (see anchorId) */
+    onOpenCountsChange?: (counts: Record<string, number>) => void;
+}
+
+/**
+ * Comment box that suggests workspace members after typing "@".
+ */
+const MentionInput = ({
+    value,
+    onChange,
+    members,
+    placeholder,
+    autoFocus
+}: {
+    value: string;
+    onChange: (value: string) => void;
+    members: WorkspaceMember[];
+    placeholder: string;
+    autoFocus?: boolean;
+}) => {
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [mention, setMention] = useState<{ query: string; start: number } | null>(null);
+
+    const suggestions = mention
+        ? members.filter(member => mentionHandle(member.email)?.startsWith(mention.query)).slice(0, 5)
+        : [];
+
+    const insertMention = (member: WorkspaceMember) => {
+        if (!mention) return;
+        const cursor = textareaRef.current?.selectionStart ?? value.length;
+        const inserted = `@${mentionHandle(member.email)} `;
+        onChange(value.slice(0, mention.start) + inserted + value.slice(cursor));
+        setMention(null);
+        textareaRef.current?.focus();
+    };
+
+    return (
+        <div className="relative">
+            <textarea
+                ref={textareaRef}
+                value={value}
+                autoFocus={autoFocus}
+                maxLength={COMMENT_MAX_LENGTH}
+                rows={2}
+                placeholder={placeholder}
+                onChange={e => {
+                    onChange(e.target.value);
+                    setMention(mentionQueryAt(e.target.value, e.target.selectionStart));
+                }}
+                onBlur={() => setMention(null)}
+                className="w-full bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white resize-y focus:outline-none focus:border-indigo-500"
+            />
+            {suggestions.length > 0 && (
+                <ul className="absolute z-10 left-0 top-full mt-1 w-64 p-1 bg-slate-900 border border-slate-700 rounded-xl shadow-xl">
+                    {suggestions.map(member => (
+                        <li key={member.userId}>
+                            <button
+                                type="button"
+                                // Keep the textarea focused so the caret position survives
+                                onMouseDown={e => {
+                                    e.preventDefault();
+                                    insertMention(member);
+                                }}
+                                className="w-full px-3 py-2 rounded-lg text-left text-sm text-slate-300 hover:bg-slate-800"
+                            >
+                                <span className="text-indigo-300">@{mentionHandle(member.email)}</span>
+                                <span className="ml-2 text-xs text-slate-500">{member.email}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+/**
+ * Idea comments panel.
+ *
+ * Lists the discussion threads on an idea, oldest first, with resolved threads
+ * hidden until asked for. Editors and owners can start threads on the
+ * whole report or on the item picked in the report, reply, and resolve; any
+ * member can read. Opening the panel marks the idea's comments as read.
+ *
+ * @param {IdeaCommentsProps} props - Component properties
+ * @returns {JSX.Element} The rendered panel
+ */
+export const IdeaComments = ({ ideaId, focusAnchor, onFocusAnchorChange, onOpenCountsChange }: IdeaCommentsProps) => {
+    const [threads, setThreads] = useState<CommentThread[]>([]);
+    const [members, setMembers] = useState<WorkspaceMember[]>([]);
+    const [canComment, setCanComment] = useState(false);
+    const [userId, setUserId] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [showResolved, setShowResolved] = useState(false);
+    const [draft, setDraft] = useState('');
+    const [replyingTo, setReplyingTo] = useState<string | null>(null);
+    const [replyDraft, setReplyDraft] = useState('');
+    const [busy, setBusy] = useState(false);
+    const panelRef = useRef<HTMLElement>(null);
+
+    const loadComments = useCallback(async () => {
+        try {
+            const result = await listIdeaComments(ideaId);
+            setThreads(result.threads);
+            setCanComment(result.canComment);
+            onOpenCountsChange?.(result.threads.reduce<Record<string, number>>((counts, thread) => {
+                if (!thread.resolvedAt) {
+                    const id = anchorId(thread.root.anchor);
+                    counts[id] = (counts[id] || 0) + 1;
+                }
+                return counts;
+            }, {}));
+            return result.workspaceId;
+        } catch (error) {
+            console.error('Failed to load comments:', error);
+            return null;
+        } finally {
+            setLoading(false);
+        }
+    }, [ideaId, onOpenCountsChange]);
+
+    useEffect(() => {
+        const load = async () => {
+            const { data: { user } } = await supabase.auth.getUser();
+            setUserId(user?.id || null);
+
+            const workspaceId = await loadComments();
+            if (!workspaceId) return;
+            markIdeaCommentsRead(ideaId).catch(error => console.error('Failed to mark comments read:', error));
+            listWorkspaceMembers(workspaceId)
+                .then(setMembers)
+                .catch(error => console.error('Failed to load members:', error));
+        };
+        load();
+    }, [ideaId, loadComments]);
+
+    // Bring the composer into view when an item in the report is picked
+    useEffect(() => {
+        if (focusAnchor) panelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, [focusAnchor]);
+
+    /**
+     * Runs a change, then reloads the threads; failures are reported to the user.
+     */
+    const runAction = async (action: () => Promise<unknown>, fallbackError: string) => {
+        setBusy(true);
+        try {
+            await action();
+            await loadComments();
+            return true;
+        } catch (error) {
+            console.error(fallbackError, error);
+            alert((error instanceof Error && error.message) || fallbackError);
+            return false;
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const postThread = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const ok = await runAction(
+            () => addIdeaComment(ideaId, draft, { anchor: focusAnchor || REPORT_ANCHOR }),
+            'Could not post your comment.'
+        );
+        if (ok) {
+            setDraft('');
+            onFocusAnchorChange(null);
+        }
+    };
+
+    const postReply = async (e: React.FormEvent, threadId: string) => {
+        e.preventDefault();
+        const ok = await runAction(
+            () => addIdeaComment(ideaId, replyDraft, { parentId: threadId }),
+            'Could not post your reply.'
+        );
+        if (ok) {
+            setReplyDraft('');
+            setReplyingTo(null);
+        }
+    };
+
+    const removeComment = (comment: IdeaComment) => {
+        const question = comment.parentId ? 'Delete this reply?' : 'Delete this thread and all its replies?';
+        if (confirm(question)) runAction(() => deleteIdeaComment(comment.id), 'Could not delete the comment.');
+    };
+
+    const handles = new Set(members.map(member => mentionHandle(member.email)).filter((h): h is string => !!h));
+    const focusId = focusAnchor ? anchorId(focusAnchor) : null;
+    const resolvedCount = threads.filter(thread => thread.resolvedAt).length;
+    const visibleThreads = threads.filter(thread => showResolved || !thread.resolvedAt);
+
+    const renderComment = (comment: IdeaComment) => (
+        <div key={comment.id} className="group/comment">
+            <div className="flex items-center gap-2 text-xs">
+                <span className="font-bold text-slate-300">
+                    {comment.authorId === userId ? 'You' : comment.authorEmail || 'Former member'}
+                </span>
+                <span className="text-slate-500">{new Date(comment.createdAt).toLocaleString()}</span>
+                {comment.authorId === userId && (
+                    <button
+                        onClick={() => removeComment(comment)}
+                        disabled={busy}
+                        title="Delete"
+                        className="ml-auto p-1 text-slate-600 hover:text-rose-400 opacity-0 group-hover/comment:opacity-100 focus:opacity-100 transition-all"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                )}
+            </div>
+            <p className="mt-1 text-sm text-slate-300 whitespace-pre-wrap break-words">
+                {splitMentions(comment.body, handles).map((part, idx) => (
+                    part.mention
+                        ? <span key={idx} className="text-indigo-300 font-semibold">{part.text}</span>
+                        : <React.Fragment key={idx}>{part.text}</React.Fragment>
+                ))}
+            </p>
+        </div>
+    );
+
+    return (
+        <section ref={panelRef} className="bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl space-y-6 scroll-mt-8">
+            <div className="flex items-center justify-between gap-4">
+                <h3 className="text-xl font-bold text-white flex items-center gap-3">
+                    <MessageSquare size={20} className="text-indigo-400" /> Discussion
+                    <span className="text-sm font-normal text-slate-500">{threads.length - resolvedCount} open</span>
+                </h3>
+                {resolvedCount > 0 && (
+                    <button
+                        onClick={() => setShowResolved(show => !show)}
+                        className="text-xs text-slate-400 hover:text-white transition-colors"
+                    >
+                        {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+                    </button>
+                )}
+            </div>
+
+            {canComment && (
+                <form onSubmit={postThread} className="space-y-2">
+                    <div className="flex items-center gap-2 text-xs text-slate-500">
+                        Commenting on
+                        <span className="flex items-center gap-1 px-2 py-0.5 bg-indigo-500/10 border border-indigo-500/20 rounded-full text-indigo-300 max-w-xs">
+                            <span className="truncate">{anchorTitle(focusAnchor || REPORT_ANCHOR)}</span>
+                            {focusAnchor && (
+                                <button type="button" onClick={() => onFocusAnchorChange(null)} title="Comment on the whole report">
+                                    <X size={12} />
+                                </button>
+                            )}
+                        </span>
+                    </div>
+                    {focusAnchor?.label && focusAnchor.section === 'actionPlan' && (
+                        <p className="text-xs text-slate-500 italic line-clamp-2">&ldquo;{focusAnchor.label}&rdquo;</p>
+                    )}
+                    <MentionInput
+                        value={draft}
+                        onChange={setDraft}
+                        members={members}
+                        autoFocus={!!focusAnchor}
+                        placeholder="Share a thought. Type @ to mention a teammate."
+                    />
+                    <div className="flex justify-end">
+                        <button
+                            disabled={busy || !draft.trim()}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-semibold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-xl transition-colors"
+                        >
+                            {busy ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                            Comment
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {loading ? (
+                <p className="text-sm text-slate-500 animate-pulse">Loading the discussion...</p>
+            ) : visibleThreads.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                    {canComment
+                        ? 'No open threads. Comment on the report, or on a competitor or action-plan step.'
+                        : 'No open threads yet.'}
+                </p>
+            ) : (
+                <ul className="space-y-4">
+                    {visibleThreads.map(thread => (
+                        <li
+                            key={thread.root.id}
+                            className={cn(
+                                "p-4 bg-slate-900/50 border rounded-2xl space-y-3",
+                                anchorId(thread.root.anchor) === focusId ? 'border-indigo-500/50' : 'border-slate-700/30',
+                                thread.resolvedAt && 'opacity-60'
+                            )}
+                        >
+                            <div className="flex items-center justify-between gap-3">
+                                <span
+                                    className="text-[10px] uppercase tracking-wider font-bold text-slate-500 truncate"
+                                    title={thread.root.anchor.label || undefined}
+                                >
+                                    {anchorTitle(thread.root.anchor)}
+                                </span>
+                                {canComment && (
+                                    <button
+                                        onClick={() => runAction(
+                                            () => setCommentThreadResolved(thread.root.id, !thread.resolvedAt),
+                                            'Could not update the thread.'
+                                        )}
+                                        disabled={busy}
+                                        className={cn(
+                                            "flex-shrink-0 flex items-center gap-1 text-xs transition-colors disabled:opacity-50",
+                                            thread.resolvedAt ? 'text-slate-400 hover:text-white' : 'text-emerald-400 hover:text-emerald-300'
+                                        )}
+                                    >
+                                        {thread.resolvedAt ? <RotateCcw size={12} /> : <CheckCircle2 size={12} />}
+                                        {thread.resolvedAt ? 'Reopen' : 'Resolve'}
+                                    </button>
+                                )}
+                            </div>
+
+                            {renderComment(thread.root)}
+                            {thread.replies.length > 0 && (
+                                <div className="pl-4 border-l border-slate-700 space-y-3">
+                                    {thread.replies.map(renderComment)}
+                                </div>
+                            )}
+
+                            {canComment && (replyingTo === thread.root.id ? (
+                                <form onSubmit={e => postReply(e, thread.root.id)} className="space-y-2">
+                                    <MentionInput
+                                        value={replyDraft}
+                                        onChange={setReplyDraft}
+                                        members={members}
+                                        autoFocus
+                                        placeholder="Reply..."
+                                    />
+                                    <div className="flex justify-end gap-2">
+                                        <button
+                                            type="button"
+                                            onClick={() => setReplyingTo(null)}
+                                            className="px-3 py-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            disabled={busy || !replyDraft.trim()}
+                                            className="px-3 py-1.5 text-xs font-semibold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg transition-colors"
+                                        >
+                                            Reply
+                                        </button>
+                                    </div>
+                                </form>
+                            ) : (
+                                <button
+                                    onClick={() => {
+                                        setReplyingTo(thread.root.id);
+                                        setReplyDraft('');
+                                    }}
+                                    className="text-xs text-slate-500 hover:text-indigo-300 transition-colors"
+                                >
+                                    Reply
+                                </button>
+                            ))}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+};
@@ -0,0 +1,130 @@
+/**
+ * @module components/dashboard/ResearchDiffView
+ * @description Renders what changed between two research versions.
+ */
+
+'use client';
+
+import React from 'react';
+import { ArrowRight, Plus, Minus, PenLine, TrendingUp, TrendingDown } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ResearchDiff, TextChange } from '@/types';
+
+interface ResearchDiffViewProps {
+    diff: ResearchDiff;
+    fromLabel: string;
+    toLabel: string;
+}
+
+const FIELD_LABELS: Array<{ key: 'marketSize' | 'targetAudience' | 'topCompetitor' | 'trend'; label: string }> = [
+    { key: 'marketSize', label: 'Market Size' },
+    { key: 'targetAudience', label: 'Target Audience' },
+    { key: 'topCompetitor', label: 'Top Competitor' },
+    { key: 'trend', label: 'Market Trend' }
+];
+
+const ChangedField = ({ label, change }: { label: string; change: TextChange }) => (
+    <div className="space-y-1">
+        <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">{label}</p>
+        <div className="flex flex-col md:flex-row md:items-start gap-2 text-sm">
+            <span className="text-rose-300/80 line-through decoration-rose-500/50">{change.before || '—'}</span>
+            <ArrowRight size={14} className="text-slate-600 mt-1 flex-shrink-0 hidden md:block" />
+            <span className="text-emerald-300">{change.after || '—'}</span>
+        </div>
+    </div>
+);
+
+/**
+ * Summarizes the difference between two research runs: readiness score delta,
+ * changed headline fields, competitors added or removed, and how the action
+ * plan was added to, trimmed or reworded.
+ *
+ * @param {ResearchDiffViewProps} props - Component properties
+ * @returns {JSX.Element} The rendered diff
+ */
+export const ResearchDiffView = ({ diff, fromLabel, toLabel }: ResearchDiffViewProps) => {
+    const changedFields = FIELD_LABELS.filter(field => diff[field.key]);
+    const changedSteps = diff.actionPlan.filter(step => step.type !== 'unchanged');
+    const delta = diff.scoreDelta;
+
+    return (
+        <div className="bg-slate-800/40 border border-indigo-500/20 p-8 rounded-3xl space-y-8">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h3 className="text-xl font-bold text-white flex items-center gap-3">
+                    What changed <span className="text-sm font-normal text-slate-500">{fromLabel} → {toLabel}</span>
+                </h3>
+                {delta !== null && (
+                    <div className={cn(
+                        "flex items-center gap-2 px-4 py-2 rounded-xl font-bold",
+                        delta > 0 ? 'bg-emerald-500/10 text-emerald-400' : delta < 0 ? 'bg-rose-500/10 text-rose-400' : 'bg-slate-700/50 text-slate-400'
+                    )}>
+                        {delta > 0 ? <TrendingUp size={18} /> : delta < 0 ? <TrendingDown size={18} /> : null}
+                        Readiness {diff.scoreBefore} → {diff.scoreAfter} ({delta > 0 ? '+' : ''}{delta})
+                    </div>
+                )}
+            </div>
+
+            {changedFields.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {changedFields.map(field => (
+                        <ChangedField key={field.key} label={field.label} change={diff[field.key] as TextChange} />
+                    ))}
+                </div>
+            )}
+
+            {(diff.competitorsAdded.length > 0 || diff.competitorsRemoved.length > 0) && (
+                <div className="space-y-2">
+                    <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">Competitors</p>
+                    <div className="flex flex-wrap gap-2">
+                        {diff.competitorsAdded.map(name => (
+                            <span key={`+${name}`} className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-emerald-500/10 text-emerald-400">
+                                <Plus size={12} /> {name}
+                            </span>
+                        ))}
+                        {diff.competitorsRemoved.map(name => (
+                            <span key={`-${name}`} className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-rose-500/10 text-rose-400">
+                                <Minus size={12} /> {name}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {changedSteps.length > 0 && (
+                <div className="space-y-3">
+                    <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">Action Plan</p>
+                    {changedSteps.map((step, idx) => (
+                        <div key={idx} className="flex items-start gap-3 text-sm bg-slate-900/50 p-4 rounded-2xl border border-slate-700/30">
+                            {step.type === 'added' && (
+                                <>
+                                    <Plus size={16} className="text-emerald-400 mt-0.5 flex-shrink-0" />
+                                    <span className="text-emerald-300">{step.after}</span>
+                                </>
+                            )}
+                            {step.type === 'removed' && (
+                                <>
+                                    <Minus size={16} className="text-rose-400 mt-0.5 flex-shrink-0" />
+                                    <span className="text-rose-300/80 line-through decoration-rose-500/50">{step.before}</span>
+                                </>
+                            )}
+                            {step.type === 'reworded' && (
+                                <>
+                                    <PenLine size={16} className="text-amber-400 mt-0.5 flex-shrink-0" />
+                                    <div className="space-y-1">
+                                        <p className="text-slate-500 line-through decoration-slate-600">{step.before}</p>
+                                        <p className="text-slate-200">{step.after}</p>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {delta === 0 && changedFields.length === 0 && changedSteps.length === 0
+                && diff.competitorsAdded.length === 0 && diff.competitorsRemoved.length === 0 && (
+                <p className="text-sm text-slate-500">No differences in score, headline metrics, competitors or action plan.</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,265 @@
+/**
+ * @module components/dashboard/ResearchReport
+ * @description Read-only rendering of an idea's research packet.
+ */
+
+'use client';
+
+import React from 'react';
+import {
+    TrendingUp,
+    Users,
+    ShieldCheck,
+    CheckCircle2,
+    AlertCircle,
+    Sparkles,
+    ClipboardCheck,
+    MessageSquare
+} from 'lucide-react';
+import { GrowthChart } from '@/components/dashboard/GrowthChart';
+import { FounderFitCard } from '@/components/discovery/FounderFitCard';
+import { cn } from '@/lib/utils';
+import { anchorId } from '@/lib/ideaComments';
+import type { AnalysisResult, CommentAnchor, ReportSection } from '@/types';
+
+interface ResearchReportProps {
+    analysis: AnalysisResult;
+    hiddenSections?: ReportSection[];
+    isStreaming?: boolean;
+    /** Open comment threads per anchor (see lib/ideaComments) */
+    commentCounts?: Record<string, number>;
+    /** Shows a comment button on each competitor and action-plan step */
+    onComment?: (anchor: CommentAnchor) => void;
+}
+
+/**
+ * Pulsing placeholder for a value that hasn't streamed in yet.
+ */
+const Pending = ({ className }: { className: string }) => (
+    <div className={cn("bg-slate-700/50 rounded-lg animate-pulse", className)} />
+);
+
+/**
+ * Opens the discussion on one report item, showing how many threads it has.
+ */
+const CommentButton = ({ count, onClick }: { count: number; onClick: () => void }) => (
+    <button
+        onClick={onClick}
+        title={count ? `${count} open thread${count === 1 ? '' : 's'}` : 'Comment'}
+        className={cn(
+            "flex-shrink-0 flex items-center gap-1 px-1.5 py-0.5 rounded-lg text-[11px] font-bold transition-all",
+            count
+                ? 'text-indigo-300 bg-indigo-500/10'
+                : 'text-slate-500 hover:text-indigo-300 opacity-0 group-hover/item:opacity-100 focus:opacity-100'
+        )}
+    >
+        <MessageSquare size={12} />
+        {count > 0 && count}
+    </button>
+);
+
+/**
+ * Renders the full research packet: headline metrics, growth projection,
+ * competitors, action plan and, when discovery was used, the TL;DR,
+ * founder-fit assessment and evaluation criteria.
+ *
+ * Shared by the idea detail page and public share links, which can hide
+ * individual sections. While research is still streaming, missing values are
+ * shown as placeholders and lists grow as items arrive. The detail page also
+ * passes `onComment` so competitors and action-plan steps can be discussed.
+ *
+ * @param {ResearchReportProps} props - Component properties
+ * @returns {JSX.Element} The rendered report
+ */
+export const ResearchReport = ({ analysis, hiddenSections = [], isStreaming = false, commentCounts = {}, onComment }: ResearchReportProps) => {
+    const isVisible = (section: ReportSection) => !hiddenSections.includes(section);
+    const commentButton = (anchor: CommentAnchor) => onComment && (
+        <CommentButton count={commentCounts[anchorId(anchor)] || 0} onClick={() => onComment(anchor)} />
+    );
+    const showGrowth = isVisible('growth');
+    const showCompetitors = isVisible('competitors');
+
+    return (
+        <>
+            {/* Grid Metrics */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl">
+                    <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-2">Readiness Score</p>
+                    {analysis.readinessScore === undefined && isStreaming ? (
+                        <Pending className="h-12 w-28" />
+                    ) : (
+                        <div className="text-5xl font-black text-indigo-400">
+                            {analysis.readinessScore}<span className="text-xl text-slate-600">/100</span>
+                        </div>
+                    )}
+                    <div className="w-full h-2 bg-slate-700 rounded-full mt-4 overflow-hidden">
+                        <div className="h-full bg-indigo-500" style={{ width: `${analysis.readinessScore}%` }} />
+                    </div>
+                </div>
+                <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl flex flex-col justify-center">
+                    <div className="flex items-center gap-3 text-emerald-400 mb-2">
+                        <TrendingUp size={20} />
+                        <span className="text-xs font-bold uppercase tracking-wider text-slate-500">TAM (Market)</span>
+                    </div>
+                    {analysis.marketSize === undefined && isStreaming
+                        ? <Pending className="h-9 w-32" />
+                        : <div className="text-3xl font-bold text-white">{analysis.marketSize}</div>}
+                </div>
+                <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl flex flex-col justify-center">
+                    <div className="flex items-center gap-3 text-violet-400 mb-2">
+                        <Users size={20} />
+                        <span className="text-xs font-bold uppercase tracking-wider text-slate-500">Target Audience</span>
+                    </div>
+                    {analysis.targetAudience === undefined && isStreaming
+                        ? <Pending className="h-7 w-40" />
+                        : <div className="text-xl font-bold text-white line-clamp-1">{analysis.targetAudience}</div>}
+                </div>
+                <div className="bg-slate-800/40 border border-slate-700/50 p-6 rounded-2xl flex flex-col justify-center">
+                    <div className="flex items-center gap-3 text-amber-400 mb-2">
+                        <ShieldCheck size={20} />
+                        <span className="text-xs font-bold uppercase tracking-wider text-slate-500">Top Competitor</span>
+                    </div>
+                    {analysis.topCompetitor === undefined && isStreaming
+                        ? <Pending className="h-7 w-36" />
+                        : <div className="text-xl font-bold text-white truncate">{analysis.topCompetitor}</div>}
+                </div>
+            </div>
+
+            {/* Chart & Insights Section */}
+            {(showGrowth || showCompetitors) && (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    {showGrowth && (
+                        <div className={cn(
+                            "bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl",
+                            showCompetitors ? 'lg:col-span-2' : 'lg:col-span-3'
+                        )}>
+                            <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-3">
+                                Market Growth Projection <span className="text-xs font-normal text-slate-500 italic">(Estimated by AI Agent)</span>
+                            </h3>
+                            {!analysis.growthMetrics?.length && isStreaming
+                                ? <Pending className="h-64 w-full" />
+                                : <GrowthChart data={analysis.growthMetrics || []} />}
+                        </div>
+                    )}
+
+                    {showCompetitors && (
+                        <div className={cn(
+                            "bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl flex flex-col",
+                            !showGrowth && 'lg:col-span-3'
+                        )}>
+                            <h3 className="text-xl font-bold text-white mb-6">Competitor List</h3>
+                            <div className="space-y-6 flex-1">
+                                {analysis.competitors?.map((comp, idx) => (
+                                    <div key={idx} className="group/item space-y-2 pb-4 border-b border-slate-700 last:border-0">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <div className="text-white font-bold">{comp.name}</div>
+                                            {comp.name && commentButton({ section: 'competitors', key: comp.name, label: comp.name })}
+                                        </div>
+                                        <div className="flex items-start gap-2 text-xs">
+                                            <CheckCircle2 size={14} className="text-emerald-400 mt-0.5" />
+                                            <span className="text-slate-400">
+                                                <span className="text-emerald-400 font-bold">PRO:</span> {comp.strength}
+                                            </span>
+                                        </div>
+                                        <div className="flex items-start gap-2 text-xs">
+                                            <AlertCircle size={14} className="text-amber-400 mt-0.5" />
+                                            <span className="text-slate-400">
+                                                <span className="text-amber-400 font-bold">CON:</span> {comp.weakness}
+                                            </span>
+                                        </div>
+                                    </div>
+                                ))}
+                                {isStreaming && <Pending className="h-16 w-full" />}
+                            </div>
+                            <div className="mt-6 p-4 bg-indigo-500/5 border border-indigo-500/20 rounded-2xl">
+                                {analysis.trend === undefined && isStreaming ? (
+                                    <Pending className="h-4 w-full" />
+                                ) : (
+                                    <p className="text-xs text-indigo-400 font-medium leading-relaxed">
+                                        💡 Market Trend: {analysis.trend}
+                                    </p>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Action Plan */}
+            {isVisible('actionPlan') && (
+                <div className="bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl">
+                    <h3 className="text-xl font-bold text-white mb-6">Agent&apos;s Recommended Action Plan</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        {analysis.actionPlan?.map((step: string, idx: number) => (
+                            <div key={idx} className="group/item flex gap-4 items-start bg-slate-900/50 p-5 rounded-2xl border border-slate-700/30">
+                                <div className="flex-shrink-0 w-8 h-8 rounded-full bg-slate-800 flex items-center justify-center text-indigo-400 font-bold text-sm border border-indigo-500/20">
+                                    {idx + 1}
+                                </div>
+                                <p className="flex-1 text-slate-300 text-sm leading-relaxed">{step}</p>
+                                {commentButton({ section: 'actionPlan', key: String(idx + 1), label: step })}
+                            </div>
+                        ))}
+                        {isStreaming && <Pending className="h-20 w-full rounded-2xl" />}
+                    </div>
+                </div>
+            )}
+
+            {/* Discovery TL;DR */}
+            {analysis.discoveryTldr && isVisible('discoveryTldr') && (
+                <div className="bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl">
+                    <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-3">
+                        <Sparkles size={20} className="text-indigo-400" /> Discovery TL;DR
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        {[
+                            { label: 'Refined Idea', value: analysis.discoveryTldr.refinedIdea },
+                            { label: 'Target Market', value: analysis.discoveryTldr.targetMarket },
+                            { label: 'Key Differentiator', value: analysis.discoveryTldr.keyDifferentiator }
+                        ].map(item => (
+                            <div key={item.label}>
+                                <p className="text-slate-500 text-xs font-bold uppercase tracking-wider mb-2">{item.label}</p>
+                                <p className="text-slate-200 text-sm leading-relaxed">{item.value}</p>
+                            </div>
+                        ))}
+                    </div>
+                    {analysis.discoveryTldr.mainRisks?.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-slate-500 text-xs font-bold uppercase tracking-wider">Main Risks</p>
+                            {analysis.discoveryTldr.mainRisks.map((risk, idx) => (
+                                <div key={idx} className="flex items-start gap-2 text-sm text-slate-300">
+                                    <AlertCircle size={14} className="text-amber-400 mt-0.5 flex-shrink-0" />
+                                    {risk}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {/* Founder Fit */}
+            {analysis.founderFit && isVisible('founderFit') && (
+                <FounderFitCard
+                    data={analysis.founderFit}
+                    score={analysis.discoveryTldr?.founderFitScore || 5}
+                />
+            )}
+
+            {/* Evaluation Criteria */}
+            {analysis.evaluationCriteria?.length && isVisible('evaluationCriteria') ? (
+                <div className="bg-slate-800/40 border border-slate-700/50 p-8 rounded-3xl">
+                    <h3 className="text-xl font-bold text-white mb-6 flex items-center gap-3">
+                        <ClipboardCheck size={20} className="text-emerald-400" /> Evaluation Criteria
+                    </h3>
+                    <ul className="space-y-3">
+                        {analysis.evaluationCriteria.map((criterion, idx) => (
+                            <li key={idx} className="flex items-start gap-2 text-sm text-slate-300">
+                                <CheckCircle2 size={14} className="text-emerald-400 mt-0.5 flex-shrink-0" />
+                                {criterion}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            ) : null}
+        </>
+    );
+};
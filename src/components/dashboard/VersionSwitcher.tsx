@@ -0,0 +1,78 @@
+/**
+ * @module components/dashboard/VersionSwitcher
+ * @description Picks which research version to view and which to compare it with.
+ */
+
+'use client';
+
+import React from 'react';
+import { History, GitCompare } from 'lucide-react';
+import type { ResearchVersion } from '@/types';
+
+interface VersionSwitcherProps {
+    versions: ResearchVersion[];
+    selectedId: string;
+    compareId: string | null;
+    onSelect: (versionId: string) => void;
+    onCompare: (versionId: string | null) => void;
+}
+
+const formatVersionDate = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const versionLabel = (version: ResearchVersion, latestVersion: number) =>
+    `v${version.version} · ${formatVersionDate(version.createdAt)}${version.version === latestVersion ? ' (latest)' : ''}`;
+
+/**
+ * Version bar shown above a research report with more than one run.
+ *
+ * Shows the provenance of the selected version (model, provider, prompt hash)
+ * so re-runs after a pivot can be told apart from re-runs on a new model.
+ *
+ * @param {VersionSwitcherProps} props - Component properties
+ * @returns {JSX.Element} The rendered switcher
+ */
+export const VersionSwitcher = ({ versions, selectedId, compareId, onSelect, onCompare }: VersionSwitcherProps) => {
+    const latestVersion = versions[0]?.version ?? 0;
+    const selected = versions.find(v => v.id === selectedId);
+
+    return (
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 bg-slate-800/40 border border-slate-700/50 px-5 py-4 rounded-2xl">
+            <div className="flex flex-wrap items-center gap-3">
+                <History size={18} className="text-indigo-400" />
+                <select
+                    value={selectedId}
+                    onChange={e => onSelect(e.target.value)}
+                    className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                >
+                    {versions.map(version => (
+                        <option key={version.id} value={version.id}>{versionLabel(version, latestVersion)}</option>
+                    ))}
+                </select>
+                {selected && (
+                    <span className="text-xs text-slate-500">
+                        {selected.model || 'unknown model'}
+                        {selected.provider && ` via ${selected.provider}`}
+                        {selected.promptHash && (
+                            <span className="font-mono" title={selected.promptHash}> · prompt {selected.promptHash.slice(0, 8)}</span>
+                        )}
+                    </span>
+                )}
+            </div>
+
+            <div className="flex items-center gap-3">
+                <GitCompare size={18} className="text-slate-500" />
+                <select
+                    value={compareId || ''}
+                    onChange={e => onCompare(e.target.value || null)}
+                    className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                >
+                    <option value="">Compare with…</option>
+                    {versions.filter(v => v.id !== selectedId).map(version => (
+                        <option key={version.id} value={version.id}>{versionLabel(version, latestVersion)}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
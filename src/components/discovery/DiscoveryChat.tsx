@@ -20,9 +20,13 @@ import {
     User,
     Sparkles,
     SkipForward,
-    ChevronRight
+    ChevronRight,
+    Compass
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DiscoveryChecklist } from '@/components/discovery/DiscoveryChecklist';
+import type { DiscoveryPlaybook } from '@/config/discoveryPlaybooks';
+import type { DiscoveryFacts } from '@/types';
 
 interface Message {
     role: 'user' | 'assistant';
@@ -34,38 +38,30 @@ interface DiscoveryChatProps {
     sessionId: string;
     initialMessages: Message[];
     currentPhase: string;
+    /** The playbook the session follows, for its phases */
+    playbook: DiscoveryPlaybook;
+    /** The session's facts checklist when the chat opens */
+    initialFacts: DiscoveryFacts;
     onComplete: (synthesisOutput: any) => void;
     onSkip: () => void;
-    sendMessage: (sessionId: string, message: string) => Promise<{
+    sendMessage: (sessionId: string, message: string, onToken: (delta: string) => void) => Promise<{
         response: string;
         currentPhase: string;
         isComplete: boolean;
-        synthesisOutput?: any;
+        synthesisOutput?: unknown;
+        facts: DiscoveryFacts;
     }>;
 }
 
-const PHASE_CONFIG = {
-    vision: {
-        label: 'Vision',
-        icon: Lightbulb,
-        color: 'text-amber-400',
-        bgColor: 'bg-amber-400/10',
-        description: 'Understanding your idea'
-    },
-    gaps: {
-        label: 'Gap Analysis',
-        icon: Target,
-        color: 'text-rose-400',
-        bgColor: 'bg-rose-400/10',
-        description: 'Identifying blind spots'
-    },
-    founder_fit: {
-        label: 'Founder Fit',
-        icon: User,
-        color: 'text-blue-400',
-        bgColor: 'bg-blue-400/10',
-        description: 'Assessing your strengths'
-    },
+/** Header styles for the playbook's phases, in order */
+const PHASE_STYLES = [
+    { icon: Lightbulb, color: 'text-amber-400', bgColor: 'bg-amber-400/10' },
+    { icon: Target, color: 'text-rose-400', bgColor: 'bg-rose-400/10' },
+    { icon: User, color: 'text-blue-400', bgColor: 'bg-blue-400/10' },
+    { icon: Compass, color: 'text-violet-400', bgColor: 'bg-violet-400/10' }
+];
+
+const CLOSING_PHASE_CONFIG = {
     synthesis: {
         label: 'Synthesis',
         icon: Sparkles,
@@ -82,11 +78,26 @@ const PHASE_CONFIG = {
     }
 };
 
+/**
+ * Header config for a phase: the playbook's own phases, then synthesis and complete.
+ */
+function phaseConfigFor(playbook: DiscoveryPlaybook, phaseId: string) {
+    if (phaseId === 'synthesis' || phaseId === 'complete') return CLOSING_PHASE_CONFIG[phaseId];
+
+    const index = Math.max(0, playbook.phases.findIndex(phase => phase.id === phaseId));
+    const phase = playbook.phases[index];
+    return { ...PHASE_STYLES[index % PHASE_STYLES.length], label: phase.label, description: phase.description };
+}
+
 /**
  * Interactive chat interface for discovery conversations.
  * 
- * Renders message history, phase indicator, and input controls.
- * Handles real-time message sending and response streaming.
+ * Renders message history, phase indicator, the facts checklist (updated
+ * after every turn), and input controls.
+ * Streams the assistant's reply into its bubble as it is generated (except
+ * during synthesis, where the raw JSON is hidden behind a progress skeleton).
+ * If the stream fails, the unsent turn is rolled back and the text returned
+ * to the input, matching the server, which never saved it.
  * 
  * @param props - Component properties including session data and handlers
  * @returns The rendered chat interface
@@ -95,6 +106,8 @@ export function DiscoveryChat({
     sessionId,
     initialMessages,
     currentPhase,
+    playbook,
+    initialFacts,
     onComplete,
     onSkip,
     sendMessage
@@ -102,14 +115,16 @@ export function DiscoveryChat({
     const [messages, setMessages] = useState<Message[]>(initialMessages);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [streamingReply, setStreamingReply] = useState<string | null>(null);
     const [phase, setPhase] = useState(currentPhase);
+    const [facts, setFacts] = useState<DiscoveryFacts>(initialFacts);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLTextAreaElement>(null);
 
-    // Auto-scroll to bottom on new messages
+    // Auto-scroll to bottom on new messages and while a reply streams in
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages]);
+    }, [messages, streamingReply]);
 
     // Focus input on mount
     useEffect(() => {
@@ -128,9 +143,12 @@ export function DiscoveryChat({
         setMessages(prev => [...prev, userMessage]);
         setInput('');
         setIsLoading(true);
+        setStreamingReply('');
 
         try {
-            const result = await sendMessage(sessionId, userMessage.content);
+            const result = await sendMessage(sessionId, userMessage.content, delta => {
+                setStreamingReply(prev => (prev || '') + delta);
+            });
 
             const aiMessage: Message = {
                 role: 'assistant',
@@ -140,13 +158,16 @@ export function DiscoveryChat({
 
             setMessages(prev => [...prev, aiMessage]);
             setPhase(result.currentPhase);
+            setFacts(result.facts);
 
             if (result.isComplete && result.synthesisOutput) {
                 onComplete(result.synthesisOutput);
             }
         } catch (error) {
             console.error('Failed to send message:', error);
-            // Add error message
+            // Nothing was saved: drop the turn and give the text back so it can be resent
+            setMessages(prev => prev.filter(m => m !== userMessage));
+            setInput(userMessage.content);
             const errorMessage: Message = {
                 role: 'assistant',
                 content: 'Sorry, I encountered an error. Please try again.',
@@ -154,6 +175,7 @@ export function DiscoveryChat({
             };
             setMessages(prev => [...prev, errorMessage]);
         } finally {
+            setStreamingReply(null);
             setIsLoading(false);
         }
     };
@@ -165,8 +187,9 @@ export function DiscoveryChat({
         }
     };
 
-    const phaseConfig = PHASE_CONFIG[phase as keyof typeof PHASE_CONFIG] || PHASE_CONFIG.vision;
+    const phaseConfig = phaseConfigFor(playbook, phase);
     const PhaseIcon = phaseConfig.icon;
+    const progressPhases = [...playbook.phases.map(p => p.id), 'synthesis'];
 
     return (
         <div className="flex flex-col h-[70vh] max-h-[600px] bg-slate-900 rounded-2xl border border-slate-700 overflow-hidden">
@@ -188,9 +211,8 @@ export function DiscoveryChat({
 
                 {/* Phase Progress Dots */}
                 <div className="flex items-center gap-1.5">
-                    {['vision', 'gaps', 'founder_fit', 'synthesis'].map((p, i) => {
-                        const phases = ['vision', 'gaps', 'founder_fit', 'synthesis'];
-                        const currentIndex = phases.indexOf(phase);
+                    {progressPhases.map((p, i) => {
+                        const currentIndex = progressPhases.indexOf(phase);
                         const isActive = i <= currentIndex;
                         const isCurrent = p === phase;
 
@@ -216,6 +238,8 @@ export function DiscoveryChat({
                 </button>
             </div>
 
+            <DiscoveryChecklist playbook={playbook} facts={facts} currentPhase={phase} />
+
             {/* Messages Container */}
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
                 {messages.map((message, index) => (
@@ -253,8 +277,23 @@ export function DiscoveryChat({
                     </div>
                 ))}
 
+                {/* Streaming Reply */}
+                {isLoading && streamingReply && phase !== 'synthesis' && (
+                    <div className="flex gap-3 justify-start">
+                        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center">
+                            <Sparkles size={14} className="text-white" />
+                        </div>
+                        <div className="max-w-[80%] rounded-2xl px-4 py-3 bg-slate-800 text-slate-200 rounded-bl-md border border-slate-700">
+                            <p className="text-sm whitespace-pre-wrap leading-relaxed">
+                                {streamingReply}
+                                <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-indigo-400 animate-pulse" />
+                            </p>
+                        </div>
+                    </div>
+                )}
+
                 {/* Typing Indicator */}
-                {isLoading && (
+                {isLoading && (!streamingReply || phase === 'synthesis') && (
                     phase === 'synthesis' ? (
                         <div className="flex gap-3 animate-in fade-in duration-200 w-full max-w-[85%]">
                             <div className="flex-shrink-0 w-8 h-8 rounded-full bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center animate-pulse">
@@ -0,0 +1,105 @@
+/**
+ * @module components/discovery/DiscoveryChecklist
+ * @description Live checklist of what discovery has learned, per phase objective.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { CheckCircle2, Circle, ChevronDown, ListChecks } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { phaseChecklist } from '@/lib/discoveryFacts';
+import type { DiscoveryPlaybook } from '@/config/discoveryPlaybooks';
+import type { DiscoveryFacts } from '@/types';
+
+interface DiscoveryChecklistProps {
+    /** The session's playbook, whose phases and objectives are listed */
+    playbook: DiscoveryPlaybook;
+    facts: DiscoveryFacts;
+    currentPhase: string;
+}
+
+/**
+ * Compact checklist bar shown under the chat header.
+ *
+ * Collapsed, it shows the current phase's objectives as chips; expanded, it
+ * lists every phase's objectives with what the founder said about them.
+ *
+ * @param props - The session's playbook, facts and current phase
+ * @returns The rendered checklist
+ */
+export function DiscoveryChecklist({ playbook, facts, currentPhase }: DiscoveryChecklistProps) {
+    const [expanded, setExpanded] = useState(false);
+
+    const activePhase = playbook.phases.find(phase => phase.id === currentPhase);
+    const chips = activePhase ? phaseChecklist(facts, activePhase) : [];
+    const total = playbook.phases.reduce((sum, phase) => sum + phaseChecklist(facts, phase).length, 0);
+    const covered = playbook.phases.reduce(
+        (sum, phase) => sum + phaseChecklist(facts, phase).filter(objective => objective.covered).length,
+        0
+    );
+
+    return (
+        <div className="border-b border-slate-700 bg-slate-800/30">
+            <button
+                onClick={() => setExpanded(!expanded)}
+                className="w-full flex items-center gap-3 px-4 py-2 text-left hover:bg-slate-800/50 transition-colors"
+            >
+                <ListChecks size={14} className="text-slate-400 flex-shrink-0" />
+                <div className="flex-1 flex flex-wrap items-center gap-1.5 min-w-0">
+                    {chips.length > 0 ? chips.map(objective => (
+                        <span
+                            key={objective.id}
+                            title={objective.fact || 'Not covered yet'}
+                            className={cn(
+                                'flex items-center gap-1 px-2 py-0.5 rounded-full text-[11px] border',
+                                objective.covered
+                                    ? 'text-emerald-300 bg-emerald-500/10 border-emerald-500/20'
+                                    : 'text-slate-400 bg-slate-800 border-slate-700'
+                            )}
+                        >
+                            {objective.covered ? <CheckCircle2 size={10} /> : <Circle size={10} />}
+                            {objective.label}
+                        </span>
+                    )) : (
+                        <span className="text-xs text-slate-400">What we&apos;ve learned</span>
+                    )}
+                </div>
+                <span className="text-xs text-slate-500 flex-shrink-0">{covered}/{total}</span>
+                <ChevronDown size={14} className={cn('text-slate-500 flex-shrink-0 transition-transform', expanded && 'rotate-180')} />
+            </button>
+
+            {expanded && (
+                <div className="px-4 pb-3 space-y-3 max-h-48 overflow-y-auto animate-in fade-in duration-200">
+                    {playbook.phases.map(phase => (
+                        <div key={phase.id}>
+                            <p className={cn(
+                                'text-[11px] font-bold uppercase tracking-wider mb-1.5',
+                                phase.id === currentPhase ? 'text-indigo-300' : 'text-slate-500'
+                            )}>
+                                {phase.label}
+                            </p>
+                            <ul className="space-y-1">
+                                {phaseChecklist(facts, phase).map(objective => (
+                                    <li key={objective.id} className="flex items-start gap-2 text-xs">
+                                        {objective.covered
+                                            ? <CheckCircle2 size={12} className="text-emerald-400 mt-0.5 flex-shrink-0" />
+                                            : <Circle size={12} className="text-slate-600 mt-0.5 flex-shrink-0" />}
+                                        <div className="min-w-0">
+                                            <span className={objective.covered ? 'text-slate-200' : 'text-slate-400'}>
+                                                {objective.label}
+                                            </span>
+                                            {objective.fact && (
+                                                <p className="text-slate-500 leading-snug">{objective.fact}</p>
+                                            )}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -32,7 +32,8 @@ interface TldrData {
     targetMarket: string;
     keyDifferentiator: string;
     mainRisks: string[];
-    founderFitScore: number;
+    /** Absent for playbooks without a founder-fit phase */
+    founderFitScore?: number;
 }
 
 interface FullPromptData {
@@ -151,15 +152,17 @@ export function PromptPreview({
                     {activeTab === 'tldr' ? (
                         <div className="space-y-6">
                             {/* Founder Fit Score */}
-                            <div className="flex items-center justify-between p-4 bg-slate-900 rounded-2xl border border-slate-700">
-                                <div>
-                                    <p className="text-xs uppercase tracking-wider text-slate-500 font-bold">Founder Fit Score</p>
-                                    <p className="text-slate-400 text-sm mt-1">How well-positioned you are for this idea</p>
+                            {tldr.founderFitScore !== undefined && (
+                                <div className="flex items-center justify-between p-4 bg-slate-900 rounded-2xl border border-slate-700">
+                                    <div>
+                                        <p className="text-xs uppercase tracking-wider text-slate-500 font-bold">Founder Fit Score</p>
+                                        <p className="text-slate-400 text-sm mt-1">How well-positioned you are for this idea</p>
+                                    </div>
+                                    <div className={cn("text-4xl font-black px-4 py-2 rounded-xl", getScoreColor(tldr.founderFitScore))}>
+                                        {tldr.founderFitScore}/10
+                                    </div>
                                 </div>
-                                <div className={cn("text-4xl font-black px-4 py-2 rounded-xl", getScoreColor(tldr.founderFitScore))}>
-                                    {tldr.founderFitScore}/10
-                                </div>
-                            </div>
+                            )}
 
                             {/* Core Idea */}
                             <div className="space-y-3">
@@ -346,9 +349,7 @@ REFINED IDEA: ${tldr.refinedIdea}
 TARGET MARKET: ${tldr.targetMarket}
 
 KEY DIFFERENTIATOR: ${tldr.keyDifferentiator}
-
-FOUNDER FIT SCORE: ${tldr.founderFitScore}/10
-
+${tldr.founderFitScore !== undefined ? `\nFOUNDER FIT SCORE: ${tldr.founderFitScore}/10\n` : ''}
 KEY RISKS:
 ${tldr.mainRisks.map((r, i) => `${i + 1}. ${r}`).join('\n')}
     `.trim();
@@ -0,0 +1,45 @@
+/**
+ * @module components/layout/DashboardShell
+ * @description Sidebar and header frame around every dashboard view.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Sidebar } from '@/components/layout/Sidebar';
+import { Header } from '@/components/layout/Header';
+import { WorkspaceProvider } from '@/components/layout/WorkspaceContext';
+
+/**
+ * Dashboard frame.
+ * 
+ * Manages the state for the responsive sidebar and provides the core 
+ * layout structure and the active workspace for all dashboard views.
+ * 
+ * @param {Object} props - Component properties
+ * @param {React.ReactNode} props.children - Sub-pages
+ * @returns {JSX.Element} The layout wrapper
+ */
+export function DashboardShell({
+    children,
+}: {
+    children: React.ReactNode;
+}) {
+    const [sidebarOpen, setSidebarOpen] = useState(false);
+
+    return (
+        <WorkspaceProvider>
+            <div className="min-h-screen bg-[#0f172a] text-slate-200 flex font-sans">
+                <Sidebar isOpen={sidebarOpen} setOpen={setSidebarOpen} />
+
+                <main className="flex-1 lg:ml-64 relative pb-24 lg:pb-0 min-h-screen flex flex-col">
+                    <Header onMenuClick={() => setSidebarOpen(true)} />
+
+                    <div className="p-4 lg:p-8 max-w-7xl mx-auto w-full flex-1">
+                        {children}
+                    </div>
+                </main>
+            </div>
+        </WorkspaceProvider>
+    );
+}
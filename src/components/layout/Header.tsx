@@ -5,10 +5,16 @@
 
 'use client';
 
-import React from 'react';
-import { Menu, Search, ArrowLeft } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Menu, Search, ArrowLeft, Loader2 } from 'lucide-react';
 import { usePathname, useRouter } from 'next/navigation';
+import { Badge } from '@/components/ui/Badge';
+import { Highlight } from '@/components/ui/Highlight';
+import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
+import type { IdeaSearchResult } from '@/types';
+
+const SEARCH_DEBOUNCE_MS = 250;
 
 interface HeaderProps {
     onMenuClick: () => void;
@@ -18,7 +24,8 @@ interface HeaderProps {
  * Global header for authenticated routes.
  * 
  * Provides navigation context (e.g., "Back to Vault") when in detail views
- * and a persistent search interface for filtering ideas.
+ * and a persistent full-text search across the vault. Results come from the
+ * `search_ideas` RPC, ranked by relevance with highlighted snippets.
  * 
  * @param {HeaderProps} props - Component properties
  * @returns {JSX.Element} The rendered header
@@ -27,6 +34,72 @@ export const Header = ({ onMenuClick }: HeaderProps) => {
     const pathname = usePathname();
     const router = useRouter();
     const isDetailView = pathname.includes('/ideas/');
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<IdeaSearchResult[]>([]);
+    const [searching, setSearching] = useState(false);
+    const [isOpen, setIsOpen] = useState(false);
+    const [activeIndex, setActiveIndex] = useState(-1);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Debounced search against the tsvector index
+    useEffect(() => {
+        const term = query.trim();
+        if (!term) return;
+
+        const timeout = setTimeout(async () => {
+            setSearching(true);
+            const { data, error } = await supabase.rpc('search_ideas', { search_query: term });
+            if (error) {
+                console.error('Search failed:', error);
+                setResults([]);
+            } else {
+                setResults((data || []) as IdeaSearchResult[]);
+            }
+            setActiveIndex(-1);
+            setSearching(false);
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => clearTimeout(timeout);
+    }, [query]);
+
+    // Close the results panel when clicking elsewhere
+    useEffect(() => {
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, []);
+
+    const openResult = (id: string) => {
+        setIsOpen(false);
+        setQuery('');
+        setResults([]);
+        router.push(`/dashboard/ideas/${id}`);
+    };
+
+    const handleQueryChange = (value: string) => {
+        setQuery(value);
+        setIsOpen(true);
+        if (!value.trim()) setResults([]);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setActiveIndex(i => Math.min(i + 1, results.length - 1));
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setActiveIndex(i => Math.max(i - 1, 0));
+        } else if (e.key === 'Enter') {
+            const target = results[activeIndex] || results[0];
+            if (target) openResult(target.id);
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+        }
+    };
+
+    const showPanel = isOpen && query.trim().length > 0;
 
     return (
         <header className="sticky top-0 z-30 bg-[#0f172a]/80 backdrop-blur-md border-b border-slate-800 p-4 lg:p-6 flex items-center justify-between">
@@ -51,13 +124,53 @@ export const Header = ({ onMenuClick }: HeaderProps) => {
             </div>
 
             <div className="flex items-center gap-3">
-                <div className="hidden md:flex items-center bg-slate-800/50 border border-slate-700 px-3 py-2 rounded-xl">
-                    <Search size={18} className="text-slate-500 mr-2" />
-                    <input
-                        type="text"
-                        placeholder="Search ideas..."
-                        className="bg-transparent border-none focus:outline-none text-sm w-48 text-slate-200"
-                    />
+                <div ref={containerRef} className="relative hidden md:block">
+                    <div className="flex items-center bg-slate-800/50 border border-slate-700 px-3 py-2 rounded-xl focus-within:border-indigo-500/50 transition-colors">
+                        {searching ? (
+                            <Loader2 size={18} className="text-slate-500 mr-2 animate-spin" />
+                        ) : (
+                            <Search size={18} className="text-slate-500 mr-2" />
+                        )}
+                        <input
+                            type="text"
+                            placeholder="Search ideas..."
+                            className="bg-transparent border-none focus:outline-none text-sm w-48 text-slate-200"
+                            value={query}
+                            onChange={e => handleQueryChange(e.target.value)}
+                            onFocus={() => setIsOpen(true)}
+                            onKeyDown={handleKeyDown}
+                        />
+                    </div>
+
+                    {showPanel && (
+                        <div className="absolute right-0 mt-2 w-[28rem] max-h-[70vh] overflow-y-auto bg-slate-800 border border-slate-700 rounded-2xl shadow-2xl p-2 animate-in fade-in duration-150">
+                            {results.length === 0 ? (
+                                <p className="px-3 py-4 text-sm text-slate-500 text-center">
+                                    {searching ? 'Searching the vault...' : 'No matching ideas.'}
+                                </p>
+                            ) : (
+                                results.map((result, idx) => (
+                                    <button
+                                        key={result.id}
+                                        onClick={() => openResult(result.id)}
+                                        onMouseEnter={() => setActiveIndex(idx)}
+                                        className={cn(
+                                            "w-full text-left p-3 rounded-xl transition-colors",
+                                            idx === activeIndex ? 'bg-slate-700/60' : 'hover:bg-slate-700/40'
+                                        )}
+                                    >
+                                        <div className="flex items-center justify-between gap-3 mb-1">
+                                            <Highlight text={result.title_highlight} className="text-white font-bold text-sm truncate" />
+                                            <Badge status={result.status} />
+                                        </div>
+                                        {result.snippet && (
+                                            <Highlight text={result.snippet} className="block text-xs text-slate-400 leading-relaxed line-clamp-2" />
+                                        )}
+                                    </button>
+                                ))
+                            )}
+                        </div>
+                    )}
                 </div>
                 <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-violet-500 cursor-pointer hover:opacity-80 transition-opacity" />
             </div>
@@ -10,13 +10,16 @@ import {
     LayoutDashboard,
     History,
     Users,
+    Coins,
     Settings,
+    UsersRound,
     LogOut,
     X
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { WorkspaceSwitcher } from '@/components/layout/WorkspaceSwitcher';
 
 interface SidebarProps {
     isOpen: boolean;
@@ -27,7 +30,8 @@ interface SidebarProps {
  * Responsive sidebar component.
  * 
  * Collapses into a drawer on mobile and stays pinned on desktop.
- * Highlights the active route using Next.js usePathname.
+ * Highlights the active route using Next.js usePathname, and switches
+ * between the user's workspaces.
  * 
  * @param {SidebarProps} props - Component properties
  * @returns {JSX.Element} The rendered sidebar
@@ -39,6 +43,8 @@ export const Sidebar = ({ isOpen, setOpen }: SidebarProps) => {
         { label: 'Vault', icon: LayoutDashboard, href: '/dashboard' },
         { label: 'Weekly Digest', icon: History, href: '/dashboard/digest' },
         { label: 'Board', icon: Users, href: '/dashboard/board' },
+        { label: 'Usage', icon: Coins, href: '/dashboard/usage' },
+        { label: 'Team', icon: UsersRound, href: '/dashboard/team' },
         { label: 'Settings', icon: Settings, href: '/dashboard/settings' }
     ];
 
@@ -48,13 +54,15 @@ export const Sidebar = ({ isOpen, setOpen }: SidebarProps) => {
             isOpen ? 'translate-x-0' : '-translate-x-full'
         )}>
             <div className="h-full flex flex-col p-6">
-                <div className="flex items-center gap-3 mb-12">
+                <div className="flex items-center gap-3 mb-8">
                     <Link href="/" className="flex items-center gap-3">
                         <div className="w-10 h-10 bg-indigo-600 rounded-xl flex items-center justify-center font-bold text-white italic">IV</div>
                         <span className="text-xl font-bold text-white tracking-tight">Ideas Vault</span>
                     </Link>
                 </div>
 
+                <WorkspaceSwitcher />
+
                 <nav className="flex-1 space-y-2">
                     {menuItems.map(item => (
                         <Link
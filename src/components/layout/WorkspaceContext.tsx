@@ -0,0 +1,93 @@
+/**
+ * @module components/layout/WorkspaceContext
+ * @description The workspace the dashboard is showing, shared by every view.
+ *
+ * Loads the user's workspaces once per dashboard visit and remembers the
+ * active one in localStorage, so the switcher in the sidebar and the pages
+ * that list ideas stay in sync.
+ */
+
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { listWorkspaces } from '@/app/actions/workspaces';
+import { hasWorkspaceRole } from '@/lib/workspaceRoles';
+import type { Workspace } from '@/types';
+
+const ACTIVE_WORKSPACE_KEY = 'vault_active_workspace';
+
+interface WorkspaceContextValue {
+    workspaces: Workspace[];
+    /** Null until the workspaces have loaded */
+    activeWorkspace: Workspace | null;
+    /** Whether the user may add and change ideas in the active workspace */
+    canEdit: boolean;
+    setActiveWorkspaceId: (workspaceId: string) => void;
+    /** Reloads the list, e.g. after creating or joining a workspace */
+    refreshWorkspaces: () => Promise<void>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+/**
+ * Provides the active workspace to the dashboard.
+ *
+ * @param props.children - The dashboard views
+ */
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [activeId, setActiveId] = useState<string | null>(null);
+
+    const refreshWorkspaces = useCallback(async () => {
+        try {
+            const list = await listWorkspaces();
+            setWorkspaces(list);
+            setActiveId(current => {
+                const preferred = current || localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+                return list.find(w => w.id === preferred)?.id || list[0]?.id || null;
+            });
+        } catch (error) {
+            console.error('Failed to load workspaces:', error);
+        }
+    }, []);
+
+    useEffect(() => {
+        const loadWorkspaces = async () => {
+            await refreshWorkspaces();
+        };
+        loadWorkspaces();
+    }, [refreshWorkspaces]);
+
+    const setActiveWorkspaceId = useCallback((workspaceId: string) => {
+        localStorage.setItem(ACTIVE_WORKSPACE_KEY, workspaceId);
+        setActiveId(workspaceId);
+    }, []);
+
+    const activeWorkspace = workspaces.find(w => w.id === activeId) || null;
+
+    return (
+        <WorkspaceContext.Provider
+            value={{
+                workspaces,
+                activeWorkspace,
+                canEdit: hasWorkspaceRole(activeWorkspace?.role, 'editor'),
+                setActiveWorkspaceId,
+                refreshWorkspaces
+            }}
+        >
+            {children}
+        </WorkspaceContext.Provider>
+    );
+}
+
+/**
+ * The active workspace and the user's other workspaces.
+ * Must be used inside the dashboard (WorkspaceProvider).
+ */
+export function useWorkspace() {
+    const context = useContext(WorkspaceContext);
+    if (!context) {
+        throw new Error('useWorkspace must be used inside WorkspaceProvider');
+    }
+    return context;
+}
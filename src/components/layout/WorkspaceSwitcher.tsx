@@ -0,0 +1,85 @@
+/**
+ * @module components/layout/WorkspaceSwitcher
+ * @description Sidebar menu for switching between workspaces.
+ */
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Check, ChevronsUpDown, Plus, UsersRound } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { WORKSPACE_ROLE_LABELS } from '@/lib/workspaceRoles';
+import { useWorkspace } from '@/components/layout/WorkspaceContext';
+
+/**
+ * Workspace switcher.
+ *
+ * Shows the active workspace and the user's role in it; the menu lists the
+ * other workspaces and links to the team page to manage members or create one.
+ *
+ * @returns {JSX.Element} The rendered switcher
+ */
+export const WorkspaceSwitcher = () => {
+    const { workspaces, activeWorkspace, setActiveWorkspaceId } = useWorkspace();
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    // Close when clicking elsewhere
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClick = (e: MouseEvent) => {
+            if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [isOpen]);
+
+    return (
+        <div ref={containerRef} className="relative mb-8">
+            <button
+                onClick={() => setIsOpen(open => !open)}
+                className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl bg-slate-900 border border-slate-800 hover:border-slate-700 text-left transition-colors"
+            >
+                <UsersRound size={18} className="text-indigo-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-white truncate">{activeWorkspace?.name || 'Loading…'}</p>
+                    {activeWorkspace && (
+                        <p className="text-[10px] uppercase tracking-wider text-slate-500">{WORKSPACE_ROLE_LABELS[activeWorkspace.role]}</p>
+                    )}
+                </div>
+                <ChevronsUpDown size={16} className="text-slate-500 flex-shrink-0" />
+            </button>
+
+            {isOpen && (
+                <div className="absolute z-10 top-full left-0 right-0 mt-2 p-1 bg-slate-900 border border-slate-700 rounded-xl shadow-xl">
+                    {workspaces.map(workspace => (
+                        <button
+                            key={workspace.id}
+                            onClick={() => {
+                                setActiveWorkspaceId(workspace.id);
+                                setIsOpen(false);
+                            }}
+                            className={cn(
+                                "w-full flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-left transition-colors",
+                                workspace.id === activeWorkspace?.id ? 'bg-indigo-600/10 text-indigo-300' : 'text-slate-300 hover:bg-slate-800'
+                            )}
+                        >
+                            <span className="flex-1 truncate">{workspace.name}</span>
+                            <span className="text-[10px] uppercase tracking-wider text-slate-500">{WORKSPACE_ROLE_LABELS[workspace.role]}</span>
+                            {workspace.id === activeWorkspace?.id && <Check size={14} />}
+                        </button>
+                    ))}
+                    <Link
+                        href="/dashboard/team"
+                        onClick={() => setIsOpen(false)}
+                        className="mt-1 flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-slate-400 hover:bg-slate-800 hover:text-white border-t border-slate-800"
+                    >
+                        <Plus size={14} />
+                        Manage or create workspaces
+                    </Link>
+                </div>
+            )}
+        </div>
+    );
+};
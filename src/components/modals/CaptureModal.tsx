@@ -5,11 +5,13 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import {
     X,
     FileText,
     Mic,
+    Square,
+    Trash2,
     Image as ImageIcon,
     Loader2
 } from 'lucide-react';
@@ -18,13 +20,28 @@ import { cn } from '@/lib/utils';
 interface CaptureModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSubmit: (data: { title: string; description: string; type: string }) => Promise<void>;
+    onSubmit: (data: { title: string; description: string; type: string; file?: File }) => Promise<void>;
 }
 
+/**
+ * Picks the first audio container the browser's MediaRecorder supports.
+ */
+const pickAudioMimeType = () => {
+    const candidates = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg'];
+    return candidates.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) || '';
+};
+
+const MAX_SNAPSHOT_BYTES = 10 * 1024 * 1024;
+
+const formatDuration = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
 /**
  * A multi-tab modal for capturing startup inspiration.
  * 
- * Supports text entry, simulated voice recording, and image drag-and-drop placeholders.
+ * Supports text entry, microphone recording of voice notes (transcribed
+ * server-side before research), and whiteboard photos or sketches that can
+ * be dropped, picked or pasted (read by a vision model before research).
  * Integrates with a server action to process the idea via AI.
  * 
  * @param {CaptureModalProps} props - Component properties
@@ -36,16 +53,146 @@ export const CaptureModal = ({ isOpen, onClose, onSubmit }: CaptureModalProps) =
     const [description, setDescription] = useState('');
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [isListening, setIsListening] = useState(false);
+    const [recording, setRecording] = useState<File | null>(null);
+    const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+    const [elapsed, setElapsed] = useState(0);
+    const [recorderError, setRecorderError] = useState<string | null>(null);
+    const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const [snapshot, setSnapshot] = useState<File | null>(null);
+    const [snapshotUrl, setSnapshotUrl] = useState<string | null>(null);
+    const [snapshotError, setSnapshotError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const releaseMicrophone = () => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        timerRef.current = null;
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+    };
+
+    // Release the microphone if the modal unmounts mid-recording
+    useEffect(() => releaseMicrophone, []);
+
+    // Free the preview blob URL when it's replaced or discarded
+    useEffect(() => {
+        return () => {
+            if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+        };
+    }, [recordingUrl]);
+
+    useEffect(() => {
+        return () => {
+            if (snapshotUrl) URL.revokeObjectURL(snapshotUrl);
+        };
+    }, [snapshotUrl]);
+
+    // Allow pasting screenshots straight into the Snapshot tab
+    useEffect(() => {
+        if (!isOpen || modalTab !== 'image') return;
+
+        const handlePaste = (e: ClipboardEvent) => {
+            const file = Array.from(e.clipboardData?.files || []).find(f => f.type.startsWith('image/'));
+            if (file) {
+                e.preventDefault();
+                selectSnapshot(file);
+            }
+        };
+
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [isOpen, modalTab]);
+
+    function selectSnapshot(file: File) {
+        if (!file.type.startsWith('image/')) {
+            setSnapshotError('Only image files can be used as snapshots.');
+            return;
+        }
+        if (file.size > MAX_SNAPSHOT_BYTES) {
+            setSnapshotError('Images must be under 10 MB.');
+            return;
+        }
+        setSnapshotError(null);
+        setSnapshot(file);
+        setSnapshotUrl(URL.createObjectURL(file));
+    }
+
+    const clearSnapshot = () => {
+        setSnapshot(null);
+        setSnapshotUrl(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+    };
 
     if (!isOpen) return null;
 
+    const startRecording = async () => {
+        setRecorderError(null);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const mimeType = pickAudioMimeType();
+            const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+            const chunks: Blob[] = [];
+
+            recorder.ondataavailable = e => {
+                if (e.data.size > 0) chunks.push(e.data);
+            };
+            recorder.onstop = () => {
+                const type = recorder.mimeType || 'audio/webm';
+                const extension = type.includes('mp4') ? 'm4a' : type.includes('ogg') ? 'ogg' : 'webm';
+                const file = new File(chunks, `voice-note.${extension}`, { type });
+                setRecording(file);
+                setRecordingUrl(URL.createObjectURL(file));
+                releaseMicrophone();
+            };
+
+            streamRef.current = stream;
+            mediaRecorderRef.current = recorder;
+            recorder.start();
+            setElapsed(0);
+            timerRef.current = setInterval(() => setElapsed(s => s + 1), 1000);
+            setIsListening(true);
+        } catch (error) {
+            console.error('Microphone access failed:', error);
+            setRecorderError('Microphone access was denied or is unavailable.');
+            releaseMicrophone();
+        }
+    };
+
+    const stopRecording = () => {
+        mediaRecorderRef.current?.stop();
+        mediaRecorderRef.current = null;
+        setIsListening(false);
+    };
+
+    const discardRecording = () => {
+        setRecording(null);
+        setRecordingUrl(null);
+        setElapsed(0);
+    };
+
+    const handleClose = () => {
+        if (isListening) stopRecording();
+        onClose();
+    };
+
+    const canSubmit = modalTab === 'text' ? !!title : modalTab === 'voice' ? !!recording && !isListening : !!snapshot;
+
     const handleSubmit = async () => {
-        if (!title && modalTab === 'text') return;
+        if (!canSubmit) return;
         setIsSubmitting(true);
         try {
-            await onSubmit({ title, description, type: modalTab });
+            await onSubmit({
+                title,
+                description,
+                type: modalTab,
+                file: modalTab === 'voice' ? recording || undefined : modalTab === 'image' ? snapshot || undefined : undefined
+            });
             setTitle('');
             setDescription('');
+            discardRecording();
+            clearSnapshot();
             onClose();
         } catch (error) {
             console.error("Failed to add idea:", error);
@@ -58,7 +205,7 @@ export const CaptureModal = ({ isOpen, onClose, onSubmit }: CaptureModalProps) =
         <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
             <div
                 className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm"
-                onClick={() => !isSubmitting && onClose()}
+                onClick={() => !isSubmitting && handleClose()}
             />
 
             <div className="bg-slate-800 border border-slate-700 w-full max-w-lg rounded-3xl overflow-hidden shadow-2xl relative z-10 animate-in zoom-in-95 fade-in duration-300">
@@ -118,49 +265,141 @@ export const CaptureModal = ({ isOpen, onClose, onSubmit }: CaptureModalProps) =
                     )}
 
                     {modalTab === 'voice' && (
-                        <div className="flex flex-col items-center justify-center py-10 space-y-6">
-                            <div
-                                className={cn(
-                                    "p-8 rounded-full relative transition-all duration-500",
-                                    isListening ? 'bg-indigo-600 shadow-[0_0_40px_rgba(79,70,229,0.5)]' : 'bg-slate-700 cursor-pointer'
-                                )}
-                                onClick={() => setIsListening(!isListening)}
-                            >
-                                <Mic size={48} className="text-white" />
-                                {isListening && <div className="absolute inset-0 rounded-full border-4 border-white animate-ping" />}
-                            </div>
-                            <div className="text-center">
-                                <p className="text-white font-bold">{isListening ? 'Listening...' : 'Tap to Record'}</p>
-                                <p className="text-slate-500 text-xs mt-2">Speak clearly about your concept.</p>
-                            </div>
-                            {isListening && (
-                                <div className="w-full max-w-xs h-8 flex items-center justify-center gap-1">
-                                    {[...Array(12)].map((_, i) => (
-                                        <div
-                                            key={i}
-                                            className="w-1.5 bg-indigo-400 rounded-full animate-bounce"
-                                            style={{ height: `${Math.random() * 100}%`, animationDelay: `${i * 0.1}s` }}
+                        <div className="flex flex-col items-center justify-center py-6 space-y-6">
+                            {recording && recordingUrl ? (
+                                <div className="w-full space-y-4">
+                                    <div className="flex items-center gap-3">
+                                        <audio controls src={recordingUrl} className="flex-1 h-10" />
+                                        <button
+                                            onClick={discardRecording}
+                                            className="p-2 text-slate-400 hover:text-rose-400 transition-colors"
+                                            title="Discard and re-record"
+                                        >
+                                            <Trash2 size={18} />
+                                        </button>
+                                    </div>
+                                    <div>
+                                        <label className="block text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">
+                                            Concept Title (optional)
+                                        </label>
+                                        <input
+                                            type="text"
+                                            placeholder="We'll suggest one from your recording"
+                                            className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none text-white transition-all"
+                                            value={title}
+                                            onChange={e => setTitle(e.target.value)}
                                         />
-                                    ))}
+                                    </div>
+                                    <p className="text-slate-500 text-xs text-center">
+                                        Your note will be transcribed into the idea description before research starts.
+                                    </p>
                                 </div>
+                            ) : (
+                                <>
+                                    <div
+                                        className={cn(
+                                            "p-8 rounded-full relative transition-all duration-500 cursor-pointer",
+                                            isListening ? 'bg-indigo-600 shadow-[0_0_40px_rgba(79,70,229,0.5)]' : 'bg-slate-700'
+                                        )}
+                                        onClick={isListening ? stopRecording : startRecording}
+                                    >
+                                        {isListening ? <Square size={48} className="text-white" /> : <Mic size={48} className="text-white" />}
+                                        {isListening && <div className="absolute inset-0 rounded-full border-4 border-white animate-ping" />}
+                                    </div>
+                                    <div className="text-center">
+                                        <p className="text-white font-bold">
+                                            {isListening ? `Recording ${formatDuration(elapsed)}` : 'Tap to Record'}
+                                        </p>
+                                        <p className="text-slate-500 text-xs mt-2">
+                                            {isListening ? 'Tap again to stop.' : 'Speak clearly about your concept.'}
+                                        </p>
+                                        {recorderError && <p className="text-rose-400 text-xs mt-2">{recorderError}</p>}
+                                    </div>
+                                    {isListening && (
+                                        <div className="w-full max-w-xs h-8 flex items-center justify-center gap-1">
+                                            {[...Array(12)].map((_, i) => (
+                                                <div
+                                                    key={i}
+                                                    className="w-1.5 h-full bg-indigo-400 rounded-full animate-bounce"
+                                                    style={{ animationDelay: `${i * 0.1}s` }}
+                                                />
+                                            ))}
+                                        </div>
+                                    )}
+                                </>
                             )}
                         </div>
                     )}
 
                     {modalTab === 'image' && (
-                        <div className="border-2 border-dashed border-slate-700 rounded-3xl p-10 flex flex-col items-center justify-center space-y-4 hover:border-indigo-500/50 transition-colors cursor-pointer group">
-                            <div className="p-4 bg-slate-700 rounded-2xl group-hover:bg-indigo-600/20 transition-colors">
-                                <ImageIcon size={32} className="text-slate-400 group-hover:text-indigo-400" />
-                            </div>
-                            <div className="text-center">
-                                <p className="text-white font-bold">Drop Image or Sketch</p>
-                                <p className="text-slate-500 text-xs mt-2">Upload visual references of your idea.</p>
-                            </div>
+                        <div className="space-y-4">
+                            <input
+                                ref={fileInputRef}
+                                type="file"
+                                accept="image/*"
+                                className="hidden"
+                                onChange={e => e.target.files?.[0] && selectSnapshot(e.target.files[0])}
+                            />
+                            {snapshot && snapshotUrl ? (
+                                <div className="relative rounded-3xl overflow-hidden border border-slate-700 bg-slate-900">
+                                    {/* eslint-disable-next-line @next/next/no-img-element -- local blob preview */}
+                                    <img src={snapshotUrl} alt="Snapshot preview" className="w-full max-h-64 object-contain" />
+                                    <button
+                                        onClick={clearSnapshot}
+                                        className="absolute top-3 right-3 p-2 bg-slate-900/80 rounded-xl text-slate-300 hover:text-rose-400 transition-colors"
+                                        title="Remove image"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            ) : (
+                                <div
+                                    onClick={() => fileInputRef.current?.click()}
+                                    onDragOver={e => {
+                                        e.preventDefault();
+                                        setIsDragging(true);
+                                    }}
+                                    onDragLeave={() => setIsDragging(false)}
+                                    onDrop={e => {
+                                        e.preventDefault();
+                                        setIsDragging(false);
+                                        const file = e.dataTransfer.files?.[0];
+                                        if (file) selectSnapshot(file);
+                                    }}
+                                    className={cn(
+                                        "border-2 border-dashed rounded-3xl p-10 flex flex-col items-center justify-center space-y-4 transition-colors cursor-pointer group",
+                                        isDragging ? 'border-indigo-500 bg-indigo-500/5' : 'border-slate-700 hover:border-indigo-500/50'
+                                    )}
+                                >
+                                    <div className="p-4 bg-slate-700 rounded-2xl group-hover:bg-indigo-600/20 transition-colors">
+                                        <ImageIcon size={32} className="text-slate-400 group-hover:text-indigo-400" />
+                                    </div>
+                                    <div className="text-center">
+                                        <p className="text-white font-bold">Drop Image or Sketch</p>
+                                        <p className="text-slate-500 text-xs mt-2">Click to browse, or paste a screenshot.</p>
+                                    </div>
+                                </div>
+                            )}
+                            {snapshotError && <p className="text-rose-400 text-xs text-center">{snapshotError}</p>}
+                            {snapshot && (
+                                <div>
+                                    <label className="block text-xs font-bold uppercase tracking-widest text-slate-500 mb-2">
+                                        Concept Title (optional)
+                                    </label>
+                                    <input
+                                        type="text"
+                                        placeholder="We'll read one from your sketch"
+                                        className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none text-white transition-all"
+                                        value={title}
+                                        onChange={e => setTitle(e.target.value)}
+                                    />
+                                </div>
+                            )}
                         </div>
                     )}
 
                     <button
-                        disabled={isSubmitting || (!title && modalTab === 'text')}
+                        disabled={isSubmitting || !canSubmit}
                         onClick={handleSubmit}
                         className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-2xl font-bold flex items-center justify-center gap-3 transition-all mt-4"
                     >
@@ -2,8 +2,9 @@
  * @module components/modals/DiscoveryModal
  * @description Main modal orchestrator for the Discovery Mode flow.
  * 
- * Manages the full discovery experience including chat, prompt preview,
- * and founder-fit display. Can be triggered for new ideas or existing ones.
+ * Manages the full discovery experience including playbook choice, chat,
+ * prompt preview, and founder-fit display. Can be triggered for new ideas or
+ * existing ones.
  * 
  * @purpose Central entry point for Discovery Mode UI.
  * @dependencies DiscoveryChat, PromptPreview, FounderFitCard, discovery actions
@@ -12,51 +13,58 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { X, Sparkles, Loader2, RefreshCw } from 'lucide-react';
+import { X, Sparkles, Loader2, RefreshCw, ChevronRight, AlertTriangle } from 'lucide-react';
 import { DiscoveryChat } from '@/components/discovery/DiscoveryChat';
 import { PromptPreview } from '@/components/discovery/PromptPreview';
 import { FounderFitCard } from '@/components/discovery/FounderFitCard';
 import {
     startDiscoverySession,
-    sendDiscoveryMessage,
     getActiveDiscoverySessions,
     skipDiscovery
 } from '@/app/actions/discovery';
+import { streamDiscoveryMessage } from '@/lib/discoveryStream';
+import { loadAISettings, toRoutingConfig } from '@/lib/aiSettings';
+import { getPlaybook, latestPlaybooks } from '@/lib/discoveryPlaybooks';
+import type { DiscoveryFacts } from '@/types';
 
 interface DiscoveryModalProps {
     isOpen: boolean;
     onClose: () => void;
     onComplete: (synthesisOutput: any) => void;
-    userId: string;
     existingIdeaId?: string;
     existingIdeaData?: { title: string; description: string };
 }
 
-type DiscoveryStage = 'loading' | 'chat' | 'preview' | 'complete';
+type DiscoveryStage = 'loading' | 'playbook' | 'chat' | 'preview' | 'complete';
 
 /**
  * Main modal for the Discovery Mode collaborative process.
  * 
- * Orchestrates the flow from initial conversation through prompt preview
- * to research initiation. Handles session creation and state management.
+ * Orchestrates the flow from playbook choice and the conversation through
+ * prompt preview to research initiation. Resumes the matching active session
+ * if there is one; otherwise the user picks a playbook first. Handles session
+ * creation and state management.
  * 
- * @param props - Component properties including user and idea data
+ * @param props - Component properties including the idea to run discovery on
  * @returns The rendered discovery modal
  */
 export function DiscoveryModal({
     isOpen,
     onClose,
     onComplete,
-    userId,
     existingIdeaId,
     existingIdeaData
 }: DiscoveryModalProps) {
     const [stage, setStage] = useState<DiscoveryStage>('loading');
     const [sessionId, setSessionId] = useState<string | null>(null);
     const [messages, setMessages] = useState<any[]>([]);
-    const [currentPhase, setCurrentPhase] = useState('vision');
+    const [playbook, setPlaybook] = useState(() => getPlaybook());
+    const [currentPhase, setCurrentPhase] = useState('');
+    const [facts, setFacts] = useState<DiscoveryFacts>({});
     const [synthesisOutput, setSynthesisOutput] = useState<any>(null);
     const [error, setError] = useState<string | null>(null);
+    // Why the last synthesis attempt was rejected (see lib/synthesis)
+    const [synthesisError, setSynthesisError] = useState<string | null>(null);
 
     // Initialize session when modal opens
     useEffect(() => {
@@ -70,10 +78,13 @@ export function DiscoveryModal({
         if (!isOpen) {
             setSessionId(null);
             setMessages([]);
-            setCurrentPhase('vision');
+            setPlaybook(getPlaybook());
+            setCurrentPhase('');
+            setFacts({});
             setSynthesisOutput(null);
             setStage('loading');
             setError(null);
+            setSynthesisError(null);
         }
     }, [isOpen]);
 
@@ -82,7 +93,7 @@ export function DiscoveryModal({
             setStage('loading');
 
             // Check for existing active sessions first
-            const activeSessions = await getActiveDiscoverySessions(userId);
+            const activeSessions = await getActiveDiscoverySessions();
 
             let sessionToResume = null;
 
@@ -97,14 +108,16 @@ export function DiscoveryModal({
             if (sessionToResume) {
                 console.log('Resuming session:', sessionToResume.id);
                 setSessionId(sessionToResume.id);
+                setPlaybook(getPlaybook(sessionToResume.playbook_id, sessionToResume.playbook_version));
                 setMessages(sessionToResume.messages || []);
                 setCurrentPhase(sessionToResume.current_phase);
+                setFacts(sessionToResume.extracted_facts || {});
                 setStage('chat');
                 return;
             }
 
-            // If no session to resume, start new one
-            await startNewSession();
+            // If no session to resume, pick a playbook for a new one
+            setStage('playbook');
 
         } catch (err) {
             console.error('Failed to initialize discovery session:', err);
@@ -113,26 +126,46 @@ export function DiscoveryModal({
         }
     };
 
-    const startNewSession = async () => {
-        const result = await startDiscoverySession(
-            userId,
-            existingIdeaId,
-            existingIdeaData
-        );
+    const startNewSession = async (playbookId: string) => {
+        try {
+            setStage('loading');
+            setError(null);
 
-        setSessionId(result.session.id);
-        setMessages(result.session.messages || []);
-        setCurrentPhase(result.session.current_phase);
-        setStage('chat');
+            const result = await startDiscoverySession(
+                existingIdeaId,
+                existingIdeaData,
+                playbookId
+            );
+
+            setSessionId(result.session.id);
+            setPlaybook(getPlaybook(result.session.playbook_id, result.session.playbook_version));
+            setMessages(result.session.messages || []);
+            setCurrentPhase(result.session.current_phase);
+            setFacts(result.session.extracted_facts || {});
+            setStage('chat');
+        } catch (err) {
+            console.error('Failed to start discovery session:', err);
+            setError('Failed to start discovery session. Please try again.');
+            setStage('playbook');
+        }
     };
 
-    const handleSendMessage = async (sessionId: string, message: string) => {
-        // Load AI config from localStorage
-        const savedSettings = localStorage.getItem('vault_ai_settings');
-        const aiConfig = savedSettings ? JSON.parse(savedSettings) : {};
+    const handleSendMessage = async (sessionId: string, message: string, onToken: (delta: string) => void) => {
+        // Load provider routing from localStorage
+        const config = toRoutingConfig(loadAISettings());
 
-        const result = await sendDiscoveryMessage(sessionId, message, aiConfig);
+        let result;
+        try {
+            result = await streamDiscoveryMessage(sessionId, message, config, onToken);
+        } catch (err) {
+            // The chat rolls the turn back; explain why when it was the synthesis that failed
+            if (currentPhase === 'synthesis') {
+                setSynthesisError(err instanceof Error ? err.message : 'Failed to generate the research prompt.');
+            }
+            throw err;
+        }
 
+        setSynthesisError(null);
         setCurrentPhase(result.currentPhase);
 
         if (result.isComplete && result.synthesisOutput) {
@@ -163,7 +196,7 @@ export function DiscoveryModal({
     const handleEditPrompt = () => {
         // Go back to chat to continue refining
         setStage('chat');
-        setCurrentPhase('vision'); // Reset phase to allow more conversation
+        setCurrentPhase(playbook.phases[0].id); // Reset phase to allow more conversation
     };
 
     if (!isOpen) return null;
@@ -186,6 +219,7 @@ export function DiscoveryModal({
                             <h2 className="text-lg font-bold text-white">Discovery Mode</h2>
                             <p className="text-sm text-white/70">
                                 {stage === 'loading' && 'Starting session...'}
+                                {stage === 'playbook' && 'Choose how to explore your idea'}
                                 {stage === 'chat' && 'Refining your idea together'}
                                 {stage === 'preview' && 'Review your research prompt'}
                                 {stage === 'complete' && 'Ready for research!'}
@@ -197,10 +231,12 @@ export function DiscoveryModal({
                             <button
                                 onClick={async () => {
                                     if (confirm('Start a new session? Current progress will be lost.')) {
-                                        // Wait for loading state to clear if needed, then start new
+                                        // Clean up the old one, then pick a playbook for the new one
                                         setStage('loading');
-                                        if (sessionId) await skipDiscovery(sessionId); // clean up old one
-                                        await startNewSession();
+                                        if (sessionId) await skipDiscovery(sessionId);
+                                        setSessionId(null);
+                                        setSynthesisError(null);
+                                        setStage('playbook');
                                     }
                                 }}
                                 className="p-2 hover:bg-white/20 rounded-xl transition-colors text-white/70 hover:text-white"
@@ -239,11 +275,69 @@ export function DiscoveryModal({
                         </div>
                     )}
 
+                    {stage === 'playbook' && (
+                        <div className="space-y-3">
+                            <p className="text-sm text-slate-400">
+                                Pick the playbook that fits your idea. It decides which questions discovery asks and what goes into your research prompt.
+                            </p>
+                            {error && (
+                                <div className="p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl">
+                                    <p className="text-rose-400 text-sm">{error}</p>
+                                </div>
+                            )}
+                            <div className="grid gap-3 sm:grid-cols-2">
+                                {latestPlaybooks().map(option => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => startNewSession(option.id)}
+                                        className="group text-left p-4 bg-slate-900 border border-slate-700 hover:border-indigo-500/50 hover:bg-slate-900/60 rounded-2xl transition-all"
+                                    >
+                                        <div className="flex items-center justify-between gap-2 mb-1">
+                                            <span className="font-bold text-white">{option.name}</span>
+                                            <ChevronRight size={16} className="text-slate-500 group-hover:text-indigo-400 transition-colors" />
+                                        </div>
+                                        <p className="text-xs text-slate-400 leading-snug mb-3">{option.description}</p>
+                                        <div className="flex flex-wrap gap-1.5">
+                                            {option.phases.map(phase => (
+                                                <span
+                                                    key={phase.id}
+                                                    className="px-2 py-0.5 rounded-full text-[11px] text-slate-300 bg-slate-800 border border-slate-700"
+                                                >
+                                                    {phase.label}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {stage === 'chat' && synthesisError && (
+                        <div className="mb-4 flex items-start gap-3 p-4 bg-rose-500/10 border border-rose-500/20 rounded-xl">
+                            <AlertTriangle size={18} className="text-rose-400 flex-shrink-0 mt-0.5" />
+                            <div className="flex-1 text-sm">
+                                <p className="font-bold text-rose-300">Couldn&apos;t generate your research prompt</p>
+                                <p className="text-rose-400/90 mt-1">{synthesisError}</p>
+                                <p className="text-slate-400 mt-1">Send your message again to retry, or skip to research.</p>
+                            </div>
+                            <button
+                                onClick={() => setSynthesisError(null)}
+                                className="p-1 text-rose-300/70 hover:text-rose-200 transition-colors"
+                                title="Dismiss"
+                            >
+                                <X size={16} />
+                            </button>
+                        </div>
+                    )}
+
                     {stage === 'chat' && sessionId && (
                         <DiscoveryChat
                             sessionId={sessionId}
                             initialMessages={messages}
                             currentPhase={currentPhase}
+                            playbook={playbook}
+                            initialFacts={facts}
                             onComplete={handleDiscoveryComplete}
                             onSkip={handleSkip}
                             sendMessage={handleSendMessage}
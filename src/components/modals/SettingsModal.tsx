@@ -1,56 +1,156 @@
 /**
  * @module components/modals/SettingsModal
- * @description Modal for configuring custom AI provider settings and Discovery Mode.
+ * @description Modal for managing AI provider profiles, stored keys, task routing and Discovery Mode.
  */
 
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { X, Settings, Key, Server, Cpu, Sparkles } from 'lucide-react';
+import {
+    X, Settings, Key, Server, Cpu, Sparkles, Plus, Trash2, ChevronDown, Route, ArrowDown,
+    Loader2, PlugZap, CheckCircle2, XCircle
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { AI_PROVIDER_PRESETS, AI_TASKS } from '@/config/aiProviders';
+import { loadAISettings, saveAISettings } from '@/lib/aiSettings';
+import {
+    listProviderKeys,
+    saveProviderKey,
+    deleteProviderKey,
+    testProviderConnection
+} from '@/app/actions/credentials';
+import type { AICredentialSummary, AIProviderProfile, AISettings, AITask, AITaskRoute, ConnectionTestResult } from '@/types';
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (settings: { apiKey: string; baseURL: string; model: string; discoveryModeEnabled: boolean }) => void;
+    onSave: (settings: AISettings) => void;
 }
 
+const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none text-white text-sm';
+
 /**
  * Settings Modal.
- * 
- * Allows users to input their own API keys and endpoints for the AI agent,
- * and toggle Discovery Mode for new idea captures.
- * Settings are persisted to LocalStorage by the parent component.
- * 
+ *
+ * Lets users define named provider profiles (OpenAI, OpenRouter, a local
+ * Ollama/vLLM server, ...) and route discovery chat, synthesis and research
+ * to a primary profile and model with optional fallbacks. Tasks without a
+ * route use the server's default provider.
+ * Profiles and routing are persisted to LocalStorage via lib/aiSettings; API
+ * keys are sent to the server once, stored encrypted, and shown masked here.
+ *
  * @param {SettingsModalProps} props - Component properties
  */
 export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) => {
-    const [apiKey, setApiKey] = useState('');
-    const [baseURL, setBaseURL] = useState('');
-    const [model, setModel] = useState('');
-    const [discoveryModeEnabled, setDiscoveryModeEnabled] = useState(false);
+    const [settings, setSettings] = useState<AISettings>({ profiles: [], routes: {}, discoveryModeEnabled: false });
+    const [expandedProfileId, setExpandedProfileId] = useState<string | null>(null);
+    const [storedKeys, setStoredKeys] = useState<AICredentialSummary[]>([]);
+    // Keys typed in this session; only sent to the server on save or test
+    const [keyDrafts, setKeyDrafts] = useState<Record<string, string>>({});
+    const [testResults, setTestResults] = useState<Record<string, ConnectionTestResult | 'testing'>>({});
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
     useEffect(() => {
         if (isOpen) {
             // Load from localStorage when opening
-            const savedSettings = localStorage.getItem('vault_ai_settings');
-            if (savedSettings) {
-                const parsed = JSON.parse(savedSettings);
-                setApiKey(parsed.apiKey || '');
-                setBaseURL(parsed.baseURL || '');
-                setModel(parsed.model || '');
-                setDiscoveryModeEnabled(parsed.discoveryModeEnabled || false);
-            }
+            setSettings(loadAISettings());
+            setExpandedProfileId(null);
+            setKeyDrafts({});
+            setTestResults({});
+            setError(null);
+        }
+    }, [isOpen]);
+
+    useEffect(() => {
+        if (isOpen) {
+            listProviderKeys()
+                .then(setStoredKeys)
+                .catch(() => setError('Could not load your stored API keys'));
         }
     }, [isOpen]);
 
     if (!isOpen) return null;
 
-    const handleSave = () => {
-        const newSettings = { apiKey, baseURL, model, discoveryModeEnabled };
-        localStorage.setItem('vault_ai_settings', JSON.stringify(newSettings));
-        onSave(newSettings);
-        onClose();
+    const { profiles, routes, discoveryModeEnabled } = settings;
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+
+        try {
+            const profileIds = new Set(profiles.map(p => p.id));
+            for (const [profileId, apiKey] of Object.entries(keyDrafts)) {
+                if (apiKey.trim() && profileIds.has(profileId)) await saveProviderKey(profileId, apiKey);
+            }
+            // Keys of deleted profiles are removed from the server too
+            for (const stored of storedKeys) {
+                if (!profileIds.has(stored.profileId)) await deleteProviderKey(stored.profileId);
+            }
+
+            saveAISettings(settings);
+            onSave(settings);
+            onClose();
+        } catch {
+            setError('Could not save your API keys. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const removeStoredKey = async (profileId: string) => {
+        if (!confirm('Remove the stored API key for this provider?')) return;
+        try {
+            await deleteProviderKey(profileId);
+            setStoredKeys(keys => keys.filter(k => k.profileId !== profileId));
+        } catch {
+            setError('Could not remove the API key. Please try again.');
+        }
+    };
+
+    const testConnection = async (profile: AIProviderProfile) => {
+        setTestResults(results => ({ ...results, [profile.id]: 'testing' }));
+        const result = await testProviderConnection(profile, keyDrafts[profile.id]);
+        setTestResults(results => ({ ...results, [profile.id]: result }));
+    };
+
+    const addProfile = (preset?: typeof AI_PROVIDER_PRESETS[number]) => {
+        const profile: AIProviderProfile = {
+            id: crypto.randomUUID(),
+            name: preset?.name || 'Custom provider',
+            baseURL: preset?.baseURL || '',
+            defaultModel: preset?.defaultModel || ''
+        };
+
+        // The first profile becomes the primary for every task that isn't routed yet
+        const nextRoutes = { ...routes };
+        if (profiles.length === 0) {
+            AI_TASKS.forEach(({ id }) => {
+                if (!nextRoutes[id]?.length) nextRoutes[id] = [{ profileId: profile.id, model: '' }];
+            });
+        }
+
+        setSettings({ ...settings, profiles: [...profiles, profile], routes: nextRoutes });
+        setExpandedProfileId(profile.id);
+    };
+
+    const updateProfile = (profileId: string, changes: Partial<AIProviderProfile>) => {
+        setSettings({
+            ...settings,
+            profiles: profiles.map(p => (p.id === profileId ? { ...p, ...changes } : p))
+        });
+    };
+
+    const removeProfile = (profileId: string) => {
+        const nextRoutes: AISettings['routes'] = {};
+        AI_TASKS.forEach(({ id }) => {
+            nextRoutes[id] = (routes[id] || []).filter(r => r.profileId !== profileId);
+        });
+        setSettings({ ...settings, profiles: profiles.filter(p => p.id !== profileId), routes: nextRoutes });
+    };
+
+    const setTaskRoutes = (task: AITask, chain: AITaskRoute[]) => {
+        setSettings({ ...settings, routes: { ...routes, [task]: chain } });
     };
 
     return (
@@ -60,7 +160,7 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
                 onClick={onClose}
             />
 
-            <div className="bg-slate-800 border border-slate-700 w-full max-w-md rounded-3xl overflow-hidden shadow-2xl relative z-10 animate-in zoom-in-95 fade-in duration-300">
+            <div className="bg-slate-800 border border-slate-700 w-full max-w-2xl max-h-[90vh] flex flex-col rounded-3xl overflow-hidden shadow-2xl relative z-10 animate-in zoom-in-95 fade-in duration-300">
                 <div className="p-6 border-b border-slate-700 flex justify-between items-center">
                     <div className="flex items-center gap-3">
                         <div className="p-2 bg-indigo-500/10 rounded-xl">
@@ -73,7 +173,7 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
                     </button>
                 </div>
 
-                <div className="p-6 space-y-6">
+                <div className="p-6 space-y-6 overflow-y-auto">
                     {/* Discovery Mode Toggle */}
                     <div className="p-4 bg-gradient-to-r from-indigo-500/10 to-purple-500/10 border border-indigo-500/20 rounded-2xl">
                         <div className="flex items-center justify-between">
@@ -89,7 +189,7 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
                                 </div>
                             </div>
                             <button
-                                onClick={() => setDiscoveryModeEnabled(!discoveryModeEnabled)}
+                                onClick={() => setSettings({ ...settings, discoveryModeEnabled: !discoveryModeEnabled })}
                                 className={cn(
                                     "relative w-14 h-7 rounded-full transition-colors duration-300",
                                     discoveryModeEnabled ? 'bg-indigo-600' : 'bg-slate-600'
@@ -105,62 +205,253 @@ export const SettingsModal = ({ isOpen, onClose, onSave }: SettingsModalProps) =
                         </div>
                     </div>
 
+                    {/* Provider Profiles */}
                     <div className="border-t border-slate-700 pt-5">
-                        <h4 className="text-sm font-bold text-slate-400 mb-4">AI Configuration</h4>
+                        <h4 className="text-sm font-bold text-slate-400 mb-1">AI Providers</h4>
+                        <p className="text-xs text-slate-500 mb-4">
+                            Any OpenAI-compatible endpoint. Without providers, the server&apos;s default is used.
+                        </p>
+
+                        <div className="space-y-3">
+                            {profiles.map(profile => {
+                                const isExpanded = expandedProfileId === profile.id;
+                                const storedKey = storedKeys.find(k => k.profileId === profile.id);
+                                const testResult = testResults[profile.id];
+                                return (
+                                    <div key={profile.id} className="bg-slate-900/50 border border-slate-700 rounded-2xl">
+                                        <div className="flex items-center gap-3 px-4 py-3">
+                                            <button
+                                                onClick={() => setExpandedProfileId(isExpanded ? null : profile.id)}
+                                                className="flex-1 flex items-center gap-3 text-left"
+                                            >
+                                                <Server size={16} className="text-indigo-400" />
+                                                <span className="font-medium text-white">{profile.name}</span>
+                                                <span className="text-xs text-slate-500 truncate">
+                                                    {profile.baseURL || 'server endpoint'}
+                                                </span>
+                                                {storedKey && (
+                                                    <span className="text-xs font-mono text-slate-500">{storedKey.keyHint}</span>
+                                                )}
+                                                <ChevronDown
+                                                    size={16}
+                                                    className={cn('ml-auto text-slate-500 transition-transform', isExpanded && 'rotate-180')}
+                                                />
+                                            </button>
+                                            <button
+                                                onClick={() => removeProfile(profile.id)}
+                                                title="Remove provider"
+                                                className="text-slate-500 hover:text-rose-400 transition-colors"
+                                            >
+                                                <Trash2 size={16} />
+                                            </button>
+                                        </div>
+
+                                        {isExpanded && (
+                                            <div className="px-4 pb-4 space-y-4 border-t border-slate-700/50 pt-4">
+                                                <div className="space-y-2">
+                                                    <label className="text-xs font-bold uppercase tracking-widest text-slate-500">Name</label>
+                                                    <input
+                                                        type="text"
+                                                        className={inputClass}
+                                                        value={profile.name}
+                                                        onChange={e => updateProfile(profile.id, { name: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <label className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
+                                                        <Server size={14} /> Base URL
+                                                    </label>
+                                                    <input
+                                                        type="text"
+                                                        placeholder="https://api.openai.com/v1"
+                                                        className={inputClass}
+                                                        value={profile.baseURL}
+                                                        onChange={e => updateProfile(profile.id, { baseURL: e.target.value })}
+                                                    />
+                                                    <p className="text-xs text-slate-500">
+                                                        Leave empty to use the server&apos;s endpoint.
+                                                    </p>
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <label className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
+                                                        <Key size={14} /> API Key
+                                                    </label>
+                                                    {storedKey && keyDrafts[profile.id] === undefined ? (
+                                                        <div className="flex items-center gap-3 bg-slate-900 border border-slate-700 rounded-xl px-4 py-3">
+                                                            <span className="font-mono text-sm text-slate-300">{storedKey.keyHint}</span>
+                                                            <span className="text-xs text-slate-500">
+                                                                saved {new Date(storedKey.updatedAt).toLocaleDateString()}
+                                                            </span>
+                                                            <button
+                                                                onClick={() => setKeyDrafts({ ...keyDrafts, [profile.id]: '' })}
+                                                                className="ml-auto text-xs font-medium text-indigo-400 hover:text-indigo-300 transition-colors"
+                                                            >
+                                                                Replace
+                                                            </button>
+                                                            <button
+                                                                onClick={() => removeStoredKey(profile.id)}
+                                                                className="text-xs font-medium text-slate-500 hover:text-rose-400 transition-colors"
+                                                            >
+                                                                Remove
+                                                            </button>
+                                                        </div>
+                                                    ) : (
+                                                        <input
+                                                            type="password"
+                                                            autoComplete="off"
+                                                            placeholder={storedKey ? `Replaces ${storedKey.keyHint}` : 'sk-... (not needed for local servers)'}
+                                                            className={inputClass}
+                                                            value={keyDrafts[profile.id] || ''}
+                                                            onChange={e => setKeyDrafts({ ...keyDrafts, [profile.id]: e.target.value })}
+                                                        />
+                                                    )}
+                                                    <p className="text-xs text-slate-500">
+                                                        Stored encrypted on the server; it is never shown again.
+                                                    </p>
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <label className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
+                                                        <Cpu size={14} /> Default Model
+                                                    </label>
+                                                    <input
+                                                        type="text"
+                                                        placeholder="gpt-4o"
+                                                        className={inputClass}
+                                                        value={profile.defaultModel}
+                                                        onChange={e => updateProfile(profile.id, { defaultModel: e.target.value })}
+                                                    />
+                                                </div>
+                                                <div className="flex items-center gap-3">
+                                                    <button
+                                                        onClick={() => testConnection(profile)}
+                                                        disabled={testResult === 'testing'}
+                                                        className="flex items-center gap-2 px-3 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-xs font-medium transition-colors disabled:opacity-50"
+                                                    >
+                                                        {testResult === 'testing'
+                                                            ? <Loader2 size={14} className="animate-spin" />
+                                                            : <PlugZap size={14} />}
+                                                        Test connection
+                                                    </button>
+                                                    {testResult && testResult !== 'testing' && (
+                                                        <span className={cn(
+                                                            'flex items-center gap-1 text-xs',
+                                                            testResult.ok ? 'text-emerald-400' : 'text-rose-400'
+                                                        )}>
+                                                            {testResult.ok ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+                                                            {testResult.message}
+                                                            <span className="text-slate-500">({testResult.latencyMs} ms)</span>
+                                                        </span>
+                                                    )}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        <div className="flex flex-wrap gap-2 mt-3">
+                            {AI_PROVIDER_PRESETS.map(preset => (
+                                <button
+                                    key={preset.name}
+                                    onClick={() => addProfile(preset)}
+                                    className="flex items-center gap-1 px-3 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-xs font-medium transition-colors"
+                                >
+                                    <Plus size={14} /> {preset.name}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => addProfile()}
+                                className="flex items-center gap-1 px-3 py-2 bg-slate-700/50 hover:bg-slate-700 text-slate-300 rounded-xl text-xs font-medium transition-colors"
+                            >
+                                <Plus size={14} /> Custom
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Task Routing */}
+                    <div className="border-t border-slate-700 pt-5">
+                        <h4 className="text-sm font-bold text-slate-400 mb-1 flex items-center gap-2">
+                            <Route size={14} /> Model Routing
+                        </h4>
+                        <p className="text-xs text-slate-500 mb-4">
+                            Each task tries its providers top to bottom, falling back when one fails.
+                        </p>
 
                         <div className="space-y-4">
-                            <div className="space-y-2">
-                                <label className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
-                                    <Server size={14} /> Base URL
-                                </label>
-                                <input
-                                    type="text"
-                                    placeholder="https://api.openai.com/v1"
-                                    className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none text-white text-sm"
-                                    value={baseURL}
-                                    onChange={e => setBaseURL(e.target.value)}
-                                />
-                                <p className="text-xs text-slate-500">
-                                    Leave empty for default OpenAI, or use <code>https://openrouter.ai/api/v1</code> etc.
-                                </p>
-                            </div>
+                            {AI_TASKS.map(task => {
+                                const chain = routes[task.id] || [];
+                                return (
+                                    <div key={task.id} className="bg-slate-900/50 border border-slate-700 rounded-2xl p-4 space-y-3">
+                                        <div>
+                                            <p className="font-medium text-white text-sm">{task.label}</p>
+                                            <p className="text-xs text-slate-500">{task.description}</p>
+                                        </div>
 
-                            <div className="space-y-2">
-                                <label className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
-                                    <Key size={14} /> API Key
-                                </label>
-                                <input
-                                    type="password"
-                                    placeholder="sk-..."
-                                    className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none text-white text-sm"
-                                    value={apiKey}
-                                    onChange={e => setApiKey(e.target.value)}
-                                />
-                            </div>
+                                        {chain.length === 0 && (
+                                            <p className="text-xs text-slate-500 italic">Uses the server default provider</p>
+                                        )}
 
-                            <div className="space-y-2">
-                                <label className="text-xs font-bold uppercase tracking-widest text-slate-500 flex items-center gap-2">
-                                    <Cpu size={14} /> Model Name
-                                </label>
-                                <input
-                                    type="text"
-                                    placeholder="gpt-4o"
-                                    className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-3 focus:ring-2 focus:ring-indigo-500 outline-none text-white text-sm"
-                                    value={model}
-                                    onChange={e => setModel(e.target.value)}
-                                />
-                                <p className="text-xs text-slate-500">
-                                    e.g. <code>gpt-4o</code>, <code>anthropic/claude-3-5-sonnet</code>
-                                </p>
-                            </div>
+                                        {chain.map((route, idx) => {
+                                            const profile = profiles.find(p => p.id === route.profileId);
+                                            return (
+                                                <React.Fragment key={idx}>
+                                                    {idx > 0 && (
+                                                        <div className="flex items-center gap-2 text-xs text-slate-500 pl-2">
+                                                            <ArrowDown size={12} /> on failure
+                                                        </div>
+                                                    )}
+                                                    <div className="flex items-center gap-2">
+                                                        <select
+                                                            value={route.profileId}
+                                                            onChange={e => setTaskRoutes(task.id, chain.map((r, i) => (i === idx ? { ...r, profileId: e.target.value } : r)))}
+                                                            className="bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                                                        >
+                                                            {profiles.map(p => (
+                                                                <option key={p.id} value={p.id}>{p.name}</option>
+                                                            ))}
+                                                        </select>
+                                                        <input
+                                                            type="text"
+                                                            placeholder={profile?.defaultModel || 'default model'}
+                                                            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:border-indigo-500"
+                                                            value={route.model}
+                                                            onChange={e => setTaskRoutes(task.id, chain.map((r, i) => (i === idx ? { ...r, model: e.target.value } : r)))}
+                                                        />
+                                                        <button
+                                                            onClick={() => setTaskRoutes(task.id, chain.filter((_, i) => i !== idx))}
+                                                            title="Remove from route"
+                                                            className="text-slate-500 hover:text-rose-400 transition-colors"
+                                                        >
+                                                            <Trash2 size={16} />
+                                                        </button>
+                                                    </div>
+                                                </React.Fragment>
+                                            );
+                                        })}
+
+                                        {profiles.length > 0 && (
+                                            <button
+                                                onClick={() => setTaskRoutes(task.id, [...chain, { profileId: profiles[0].id, model: '' }])}
+                                                className="flex items-center gap-1 text-xs font-medium text-indigo-400 hover:text-indigo-300 transition-colors"
+                                            >
+                                                <Plus size={14} /> {chain.length === 0 ? 'Choose provider' : 'Add fallback'}
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })}
                         </div>
                     </div>
 
-                    <div className="pt-2">
+                    <div className="pt-2 space-y-3">
+                        {error && <p className="text-sm text-rose-400">{error}</p>}
                         <button
                             onClick={handleSave}
-                            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold shadow-lg shadow-indigo-600/20 transition-all"
+                            disabled={saving}
+                            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl font-bold shadow-lg shadow-indigo-600/20 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
                         >
+                            {saving && <Loader2 size={18} className="animate-spin" />}
                             Save Configuration
                         </button>
                     </div>
@@ -0,0 +1,274 @@
+/**
+ * @module components/modals/ShareModal
+ * @description Modal for creating and revoking public share links to an idea report.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { X, Link2, Copy, Check, Lock, Eye, Loader2, Ban } from 'lucide-react';
+import { createShareLink, listShareLinks, revokeShareLink } from '@/app/actions/share';
+import { HIDEABLE_REPORT_SECTIONS } from '@/config/reportSections';
+import { cn } from '@/lib/utils';
+import type { ReportSection, ShareLink } from '@/types';
+
+interface ShareModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    ideaId: string;
+}
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+    { label: 'Never', days: null },
+    { label: '1 day', days: 1 },
+    { label: '7 days', days: 7 },
+    { label: '30 days', days: 30 }
+];
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const linkStatus = (link: ShareLink) => {
+    if (link.revokedAt) return { label: 'Revoked', className: 'text-slate-500 bg-slate-700/50' };
+    if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) {
+        return { label: 'Expired', className: 'text-amber-400 bg-amber-500/10' };
+    }
+    return { label: 'Active', className: 'text-emerald-400 bg-emerald-500/10' };
+};
+
+/**
+ * Lets editors publish a read-only link to an idea report.
+ *
+ * Links can expire, require a password and hide individual report sections.
+ * The full URL is only shown right after creation because the server stores
+ * just a hash of the token.
+ *
+ * @param {ShareModalProps} props - Component properties
+ * @returns {JSX.Element | null} The rendered modal or null if closed
+ */
+export const ShareModal = ({ isOpen, onClose, ideaId }: ShareModalProps) => {
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [loadingLinks, setLoadingLinks] = useState(false);
+    const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+    const [password, setPassword] = useState('');
+    const [hiddenSections, setHiddenSections] = useState<ReportSection[]>([]);
+    const [isCreating, setIsCreating] = useState(false);
+    const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        let cancelled = false;
+        setLoadingLinks(true);
+        listShareLinks(ideaId)
+            .then(result => { if (!cancelled) setLinks(result); })
+            .catch(() => { if (!cancelled) setError('Failed to load existing links.'); })
+            .finally(() => { if (!cancelled) setLoadingLinks(false); });
+
+        return () => { cancelled = true; };
+    }, [isOpen, ideaId]);
+
+    if (!isOpen) return null;
+
+    const toggleSection = (section: ReportSection) => {
+        setHiddenSections(prev =>
+            prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]
+        );
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        setError(null);
+        try {
+            const { link, token } = await createShareLink(ideaId, {
+                expiresInDays,
+                password: password || undefined,
+                hiddenSections
+            });
+            setLinks(prev => [link, ...prev]);
+            setCreatedUrl(`${window.location.origin}/share/${token}`);
+            setCopied(false);
+            setPassword('');
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to create share link.');
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!createdUrl) return;
+        await navigator.clipboard.writeText(createdUrl);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const handleRevoke = async (linkId: string) => {
+        try {
+            await revokeShareLink(linkId);
+            const revokedAt = new Date().toISOString();
+            setLinks(prev => prev.map(link => link.id === linkId ? { ...link, revokedAt } : link));
+        } catch {
+            setError('Failed to revoke link.');
+        }
+    };
+
+    const handleClose = () => {
+        setCreatedUrl(null);
+        setError(null);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div className="absolute inset-0 bg-slate-950/80 backdrop-blur-sm" onClick={handleClose} />
+
+            <div className="bg-slate-800 border border-slate-700 w-full max-w-xl max-h-[85vh] overflow-y-auto rounded-3xl shadow-2xl relative z-10 animate-in zoom-in-95 duration-300 custom-scrollbar">
+                <div className="p-6 border-b border-slate-700 flex justify-between items-center sticky top-0 bg-slate-800 z-20">
+                    <div className="flex items-center gap-3">
+                        <div className="p-2 bg-indigo-500/20 rounded-xl">
+                            <Link2 className="text-indigo-400" size={20} />
+                        </div>
+                        <h2 className="text-xl font-bold text-white">Share Report</h2>
+                    </div>
+                    <button onClick={handleClose} className="p-2 hover:bg-slate-700 rounded-full text-slate-400 hover:text-white transition-colors">
+                        <X size={20} />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-6">
+                    {createdUrl && (
+                        <div className="p-4 bg-emerald-500/10 border border-emerald-500/20 rounded-2xl space-y-2">
+                            <p className="text-xs text-emerald-400 font-bold uppercase tracking-wider">Link created</p>
+                            <div className="flex items-center gap-2">
+                                <input
+                                    readOnly
+                                    value={createdUrl}
+                                    onFocus={e => e.target.select()}
+                                    className="flex-1 bg-slate-900 border border-slate-700 rounded-xl px-3 py-2 text-sm text-slate-200"
+                                />
+                                <button
+                                    onClick={handleCopy}
+                                    className="p-2 bg-slate-700 hover:bg-slate-600 rounded-xl text-slate-200 transition-colors"
+                                    title="Copy link"
+                                >
+                                    {copied ? <Check size={18} className="text-emerald-400" /> : <Copy size={18} />}
+                                </button>
+                            </div>
+                            <p className="text-xs text-slate-400">Copy it now — for security, the full link can&apos;t be shown again.</p>
+                        </div>
+                    )}
+
+                    <div className="space-y-4">
+                        <div>
+                            <label className="block text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Expires</label>
+                            <div className="grid grid-cols-4 gap-2">
+                                {EXPIRY_OPTIONS.map(option => (
+                                    <button
+                                        key={option.label}
+                                        onClick={() => setExpiresInDays(option.days)}
+                                        className={cn(
+                                            "py-2 rounded-xl text-sm font-medium border transition-colors",
+                                            expiresInDays === option.days
+                                                ? "bg-indigo-600 border-indigo-500 text-white"
+                                                : "bg-slate-900 border-slate-700 text-slate-400 hover:text-white"
+                                        )}
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Password (optional)</label>
+                            <input
+                                type="password"
+                                value={password}
+                                onChange={e => setPassword(e.target.value)}
+                                placeholder="Leave empty for no password"
+                                autoComplete="new-password"
+                                className="w-full bg-slate-900 border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-white placeholder:text-slate-600 focus:outline-none focus:border-indigo-500"
+                            />
+                        </div>
+
+                        <div>
+                            <label className="block text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">Hide sections</label>
+                            <div className="grid grid-cols-2 gap-2">
+                                {HIDEABLE_REPORT_SECTIONS.map(section => (
+                                    <label key={section.id} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={hiddenSections.includes(section.id)}
+                                            onChange={() => toggleSection(section.id)}
+                                            className="accent-indigo-500"
+                                        />
+                                        {section.label}
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+
+                        {error && <p className="text-sm text-rose-400">{error}</p>}
+
+                        <button
+                            onClick={handleCreate}
+                            disabled={isCreating}
+                            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white font-bold rounded-xl transition-colors flex items-center justify-center gap-2"
+                        >
+                            {isCreating ? <Loader2 size={18} className="animate-spin" /> : <Link2 size={18} />}
+                            Create Link
+                        </button>
+                    </div>
+
+                    <div className="border-t border-slate-700 pt-6">
+                        <h3 className="text-sm font-bold text-white mb-3">Existing links</h3>
+                        {loadingLinks ? (
+                            <div className="flex justify-center py-4">
+                                <Loader2 size={20} className="text-slate-500 animate-spin" />
+                            </div>
+                        ) : links.length === 0 ? (
+                            <p className="text-sm text-slate-500">This report hasn&apos;t been shared yet.</p>
+                        ) : (
+                            <ul className="space-y-2">
+                                {links.map(link => {
+                                    const status = linkStatus(link);
+                                    return (
+                                        <li key={link.id} className="flex items-center justify-between gap-3 p-3 bg-slate-900/50 border border-slate-700/50 rounded-xl">
+                                            <div className="min-w-0 space-y-1">
+                                                <div className="flex items-center gap-2 text-sm text-slate-300">
+                                                    <span className={cn("px-2 py-0.5 rounded-full text-xs font-bold", status.className)}>
+                                                        {status.label}
+                                                    </span>
+                                                    {link.hasPassword && <Lock size={12} className="text-slate-500" />}
+                                                    <span className="flex items-center gap-1 text-slate-400">
+                                                        <Eye size={12} /> {link.viewCount}
+                                                    </span>
+                                                </div>
+                                                <p className="text-xs text-slate-500 truncate">
+                                                    Created {formatDate(link.createdAt)}
+                                                    {link.expiresAt ? ` · expires ${formatDate(link.expiresAt)}` : ' · never expires'}
+                                                    {link.hiddenSections.length > 0 && ` · ${link.hiddenSections.length} hidden`}
+                                                </p>
+                                            </div>
+                                            {!link.revokedAt && (
+                                                <button
+                                                    onClick={() => handleRevoke(link.id)}
+                                                    className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-rose-400 hover:bg-rose-500/10 rounded-lg transition-colors"
+                                                >
+                                                    <Ban size={14} /> Revoke
+                                                </button>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,39 @@
+/**
+ * @module components/ui/Highlight
+ * @description Renders search snippets with highlighted matches.
+ */
+
+import React from 'react';
+
+interface HighlightProps {
+    text: string;
+    className?: string;
+}
+
+/**
+ * Renders text containing `<mark>...</mark>` markers (as produced by
+ * Postgres `ts_headline`) with the marked ranges emphasized.
+ *
+ * The markers are split out and rendered as React text nodes, never as HTML,
+ * so user content inside snippets cannot inject markup.
+ *
+ * @param {HighlightProps} props - Component properties
+ * @returns {JSX.Element} The rendered snippet
+ */
+export const Highlight = ({ text, className }: HighlightProps) => {
+    const parts = text.split(/(<mark>.*?<\/mark>)/g);
+
+    return (
+        <span className={className}>
+            {parts.map((part, idx) =>
+                part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+                    <mark key={idx} className="bg-indigo-500/30 text-indigo-200 rounded px-0.5">
+                        {part.slice(6, -7)}
+                    </mark>
+                ) : (
+                    <React.Fragment key={idx}>{part}</React.Fragment>
+                )
+            )}
+        </span>
+    );
+};
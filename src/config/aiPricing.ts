@@ -0,0 +1,42 @@
+/**
+ * @module config/aiPricing
+ * @description Price table used to estimate the cost of AI calls.
+ *
+ * Prices are USD per million tokens and only estimates; check your provider's
+ * pricing page. Add or override entries without a code change by setting
+ * `AI_MODEL_PRICES` to JSON, e.g. `{"my-model": {"input": 0.5, "output": 1.5}}`.
+ * Models without an entry (local Ollama/vLLM models, for example) are logged
+ * with tokens but no cost.
+ *
+ * @dependencies Used by lib/usage
+ */
+
+export interface ModelPrice {
+    /** USD per million prompt tokens */
+    input: number;
+    /** USD per million completion tokens */
+    output: number;
+}
+
+/**
+ * Keys match the model name with any `vendor/` prefix removed, by longest
+ * prefix, so `openai/gpt-4o-2024-08-06` is priced as `gpt-4o`.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'claude-3.5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3.5-haiku': { input: 0.8, output: 4 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'grok-beta': { input: 5, output: 15 },
+    'grok-2': { input: 2, output: 10 }
+};
@@ -0,0 +1,23 @@
+/**
+ * @module config/aiProviders
+ * @description Provider presets and routable AI tasks for the settings UI.
+ *
+ * Any OpenAI-compatible endpoint works; presets only pre-fill the profile form.
+ *
+ * @dependencies Used by SettingsModal and lib/aiSettings
+ */
+
+import type { AITask } from '@/types';
+
+export const AI_TASKS: Array<{ id: AITask; label: string; description: string }> = [
+    { id: 'discovery', label: 'Discovery chat', description: 'Conversational turns in Discovery Mode' },
+    { id: 'synthesis', label: 'Synthesis', description: 'Turning a discovery session into a research brief' },
+    { id: 'research', label: 'Research', description: 'Market analysis, competitors and action plan' }
+];
+
+export const AI_PROVIDER_PRESETS: Array<{ name: string; baseURL: string; defaultModel: string }> = [
+    { name: 'OpenAI', baseURL: 'https://api.openai.com/v1', defaultModel: 'gpt-4o' },
+    { name: 'OpenRouter', baseURL: 'https://openrouter.ai/api/v1', defaultModel: 'anthropic/claude-3.5-sonnet' },
+    { name: 'Ollama', baseURL: 'http://localhost:11434/v1', defaultModel: 'llama3.1' },
+    { name: 'vLLM', baseURL: 'http://localhost:8000/v1', defaultModel: 'meta-llama/Llama-3.1-8B-Instruct' }
+];
@@ -0,0 +1,33 @@
+/**
+ * @module config/boardStages
+ * @description Column definitions for the Board (kanban pipeline) view.
+ *
+ * Stages are owned by the user and are independent from the machine-owned
+ * `IdeaStatus`, so an idea can be "Ready" while still sitting in the Inbox.
+ * The ids must match the CHECK constraint on `ideas.stage` in schema.sql.
+ *
+ * @dependencies Used by src/app/dashboard/board/page.tsx
+ */
+
+import type { IdeaStage } from '@/types';
+
+export interface BoardStage {
+    id: IdeaStage;
+    label: string;
+    description: string;
+    accent: string;
+}
+
+/**
+ * Board columns in pipeline order.
+ */
+export const BOARD_STAGES: BoardStage[] = [
+    { id: 'inbox', label: 'Inbox', description: 'Freshly captured', accent: 'bg-slate-400' },
+    { id: 'discovery', label: 'Discovery', description: 'Being refined', accent: 'bg-violet-400' },
+    { id: 'researched', label: 'Researched', description: 'Analysis in hand', accent: 'bg-indigo-400' },
+    { id: 'validating', label: 'Validating', description: 'Testing with users', accent: 'bg-amber-400' },
+    { id: 'building', label: 'Building', description: 'In active development', accent: 'bg-emerald-400' },
+    { id: 'archived', label: 'Archived', description: 'Parked for now', accent: 'bg-slate-600' }
+];
+
+export const DEFAULT_BOARD_STAGE: IdeaStage = 'inbox';
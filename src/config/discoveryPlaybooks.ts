@@ -0,0 +1,514 @@
+/**
+ * @module config/discoveryPlaybooks
+ * @description Discovery playbooks: the phases, prompts, completion criteria and
+ * synthesis schema of each kind of discovery conversation.
+ *
+ * A playbook's phases run in order; a phase is finished once every one of its
+ * objectives is covered (see PHASE_CONTROL_PROMPT), after which the next phase
+ * starts. After the last one, the playbook's synthesis prompt and schema turn
+ * what was learned into a research prompt.
+ *
+ * Sessions record the playbook id and version they were started with. When a
+ * playbook changes in a way that affects running sessions (phase ids,
+ * objectives), add it as a new entry with a higher version and keep the old
+ * one, so those sessions can finish on the definition they started with.
+ *
+ * @dependencies Used by lib/discoveryPlaybooks
+ */
+
+import { DISCOVERY_WELCOME_MESSAGE, SYNTHESIS_OUTPUT_SCHEMA } from '@/config/discoveryPrompts';
+
+export interface PlaybookObjective {
+    id: string;
+    label: string;
+}
+
+export interface PlaybookPhase {
+    id: string;
+    label: string;
+    /** Shown under the label in the chat header */
+    description: string;
+    /** What the model focuses on in this phase */
+    prompt: string;
+    /** Completion criteria: the phase ends once all of them are covered */
+    objectives: PlaybookObjective[];
+    /** Hand-off phrases, used only for providers that don't return structured control */
+    transitionSignals: string[];
+}
+
+export interface DiscoveryPlaybook {
+    id: string;
+    version: number;
+    name: string;
+    /** Shown in the playbook picker */
+    description: string;
+    /** Listed in the system prompt as the conversation's goals */
+    goals: string[];
+    welcomeMessage: string;
+    phases: PlaybookPhase[];
+    synthesis: {
+        prompt: string;
+        /** JSON shape of the output; tldr and fullPrompt are required by PromptPreview and research */
+        schema: string;
+        /** Whether the output includes founderFit and tldr.founderFitScore (validated by lib/synthesisSchema) */
+        founderFit: boolean;
+    };
+}
+
+const GENERAL_SYNTHESIS_PROMPT = `CURRENT PHASE: Prompt Synthesis
+
+Based on the conversation, generate:
+
+1. A TL;DR summary (3-5 bullet points covering: refined idea, target market, key differentiator, main risks, founder fit score 1-10)
+
+2. A comprehensive research prompt that includes:
+   - Refined problem statement
+   - Target customer profile
+   - Value proposition
+   - Key hypotheses to validate
+   - Competitive landscape to research
+   - Market size indicators to find
+   - Specific evaluation criteria
+
+3. A founder-fit assessment with:
+   - Technical skills match (what they have vs need)
+   - Domain expertise level
+   - Resource availability
+   - Motivation assessment
+   - Learning path recommendations
+   - Hire-vs-learn suggestions
+
+Format your response as a structured JSON object.`;
+
+const FOUNDER_FIT_PHASE: PlaybookPhase = {
+    id: 'founder_fit',
+    label: 'Founder Fit',
+    description: 'Assessing your strengths',
+    prompt: `CURRENT PHASE: Founder-Fit Assessment
+
+Your goal is to understand the founder's ability to execute. Explore:
+- Relevant technical skills they have
+- Domain expertise or industry knowledge
+- Available resources (time, money, network)
+- Motivation and commitment level
+- Willingness to learn new skills
+- Openness to hiring or partnering
+
+Be sensitive - this is personal. Frame as "understanding your superpowers and support needs."
+When complete, say: "I have a great sense of your strengths. Let me synthesize everything into a research prompt for you."`,
+    objectives: [
+        { id: 'skills', label: 'Relevant technical skills' },
+        { id: 'domain', label: 'Domain expertise' },
+        { id: 'resources', label: 'Available time, money and network' },
+        { id: 'motivation', label: 'Motivation and commitment' },
+        { id: 'support', label: 'Willingness to learn, hire or partner' }
+    ],
+    transitionSignals: ['sense of your strengths', 'synthesize everything', 'research prompt']
+};
+
+/**
+ * The original vision → gaps → founder fit flow, for any kind of startup idea.
+ */
+const GENERAL_PLAYBOOK: DiscoveryPlaybook = {
+    id: 'general',
+    version: 1,
+    name: 'General Startup',
+    description: 'Vision, gaps and founder fit for any kind of startup idea.',
+    goals: [
+        'Extracts the core vision and value proposition',
+        'Identifies gaps, unclear assumptions, and missing details',
+        'Assesses founder-fit (skills, resources, motivation)',
+        'Generates a refined research prompt for validation'
+    ],
+    welcomeMessage: DISCOVERY_WELCOME_MESSAGE,
+    phases: [
+        {
+            id: 'vision',
+            label: 'Vision',
+            description: 'Understanding your idea',
+            prompt: `CURRENT PHASE: Vision Extraction
+
+Your goal is to understand the core idea. Focus on:
+- What problem does this solve?
+- Who experiences this problem?
+- What's the proposed solution?
+- What makes this approach unique?
+
+Ask clarifying questions to build a complete picture.
+When you feel you understand the vision clearly, say: "I think I have a clear picture of your vision. Ready to explore some deeper questions?"`,
+            objectives: [
+                { id: 'problem', label: 'The problem being solved' },
+                { id: 'audience', label: 'Who experiences the problem' },
+                { id: 'solution', label: 'The proposed solution' },
+                { id: 'differentiator', label: 'What makes the approach unique' }
+            ],
+            transitionSignals: ['clear picture of your vision', 'ready to explore', 'deeper questions', 'understand your vision']
+        },
+        {
+            id: 'gaps',
+            label: 'Gap Analysis',
+            description: 'Identifying blind spots',
+            prompt: `CURRENT PHASE: Gap Analysis
+
+Your goal is to identify what's unclear or unvalidated. Probe for:
+- Assumptions that haven't been tested
+- Missing details in the business model
+- Potential blind spots or risks
+- Contradictions in the approach
+
+Be constructive - frame gaps as opportunities to strengthen the idea.
+When key gaps are identified, say: "These are great areas to validate. Now let's understand your position as a founder for this specific idea."`,
+            objectives: [
+                { id: 'assumptions', label: 'Untested assumptions named' },
+                { id: 'business_model', label: 'Missing business model details probed' },
+                { id: 'risks', label: 'Main risks and blind spots identified' }
+            ],
+            transitionSignals: ['great areas to validate', 'understand your position', 'as a founder']
+        },
+        FOUNDER_FIT_PHASE
+    ],
+    synthesis: {
+        prompt: GENERAL_SYNTHESIS_PROMPT,
+        schema: SYNTHESIS_OUTPUT_SCHEMA,
+        founderFit: true
+    }
+};
+
+/**
+ * Business software sold to companies: buyers, budgets and sales motion.
+ */
+const B2B_SAAS_PLAYBOOK: DiscoveryPlaybook = {
+    id: 'b2b_saas',
+    version: 1,
+    name: 'B2B SaaS',
+    description: 'Software sold to businesses: buyer, workflow, pricing and sales motion.',
+    goals: [
+        'Pins down the business problem and the workflow it lives in',
+        'Separates the economic buyer from the day-to-day user',
+        'Tests pricing, sales motion and switching costs',
+        'Assesses founder-fit for selling to businesses',
+        'Generates a refined research prompt for validation'
+    ],
+    welcomeMessage: `Hey! 👋 Let's sharpen your B2B idea before we research it.
+
+I'll ask about the workflow you're improving, who buys versus who uses the product, how you'd price and sell it, and how well-placed you are to sell into this market.
+
+**To start: what business problem does your software solve, and for what kind of company?**`,
+    phases: [
+        {
+            id: 'problem_workflow',
+            label: 'Problem & Workflow',
+            description: 'The job your software does',
+            prompt: `CURRENT PHASE: Problem & Workflow
+
+Your goal is to understand the business problem in context. Focus on:
+- What the team does today, step by step, and where it hurts
+- What the problem costs the company (time, money, risk)
+- Which kinds of companies have it (industry, size)
+- How the product changes the workflow
+
+Ask for concrete examples from real companies where possible.
+When the workflow is clear, say: "I have a clear picture of the workflow. Let's talk about who buys this."`,
+            objectives: [
+                { id: 'workflow', label: 'The current workflow and its pain' },
+                { id: 'cost_of_problem', label: 'What the problem costs the company' },
+                { id: 'segment', label: 'Target company segment' },
+                { id: 'solution', label: 'How the product changes the workflow' }
+            ],
+            transitionSignals: ['clear picture of the workflow', 'who buys this']
+        },
+        {
+            id: 'buyer',
+            label: 'Buyer & Sales',
+            description: 'Who pays and how you sell',
+            prompt: `CURRENT PHASE: Buyer & Sales Motion
+
+Your goal is to understand how the product gets bought. Probe for:
+- The economic buyer versus the day-to-day user
+- Budget the purchase would come from, and the approval process
+- Pricing model and rough price point
+- Sales motion: self-serve, inside sales or enterprise
+- Incumbents and switching costs
+
+Be concrete - ask who would sign the contract.
+When the buying process is clear, say: "That's a clear buying process. Now let's understand your position as a founder for this market."`,
+            objectives: [
+                { id: 'economic_buyer', label: 'Economic buyer and user roles' },
+                { id: 'budget', label: 'Budget source and approval process' },
+                { id: 'pricing', label: 'Pricing model and price point' },
+                { id: 'sales_motion', label: 'Sales motion' },
+                { id: 'switching', label: 'Incumbents and switching costs' }
+            ],
+            transitionSignals: ['clear buying process', 'position as a founder']
+        },
+        FOUNDER_FIT_PHASE
+    ],
+    synthesis: {
+        prompt: `CURRENT PHASE: Prompt Synthesis
+
+Based on the conversation, generate a TL;DR, a research prompt and a founder-fit assessment for a B2B software business.
+Describe the target customer as the buying company plus the buyer and user roles, and include hypotheses about the buying process, pricing and sales cycle.
+
+Format your response as a structured JSON object.`,
+        schema: `{
+  "tldr": {
+    "refinedIdea": "string - one sentence summary",
+    "targetMarket": "string - company segment and buyer role",
+    "keyDifferentiator": "string - why teams would switch to this",
+    "mainRisks": ["string - top 3 risks to validate, including sales and adoption risks"],
+    "founderFitScore": "whole number 1-10"
+  },
+  "fullPrompt": {
+    "problemStatement": "string - the workflow problem and what it costs",
+    "targetCustomer": {
+      "profile": "string - company profile, economic buyer and day-to-day user",
+      "painPoints": ["string - specific workflow pain points"],
+      "currentSolutions": "string - incumbents, spreadsheets or internal tools used today"
+    },
+    "valueProposition": "string - value in business terms (time, revenue, risk)",
+    "hypotheses": ["string - key assumptions, including pricing, budget and sales cycle"],
+    "competitiveResearch": ["string - incumbents and competing tools to research"],
+    "marketIndicators": ["string - number of target companies, spend per company, market size"],
+    "evaluationCriteria": ["string - how to judge if this is viable, e.g. ACV, sales cycle, churn"]
+  },
+  "founderFit": {
+    "technicalSkills": {
+      "has": ["string - skills they have"],
+      "needs": ["string - skills they need"]
+    },
+    "domainExpertise": "string - knowledge of the industry and its buyers",
+    "resources": {
+      "time": "string - availability assessment",
+      "capital": "string - runway for a B2B sales cycle",
+      "network": "string - access to buyers and design partners"
+    },
+    "motivation": "string - commitment assessment",
+    "learningPath": ["string - recommended skills to develop"],
+    "hireRecommendations": ["string - roles to consider hiring, e.g. sales"]
+  }
+}`,
+        founderFit: true
+    }
+};
+
+/**
+ * Physical products sold to consumers: prototype, manufacturing and channels.
+ */
+const CONSUMER_HARDWARE_PLAYBOOK: DiscoveryPlaybook = {
+    id: 'consumer_hardware',
+    version: 1,
+    name: 'Consumer Hardware',
+    description: 'Physical products for consumers: use case, prototype, manufacturing and retail.',
+    goals: [
+        'Understands the product, the user and the moment they reach for it',
+        'Checks prototype status, cost of goods and manufacturing path',
+        'Explores price point, channels and certification',
+        'Assesses founder-fit for building hardware',
+        'Generates a refined research prompt for validation'
+    ],
+    welcomeMessage: `Hey! 👋 Let's work through your hardware idea before we research it.
+
+I'll ask about the product and who it's for, how far along the prototype is, what it costs to make and how it reaches customers, and how well-placed you are to build it.
+
+**To start: what's the product, and what does someone do with it?**`,
+    phases: [
+        {
+            id: 'product',
+            label: 'Product & User',
+            description: 'What it is and who uses it',
+            prompt: `CURRENT PHASE: Product & User
+
+Your goal is to understand the product and its use. Focus on:
+- The problem or desire it addresses
+- Who buys it and who uses it (gift purchases count)
+- The moment of use: where, when, how often
+- What it replaces or competes with today
+
+Ask for a concrete picture of a day the product gets used.
+When the product is clear, say: "I have a clear picture of the product. Let's talk about building and selling it."`,
+            objectives: [
+                { id: 'problem', label: 'Problem or desire addressed' },
+                { id: 'customer', label: 'Buyer and user' },
+                { id: 'use_case', label: 'When and how it gets used' },
+                { id: 'alternatives', label: 'What it replaces today' }
+            ],
+            transitionSignals: ['clear picture of the product', 'building and selling it']
+        },
+        {
+            id: 'build_and_sell',
+            label: 'Build & Sell',
+            description: 'Prototype, costs and channels',
+            prompt: `CURRENT PHASE: Build & Sell
+
+Your goal is to understand whether the product can be made and sold profitably. Probe for:
+- Prototype status and the hardest technical risk
+- Estimated cost of goods and target retail price
+- Manufacturing plan (in-house, contract manufacturer, minimum order quantities)
+- Sales channels (direct, crowdfunding, retail, marketplaces)
+- Certifications and safety requirements (FCC, CE, UL, ...)
+
+Be practical - hardware margins and inventory sink many good ideas.
+When the path to market is clear, say: "That's a clear path to market. Now let's understand your position as a founder for this product."`,
+            objectives: [
+                { id: 'prototype', label: 'Prototype status and technical risk' },
+                { id: 'unit_economics', label: 'Cost of goods and retail price' },
+                { id: 'manufacturing', label: 'Manufacturing plan' },
+                { id: 'channels', label: 'Sales channels' },
+                { id: 'certification', label: 'Certification and safety requirements' }
+            ],
+            transitionSignals: ['clear path to market', 'position as a founder']
+        },
+        FOUNDER_FIT_PHASE
+    ],
+    synthesis: {
+        prompt: `CURRENT PHASE: Prompt Synthesis
+
+Based on the conversation, generate a TL;DR, a research prompt and a founder-fit assessment for a consumer hardware product.
+Include hypotheses about unit economics, manufacturing and channels, and market indicators such as comparable product sales and price points.
+
+Format your response as a structured JSON object.`,
+        schema: `{
+  "tldr": {
+    "refinedIdea": "string - one sentence summary",
+    "targetMarket": "string - who buys and uses it",
+    "keyDifferentiator": "string - what makes this product stand out on the shelf",
+    "mainRisks": ["string - top 3 risks to validate, including technical and manufacturing risks"],
+    "founderFitScore": "whole number 1-10"
+  },
+  "fullPrompt": {
+    "problemStatement": "string - the problem or desire the product addresses",
+    "targetCustomer": {
+      "profile": "string - buyer and user description",
+      "painPoints": ["string - specific pain points"],
+      "currentSolutions": "string - products or habits it replaces"
+    },
+    "valueProposition": "string - clear value prop statement",
+    "hypotheses": ["string - key assumptions, including cost of goods, price point and channel"],
+    "competitiveResearch": ["string - comparable products and brands to research"],
+    "marketIndicators": ["string - category sales, comparable crowdfunding campaigns, price points"],
+    "evaluationCriteria": ["string - how to judge if this is viable, e.g. gross margin, MOQ, certification cost"]
+  },
+  "founderFit": {
+    "technicalSkills": {
+      "has": ["string - skills they have"],
+      "needs": ["string - skills they need, e.g. industrial design, firmware"]
+    },
+    "domainExpertise": "string - assessment",
+    "resources": {
+      "time": "string - availability assessment",
+      "capital": "string - funding for tooling and first inventory",
+      "network": "string - access to manufacturers, retailers and early customers"
+    },
+    "motivation": "string - commitment assessment",
+    "learningPath": ["string - recommended skills to develop"],
+    "hireRecommendations": ["string - roles or partners to consider"]
+  }
+}`,
+        founderFit: true
+    }
+};
+
+/**
+ * A personal project: no fundraising or founder-fit, just scope and motivation.
+ */
+const SIDE_PROJECT_PLAYBOOK: DiscoveryPlaybook = {
+    id: 'side_project',
+    version: 1,
+    name: 'Side Project',
+    description: 'A lighter conversation for hobby and weekend projects, without a founder-fit phase.',
+    goals: [
+        'Understands the idea and why it matters to the maker',
+        'Trims the scope to a first version that can actually ship',
+        'Generates a refined research prompt for validation'
+    ],
+    welcomeMessage: `Hey! 👋 Let's shape your side project before we research it.
+
+Just two quick parts: what the idea is and why you want to build it, then what a small first version could look like.
+
+**What's the project, and what got you excited about it?**`,
+    phases: [
+        {
+            id: 'idea',
+            label: 'Idea',
+            description: 'What and why',
+            prompt: `CURRENT PHASE: Idea
+
+Your goal is to understand the project and the maker's reasons. Focus on:
+- What the project does and who it's for (possibly just the maker)
+- Why they want to build it (learning, fun, a problem they have, side income)
+- Anything similar that already exists
+
+Keep it light and curious - this is a side project, not a pitch.
+When the idea is clear, say: "I have a clear picture of the project. Let's figure out a first version."`,
+            objectives: [
+                { id: 'concept', label: 'What the project does and for whom' },
+                { id: 'motivation', label: 'Why they want to build it' },
+                { id: 'existing', label: 'Similar things that already exist' }
+            ],
+            transitionSignals: ['clear picture of the project', 'first version']
+        },
+        {
+            id: 'scope',
+            label: 'Scope',
+            description: 'A first version you can ship',
+            prompt: `CURRENT PHASE: Scope
+
+Your goal is to cut the project down to a first version that can ship. Probe for:
+- The smallest version that would feel worthwhile
+- Time they can realistically spend each week
+- Tools and skills they'd use, and anything they'd need to learn
+- What "done" or "success" looks like for them
+
+Be encouraging but realistic about scope creep.
+When the first version is clear, say: "That's a solid first version. Let me put together a research prompt for you."`,
+            objectives: [
+                { id: 'mvp', label: 'Smallest worthwhile version' },
+                { id: 'time', label: 'Time available' },
+                { id: 'stack', label: 'Tools and skills to use or learn' },
+                { id: 'success', label: 'What success looks like' }
+            ],
+            transitionSignals: ['solid first version', 'research prompt']
+        }
+    ],
+    synthesis: {
+        prompt: `CURRENT PHASE: Prompt Synthesis
+
+Based on the conversation, generate a TL;DR and a research prompt for a side project.
+Focus the research on similar existing projects, the audience that might care and how to validate interest cheaply. There is no founder-fit assessment.
+
+Format your response as a structured JSON object.`,
+        schema: `{
+  "tldr": {
+    "refinedIdea": "string - one sentence summary",
+    "targetMarket": "string - who it's for",
+    "keyDifferentiator": "string - what makes it different from what exists",
+    "mainRisks": ["string - top 3 risks, e.g. scope, time, lack of interest"]
+  },
+  "fullPrompt": {
+    "problemStatement": "string - what the project does and why",
+    "targetCustomer": {
+      "profile": "string - who would use it",
+      "painPoints": ["string - what they'd get out of it"],
+      "currentSolutions": "string - similar projects and tools"
+    },
+    "valueProposition": "string - one-line pitch",
+    "hypotheses": ["string - assumptions to check before building"],
+    "competitiveResearch": ["string - similar projects to look at"],
+    "marketIndicators": ["string - signs of interest to look for, e.g. communities, search trends"],
+    "evaluationCriteria": ["string - what success looks like for the first version"]
+  }
+}`,
+        founderFit: false
+    }
+};
+
+/**
+ * Every playbook definition, including older versions kept for running sessions.
+ * The first entry is the default for new sessions.
+ */
+export const DISCOVERY_PLAYBOOKS: DiscoveryPlaybook[] = [
+    GENERAL_PLAYBOOK,
+    B2B_SAAS_PLAYBOOK,
+    CONSUMER_HARDWARE_PLAYBOOK,
+    SIDE_PROJECT_PLAYBOOK
+];
@@ -6,39 +6,29 @@
  * test and refine the conversation experience without modifying server action code.
  * 
  * @purpose Allows rapid iteration and personal testing of prompts before deployment.
- * @dependencies Used by src/app/actions/discovery.ts
+ * @dependencies Used by lib/discovery, lib/phaseControl and config/discoveryPlaybooks
  */
 
 /**
- * Discovery Phase Definitions
- * 
- * The discovery process moves through these phases sequentially:
- * 1. VISION - Extract the core idea, problem, and solution
- * 2. GAPS - Identify unclear assumptions and missing details
- * 3. FOUNDER_FIT - Assess skills, resources, and motivation
- * 4. SYNTHESIS - Generate the refined research prompt
+ * Phases every playbook ends with. The conversational phases before them
+ * come from the session's playbook (config/discoveryPlaybooks.ts):
+ * the playbook's phases run in order, then SYNTHESIS generates the refined
+ * research prompt and the session is COMPLETE.
  */
 export const DISCOVERY_PHASES = {
-    VISION: 'vision',
-    GAPS: 'gaps',
-    FOUNDER_FIT: 'founder_fit',
     SYNTHESIS: 'synthesis',
     COMPLETE: 'complete'
 } as const;
 
-export type DiscoveryPhase = typeof DISCOVERY_PHASES[keyof typeof DISCOVERY_PHASES];
-
 /**
  * System prompt that defines the AI agent's persona and overall behavior.
- * This sets the tone for the entire discovery conversation.
+ * This sets the tone for the entire discovery conversation. The {goals}
+ * placeholder is replaced with the playbook's numbered goals.
  */
 export const DISCOVERY_SYSTEM_PROMPT = `You are an expert startup advisor and product strategist helping a founder refine their idea.
 
 Your role is to have a collaborative conversation that:
-1. Extracts the core vision and value proposition
-2. Identifies gaps, unclear assumptions, and missing details
-3. Assesses founder-fit (skills, resources, motivation)
-4. Generates a refined research prompt for validation
+{goals}
 
 CONVERSATION STYLE:
 - Be warm, encouraging, but also intellectually rigorous
@@ -54,75 +44,12 @@ When you have enough information for the current phase, indicate readiness to mo
 IMPORTANT: Never be dismissive. Even "bad" ideas often contain valuable insights.`;
 
 /**
- * Phase-specific prompts that guide the AI's focus in each stage.
- * The {context} placeholder will be replaced with conversation history.
+ * Phase prompt once the session is complete, for messages sent after synthesis.
  */
-export const PHASE_PROMPTS: Record<DiscoveryPhase, string> = {
-    vision: `CURRENT PHASE: Vision Extraction
-
-Your goal is to understand the core idea. Focus on:
-- What problem does this solve?
-- Who experiences this problem?
-- What's the proposed solution?
-- What makes this approach unique?
-
-Ask clarifying questions to build a complete picture.
-When you feel you understand the vision clearly, say: "I think I have a clear picture of your vision. Ready to explore some deeper questions?"`,
-
-    gaps: `CURRENT PHASE: Gap Analysis
-
-Your goal is to identify what's unclear or unvalidated. Probe for:
-- Assumptions that haven't been tested
-- Missing details in the business model
-- Potential blind spots or risks
-- Contradictions in the approach
-
-Be constructive - frame gaps as opportunities to strengthen the idea.
-When key gaps are identified, say: "These are great areas to validate. Now let's understand your position as a founder for this specific idea."`,
-
-    founder_fit: `CURRENT PHASE: Founder-Fit Assessment
-
-Your goal is to understand the founder's ability to execute. Explore:
-- Relevant technical skills they have
-- Domain expertise or industry knowledge
-- Available resources (time, money, network)
-- Motivation and commitment level
-- Willingness to learn new skills
-- Openness to hiring or partnering
-
-Be sensitive - this is personal. Frame as "understanding your superpowers and support needs."
-When complete, say: "I have a great sense of your strengths. Let me synthesize everything into a research prompt for you."`,
-
-    synthesis: `CURRENT PHASE: Prompt Synthesis
-
-Based on the conversation, generate:
-
-1. A TL;DR summary (3-5 bullet points covering: refined idea, target market, key differentiator, main risks, founder fit score 1-10)
-
-2. A comprehensive research prompt that includes:
-   - Refined problem statement
-   - Target customer profile
-   - Value proposition
-   - Key hypotheses to validate
-   - Competitive landscape to research
-   - Market size indicators to find
-   - Specific evaluation criteria
-
-3. A founder-fit assessment with:
-   - Technical skills match (what they have vs need)
-   - Domain expertise level
-   - Resource availability
-   - Motivation assessment
-   - Learning path recommendations
-   - Hire-vs-learn suggestions
-
-Format your response as a structured JSON object.`,
-
-    complete: `The discovery process is complete. The refined prompt has been generated.`
-};
+export const DISCOVERY_COMPLETE_PROMPT = `The discovery process is complete. The refined prompt has been generated.`;
 
 /**
- * Initial greeting when discovery mode starts.
+ * Initial greeting when discovery mode starts (General playbook).
  * Sets expectations and invites the user to share their idea.
  */
 export const DISCOVERY_WELCOME_MESSAGE = `Hey! 👋 I'm here to help you refine your idea before we dive into research.
@@ -133,9 +60,30 @@ At the end, I'll generate an optimized research prompt that's tailored to what w
 
 **Let's start simple: Tell me about your idea in whatever way feels natural.** What problem are you trying to solve, and what's your approach?`;
 
+/**
+ * Greeting for a session started on an idea that has already been researched
+ * ("Send to Discovery"), replacing the playbook's welcome message.
+ * {title} is the idea's title and {score} its readiness score, if any.
+ */
+export const RESEARCHED_IDEA_WELCOME_MESSAGE = `Welcome back to **{title}**! 👋 I've read through the earlier research{score}, including the competitors and action plan it came up with.
+
+Let's use this conversation to pressure-test those findings and fill in what the research couldn't know on its own. At the end, I'll generate a sharper research prompt and re-run the research on this idea.
+
+**To start: what has changed since you captured this idea, or what in the research surprised you?**`;
+
+/**
+ * Added to the system prompt of sessions seeded with earlier research.
+ * {research} is replaced with a summary of the idea's last research result.
+ */
+export const PRIOR_RESEARCH_PROMPT = `PRIOR RESEARCH:
+This idea has already been researched. Use the findings below to ask sharper questions: challenge weak spots, probe the competitors and risks it surfaced, and don't ask for what it already answers unless it needs confirming from the founder.
+
+{research}`;
+
 /**
  * Prompt for generating the final structured output.
  * Used when synthesizing the conversation into a research-ready format.
+ * This is the General playbook's schema; other playbooks adapt it.
  */
 export const SYNTHESIS_OUTPUT_SCHEMA = `{
   "tldr": {
@@ -176,24 +124,53 @@ export const SYNTHESIS_OUTPUT_SCHEMA = `{
 }`;
 
 /**
- * Phase transition detection patterns.
- * These help the server action detect when the AI signals readiness to move on.
+ * Minimum confidence for an objective to count as covered.
+ * A phase advances once every one of its objectives is covered.
  */
-export const PHASE_TRANSITION_SIGNALS = {
-    vision_to_gaps: [
-        'clear picture of your vision',
-        'ready to explore',
-        'deeper questions',
-        'understand your vision'
-    ],
-    gaps_to_founder_fit: [
-        'great areas to validate',
-        'understand your position',
-        'as a founder'
-    ],
-    founder_fit_to_synthesis: [
-        'sense of your strengths',
-        'synthesize everything',
-        'research prompt'
+export const PHASE_ADVANCE_CONFIDENCE = 0.7;
+
+/**
+ * Appended to the phase prompt in conversational phases. Asks for the reply
+ * inside a JSON envelope together with the objective coverage that decides
+ * phase transitions. The {objectives} placeholder is replaced with the
+ * current phase's objectives.
+ */
+export const PHASE_CONTROL_PROMPT = `RESPONSE FORMAT:
+Respond with a single JSON object and nothing else:
+{
+  "control": {
+    "objectives": [
+      { "id": "objective id", "covered": true, "confidence": 0.8, "fact": "what the founder said about it" }
     ]
-};
+  },
+  "reply": "your message to the founder"
+}
+
+Report every objective of the current phase, with what you've learned about it so far:
+{objectives}
+
+An objective is covered only when the founder's own answers give enough detail for it; don't count your assumptions. "confidence" (0 to 1) is how sure you are of that judgement.
+"fact" summarizes in one or two sentences everything the founder has said about the objective, keeping what you already knew; leave it empty until they address it.
+Write "reply" exactly as you would speak to the founder. Once every objective is covered, use the reply to wrap up the phase instead of asking more about it.`;
+
+/**
+ * Synthesis prompt built from the session's facts checklist rather than the
+ * raw transcript. {schema} is replaced with the playbook's synthesis schema
+ * and {facts} with the checklist, grouped by phase.
+ */
+export const SYNTHESIS_FROM_FACTS_PROMPT = `Based on what discovery has learned about the founder and their idea, generate a comprehensive output following this exact JSON schema:
+{schema}
+
+Objectives marked "not covered" never came up; don't invent details for them, and reflect the uncertainty in the risks and hypotheses instead.
+
+WHAT DISCOVERY LEARNED:
+{facts}`;
+
+/**
+ * Sent back to the model when its synthesis output fails validation.
+ * {errors} is replaced with the validation errors, one per line.
+ */
+export const SYNTHESIS_REPAIR_PROMPT = `Your last response doesn't match the required JSON schema:
+{errors}
+
+Respond again with the complete, corrected JSON object following the schema exactly. Keep everything that was already valid, fill every required field, and don't add any text outside the JSON.`;
@@ -0,0 +1,19 @@
+/**
+ * @module config/reportSections
+ * @description Report sections that can be hidden from shared links.
+ *
+ * Headline metrics (score, market size, audience, top competitor) are always shown.
+ *
+ * @dependencies Used by ShareModal and lib/report redaction
+ */
+
+import type { ReportSection } from '@/types';
+
+export const HIDEABLE_REPORT_SECTIONS: Array<{ id: ReportSection; label: string }> = [
+    { id: 'growth', label: 'Market growth projection' },
+    { id: 'competitors', label: 'Competitor list' },
+    { id: 'actionPlan', label: 'Action plan' },
+    { id: 'discoveryTldr', label: 'Discovery TL;DR' },
+    { id: 'founderFit', label: 'Founder-fit assessment' },
+    { id: 'evaluationCriteria', label: 'Evaluation criteria' }
+];
@@ -0,0 +1,185 @@
+/**
+ * @module lib/aiProviders
+ * @description Resolves which provider and model handle each AI task, with fallback.
+ *
+ * Discovery chat, synthesis and research each route through an ordered chain
+ * of provider profiles from the user's settings: the first entry is the
+ * primary, the rest are tried in turn when a provider call fails. Tasks the
+ * user hasn't routed use the server defaults:
+ * - `AI_BASE_URL` / `AI_API_KEY` with `AI_<TASK>_MODEL`, falling back to `AI_MODEL`
+ * - then `AI_FALLBACK_BASE_URL` / `AI_FALLBACK_API_KEY` / `AI_FALLBACK_MODEL`, if set
+ *
+ * Profile API keys are looked up in the user's encrypted credential store
+ * (lib/credentials); the routing config sent by the browser never carries keys.
+ *
+ * Server-only: shared by the discovery and research server code.
+ */
+
+import OpenAI, { APIUserAbortError } from 'openai';
+import { normalizeRoutingConfig } from '@/lib/aiSettings';
+import { loadProviderKeys } from '@/lib/credentials';
+import type { AIProviderProfile, AIRoutingConfig, AITask } from '@/types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o';
+
+/**
+ * One provider/model pair that can serve a task.
+ */
+export interface AICandidate {
+    client: OpenAI;
+    model: string;
+    /** Host of the endpoint, recorded with research versions */
+    provider: string;
+    /** Profile name for logs ("server default" for env config) */
+    profileName: string;
+    apiKey: string;
+    baseURL: string;
+}
+
+/**
+ * Who is asking and how they routed their tasks.
+ */
+export interface AIRequestContext {
+    userId: string;
+    config?: AIRoutingConfig;
+}
+
+/**
+ * Derives a short provider name from an OpenAI-compatible base URL
+ * (e.g. "api.openai.com", "openrouter.ai").
+ */
+export const providerFromBaseURL = (baseURL: string) => {
+    try {
+        return new URL(baseURL).host;
+    } catch {
+        return baseURL;
+    }
+};
+
+const serverDefaultKey = () => process.env.AI_API_KEY || process.env.OPENAI_API_KEY || '';
+
+function createCandidate(profileName: string, baseURL: string, key: string, model: string): AICandidate {
+    // Local servers (Ollama, vLLM) ignore the key, but the SDK requires one
+    const apiKey = key || 'not-needed';
+
+    return {
+        client: new OpenAI({ apiKey, baseURL }),
+        model,
+        provider: providerFromBaseURL(baseURL),
+        profileName,
+        apiKey,
+        baseURL
+    };
+}
+
+function serverDefaultModel(task?: AITask) {
+    return (task && process.env[`AI_${task.toUpperCase()}_MODEL`]) || process.env.AI_MODEL || DEFAULT_MODEL;
+}
+
+/**
+ * Builds a candidate for one provider profile.
+ *
+ * @param profile - The provider profile
+ * @param storedKey - The profile's decrypted key, if one is stored
+ * @param model - Model override; defaults to the profile's default model
+ * @param task - Task used to pick the server default model as a last resort
+ * @returns The candidate
+ */
+export function createProfileCandidate(profile: AIProviderProfile, storedKey?: string, model?: string, task?: AITask): AICandidate {
+    // The server key is only ever sent to the server's own endpoint
+    const usesServerEndpoint = !profile.baseURL;
+    const baseURL = profile.baseURL || process.env.AI_BASE_URL || DEFAULT_BASE_URL;
+    const apiKey = storedKey || (usesServerEndpoint ? serverDefaultKey() : '');
+
+    return createCandidate(profile.name, baseURL, apiKey, model || profile.defaultModel || serverDefaultModel(task));
+}
+
+function serverCandidates(task: AITask): AICandidate[] {
+    const candidates = [
+        createCandidate('server default', process.env.AI_BASE_URL || DEFAULT_BASE_URL, serverDefaultKey(), serverDefaultModel(task))
+    ];
+
+    if (process.env.AI_FALLBACK_MODEL) {
+        candidates.push(createCandidate(
+            'server fallback',
+            process.env.AI_FALLBACK_BASE_URL || process.env.AI_BASE_URL || DEFAULT_BASE_URL,
+            process.env.AI_FALLBACK_API_KEY || serverDefaultKey(),
+            process.env.AI_FALLBACK_MODEL
+        ));
+    }
+
+    return candidates;
+}
+
+/**
+ * Lists the providers to try for a task, primary first.
+ *
+ * @param task - The AI task being performed
+ * @param context - The requesting user and their routing config
+ * @returns At least one candidate
+ */
+export async function resolveAICandidates(task: AITask, { userId, config }: AIRequestContext): Promise<AICandidate[]> {
+    const { profiles, routes } = normalizeRoutingConfig(config);
+    const chain = routes[task] || [];
+    const keys = chain.length > 0 ? await loadProviderKeys(userId) : {};
+
+    const candidates = chain.flatMap(route => {
+        const profile = profiles.find(p => p.id === route.profileId);
+        return profile ? [createProfileCandidate(profile, keys[profile.id], route.model, task)] : [];
+    });
+
+    return candidates.length > 0 ? candidates : serverCandidates(task);
+}
+
+/**
+ * Runs a provider call against each candidate for a task until one succeeds.
+ *
+ * Falls through on provider failures (errors, rate limits, timeouts). A call
+ * aborted by the caller is rethrown immediately rather than retried elsewhere.
+ *
+ * @param task - The AI task being performed
+ * @param context - The requesting user and their routing config
+ * @param call - The request to make with a given candidate
+ * @returns The first successful result and the candidate that produced it
+ * @throws The last candidate's error when every provider fails
+ */
+export async function withAIFallback<T>(
+    task: AITask,
+    context: AIRequestContext,
+    call: (candidate: AICandidate) => Promise<T>
+): Promise<{ result: T; candidate: AICandidate }> {
+    const candidates = await resolveAICandidates(task, context);
+    let lastError: unknown;
+
+    for (const [idx, candidate] of candidates.entries()) {
+        try {
+            return { result: await call(candidate), candidate };
+        } catch (error) {
+            if (error instanceof APIUserAbortError) throw error;
+            lastError = error;
+
+            const next = candidates[idx + 1];
+            console.warn(
+                `[AI] ${task} via ${candidate.profileName} (${candidate.model}) failed`
+                + (next ? `, falling back to ${next.profileName} (${next.model})` : ''),
+                error instanceof Error ? error.message : error
+            );
+        }
+    }
+
+    throw lastError;
+}
+
+/**
+ * The primary provider's plain settings for a task, for helpers that build
+ * their own client (transcription, image extraction).
+ *
+ * @param task - The AI task being performed
+ * @param context - The requesting user and their routing config
+ * @returns Key, endpoint and model of the first candidate
+ */
+export async function resolveAIConfig(task: AITask, context: AIRequestContext) {
+    const [{ apiKey, baseURL, model }] = await resolveAICandidates(task, context);
+    return { apiKey, baseURL, model };
+}
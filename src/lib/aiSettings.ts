@@ -0,0 +1,136 @@
+/**
+ * @module lib/aiSettings
+ * @description Reads and writes the user's AI provider profiles and task routing.
+ *
+ * Settings live in LocalStorage under `vault_ai_settings`. Older installs stored
+ * a single `{apiKey, baseURL, model}`; those are upgraded on read to one
+ * "Default" profile routed for every task, so nothing has to be re-entered.
+ *
+ * API keys are not part of these settings: they are kept encrypted on the
+ * server (see actions/credentials). Keys left in LocalStorage by older
+ * versions are picked up once with readLegacyApiKeys; re-saving the
+ * normalized settings then drops them.
+ *
+ * Client-safe: the server resolves the routing config in lib/aiProviders.
+ */
+
+import { AI_TASKS } from '@/config/aiProviders';
+import type { AIProviderProfile, AIRoutingConfig, AISettings, AITask, AITaskRoute } from '@/types';
+
+export const AI_SETTINGS_KEY = 'vault_ai_settings';
+
+const LEGACY_PROFILE_ID = 'default';
+
+const asString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+/**
+ * Coerces a stored or submitted config into a routing config, upgrading the
+ * legacy single-provider shape and dropping routes to unknown profiles.
+ *
+ * @param raw - Parsed settings JSON, a job payload config, or undefined
+ * @returns A well-formed routing config (possibly with no profiles)
+ */
+export function normalizeRoutingConfig(raw: unknown): AIRoutingConfig {
+    if (!raw || typeof raw !== 'object') return { profiles: [], routes: {} };
+    const input = raw as Record<string, unknown>;
+
+    if (!Array.isArray(input.profiles)) {
+        const legacy = {
+            baseURL: asString(input.baseURL),
+            defaultModel: asString(input.model)
+        };
+        if (!asString(input.apiKey) && !legacy.baseURL && !legacy.defaultModel) return { profiles: [], routes: {} };
+
+        const route: AITaskRoute[] = [{ profileId: LEGACY_PROFILE_ID, model: '' }];
+        return {
+            profiles: [{ id: LEGACY_PROFILE_ID, name: 'Default', ...legacy }],
+            routes: { discovery: route, synthesis: route, research: route }
+        };
+    }
+
+    const profiles: AIProviderProfile[] = input.profiles
+        .filter((p): p is Record<string, unknown> => !!p && typeof p === 'object' && !!asString((p as Record<string, unknown>).id))
+        .map(p => ({
+            id: asString(p.id),
+            name: asString(p.name) || 'Untitled provider',
+            baseURL: asString(p.baseURL),
+            defaultModel: asString(p.defaultModel)
+        }));
+    const profileIds = new Set(profiles.map(p => p.id));
+
+    const routes: Partial<Record<AITask, AITaskRoute[]>> = {};
+    const rawRoutes = (input.routes && typeof input.routes === 'object' ? input.routes : {}) as Record<string, unknown>;
+    for (const { id: task } of AI_TASKS) {
+        const chain = rawRoutes[task];
+        if (!Array.isArray(chain)) continue;
+        routes[task] = chain
+            .filter((r): r is Record<string, unknown> => !!r && typeof r === 'object')
+            .map(r => ({ profileId: asString(r.profileId), model: asString(r.model) }))
+            .filter(r => profileIds.has(r.profileId));
+    }
+
+    return { profiles, routes };
+}
+
+/**
+ * Loads settings from LocalStorage.
+ *
+ * @returns The saved settings, or empty defaults when nothing is stored
+ */
+export function loadAISettings(): AISettings {
+    let parsed: Record<string, unknown> = {};
+    try {
+        parsed = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || '{}');
+    } catch {
+        // Corrupt settings fall back to server defaults
+    }
+
+    return {
+        ...normalizeRoutingConfig(parsed),
+        discoveryModeEnabled: parsed.discoveryModeEnabled === true
+    };
+}
+
+/**
+ * Finds API keys still stored in LocalStorage by older versions, keyed by the
+ * profile ID they belong to after normalization.
+ *
+ * @returns Profile ID and key pairs (empty when there is nothing to migrate)
+ */
+export function readLegacyApiKeys(): Array<{ profileId: string; apiKey: string }> {
+    let parsed: Record<string, unknown> = {};
+    try {
+        parsed = JSON.parse(localStorage.getItem(AI_SETTINGS_KEY) || '{}');
+    } catch {
+        return [];
+    }
+
+    if (!Array.isArray(parsed.profiles)) {
+        const apiKey = asString(parsed.apiKey);
+        return apiKey ? [{ profileId: LEGACY_PROFILE_ID, apiKey }] : [];
+    }
+
+    return parsed.profiles
+        .filter((p): p is Record<string, unknown> => !!p && typeof p === 'object')
+        .map(p => ({ profileId: asString(p.id), apiKey: asString(p.apiKey) }))
+        .filter(entry => entry.profileId && entry.apiKey);
+}
+
+/**
+ * Persists settings to LocalStorage.
+ *
+ * @param settings - The settings to store
+ */
+export function saveAISettings(settings: AISettings) {
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * The part of the settings sent to the server with AI requests.
+ *
+ * @param settings - Settings loaded with loadAISettings
+ * @returns Profiles and routes, without UI-only flags
+ */
+export function toRoutingConfig({ profiles, routes }: AISettings): AIRoutingConfig {
+    return { profiles, routes };
+}
@@ -0,0 +1,45 @@
+/**
+ * @module lib/authErrors
+ * @description Readable messages for Supabase Auth errors.
+ *
+ * Errors reach the login pages either from an auth call (AuthError.code) or,
+ * for email links and OAuth, as ?error=<code> from /auth/callback.
+ *
+ * Pure and client-safe.
+ */
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+    invalid_credentials: 'Incorrect email or password.',
+    email_not_confirmed: 'Please confirm your email address first. Check your inbox for the confirmation link, or send a new one.',
+    user_already_exists: 'An account with this email already exists. Sign in instead.',
+    email_exists: 'An account with this email already exists. Sign in instead.',
+    weak_password: 'That password is too weak. Use at least 8 characters with a mix of letters and numbers.',
+    same_password: 'Your new password must be different from the current one.',
+    otp_expired: 'That link has expired or was already used. Request a new one.',
+    flow_state_expired: 'That sign-in took too long to complete. Please try again.',
+    flow_state_not_found: 'That link was opened in a different browser than the one it was requested from. Request a new one from this browser.',
+    bad_code_verifier: 'That link was opened in a different browser than the one it was requested from. Request a new one from this browser.',
+    over_email_send_rate_limit: 'Too many emails were sent. Please wait a minute and try again.',
+    over_request_rate_limit: 'Too many attempts. Please wait a minute and try again.',
+    provider_disabled: 'This sign-in method isn\'t enabled for this app.',
+    signup_disabled: 'New sign-ups are currently disabled.',
+    access_denied: 'Sign-in was cancelled or denied.',
+    session_not_found: 'Your reset link has expired. Request a new one.',
+    missing_code: 'We couldn\'t complete sign-in from that link. Please try again.'
+};
+
+/** Errors that mean an emailed link can't be used any more */
+export const EXPIRED_LINK_ERRORS = ['otp_expired', 'flow_state_expired', 'flow_state_not_found', 'bad_code_verifier', 'session_not_found'];
+
+/**
+ * Turns an auth error into a message for the user.
+ *
+ * @param error - An AuthError (or anything with a code/message), or an error code from the URL
+ * @returns A readable message; unknown errors fall back to their own message
+ */
+export function authErrorMessage(error: { code?: string; message?: string } | string | null | undefined): string {
+    if (!error) return 'Authentication failed. Please try again.';
+    const code = typeof error === 'string' ? error : error.code;
+    if (code && AUTH_ERROR_MESSAGES[code]) return AUTH_ERROR_MESSAGES[code];
+    return (typeof error !== 'string' && error.message) || 'Authentication failed. Please try again.';
+}
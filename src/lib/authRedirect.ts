@@ -0,0 +1,85 @@
+/**
+ * @module lib/authRedirect
+ * @description Where to send users before and after signing in.
+ *
+ * Protected pages redirect to /login?next=<original path>; after signing in
+ * the login page returns there. Links sent by email and OAuth sign-ins come
+ * back through /auth/callback, which carries `next` along and reports
+ * failures to the login page as ?error=<code>. `next` comes from the URL, so
+ * only paths on this site are accepted, never another origin.
+ *
+ * Pure and client-safe.
+ */
+
+export const LOGIN_PATH = '/login';
+export const DEFAULT_AFTER_LOGIN_PATH = '/dashboard';
+export const AUTH_CALLBACK_PATH = '/auth/callback';
+export const FORGOT_PASSWORD_PATH = '/forgot-password';
+export const RESET_PASSWORD_PATH = '/reset-password';
+
+/** Request header the proxy sets to the requested path, for server-side login redirects */
+export const REQUEST_PATH_HEADER = 'x-request-path';
+
+// Stands in for this site's origin when resolving `next`; never visited
+const LOCAL_ORIGIN = 'https://local.invalid';
+
+/**
+ * Validates a post-login redirect target.
+ *
+ * Browsers ignore tabs and newlines in URLs and treat "\\" like "/", so
+ * prefix checks alone can be fooled ("/\t/evil.com" becomes "//evil.com").
+ * The target is resolved the way a browser would and must stay on this site.
+ *
+ * @param next - The `next` query parameter, if any
+ * @returns The path if it is local to this site, otherwise the dashboard
+ */
+export function safeNextPath(next: string | null | undefined): string {
+    if (!next || !next.startsWith('/') || /[\s\x00-\x1f\x7f\\]/.test(next)) {
+        return DEFAULT_AFTER_LOGIN_PATH;
+    }
+
+    let url: URL;
+    try {
+        url = new URL(next, LOCAL_ORIGIN);
+    } catch {
+        return DEFAULT_AFTER_LOGIN_PATH;
+    }
+    if (url.origin !== LOCAL_ORIGIN) {
+        return DEFAULT_AFTER_LOGIN_PATH;
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+}
+
+/**
+ * The login URL that returns to a page after signing in.
+ *
+ * @param path - The requested path, including its query string
+ */
+export function loginPathFor(path: string): string {
+    return path === DEFAULT_AFTER_LOGIN_PATH
+        ? LOGIN_PATH
+        : `${LOGIN_PATH}?next=${encodeURIComponent(path)}`;
+}
+
+/**
+ * The login URL that shows an auth error, keeping where the user was going.
+ *
+ * @param errorCode - A Supabase Auth error code (see lib/authErrors)
+ * @param next - The post-login path, if any
+ */
+export function loginErrorPath(errorCode: string, next?: string | null): string {
+    const params = new URLSearchParams({ error: errorCode });
+    if (next && next !== DEFAULT_AFTER_LOGIN_PATH) params.set('next', next);
+    return `${LOGIN_PATH}?${params}`;
+}
+
+/**
+ * The URL email links and OAuth providers return to. It must be listed under
+ * Redirect URLs in the Supabase Auth settings.
+ *
+ * @param origin - This site's origin (window.location.origin)
+ * @param next - Where to go once the session is created
+ */
+export function authCallbackUrl(origin: string, next: string): string {
+    return `${origin}${AUTH_CALLBACK_PATH}?next=${encodeURIComponent(safeNextPath(next))}`;
+}
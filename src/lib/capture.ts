@@ -0,0 +1,148 @@
+/**
+ * @module lib/capture
+ * @description Turns captured media into idea text.
+ *
+ * Media is uploaded by the browser into the private vault-assets bucket first;
+ * the research worker fetches it with the service-role client and hands it to
+ * the user's primary research provider. The endpoint and key always come from
+ * resolveAIConfig, never from the caller, so the server's own key only ever
+ * goes to the server's own endpoint.
+ *
+ * Server-only: called by lib/researchJobs.
+ *
+ * @dependencies Supabase Storage, lib/transcription, OpenAI Vision
+ */
+
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { assertOwnAsset, downloadAsset, downloadAssetAsDataUrl } from '@/lib/supabaseAdmin';
+import { getTranscriptionBackend } from '@/lib/transcription';
+import { providerFromBaseURL, resolveAIConfig, type AIRequestContext } from '@/lib/aiProviders';
+import { recordUsage, toTokenUsage } from '@/lib/usage';
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Builds a short title from the first sentence of a transcript.
+ *
+ * @param transcript - The transcribed text
+ * @returns A title of at most MAX_TITLE_LENGTH characters
+ */
+function deriveTitle(transcript: string) {
+    const firstSentence = transcript.split(/(?<=[.!?])\s/)[0]?.trim() || '';
+    if (firstSentence.length <= MAX_TITLE_LENGTH) return firstSentence.replace(/[.!?]$/, '');
+    return `${firstSentence.slice(0, MAX_TITLE_LENGTH).replace(/\s+\S*$/, '')}…`;
+}
+
+const imageIdeaSchema = z.object({
+    title: z.string().min(1),
+    description: z.string().min(1)
+});
+
+/**
+ * Transcribes a recorded voice note stored in the vault-assets bucket.
+ *
+ * Uses the backend selected by `TRANSCRIPTION_PROVIDER` (OpenAI-compatible
+ * API or a local Whisper server). Returns the transcript together with a
+ * suggested title so quick captures don't require typing.
+ *
+ * @param context - The user who captured the note and their routing config
+ * @param assetPath - Path of the audio file inside the bucket
+ * @param ideaId - The idea being captured, for usage accounting
+ * @returns The transcript and a suggested title
+ * @keyTechnologies Whisper, OpenAI Audio API
+ */
+export async function transcribeVoiceNote(context: AIRequestContext, assetPath: string, ideaId?: string) {
+    const { userId } = context;
+    assertOwnAsset(userId, assetPath);
+
+    try {
+        const audio = await downloadAsset(assetPath);
+        const backend = getTranscriptionBackend(await resolveAIConfig('research', context));
+        console.log('[Capture] Transcribing voice note with backend:', backend.name);
+
+        const result = await backend.transcribe(audio, assetPath.split('/').pop() || 'voice-note.webm');
+        await recordUsage({
+            userId,
+            ideaId,
+            task: 'capture',
+            model: result.model,
+            provider: result.provider,
+            usage: result.usage
+        });
+
+        const transcript = result.text.trim();
+        if (!transcript) throw new Error('Transcription was empty');
+
+        return {
+            transcript,
+            suggestedTitle: deriveTitle(transcript)
+        };
+    } catch (error) {
+        console.error('[Capture] Transcription failed:', error);
+        throw new Error(`Failed to transcribe voice note: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Extracts a startup idea from a whiteboard photo or sketch.
+ *
+ * Sends the stored image to a vision-capable model on the configured provider
+ * (`VISION_MODEL` if set, otherwise the user's model) and asks it to describe
+ * the concept as a title and description ready for research.
+ *
+ * @param context - The user who captured the image and their routing config
+ * @param assetPath - Path of the image inside the bucket
+ * @param ideaId - The idea being captured, for usage accounting
+ * @returns The extracted title and description
+ * @keyTechnologies OpenAI Vision, Zod
+ */
+export async function extractIdeaFromImage(context: AIRequestContext, assetPath: string, ideaId?: string) {
+    const { userId } = context;
+    assertOwnAsset(userId, assetPath);
+
+    const config = await resolveAIConfig('research', context);
+    const baseURL = config.baseURL;
+    const client = new OpenAI({ apiKey: config.apiKey, baseURL });
+    const model = process.env.VISION_MODEL || config.model;
+
+    try {
+        const imageUrl = await downloadAssetAsDataUrl(assetPath);
+        console.log('[Capture] Extracting idea from image with model:', model);
+
+        const response = await client.chat.completions.create({
+            model,
+            messages: [
+                {
+                    role: 'system',
+                    content: `You read whiteboard photos, napkin sketches and wireframes of startup ideas.
+Describe the idea the image is communicating, including any text, diagrams, flows or UI you can make out.
+Return ONLY JSON: {"title": "short concept name (max 8 words)", "description": "2-4 sentences: problem, who it's for, proposed solution"}`
+                },
+                {
+                    role: 'user',
+                    content: [
+                        { type: 'text', text: 'What startup idea does this image describe?' },
+                        { type: 'image_url', image_url: { url: imageUrl } }
+                    ]
+                }
+            ]
+        });
+
+        await recordUsage({
+            userId,
+            ideaId,
+            task: 'capture',
+            model,
+            provider: providerFromBaseURL(baseURL),
+            usage: toTokenUsage(response.usage)
+        });
+
+        const content = response.choices[0].message.content?.trim() || '';
+        const jsonStr = content.replace(/^```(?:json)?/, '').replace(/```$/, '').trim();
+        return imageIdeaSchema.parse(JSON.parse(jsonStr));
+    } catch (error) {
+        console.error('[Capture] Image extraction failed:', error);
+        throw new Error(`Failed to read idea from image: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
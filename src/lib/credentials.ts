@@ -0,0 +1,198 @@
+/**
+ * @module lib/credentials
+ * @description Encrypted, server-side storage for users' AI provider API keys.
+ *
+ * Keys are encrypted with AES-256-GCM before they reach the ai_credentials table
+ * and are only ever decrypted on the server when a request is routed to the
+ * matching provider profile. The browser sees a masked hint, never the key.
+ *
+ * Encryption keys come from `CREDENTIALS_ENCRYPTION_KEYS`, a comma-separated list
+ * of `<version>:<base64 32-byte key>`. The first entry encrypts new keys; the
+ * others are kept only to decrypt rows until scripts/rotateCredentialKeys.ts
+ * re-encrypts them.
+ *
+ * Server-only: uses the service-role client.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import type { AICredentialSummary } from '@/types';
+
+const IV_LENGTH = 12;
+
+interface EncryptionKey {
+    version: number;
+    key: Buffer;
+}
+
+export interface CredentialRow {
+    id: string;
+    user_id: string;
+    profile_id: string;
+    encrypted_key: string;
+    key_version: number;
+    key_hint: string;
+    created_at: string;
+    updated_at: string;
+}
+
+export const toCredentialSummary = (row: Pick<CredentialRow, 'profile_id' | 'key_hint' | 'updated_at'>): AICredentialSummary => ({
+    profileId: row.profile_id,
+    keyHint: row.key_hint,
+    updatedAt: row.updated_at
+});
+
+let cachedKeys: EncryptionKey[] | null = null;
+
+/**
+ * Parses `CREDENTIALS_ENCRYPTION_KEYS`, newest (active) key first.
+ */
+function encryptionKeys(): EncryptionKey[] {
+    if (cachedKeys) return cachedKeys;
+
+    const keys = (process.env.CREDENTIALS_ENCRYPTION_KEYS || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const [version, encoded] = entry.split(':');
+            const key = Buffer.from(encoded || '', 'base64');
+            if (!Number.isInteger(Number(version)) || key.length !== 32) {
+                throw new Error('CREDENTIALS_ENCRYPTION_KEYS entries must be "<version>:<base64 32-byte key>"');
+            }
+            return { version: Number(version), key };
+        });
+
+    if (keys.length === 0) {
+        throw new Error('CREDENTIALS_ENCRYPTION_KEYS is not configured');
+    }
+
+    cachedKeys = keys;
+    return keys;
+}
+
+/**
+ * Version of the key used for new encryptions.
+ */
+export const activeKeyVersion = () => encryptionKeys()[0].version;
+
+// Binds a ciphertext to its owner and profile so rows can't be swapped
+const associatedData = (userId: string, profileId: string) => Buffer.from(`${userId}:${profileId}`);
+
+/**
+ * Encrypts an API key with the active encryption key.
+ *
+ * @param apiKey - The plain-text API key
+ * @param userId - Owner of the key
+ * @param profileId - Provider profile the key belongs to
+ * @returns `<iv>:<auth tag>:<ciphertext>` (base64) and the key version used
+ */
+export function encryptApiKey(apiKey: string, userId: string, profileId: string) {
+    const { version, key } = encryptionKeys()[0];
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(associatedData(userId, profileId));
+
+    const ciphertext = Buffer.concat([cipher.update(apiKey, 'utf8'), cipher.final()]);
+    const encrypted = [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+
+    return { encrypted, version };
+}
+
+/**
+ * Decrypts a stored API key.
+ *
+ * @param row - The stored credential
+ * @returns The plain-text API key
+ * @throws If the key version is unknown or the ciphertext was tampered with
+ */
+export function decryptApiKey(row: Pick<CredentialRow, 'encrypted_key' | 'key_version' | 'user_id' | 'profile_id'>) {
+    const match = encryptionKeys().find(k => k.version === row.key_version);
+    if (!match) throw new Error(`No encryption key with version ${row.key_version}`);
+
+    const [iv, tag, ciphertext] = row.encrypted_key.split(':').map(part => Buffer.from(part, 'base64'));
+    const decipher = createDecipheriv('aes-256-gcm', match.key, iv);
+    decipher.setAAD(associatedData(row.user_id, row.profile_id));
+    decipher.setAuthTag(tag);
+
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Masked form of a key for display, e.g. `sk-…3f9a`.
+ *
+ * @param apiKey - The plain-text API key
+ * @returns A hint that identifies the key without revealing it
+ */
+export function maskApiKey(apiKey: string) {
+    const key = apiKey.trim();
+    return key.length <= 8 ? '••••' : `${key.slice(0, 3)}…${key.slice(-4)}`;
+}
+
+/**
+ * Loads and decrypts a user's stored keys, keyed by provider profile ID.
+ * Keys that fail to decrypt are skipped (and logged) so one bad row
+ * doesn't take down every provider.
+ *
+ * @param userId - The user whose keys to load
+ * @returns Map of profile ID to API key
+ */
+export async function loadProviderKeys(userId: string): Promise<Record<string, string>> {
+    const { data, error } = await supabaseAdmin
+        .from('ai_credentials')
+        .select('user_id, profile_id, encrypted_key, key_version')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('[Credentials] Failed to load keys:', error);
+        return {};
+    }
+
+    const keys: Record<string, string> = {};
+    for (const row of (data || []) as CredentialRow[]) {
+        try {
+            keys[row.profile_id] = decryptApiKey(row);
+        } catch (decryptError) {
+            console.error(`[Credentials] Could not decrypt key for profile ${row.profile_id}:`, decryptError);
+        }
+    }
+    return keys;
+}
+
+/**
+ * Re-encrypts every credential that isn't on the active key version.
+ * Run after adding a new key to the front of `CREDENTIALS_ENCRYPTION_KEYS`;
+ * once it reports zero remaining rows the old key can be removed.
+ *
+ * @returns How many rows were re-encrypted and how many failed
+ */
+export async function reencryptCredentials() {
+    const version = activeKeyVersion();
+    const { data, error } = await supabaseAdmin
+        .from('ai_credentials')
+        .select('*')
+        .neq('key_version', version);
+
+    if (error) throw new Error(`Failed to load credentials: ${error.message}`);
+
+    let rotated = 0;
+    let failed = 0;
+    for (const row of (data || []) as CredentialRow[]) {
+        try {
+            const { encrypted } = encryptApiKey(decryptApiKey(row), row.user_id, row.profile_id);
+            const { error: updateError } = await supabaseAdmin
+                .from('ai_credentials')
+                .update({ encrypted_key: encrypted, key_version: version })
+                .eq('id', row.id)
+                .eq('key_version', row.key_version);
+
+            if (updateError) throw updateError;
+            rotated++;
+        } catch (rotateError) {
+            console.error(`[Credentials] Failed to re-encrypt ${row.id}:`, rotateError);
+            failed++;
+        }
+    }
+
+    return { rotated, failed };
+}
@@ -0,0 +1,316 @@
+/**
+ * @module lib/discovery
+ * @description Shared conversation logic for Discovery Mode.
+ *
+ * Used by both the discovery server actions and the streaming route handler
+ * (src/app/api/discovery/stream/route.ts). A turn is split into loading
+ * (session + prompt) and saving (history + phase), so a streamed reply is only
+ * written to the session once it has fully arrived. Phase transitions are
+ * decided by lib/phaseControl, and each turn updates the session's facts
+ * checklist (lib/discoveryFacts), from which synthesis is generated. Prompts,
+ * phases and the synthesis schema come from the session's playbook
+ * (lib/discoveryPlaybooks). Sessions started on a researched idea also carry
+ * a summary of that research in every prompt (lib/discoveryResearch); when
+ * they complete, they are linked to the idea and its re-research is queued
+ * right here on the server, so it runs even if the browser is gone.
+ *
+ * Server-only: uses the service-role client, so callers pass the signed-in
+ * user (lib/supabaseServer) and sessions are only loaded for their owner.
+ */
+
+import type OpenAI from 'openai';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { DISCOVERY_COMPLETE_PROMPT, DISCOVERY_PHASES } from '@/config/discoveryPrompts';
+import type { DiscoveryPlaybook, PlaybookPhase } from '@/config/discoveryPlaybooks';
+import { findPhase, getPlaybook, systemPromptFor } from '@/lib/discoveryPlaybooks';
+import { priorResearchPrompt, researchOptionsFromSynthesis } from '@/lib/discoveryResearch';
+import { normalizeRoutingConfig } from '@/lib/aiSettings';
+import { enqueueResearchJob } from '@/lib/researchJobs';
+import { assertWithinBudget } from '@/lib/usage';
+import { requireIdeaRole } from '@/lib/workspaceAccess';
+import { generateSynthesis } from '@/lib/synthesis';
+import { saveSynthesis } from '@/lib/discoverySyntheses';
+import { parseDiscoveryReply, phaseControlPrompt, resolveNextPhase, usesPhaseControl } from '@/lib/phaseControl';
+import { buildSynthesisPrompt, hasFacts, mergePhaseFacts } from '@/lib/discoveryFacts';
+import type { AIRoutingConfig, AITask, DiscoveryFacts, DiscoveryMessage, DiscoverySynthesis, DiscoveryTurnResult } from '@/types';
+
+/**
+ * The system prompt for a session: the playbook's goals plus, for sessions
+ * seeded with earlier research, that research.
+ *
+ * @param playbook - The session's playbook
+ * @param researchContext - The session's research_context, if any
+ */
+export function discoverySystemPrompt(playbook: DiscoveryPlaybook, researchContext?: string | null): string {
+    return [systemPromptFor(playbook), researchContext && priorResearchPrompt(researchContext)]
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+/**
+ * Records a completed session on the idea it refined and queues the idea's
+ * re-research with the session's synthesis (refined prompt as context,
+ * founder-fit and TL;DR as enrichment). Billed to the session's owner, who
+ * must still be able to edit the idea. Failures to queue are logged rather
+ * than thrown, as the session itself is already saved.
+ *
+ * @param session - The completed session, its owner and idea, and the owner's AI routing config
+ * @param output - The session's validated synthesis output
+ */
+export async function researchIdeaFromSession(
+    session: { sessionId: string; userId: string; ideaId: string; config?: AIRoutingConfig },
+    output: DiscoverySynthesis
+) {
+    const { error } = await supabaseAdmin
+        .from('ideas')
+        .update({ discovery_session_id: session.sessionId })
+        .eq('id', session.ideaId);
+
+    if (error) {
+        console.error('Failed to link discovery session to idea:', error);
+    }
+
+    try {
+        await requireIdeaRole(session.userId, session.ideaId, 'editor');
+        await assertWithinBudget(session.userId);
+
+        const { data: idea } = await supabaseAdmin
+            .from('ideas')
+            .select('description')
+            .eq('id', session.ideaId)
+            .single();
+
+        await enqueueResearchJob(session.userId, session.ideaId, {
+            // Only profiles and routes are stored with the job; keys stay in the credential store
+            ...(session.config && { config: normalizeRoutingConfig(session.config) }),
+            ...researchOptionsFromSynthesis(output, idea?.description)
+        });
+    } catch (queueError) {
+        console.error('Failed to queue research after discovery:', queueError);
+    }
+}
+
+export interface DiscoveryTurn {
+    sessionId: string;
+    userId: string;
+    /** The idea the session refines, if it was started from one */
+    ideaId: string | null;
+    /** The playbook the session was started with */
+    playbook: DiscoveryPlaybook;
+    currentPhase: string;
+    /** The playbook phase being discussed; undefined in synthesis and once complete */
+    phase?: PlaybookPhase;
+    /** The session's revision when the turn was prepared; saving requires it unchanged */
+    revision: number;
+    /** Stored history plus the new user message */
+    messages: DiscoveryMessage[];
+    /** The session's checklist before this turn */
+    facts: DiscoveryFacts;
+    isSynthesis: boolean;
+    /** Whether the reply comes in a phase-control envelope (see lib/phaseControl) */
+    phaseControl: boolean;
+    /** Routed as 'synthesis' once the conversation reaches that phase */
+    task: AITask;
+    /** The user's routing config, resolved with withAIFallback */
+    config?: AIRoutingConfig;
+    /** The completion request minus the model, which depends on the provider tried */
+    request: Omit<OpenAI.Chat.ChatCompletionCreateParamsNonStreaming, 'model'>;
+}
+
+/**
+ * Loads a session and builds the completion request for the next turn.
+ * Nothing is written to the database.
+ *
+ * @param sessionId - The discovery session ID
+ * @param userId - The signed-in caller; sessions owned by anyone else are not found
+ * @param userMessage - The user's message content
+ * @param config - The user's AI routing config
+ * @returns Everything needed to request and later save the AI reply
+ */
+export async function prepareDiscoveryTurn(
+    sessionId: string,
+    userId: string,
+    userMessage: string,
+    config?: AIRoutingConfig
+): Promise<DiscoveryTurn> {
+    const { data: session, error: fetchError } = await supabaseAdmin
+        .from('discovery_sessions')
+        .select('*')
+        .eq('id', sessionId)
+        .eq('user_id', userId)
+        .single();
+
+    if (fetchError || !session) {
+        throw new Error('Session not found');
+    }
+
+    const playbook = getPlaybook(session.playbook_id, session.playbook_version);
+    const currentPhase: string = session.current_phase;
+    const phase = findPhase(playbook, currentPhase);
+    const messages: DiscoveryMessage[] = [
+        ...(session.messages || []),
+        { role: 'user', content: userMessage, timestamp: new Date().toISOString() }
+    ];
+
+    // Handle synthesis phase specially - request JSON output
+    const isSynthesis = currentPhase === DISCOVERY_PHASES.SYNTHESIS;
+    const phaseControl = usesPhaseControl(phase);
+
+    const facts: DiscoveryFacts = session.extracted_facts || {};
+
+    const discoveryPrompt = discoverySystemPrompt(playbook, session.research_context);
+    const phasePrompt = isSynthesis
+        ? `${playbook.synthesis.prompt}\n\nUse this exact JSON schema:\n${playbook.synthesis.schema}`
+        : phase?.prompt || (currentPhase === DISCOVERY_PHASES.COMPLETE ? DISCOVERY_COMPLETE_PROMPT : '');
+    const systemPrompt = [discoveryPrompt, phasePrompt, phaseControlPrompt(phase, facts)]
+        .filter(Boolean)
+        .join('\n\n');
+
+    // Synthesis works from the checklist; sessions without facts fall back to the transcript
+    const requestMessages: OpenAI.Chat.ChatCompletionMessageParam[] = isSynthesis && hasFacts(facts)
+        ? [
+            { role: 'system', content: discoveryPrompt },
+            { role: 'user', content: `${buildSynthesisPrompt(playbook, facts)}\n\nTHE FOUNDER'S LATEST MESSAGE:\n${userMessage}` }
+        ]
+        : [
+            { role: 'system', content: systemPrompt },
+            ...messages.map(m => ({ role: m.role, content: m.content }))
+        ];
+
+    return {
+        sessionId,
+        userId: session.user_id,
+        ideaId: session.idea_id || null,
+        playbook,
+        currentPhase,
+        phase,
+        revision: session.revision ?? 0,
+        messages,
+        facts,
+        isSynthesis,
+        phaseControl,
+        task: isSynthesis ? 'synthesis' : 'discovery',
+        config,
+        request: {
+            messages: requestMessages,
+            // Providers without JSON mode may ignore this; their plain replies use the string signals
+            ...((isSynthesis || phaseControl) && { response_format: { type: 'json_object' as const } })
+        }
+    };
+}
+
+/**
+ * Why a turn was not saved: another turn of the session was saved after this
+ * one was prepared. Shown to the user as is.
+ */
+export const CONCURRENT_TURN_ERROR = 'Another reply was saved to this conversation in the meantime. Reload it and try again.';
+
+/**
+ * Saves a completed turn: appends the user message and the AI reply to the
+ * history, merges the reported objectives into the facts checklist, decides
+ * the phase transition from the complete response and stores the synthesis
+ * output (lib/discoverySyntheses) when discovery finishes. Synthesis output is validated against the
+ * playbook's schema and repaired by the model if needed (lib/synthesis); if
+ * it is still invalid, nothing is saved and the result carries synthesisError.
+ * The history is only written if no other turn was saved since this one was
+ * prepared, so overlapping turns never drop each other's messages.
+ *
+ * @param turn - The turn returned by prepareDiscoveryTurn
+ * @param aiContent - The complete model output (a phase-control envelope in conversational phases)
+ * @returns The turn result sent back to the chat UI
+ * @throws CONCURRENT_TURN_ERROR when another turn was saved in the meantime
+ */
+export async function saveDiscoveryTurn(turn: DiscoveryTurn, aiContent: string): Promise<DiscoveryTurnResult> {
+    // Synthesis output is validated (and repaired) before anything is saved
+    const synthesis = turn.isSynthesis
+        ? await generateSynthesis({
+            userId: turn.userId,
+            ideaId: turn.ideaId,
+            sessionId: turn.sessionId,
+            playbook: turn.playbook,
+            config: turn.config,
+            messages: turn.request.messages
+        }, aiContent)
+        : null;
+
+    if (synthesis?.error) {
+        return {
+            response: '',
+            currentPhase: turn.currentPhase,
+            isComplete: false,
+            synthesisOutput: null,
+            synthesisError: synthesis.error,
+            messageCount: turn.messages.length - 1,
+            phaseProgress: null,
+            facts: turn.facts
+        };
+    }
+    const synthesisOutput = synthesis?.output || null;
+
+    const parsed = synthesisOutput
+        ? { reply: JSON.stringify(synthesisOutput), progress: null }
+        : parseDiscoveryReply(aiContent, turn.phase);
+    const facts = parsed.progress && turn.phase
+        ? mergePhaseFacts(turn.facts, turn.phase, parsed.progress)
+        : turn.facts;
+    const progress = parsed.progress && (facts[turn.currentPhase] || null);
+
+    const messages: DiscoveryMessage[] = [
+        ...turn.messages,
+        { role: 'assistant', content: parsed.reply, timestamp: new Date().toISOString() }
+    ];
+
+    // Detect phase transition
+    const nextPhase = synthesisOutput
+        ? DISCOVERY_PHASES.COMPLETE
+        : resolveNextPhase(turn.playbook, turn.currentPhase, { reply: parsed.reply, progress });
+
+    // Update session
+    const updateData: Record<string, unknown> = {
+        messages,
+        current_phase: nextPhase,
+        extracted_facts: facts,
+        revision: turn.revision + 1
+    };
+
+    if (synthesisOutput) {
+        // Stored first: a session is only marked completed once its output is saved
+        await saveSynthesis({
+            sessionId: turn.sessionId,
+            userId: turn.userId,
+            ideaId: turn.ideaId,
+            playbookId: turn.playbook.id,
+            playbookVersion: turn.playbook.version
+        }, synthesisOutput);
+        updateData.status = 'completed';
+        updateData.completed_at = new Date().toISOString();
+    }
+
+    // Only saved if no other turn was saved since this one was prepared
+    const { data: saved, error: updateError } = await supabaseAdmin
+        .from('discovery_sessions')
+        .update(updateData)
+        .eq('id', turn.sessionId)
+        .eq('revision', turn.revision)
+        .select('id')
+        .maybeSingle();
+
+    if (updateError) {
+        console.error('Failed to update session:', updateError);
+    } else if (!saved) {
+        throw new Error(CONCURRENT_TURN_ERROR);
+    } else if (synthesisOutput && turn.ideaId) {
+        await researchIdeaFromSession({ ...turn, ideaId: turn.ideaId }, synthesisOutput);
+    }
+
+    return {
+        response: parsed.reply,
+        currentPhase: nextPhase,
+        isComplete: nextPhase === DISCOVERY_PHASES.COMPLETE,
+        synthesisOutput,
+        synthesisError: null,
+        messageCount: messages.length,
+        phaseProgress: progress,
+        facts
+    };
+}
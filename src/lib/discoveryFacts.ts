@@ -0,0 +1,75 @@
+/**
+ * @module lib/discoveryFacts
+ * @description The per-session checklist of what discovery has learned.
+ *
+ * Each conversational turn reports, per objective of the current phase,
+ * whether it is covered and what the founder said (see lib/phaseControl).
+ * The reports are merged into the session's extracted_facts, which the chat
+ * shows as a live checklist and synthesis is generated from.
+ *
+ * Pure and client-safe.
+ */
+
+import { SYNTHESIS_FROM_FACTS_PROMPT } from '@/config/discoveryPrompts';
+import type { DiscoveryPlaybook, PlaybookPhase } from '@/config/discoveryPlaybooks';
+import type { DiscoveryFacts, PhaseObjectiveStatus } from '@/types';
+
+/**
+ * A phase's objectives with whatever is known about them, including
+ * objectives that haven't come up yet.
+ *
+ * @param facts - The session's checklist
+ * @param phase - The playbook phase to list
+ */
+export function phaseChecklist(facts: DiscoveryFacts, phase: PlaybookPhase): PhaseObjectiveStatus[] {
+    const known = new Map((facts[phase.id] || []).map(objective => [objective.id, objective]));
+    return phase.objectives.map(({ id, label }) =>
+        known.get(id) || { id, label, covered: false, confidence: 0, fact: null }
+    );
+}
+
+/**
+ * Merges this turn's report into the phase's checklist. The latest
+ * assessment wins, but a fact is never replaced by an empty one.
+ *
+ * @param facts - The session's checklist before the turn
+ * @param phase - The playbook phase the turn was in
+ * @param reported - The objectives as reported this turn
+ * @returns The updated checklist
+ */
+export function mergePhaseFacts(facts: DiscoveryFacts, phase: PlaybookPhase, reported: PhaseObjectiveStatus[]): DiscoveryFacts {
+    const previous = new Map(phaseChecklist(facts, phase).map(objective => [objective.id, objective]));
+    return {
+        ...facts,
+        [phase.id]: reported.map(objective => ({
+            ...objective,
+            fact: objective.fact || previous.get(objective.id)?.fact || null
+        }))
+    };
+}
+
+/**
+ * Whether any objective has a recorded fact.
+ */
+export const hasFacts = (facts: DiscoveryFacts) =>
+    Object.values(facts).some(objectives => (objectives || []).some(objective => objective.fact));
+
+/**
+ * Builds the synthesis prompt from the checklist.
+ *
+ * @param playbook - The session's playbook, for its phases and synthesis schema
+ * @param facts - The session's checklist
+ * @returns The prompt, listing every objective as covered or not
+ */
+export function buildSynthesisPrompt(playbook: DiscoveryPlaybook, facts: DiscoveryFacts): string {
+    const sections = playbook.phases.map(phase => {
+        const lines = phaseChecklist(facts, phase).map(objective =>
+            `- ${objective.label}: ${objective.fact || '(not covered)'}`
+        );
+        return `${phase.label.toUpperCase()}\n${lines.join('\n')}`;
+    });
+
+    return SYNTHESIS_FROM_FACTS_PROMPT
+        .replace('{schema}', playbook.synthesis.schema)
+        .replace('{facts}', sections.join('\n\n'));
+}
@@ -0,0 +1,86 @@
+/**
+ * @module lib/discoveryPlaybooks
+ * @description Lookups over the discovery playbooks in config/discoveryPlaybooks.
+ *
+ * Sessions store the playbook id and version they were started with;
+ * getPlaybook resolves them back to a definition, falling back to the latest
+ * version (or the default playbook) when that exact one no longer exists.
+ *
+ * Pure and client-safe.
+ */
+
+import { DISCOVERY_PLAYBOOKS, type DiscoveryPlaybook, type PlaybookPhase } from '@/config/discoveryPlaybooks';
+import { DISCOVERY_PHASES, DISCOVERY_SYSTEM_PROMPT } from '@/config/discoveryPrompts';
+
+/** Used for new sessions when no playbook is picked, and for unknown ids */
+export const DEFAULT_PLAYBOOK_ID = DISCOVERY_PLAYBOOKS[0].id;
+
+/**
+ * The latest version of every playbook, in definition order, for the picker.
+ */
+export function latestPlaybooks(): DiscoveryPlaybook[] {
+    const latest = new Map<string, DiscoveryPlaybook>();
+    for (const playbook of DISCOVERY_PLAYBOOKS) {
+        const current = latest.get(playbook.id);
+        if (!current || playbook.version > current.version) latest.set(playbook.id, playbook);
+    }
+    return [...latest.values()];
+}
+
+/**
+ * Resolves a playbook definition.
+ *
+ * @param id - The playbook id (defaults to the default playbook)
+ * @param version - The version a session started with (defaults to the latest)
+ * @returns The exact version if it exists, otherwise the latest version of the
+ * playbook, otherwise the latest default playbook
+ */
+export function getPlaybook(id?: string | null, version?: number | null): DiscoveryPlaybook {
+    const exact = DISCOVERY_PLAYBOOKS.find(playbook => playbook.id === id && playbook.version === version);
+    if (exact) return exact;
+
+    const latest = latestPlaybooks();
+    return latest.find(playbook => playbook.id === id)
+        || latest.find(playbook => playbook.id === DEFAULT_PLAYBOOK_ID)!;
+}
+
+/**
+ * The playbook's conversational phase with this id, if any.
+ */
+export const findPhase = (playbook: DiscoveryPlaybook, phaseId: string): PlaybookPhase | undefined =>
+    playbook.phases.find(phase => phase.id === phaseId);
+
+/**
+ * The phase that follows a conversational phase: the next one in the
+ * playbook, or synthesis after the last.
+ *
+ * @param playbook - The session's playbook
+ * @param phaseId - The finished phase
+ * @returns The next phase id (unchanged for phases outside the playbook)
+ */
+export function nextPhase(playbook: DiscoveryPlaybook, phaseId: string): string {
+    const index = playbook.phases.findIndex(phase => phase.id === phaseId);
+    if (index === -1) return phaseId;
+    return playbook.phases[index + 1]?.id || DISCOVERY_PHASES.SYNTHESIS;
+}
+
+/**
+ * The discovery system prompt with the playbook's goals filled in.
+ */
+export const systemPromptFor = (playbook: DiscoveryPlaybook) =>
+    DISCOVERY_SYSTEM_PROMPT.replace(
+        '{goals}',
+        playbook.goals.map((goal, index) => `${index + 1}. ${goal}`).join('\n')
+    );
+
+/**
+ * A display label for a session's phase.
+ *
+ * @param phaseId - The session's current_phase
+ * @param playbookId - The session's playbook
+ */
+export function phaseLabel(phaseId: string, playbookId?: string | null): string {
+    if (phaseId === DISCOVERY_PHASES.SYNTHESIS) return 'Synthesis';
+    if (phaseId === DISCOVERY_PHASES.COMPLETE) return 'Complete';
+    return findPhase(getPlaybook(playbookId), phaseId)?.label || phaseId;
+}
@@ -0,0 +1,121 @@
+/**
+ * @module lib/discoveryResearch
+ * @description Bridges Discovery Mode and research in both directions.
+ *
+ * "Send to Discovery" seeds a session with an idea's earlier research
+ * (stored as the session's research_context), and a finished session's
+ * synthesis becomes the context and enrichment of the next research job.
+ *
+ * Pure and client-safe.
+ */
+
+import { PRIOR_RESEARCH_PROMPT, RESEARCHED_IDEA_WELCOME_MESSAGE } from '@/config/discoveryPrompts';
+import type { ResearchJobPayload } from '@/lib/researchJobs';
+import type { AnalysisResult, DiscoveryTldr, FounderFit } from '@/types';
+
+/**
+ * The parts of a synthesis output that research uses.
+ */
+export interface SynthesisResearchInput {
+    tldr?: DiscoveryTldr;
+    founderFit?: FounderFit;
+    fullPrompt?: {
+        problemStatement?: string;
+        targetCustomer?: { profile?: string };
+        valueProposition?: string;
+        hypotheses?: string[];
+        evaluationCriteria?: string[];
+    };
+}
+
+/**
+ * Whether an idea has a research result worth seeding discovery with.
+ */
+export const hasResearch = (analysis?: AnalysisResult | null): analysis is AnalysisResult =>
+    !!analysis && !analysis.error && analysis.readinessScore !== undefined;
+
+/**
+ * Summarizes an idea's research result as plain text for the discovery model.
+ *
+ * @param idea - The idea's title, description and last research result
+ * @returns The summary, listing only the sections the result has
+ */
+export function summarizeResearch(idea: { title: string; description: string; analysis_result: AnalysisResult }): string {
+    const analysis = idea.analysis_result;
+    const lines = [
+        `Idea: ${idea.title}`,
+        `Description: ${idea.description || '(none)'}`
+    ];
+
+    if (analysis.readinessScore !== undefined) lines.push(`Readiness score: ${analysis.readinessScore}/100`);
+    if (analysis.marketSize) lines.push(`Market size: ${analysis.marketSize}`);
+    if (analysis.targetAudience) lines.push(`Target audience: ${analysis.targetAudience}`);
+    if (analysis.trend) lines.push(`Trend: ${analysis.trend}`);
+
+    if (analysis.competitors?.length) {
+        lines.push('Competitors:');
+        analysis.competitors.forEach(competitor =>
+            lines.push(`- ${competitor.name} (strength: ${competitor.strength}; weakness: ${competitor.weakness})`)
+        );
+    }
+
+    if (analysis.actionPlan?.length) {
+        lines.push('Action plan:');
+        analysis.actionPlan.forEach((step, index) => lines.push(`${index + 1}. ${step}`));
+    }
+
+    if (analysis.discoveryTldr?.mainRisks?.length) {
+        lines.push(`Risks from an earlier discovery session: ${analysis.discoveryTldr.mainRisks.join('; ')}`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * The system-prompt section for a session seeded with research.
+ *
+ * @param researchContext - The session's research_context
+ */
+export const priorResearchPrompt = (researchContext: string) =>
+    PRIOR_RESEARCH_PROMPT.replace('{research}', researchContext);
+
+/**
+ * The welcome message for a session started on a researched idea.
+ *
+ * @param title - The idea's title
+ * @param readinessScore - The idea's last readiness score, if any
+ */
+export const researchedIdeaWelcome = (title: string, readinessScore?: number) =>
+    RESEARCHED_IDEA_WELCOME_MESSAGE
+        .replace('{title}', title)
+        .replace('{score}', readinessScore !== undefined ? ` (readiness ${readinessScore}/100)` : '');
+
+/**
+ * Turns a finished session's synthesis into research job options: the
+ * refined prompt replaces the idea description, and the founder-fit and
+ * TL;DR are merged into the result.
+ *
+ * @param synthesisOutput - The session's synthesis output
+ * @param fallbackDescription - Used when the synthesis has no problem statement
+ */
+export function researchOptionsFromSynthesis(
+    synthesisOutput: SynthesisResearchInput,
+    fallbackDescription = ''
+): Pick<ResearchJobPayload, 'context' | 'enrichment'> {
+    const fullPrompt = synthesisOutput.fullPrompt;
+    const context = `
+Problem: ${fullPrompt?.problemStatement || fallbackDescription}
+Target Customer: ${fullPrompt?.targetCustomer?.profile || 'Not specified'}
+Value Proposition: ${fullPrompt?.valueProposition || 'Not specified'}
+Key Hypotheses: ${fullPrompt?.hypotheses?.join(', ') || 'None'}
+    `.trim();
+
+    return {
+        context,
+        enrichment: {
+            founderFit: synthesisOutput.founderFit,
+            discoveryTldr: synthesisOutput.tldr,
+            evaluationCriteria: fullPrompt?.evaluationCriteria
+        }
+    };
+}
@@ -0,0 +1,61 @@
+/**
+ * @module lib/discoveryStream
+ * @description Browser client for the streaming Discovery Mode endpoint.
+ */
+
+import type { AIRoutingConfig, DiscoveryStreamEvent, DiscoveryTurnResult } from '@/types';
+
+/**
+ * Sends a discovery message and streams the reply.
+ *
+ * Resolves with the saved turn result once the server confirms the reply was
+ * stored. Rejects if the stream fails or ends early; in that case nothing was
+ * written to the session, so the caller can safely let the user resend.
+ *
+ * @param sessionId - The discovery session ID
+ * @param message - The user's message content
+ * @param config - The user's AI routing config
+ * @param onToken - Called with each chunk of the reply as it arrives
+ * @returns The completed turn
+ */
+export async function streamDiscoveryMessage(
+    sessionId: string,
+    message: string,
+    config: AIRoutingConfig | undefined,
+    onToken: (delta: string) => void
+): Promise<DiscoveryTurnResult> {
+    const response = await fetch('/api/discovery/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sessionId, message, config })
+    });
+
+    if (!response.ok || !response.body) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || 'Failed to process message');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const event = JSON.parse(line) as DiscoveryStreamEvent;
+
+            if (event.type === 'delta') onToken(event.content);
+            if (event.type === 'done') return event.result;
+            if (event.type === 'error') throw new Error(event.message);
+        }
+    }
+
+    throw new Error('The connection closed before the reply finished');
+}
@@ -0,0 +1,227 @@
+/**
+ * @module lib/discoverySyntheses
+ * @description Storage for discovery synthesis output.
+ *
+ * Each completed session has one row in discovery_syntheses holding the TL;DR,
+ * the full research prompt and the founder-fit assessment, plus the
+ * founder-fit score and evaluation criteria as their own columns so they can
+ * be queried directly. Sessions synthesized before this table existed kept
+ * only part of the output in discovery_sessions.refined_prompt and
+ * founder_fit; backfillSyntheses copies them over
+ * (scripts/backfillDiscoverySyntheses.ts).
+ *
+ * Server-only: uses the service-role client.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { discoveryTldrSchema, founderFitSchema, refinedPromptSchema } from '@/lib/synthesisSchema';
+import type { DiscoveryMessage, DiscoverySynthesis, DiscoverySynthesisRecord, DiscoveryTldr, FounderFit, RefinedPrompt } from '@/types';
+
+/** The session a synthesis belongs to */
+export interface SynthesisSession {
+    sessionId: string;
+    userId: string;
+    ideaId: string | null;
+    playbookId: string;
+    playbookVersion: number;
+}
+
+interface SynthesisRow {
+    session_id: string;
+    user_id: string;
+    idea_id: string | null;
+    playbook_id: string;
+    playbook_version: number;
+    tldr: DiscoveryTldr | null;
+    full_prompt: RefinedPrompt;
+    founder_fit: FounderFit | null;
+    founder_fit_score: number | null;
+    evaluation_criteria: string[];
+    created_at: string;
+}
+
+/** A discovery_sessions row as written before discovery_syntheses existed */
+interface LegacySessionRow {
+    id: string;
+    user_id: string;
+    idea_id: string | null;
+    playbook_id: string;
+    playbook_version: number;
+    messages: DiscoveryMessage[] | null;
+    refined_prompt: unknown;
+    founder_fit: unknown;
+    completed_at: string | null;
+}
+
+function toRow(
+    session: SynthesisSession,
+    synthesis: { tldr: DiscoveryTldr | null; fullPrompt: RefinedPrompt; founderFit?: FounderFit | null }
+): Omit<SynthesisRow, 'created_at'> {
+    return {
+        session_id: session.sessionId,
+        user_id: session.userId,
+        idea_id: session.ideaId,
+        playbook_id: session.playbookId,
+        playbook_version: session.playbookVersion,
+        tldr: synthesis.tldr,
+        full_prompt: synthesis.fullPrompt,
+        founder_fit: synthesis.founderFit || null,
+        founder_fit_score: synthesis.tldr?.founderFitScore ?? null,
+        evaluation_criteria: synthesis.fullPrompt.evaluationCriteria
+    };
+}
+
+function toRecord(row: SynthesisRow): DiscoverySynthesisRecord {
+    return {
+        sessionId: row.session_id,
+        ideaId: row.idea_id,
+        playbookId: row.playbook_id,
+        playbookVersion: row.playbook_version,
+        tldr: row.tldr,
+        fullPrompt: row.full_prompt,
+        founderFit: row.founder_fit,
+        founderFitScore: row.founder_fit_score,
+        evaluationCriteria: row.evaluation_criteria,
+        createdAt: row.created_at
+    };
+}
+
+/**
+ * Stores a session's validated synthesis output, replacing any earlier one.
+ *
+ * @param session - The session the output was generated for
+ * @param output - Output validated by lib/synthesisSchema
+ * @throws When the row can't be written
+ */
+export async function saveSynthesis(session: SynthesisSession, output: DiscoverySynthesis) {
+    const { error } = await supabaseAdmin
+        .from('discovery_syntheses')
+        .upsert(toRow(session, output), { onConflict: 'session_id' });
+
+    if (error) {
+        console.error('Failed to save synthesis:', error);
+        throw new Error('Failed to save synthesis');
+    }
+}
+
+/**
+ * Fetches a session's stored synthesis.
+ *
+ * @param sessionId - The discovery session ID
+ * @returns The synthesis, or null if the session has none
+ */
+export async function getSynthesis(sessionId: string): Promise<DiscoverySynthesisRecord | null> {
+    const { data, error } = await supabaseAdmin
+        .from('discovery_syntheses')
+        .select('*')
+        .eq('session_id', sessionId)
+        .maybeSingle();
+
+    if (error) {
+        console.error('Failed to fetch synthesis:', error);
+        return null;
+    }
+
+    return data ? toRecord(data as SynthesisRow) : null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/**
+ * Recovers the synthesis of a session completed before discovery_syntheses.
+ *
+ * refined_prompt held either the full prompt or, when the model left out
+ * fullPrompt, the whole output. The TL;DR was dropped, but the raw output
+ * usually survives as the last assistant message of the transcript.
+ *
+ * @returns The recovered parts, or null if there is no valid full prompt
+ */
+function legacySynthesis(session: LegacySessionRow) {
+    const stored = asRecord(session.refined_prompt);
+    const fullPrompt = refinedPromptSchema.safeParse(stored?.fullPrompt ?? stored);
+    if (!fullPrompt.success) return null;
+
+    const lastReply = [...(session.messages || [])].reverse().find(m => m.role === 'assistant');
+    let transcriptOutput: Record<string, unknown> | null = null;
+    try {
+        transcriptOutput = asRecord(lastReply && JSON.parse(lastReply.content));
+    } catch {
+        // Not the synthesis JSON (e.g. synthesis was forced from an earlier phase)
+    }
+
+    const tldr = discoveryTldrSchema.safeParse(stored?.tldr ?? transcriptOutput?.tldr);
+    const founderFit = founderFitSchema.safeParse(session.founder_fit ?? stored?.founderFit ?? transcriptOutput?.founderFit);
+
+    return {
+        tldr: tldr.success ? tldr.data : null,
+        fullPrompt: fullPrompt.data,
+        founderFit: founderFit.success ? founderFit.data : null
+    };
+}
+
+/**
+ * Copies the synthesis of sessions completed before discovery_syntheses existed
+ * into it. Sessions that already have a row are left alone, so it can be run
+ * more than once.
+ *
+ * @param options.dryRun - Report what would be copied without writing anything
+ * @returns Counts of sessions copied, skipped (no valid full prompt) and failed
+ */
+export async function backfillSyntheses({ dryRun = false }: { dryRun?: boolean } = {}) {
+    const { data, error } = await supabaseAdmin
+        .from('discovery_sessions')
+        .select('id, user_id, idea_id, playbook_id, playbook_version, messages, refined_prompt, founder_fit, completed_at, discovery_syntheses(session_id)')
+        .eq('status', 'completed')
+        .not('refined_prompt', 'is', null);
+
+    if (error) throw new Error(`Failed to load sessions: ${error.message}`);
+
+    const sessions = (data || []) as Array<LegacySessionRow & { discovery_syntheses: unknown }>;
+    let copied = 0;
+    let skipped = 0;
+    let failed = 0;
+    for (const session of sessions) {
+        // The one-to-one embed comes back as an object (or an array, depending on the client)
+        const existing = session.discovery_syntheses;
+        if (Array.isArray(existing) ? existing.length > 0 : existing) continue;
+
+        const synthesis = legacySynthesis(session);
+        if (!synthesis) {
+            console.warn(`[Syntheses] Skipping ${session.id}: refined_prompt isn't a valid research prompt`);
+            skipped++;
+            continue;
+        }
+        if (!synthesis.tldr) {
+            console.warn(`[Syntheses] ${session.id}: TL;DR not recoverable, storing without it`);
+        }
+        if (dryRun) {
+            copied++;
+            continue;
+        }
+
+        const row = {
+            ...toRow({
+                sessionId: session.id,
+                userId: session.user_id,
+                ideaId: session.idea_id,
+                playbookId: session.playbook_id,
+                playbookVersion: session.playbook_version
+            }, synthesis),
+            ...(session.completed_at && { created_at: session.completed_at })
+        };
+        const { error: insertError } = await supabaseAdmin
+            .from('discovery_syntheses')
+            .upsert(row, { onConflict: 'session_id', ignoreDuplicates: true });
+
+        if (insertError) {
+            console.error(`[Syntheses] Failed to copy ${session.id}:`, insertError);
+            failed++;
+        } else {
+            copied++;
+        }
+    }
+
+    return { copied, skipped, failed };
+}
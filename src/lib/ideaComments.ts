@@ -0,0 +1,80 @@
+/**
+ * @module lib/ideaComments
+ * @description Anchors and @mentions for comments on idea reports.
+ *
+ * A member is mentioned by the part of their email address before the "@",
+ * e.g. "@ada" for ada@example.com. Pure and client-safe: the server resolves
+ * mentions when a comment is saved and the UI uses the same rules to suggest
+ * and highlight them.
+ */
+
+import type { CommentAnchor, WorkspaceMember } from '@/types';
+
+export const COMMENT_MAX_LENGTH = 5000;
+
+export const REPORT_ANCHOR: CommentAnchor = { section: 'report', key: null, label: null };
+
+const MENTION_PATTERN = /@([a-z0-9._+-]*[a-z0-9_+-])/gi;
+
+/**
+ * Identifies an anchor, e.g. to group threads or count them per report item.
+ */
+export function anchorId(anchor: Pick<CommentAnchor, 'section' | 'key'>): string {
+    return anchor.key === null ? anchor.section : `${anchor.section}:${anchor.key}`;
+}
+
+/**
+ * The handle a member is mentioned by, or null without an email address.
+ */
+export function mentionHandle(email: string | null): string | null {
+    return email ? email.split('@')[0].toLowerCase() : null;
+}
+
+/**
+ * The members mentioned in a comment.
+ *
+ * @param body - The comment text
+ * @param members - The idea's workspace members
+ * @returns Their user IDs, without duplicates
+ */
+export function extractMentions(body: string, members: Pick<WorkspaceMember, 'userId' | 'email'>[]): string[] {
+    const handles = new Set([...body.matchAll(MENTION_PATTERN)].map(match => match[1].toLowerCase()));
+    return members
+        .filter(member => {
+            const handle = mentionHandle(member.email);
+            return handle !== null && handles.has(handle);
+        })
+        .map(member => member.userId);
+}
+
+/**
+ * Splits a comment into plain text and mentions, for highlighting.
+ *
+ * @param body - The comment text
+ * @param handles - Handles of the workspace's members; other "@words" stay plain text
+ */
+export function splitMentions(body: string, handles: Set<string>): Array<{ text: string; mention: boolean }> {
+    const parts: Array<{ text: string; mention: boolean }> = [];
+    let last = 0;
+    for (const match of body.matchAll(MENTION_PATTERN)) {
+        if (!handles.has(match[1].toLowerCase())) continue;
+        if (match.index > last) parts.push({ text: body.slice(last, match.index), mention: false });
+        parts.push({ text: match[0], mention: true });
+        last = match.index + match[0].length;
+    }
+    if (last < body.length) parts.push({ text: body.slice(last), mention: false });
+    return parts;
+}
+
+/**
+ * The "@word" being typed just before the cursor, for suggesting members.
+ *
+ * @param text - The comment text
+ * @param cursor - The caret position
+ * @returns The partial handle and where its "@" starts, or null
+ */
+export function mentionQueryAt(text: string, cursor: number): { query: string; start: number } | null {
+    const match = /(^|\s)@([a-z0-9._+-]*)$/i.exec(text.slice(0, cursor));
+    if (!match) return null;
+    return { query: match[2].toLowerCase(), start: cursor - match[2].length - 1 };
+}
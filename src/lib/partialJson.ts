@@ -0,0 +1,161 @@
+/**
+ * @module lib/partialJson
+ * @description Tolerant parser for JSON that is still being streamed.
+ *
+ * Only values that are fully received are returned. Objects and arrays that
+ * are still open are returned with their completed members, so a consumer can
+ * render a list item by item while strings and numbers never show up half-written.
+ */
+
+interface Parsed {
+    value: unknown;
+    complete: boolean;
+}
+
+const INCOMPLETE: Parsed = { value: undefined, complete: false };
+
+class PartialJsonParser {
+    private pos = 0;
+
+    constructor(private readonly text: string) {}
+
+    parse(): Parsed {
+        return this.parseValue();
+    }
+
+    private skipWhitespace() {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) this.pos++;
+    }
+
+    private get atEnd() {
+        return this.pos >= this.text.length;
+    }
+
+    private parseValue(): Parsed {
+        this.skipWhitespace();
+        if (this.atEnd) return INCOMPLETE;
+
+        const char = this.text[this.pos];
+        if (char === '{') return this.parseObject();
+        if (char === '[') return this.parseArray();
+        if (char === '"') return this.parseString();
+        return this.parseLiteral();
+    }
+
+    private parseObject(): Parsed {
+        const result: Record<string, unknown> = {};
+        this.pos++; // {
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd) return { value: result, complete: false };
+            if (this.text[this.pos] === '}') {
+                this.pos++;
+                return { value: result, complete: true };
+            }
+
+            const key = this.parseString();
+            if (!key.complete) return { value: result, complete: false };
+
+            this.skipWhitespace();
+            if (this.atEnd || this.text[this.pos] !== ':') return { value: result, complete: false };
+            this.pos++; // :
+
+            const member = this.parseValue();
+            // Open containers are kept with what they have so far; open primitives are dropped
+            if (member.complete || (member.value !== null && typeof member.value === 'object')) {
+                result[key.value as string] = member.value;
+            }
+            if (!member.complete) return { value: result, complete: false };
+
+            this.skipWhitespace();
+            if (this.atEnd) return { value: result, complete: false };
+            if (this.text[this.pos] === ',') this.pos++;
+        }
+    }
+
+    private parseArray(): Parsed {
+        const result: unknown[] = [];
+        this.pos++; // [
+
+        while (true) {
+            this.skipWhitespace();
+            if (this.atEnd) return { value: result, complete: false };
+            if (this.text[this.pos] === ']') {
+                this.pos++;
+                return { value: result, complete: true };
+            }
+
+            const item = this.parseValue();
+            if (item.complete || (item.value !== null && typeof item.value === 'object')) {
+                result.push(item.value);
+            }
+            if (!item.complete) return { value: result, complete: false };
+
+            this.skipWhitespace();
+            if (this.atEnd) return { value: result, complete: false };
+            if (this.text[this.pos] === ',') this.pos++;
+        }
+    }
+
+    private parseString(): Parsed {
+        if (this.text[this.pos] !== '"') return INCOMPLETE;
+
+        let end = this.pos + 1;
+        while (end < this.text.length) {
+            if (this.text[end] === '\\') {
+                end += 2;
+                continue;
+            }
+            if (this.text[end] === '"') {
+                const value = JSON.parse(this.text.slice(this.pos, end + 1));
+                this.pos = end + 1;
+                return { value, complete: true };
+            }
+            end++;
+        }
+
+        this.pos = this.text.length;
+        return INCOMPLETE;
+    }
+
+    private parseLiteral(): Parsed {
+        const rest = this.text.slice(this.pos);
+        const match = /^(?:-?[\d.eE+-]+|true|false|null)/.exec(rest);
+        if (!match) {
+            if (['true', 'false', 'null'].some(keyword => keyword.startsWith(rest))) {
+                this.pos = this.text.length;
+                return INCOMPLETE;
+            }
+            throw new SyntaxError(`Unexpected character at position ${this.pos}`);
+        }
+
+        this.pos += match[0].length;
+        // A literal touching the end of the buffer may still be growing ("7" -> "72")
+        if (this.atEnd) return INCOMPLETE;
+        return { value: JSON.parse(match[0]), complete: true };
+    }
+}
+
+/**
+ * Parses the completed part of a streamed JSON object.
+ *
+ * Leading text such as a markdown code fence is skipped. Malformed input
+ * (as opposed to merely truncated input) yields null.
+ *
+ * @param text - The JSON received so far
+ * @returns The completed members of the top-level object, or null
+ */
+export function parsePartialJson(text: string): Record<string, unknown> | null {
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+
+    try {
+        const { value } = new PartialJsonParser(text.slice(start)).parse();
+        return value && typeof value === 'object' && !Array.isArray(value)
+            ? value as Record<string, unknown>
+            : null;
+    } catch {
+        return null;
+    }
+}
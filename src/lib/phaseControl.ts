@@ -0,0 +1,159 @@
+/**
+ * @module lib/phaseControl
+ * @description Structured phase control for Discovery Mode.
+ *
+ * In conversational phases the model answers with a JSON envelope holding its
+ * reply and, per phase objective, whether it is covered and how confidently
+ * (see PHASE_CONTROL_PROMPT). A phase advances once every objective is
+ * covered with enough confidence. Providers that ignore the envelope fall
+ * back to spotting the phase's hand-off phrases (transitionSignals). Phases
+ * and their objectives come from the session's playbook.
+ *
+ * Pure: shared by lib/discovery, the streaming route and scripts/testDiscoveryPrompts.ts.
+ */
+
+import { z } from 'zod';
+import { PHASE_ADVANCE_CONFIDENCE, PHASE_CONTROL_PROMPT } from '@/config/discoveryPrompts';
+import type { DiscoveryPlaybook, PlaybookPhase } from '@/config/discoveryPlaybooks';
+import { phaseChecklist } from '@/lib/discoveryFacts';
+import { findPhase, nextPhase } from '@/lib/discoveryPlaybooks';
+import type { DiscoveryFacts, PhaseObjectiveStatus } from '@/types';
+
+const envelopeSchema = z.object({
+    control: z.object({
+        objectives: z.array(z.object({
+            id: z.string(),
+            covered: z.boolean(),
+            confidence: z.number().min(0).max(1),
+            fact: z.string().optional()
+        }))
+    }),
+    reply: z.string().min(1)
+});
+
+export interface DiscoveryReply {
+    /** The text shown to the founder */
+    reply: string;
+    /** The phase's objectives; null when the reply wasn't a valid envelope */
+    progress: PhaseObjectiveStatus[] | null;
+}
+
+/**
+ * Whether replies in this phase carry structured phase control, i.e. it is
+ * a playbook phase with objectives (synthesis and complete are not).
+ */
+export const usesPhaseControl = (phase?: PlaybookPhase): phase is PlaybookPhase => (phase?.objectives.length || 0) > 0;
+
+/**
+ * The response-format instructions for a phase, or '' for phases without objectives.
+ *
+ * @param phase - The current playbook phase, if the session is in one
+ * @param facts - The session's checklist, so the model builds on what it already learned
+ */
+export function phaseControlPrompt(phase: PlaybookPhase | undefined, facts: DiscoveryFacts = {}): string {
+    if (!usesPhaseControl(phase)) return '';
+    return PHASE_CONTROL_PROMPT.replace(
+        '{objectives}',
+        phaseChecklist(facts, phase)
+            .map(objective => `- ${objective.id}: ${objective.label}${objective.fact ? ` (so far: ${objective.fact})` : ''}`)
+            .join('\n')
+    );
+}
+
+/**
+ * Splits a complete model response into the reply and the objective coverage.
+ * Objectives the model didn't report count as not covered; unknown ids are ignored.
+ *
+ * @param content - The raw model output
+ * @param phase - The playbook phase the reply was written in, if any
+ * @returns The reply, plus progress when the envelope was valid
+ */
+export function parseDiscoveryReply(content: string, phase?: PlaybookPhase): DiscoveryReply {
+    if (!usesPhaseControl(phase)) return { reply: content, progress: null };
+
+    let envelope: z.infer<typeof envelopeSchema>;
+    try {
+        const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+        envelope = envelopeSchema.parse(JSON.parse(json));
+    } catch {
+        return { reply: content, progress: null };
+    }
+
+    const reported = new Map(envelope.control.objectives.map(objective => [objective.id, objective]));
+    return {
+        reply: envelope.reply,
+        progress: phase.objectives.map(({ id, label }) => ({
+            id,
+            label,
+            covered: reported.get(id)?.covered ?? false,
+            confidence: reported.get(id)?.confidence ?? 0,
+            fact: reported.get(id)?.fact?.trim() || null
+        }))
+    };
+}
+
+/**
+ * Reads the reply out of an envelope that is still streaming, so it can be
+ * shown token by token. Escape sequences are only decoded once complete.
+ *
+ * @param content - The raw model output received so far
+ * @returns The reply so far ('' before it starts), or null when the output isn't an envelope
+ */
+export function streamedReplyText(content: string): string | null {
+    const start = content.trimStart();
+    if (!start) return '';
+    if (!start.startsWith('{') && !start.startsWith('`')) return null;
+
+    const key = /"reply"\s*:\s*"/.exec(content);
+    if (!key) return '';
+
+    const body = content.slice(key.index + key[0].length);
+    let end = 0;
+    while (end < body.length && body[end] !== '"') {
+        const step = body[end] !== '\\' ? 1 : body[end + 1] === 'u' ? 6 : 2;
+        if (end + step > body.length) break;
+        end += step;
+    }
+
+    try {
+        return JSON.parse(`"${body.slice(0, end)}"`);
+    } catch {
+        return '';
+    }
+}
+
+/**
+ * Detects if the AI's response signals a phase transition.
+ *
+ * Fallback for replies without structured control: scans the response for
+ * the phase's transition signals that indicate readiness to move on.
+ *
+ * @param playbook - The session's playbook
+ * @param currentPhase - The current discovery phase
+ * @param aiResponse - The AI's latest response
+ * @returns The next phase (same as current if no transition detected)
+ */
+export function detectPhaseTransition(playbook: DiscoveryPlaybook, currentPhase: string, aiResponse: string): string {
+    const lowerResponse = aiResponse.toLowerCase();
+    const signals = findPhase(playbook, currentPhase)?.transitionSignals || [];
+
+    return signals.some(signal => lowerResponse.includes(signal.toLowerCase()))
+        ? nextPhase(playbook, currentPhase)
+        : currentPhase;
+}
+
+/**
+ * Decides the phase after a reply: from objective coverage when the model
+ * reported it, otherwise from the string signals.
+ *
+ * @param playbook - The session's playbook
+ * @param currentPhase - The phase the reply was written in
+ * @param reply - The parsed reply
+ * @returns The next phase (same as current if it isn't finished)
+ */
+export function resolveNextPhase(playbook: DiscoveryPlaybook, currentPhase: string, { reply, progress }: DiscoveryReply): string {
+    if (!progress) return detectPhaseTransition(playbook, currentPhase, reply);
+
+    const finished = progress.every(objective => objective.covered && objective.confidence >= PHASE_ADVANCE_CONFIDENCE);
+    return finished ? nextPhase(playbook, currentPhase) : currentPhase;
+}
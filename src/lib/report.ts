@@ -0,0 +1,534 @@
+/**
+ * @module lib/report
+ * @description Renders an idea's research packet as Markdown or PDF.
+ *
+ * Both formats are produced from the same section order so an advisor gets the
+ * same report regardless of format: summary metrics, growth projection,
+ * competitors, action plan, and (when present) the discovery TL;DR,
+ * founder-fit assessment and evaluation criteria.
+ *
+ * Server-only: used by src/app/actions/export.ts.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import type { AnalysisResult, Idea, ReportSection } from '@/types';
+
+export type ReportFormat = 'markdown' | 'pdf';
+
+const formatExportDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+/**
+ * Builds a filesystem-friendly filename for an exported report.
+ *
+ * @param idea - The idea being exported
+ * @param format - The export format
+ * @returns e.g. `ai-bookkeeping-research.pdf`
+ */
+export function reportFilename(idea: Pick<Idea, 'title'>, format: ReportFormat) {
+    const slug = idea.title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60) || 'idea';
+    return `${slug}-research.${format === 'pdf' ? 'pdf' : 'md'}`;
+}
+
+const SECTION_FIELDS: Record<ReportSection, Array<keyof AnalysisResult>> = {
+    growth: ['growthMetrics'],
+    competitors: ['competitors', 'trend'],
+    actionPlan: ['actionPlan'],
+    discoveryTldr: ['discoveryTldr'],
+    founderFit: ['founderFit'],
+    evaluationCriteria: ['evaluationCriteria']
+};
+
+/**
+ * Removes hidden sections from an analysis result before it leaves the server.
+ *
+ * Hiding founder-fit also strips the founder-fit score from the discovery TL;DR.
+ *
+ * @param analysis - The full analysis result
+ * @param hiddenSections - Sections the viewer must not receive
+ * @returns A copy of the analysis without the hidden data
+ */
+export function redactAnalysis(analysis: AnalysisResult, hiddenSections: ReportSection[]): AnalysisResult {
+    const redacted: AnalysisResult = { ...analysis };
+    delete redacted.error;
+
+    for (const section of hiddenSections) {
+        for (const field of SECTION_FIELDS[section] || []) {
+            delete redacted[field];
+        }
+    }
+
+    if (hiddenSections.includes('founderFit') && redacted.discoveryTldr) {
+        redacted.discoveryTldr = { ...redacted.discoveryTldr };
+        delete redacted.discoveryTldr.founderFitScore;
+    }
+
+    return redacted;
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+const mdCell = (value: string | number | undefined | null) =>
+    String(value ?? '—').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+/**
+ * Renders the research packet as GitHub-flavored Markdown.
+ *
+ * @param idea - The idea with its analysis_result
+ * @returns The Markdown document
+ */
+export function buildReportMarkdown(idea: Idea): string {
+    const analysis: AnalysisResult = idea.analysis_result || {};
+    const lines: string[] = [];
+
+    lines.push(`# ${idea.title}`, '');
+    if (idea.description) {
+        lines.push(...idea.description.split(/\r?\n/).map(line => `> ${line}`), '');
+    }
+    lines.push(`_Research packet exported from Ideas Vault on ${formatExportDate(new Date())}._`, '');
+
+    lines.push('## Summary', '', '| Metric | Value |', '| --- | --- |');
+    lines.push(`| Readiness Score | ${analysis.readinessScore !== undefined ? `${analysis.readinessScore}/100` : '—'} |`);
+    lines.push(`| Market Size | ${mdCell(analysis.marketSize)} |`);
+    lines.push(`| Target Audience | ${mdCell(analysis.targetAudience)} |`);
+    lines.push(`| Top Competitor | ${mdCell(analysis.topCompetitor)} |`);
+    lines.push(`| Market Trend | ${mdCell(analysis.trend)} |`, '');
+
+    if (analysis.growthMetrics?.length) {
+        lines.push('## Market Growth Projection', '', '| Year | Market ($B) |', '| --- | --- |');
+        analysis.growthMetrics.forEach(m => lines.push(`| ${mdCell(m.year)} | ${mdCell(m.value)} |`));
+        lines.push('');
+    }
+
+    if (analysis.competitors?.length) {
+        lines.push('## Competitors', '', '| Company | Strength | Weakness |', '| --- | --- | --- |');
+        analysis.competitors.forEach(c =>
+            lines.push(`| ${mdCell(c.name)} | ${mdCell(c.strength)} | ${mdCell(c.weakness)} |`)
+        );
+        lines.push('');
+    }
+
+    if (analysis.actionPlan?.length) {
+        lines.push('## Action Plan', '');
+        analysis.actionPlan.forEach((step, idx) => lines.push(`${idx + 1}. ${step}`));
+        lines.push('');
+    }
+
+    if (analysis.discoveryTldr) {
+        const tldr = analysis.discoveryTldr;
+        lines.push('## Discovery TL;DR', '');
+        lines.push(`- **Refined idea:** ${tldr.refinedIdea}`);
+        lines.push(`- **Target market:** ${tldr.targetMarket}`);
+        lines.push(`- **Key differentiator:** ${tldr.keyDifferentiator}`);
+        if (tldr.founderFitScore !== undefined) lines.push(`- **Founder-fit score:** ${tldr.founderFitScore}/10`);
+        if (tldr.mainRisks?.length) {
+            lines.push('- **Main risks:**');
+            tldr.mainRisks.forEach(risk => lines.push(`  - ${risk}`));
+        }
+        lines.push('');
+    }
+
+    if (analysis.founderFit) {
+        const fit = analysis.founderFit;
+        lines.push('## Founder Fit', '');
+        lines.push(`- **Skills in hand:** ${fit.technicalSkills.has.join(', ') || '—'}`);
+        lines.push(`- **Skills to acquire:** ${fit.technicalSkills.needs.join(', ') || '—'}`);
+        lines.push(`- **Domain expertise:** ${fit.domainExpertise}`);
+        lines.push(`- **Time:** ${fit.resources.time}`);
+        lines.push(`- **Capital:** ${fit.resources.capital}`);
+        lines.push(`- **Network:** ${fit.resources.network}`);
+        lines.push(`- **Motivation:** ${fit.motivation}`, '');
+        if (fit.learningPath.length) {
+            lines.push('**Learning path**', '');
+            fit.learningPath.forEach(item => lines.push(`- ${item}`));
+            lines.push('');
+        }
+        if (fit.hireRecommendations.length) {
+            lines.push('**Hire recommendations**', '');
+            fit.hireRecommendations.forEach(item => lines.push(`- ${item}`));
+            lines.push('');
+        }
+    }
+
+    if (analysis.evaluationCriteria?.length) {
+        lines.push('## Evaluation Criteria', '');
+        analysis.evaluationCriteria.forEach(item => lines.push(`- ${item}`));
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------------
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+    heading: rgb(0.31, 0.27, 0.9),
+    text: rgb(0.12, 0.16, 0.23),
+    muted: rgb(0.39, 0.45, 0.55),
+    rule: rgb(0.85, 0.87, 0.91),
+    bar: rgb(0.58, 0.64, 0.72),
+    barHighlight: rgb(0.39, 0.4, 0.95),
+    tableHeader: rgb(0.95, 0.96, 0.98)
+};
+
+// Characters outside Latin-1 that the WinAnsi-encoded standard fonts still support
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/**
+ * Replaces characters the built-in PDF fonts cannot encode (emoji, CJK, etc.)
+ * so a single stray glyph never fails the whole export.
+ */
+const toWinAnsi = (text: string) =>
+    Array.from(text)
+        .map(ch => (ch.charCodeAt(0) <= 0xff || WIN_ANSI_EXTRAS.has(ch) ? ch : ch === '→' ? '->' : '?'))
+        .join('')
+        .replace(/\t/g, '    ');
+
+/**
+ * Wraps text into lines that fit within maxWidth at the given font size.
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+
+    for (const paragraph of toWinAnsi(text).split(/\r?\n/)) {
+        let current = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = current ? `${current} ${word}` : word;
+            if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+                current = candidate;
+                continue;
+            }
+            if (current) lines.push(current);
+
+            // Hard-break words longer than a full line (URLs, identifiers)
+            let remainder = word;
+            while (font.widthOfTextAtSize(remainder, size) > maxWidth) {
+                let cut = remainder.length - 1;
+                while (cut > 1 && font.widthOfTextAtSize(remainder.slice(0, cut), size) > maxWidth) cut--;
+                lines.push(remainder.slice(0, cut));
+                remainder = remainder.slice(cut);
+            }
+            current = remainder;
+        }
+        lines.push(current);
+    }
+
+    return lines;
+}
+
+/**
+ * Minimal flowing-layout writer on top of pdf-lib that handles the cursor
+ * position and page breaks.
+ */
+class PdfWriter {
+    private page!: PDFPage;
+    private y = 0;
+
+    constructor(
+        private readonly doc: PDFDocument,
+        private readonly regular: PDFFont,
+        private readonly bold: PDFFont
+    ) {
+        this.addPage();
+    }
+
+    private addPage() {
+        this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        this.y = PAGE_HEIGHT - MARGIN;
+    }
+
+    private ensureSpace(height: number) {
+        if (this.y - height < MARGIN) this.addPage();
+    }
+
+    spacer(height = 12) {
+        this.y -= height;
+    }
+
+    text(
+        text: string,
+        options: { size?: number; bold?: boolean; color?: RGB; indent?: number; width?: number; lineGap?: number } = {}
+    ) {
+        const { size = 10.5, bold = false, color = COLORS.text, indent = 0, lineGap = 4 } = options;
+        const font = bold ? this.bold : this.regular;
+        const width = options.width ?? CONTENT_WIDTH - indent;
+
+        for (const line of wrapText(text, font, size, width)) {
+            this.ensureSpace(size + lineGap);
+            this.y -= size;
+            this.page.drawText(line, { x: MARGIN + indent, y: this.y, size, font, color });
+            this.y -= lineGap;
+        }
+    }
+
+    heading(text: string) {
+        this.ensureSpace(48);
+        this.spacer(14);
+        this.text(text, { size: 14, bold: true, color: COLORS.heading });
+        this.page.drawLine({
+            start: { x: MARGIN, y: this.y },
+            end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+            thickness: 0.75,
+            color: COLORS.rule
+        });
+        this.spacer(10);
+    }
+
+    keyValue(label: string, value: string) {
+        this.text(label.toUpperCase(), { size: 8, bold: true, color: COLORS.muted, lineGap: 2 });
+        this.text(value || '—', { lineGap: 8 });
+    }
+
+    list(items: string[], numbered = false) {
+        items.forEach((item, idx) => {
+            const marker = numbered ? `${idx + 1}.` : '•';
+            const lines = wrapText(item, this.regular, 10.5, CONTENT_WIDTH - 18);
+            this.ensureSpace(15);
+            this.page.drawText(marker, { x: MARGIN, y: this.y - 10.5, size: 10.5, font: this.bold, color: COLORS.heading });
+            lines.forEach(line => {
+                this.ensureSpace(15);
+                this.y -= 10.5;
+                this.page.drawText(line, { x: MARGIN + 18, y: this.y, size: 10.5, font: this.regular, color: COLORS.text });
+                this.y -= 4;
+            });
+            this.spacer(3);
+        });
+    }
+
+    table(headers: string[], rows: string[][], columnWidths: number[]) {
+        const size = 9.5;
+        const padding = 5;
+
+        const drawRow = (cells: string[], isHeader: boolean) => {
+            const font = isHeader ? this.bold : this.regular;
+            const wrapped = cells.map((cell, i) => wrapText(cell, font, size, columnWidths[i] - padding * 2));
+            const height = Math.max(...wrapped.map(lines => lines.length)) * (size + 3) + padding * 2;
+
+            this.ensureSpace(height);
+            if (isHeader) {
+                this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: CONTENT_WIDTH, height, color: COLORS.tableHeader });
+            }
+
+            let x = MARGIN;
+            wrapped.forEach((lines, i) => {
+                lines.forEach((line, lineIdx) => {
+                    this.page.drawText(line, {
+                        x: x + padding,
+                        y: this.y - padding - size - lineIdx * (size + 3),
+                        size,
+                        font,
+                        color: isHeader ? COLORS.muted : COLORS.text
+                    });
+                });
+                x += columnWidths[i];
+            });
+
+            this.y -= height;
+            this.page.drawLine({
+                start: { x: MARGIN, y: this.y },
+                end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+                thickness: 0.5,
+                color: COLORS.rule
+            });
+        };
+
+        drawRow(headers, true);
+        rows.forEach(row => drawRow(row, false));
+        this.spacer(6);
+    }
+
+    /**
+     * Bar chart matching the dashboard GrowthChart: one bar per year,
+     * final year highlighted.
+     */
+    barChart(data: Array<{ year: string; value: number }>) {
+        const chartHeight = 150;
+        const labelSpace = 30;
+        this.ensureSpace(chartHeight + labelSpace + 10);
+
+        const max = Math.max(...data.map(d => d.value), 0) || 1;
+        const slot = CONTENT_WIDTH / data.length;
+        const barWidth = Math.min(48, slot * 0.6);
+        const baseY = this.y - chartHeight;
+
+        data.forEach((point, idx) => {
+            const height = Math.max(1, (point.value / max) * (chartHeight - 16));
+            const x = MARGIN + slot * idx + (slot - barWidth) / 2;
+            this.page.drawRectangle({
+                x,
+                y: baseY,
+                width: barWidth,
+                height,
+                color: idx === data.length - 1 ? COLORS.barHighlight : COLORS.bar
+            });
+
+            const valueLabel = toWinAnsi(`$${point.value}B`);
+            const yearLabel = toWinAnsi(point.year);
+            this.page.drawText(valueLabel, {
+                x: x + (barWidth - this.bold.widthOfTextAtSize(valueLabel, 8)) / 2,
+                y: baseY + height + 4,
+                size: 8,
+                font: this.bold,
+                color: COLORS.text
+            });
+            this.page.drawText(yearLabel, {
+                x: x + (barWidth - this.regular.widthOfTextAtSize(yearLabel, 9)) / 2,
+                y: baseY - 14,
+                size: 9,
+                font: this.regular,
+                color: COLORS.muted
+            });
+        });
+
+        this.page.drawLine({
+            start: { x: MARGIN, y: baseY },
+            end: { x: PAGE_WIDTH - MARGIN, y: baseY },
+            thickness: 0.75,
+            color: COLORS.rule
+        });
+        this.y = baseY - labelSpace;
+    }
+
+    /**
+     * Large readiness score with a progress bar.
+     */
+    score(value: number) {
+        this.ensureSpace(60);
+        this.text('READINESS SCORE', { size: 8, bold: true, color: COLORS.muted, lineGap: 6 });
+        this.y -= 28;
+        this.page.drawText(String(value), { x: MARGIN, y: this.y, size: 32, font: this.bold, color: COLORS.heading });
+        this.page.drawText('/100', {
+            x: MARGIN + this.bold.widthOfTextAtSize(String(value), 32) + 4,
+            y: this.y,
+            size: 14,
+            font: this.regular,
+            color: COLORS.muted
+        });
+        this.y -= 12;
+        this.page.drawRectangle({ x: MARGIN, y: this.y, width: 200, height: 5, color: COLORS.rule });
+        this.page.drawRectangle({ x: MARGIN, y: this.y, width: 2 * Math.max(0, Math.min(100, value)), height: 5, color: COLORS.heading });
+        this.spacer(16);
+    }
+
+    footer(label: string) {
+        const pages = this.doc.getPages();
+        pages.forEach((page, idx) => {
+            const text = toWinAnsi(`${label}  ·  Page ${idx + 1} of ${pages.length}`);
+            page.drawText(text, {
+                x: MARGIN,
+                y: MARGIN / 2,
+                size: 8,
+                font: this.regular,
+                color: COLORS.muted
+            });
+        });
+    }
+}
+
+/**
+ * Renders the research packet as a PDF document.
+ *
+ * Uses the built-in Helvetica fonts so no font files need to ship with the app.
+ *
+ * @param idea - The idea with its analysis_result
+ * @returns The PDF bytes
+ * @keyTechnologies pdf-lib
+ */
+export async function buildReportPdf(idea: Idea): Promise<Uint8Array> {
+    const analysis: AnalysisResult = idea.analysis_result || {};
+    const doc = await PDFDocument.create();
+    doc.setTitle(toWinAnsi(`${idea.title} – Research Packet`));
+    doc.setProducer('Ideas Vault');
+
+    const writer = new PdfWriter(
+        doc,
+        await doc.embedFont(StandardFonts.Helvetica),
+        await doc.embedFont(StandardFonts.HelveticaBold)
+    );
+
+    writer.text(idea.title, { size: 22, bold: true, lineGap: 6 });
+    if (idea.description) writer.text(idea.description, { color: COLORS.muted, lineGap: 4 });
+    writer.spacer(10);
+
+    if (analysis.readinessScore !== undefined) writer.score(analysis.readinessScore);
+
+    writer.heading('Summary');
+    writer.keyValue('Market Size', analysis.marketSize || '');
+    writer.keyValue('Target Audience', analysis.targetAudience || '');
+    writer.keyValue('Top Competitor', analysis.topCompetitor || '');
+    writer.keyValue('Market Trend', analysis.trend || '');
+
+    if (analysis.growthMetrics?.length) {
+        writer.heading('Market Growth Projection');
+        writer.barChart(analysis.growthMetrics);
+    }
+
+    if (analysis.competitors?.length) {
+        writer.heading('Competitors');
+        writer.table(
+            ['Company', 'Strength', 'Weakness'],
+            analysis.competitors.map(c => [c.name, c.strength, c.weakness]),
+            [CONTENT_WIDTH * 0.24, CONTENT_WIDTH * 0.38, CONTENT_WIDTH * 0.38]
+        );
+    }
+
+    if (analysis.actionPlan?.length) {
+        writer.heading('Action Plan');
+        writer.list(analysis.actionPlan, true);
+    }
+
+    if (analysis.discoveryTldr) {
+        const tldr = analysis.discoveryTldr;
+        writer.heading('Discovery TL;DR');
+        writer.keyValue('Refined Idea', tldr.refinedIdea);
+        writer.keyValue('Target Market', tldr.targetMarket);
+        writer.keyValue('Key Differentiator', tldr.keyDifferentiator);
+        if (tldr.founderFitScore !== undefined) writer.keyValue('Founder-Fit Score', `${tldr.founderFitScore}/10`);
+        if (tldr.mainRisks?.length) {
+            writer.text('MAIN RISKS', { size: 8, bold: true, color: COLORS.muted, lineGap: 4 });
+            writer.list(tldr.mainRisks);
+        }
+    }
+
+    if (analysis.founderFit) {
+        const fit = analysis.founderFit;
+        writer.heading('Founder Fit');
+        writer.keyValue('Skills In Hand', fit.technicalSkills.has.join(', '));
+        writer.keyValue('Skills To Acquire', fit.technicalSkills.needs.join(', '));
+        writer.keyValue('Domain Expertise', fit.domainExpertise);
+        writer.keyValue('Time', fit.resources.time);
+        writer.keyValue('Capital', fit.resources.capital);
+        writer.keyValue('Network', fit.resources.network);
+        writer.keyValue('Motivation', fit.motivation);
+        if (fit.learningPath.length) {
+            writer.text('LEARNING PATH', { size: 8, bold: true, color: COLORS.muted, lineGap: 4 });
+            writer.list(fit.learningPath);
+        }
+        if (fit.hireRecommendations.length) {
+            writer.text('HIRE RECOMMENDATIONS', { size: 8, bold: true, color: COLORS.muted, lineGap: 4 });
+            writer.list(fit.hireRecommendations);
+        }
+    }
+
+    if (analysis.evaluationCriteria?.length) {
+        writer.heading('Evaluation Criteria');
+        writer.list(analysis.evaluationCriteria);
+    }
+
+    writer.footer(`Ideas Vault research packet · exported ${formatExportDate(new Date())}`);
+
+    return doc.save();
+}
@@ -0,0 +1,245 @@
+/**
+ * @module lib/research
+ * @description Core AI research pipeline for startup ideas.
+ *
+ * Server-only: runs inside the research worker (scripts/researchWorker.ts)
+ * via lib/researchJobs, never directly from the browser.
+ */
+
+import { createHash } from 'crypto';
+import type OpenAI from 'openai';
+import { z } from 'zod';
+import { assertOwnAsset, downloadAssetAsDataUrl } from '@/lib/supabaseAdmin';
+import { parsePartialJson } from '@/lib/partialJson';
+import { withAIFallback, type AIRequestContext } from '@/lib/aiProviders';
+import { toTokenUsage, type TokenUsage } from '@/lib/usage';
+
+export const researchSchema = z.object({
+    readinessScore: z.number().min(0).max(100),
+    marketSize: z.string(),
+    targetAudience: z.string(),
+    topCompetitor: z.string(),
+    trend: z.string(),
+    growthMetrics: z.array(z.object({
+        year: z.string(),
+        value: z.number()
+    })),
+    competitors: z.array(z.object({
+        name: z.string(),
+        strength: z.string(),
+        weakness: z.string()
+    })),
+    actionPlan: z.array(z.string())
+});
+
+export type ResearchResult = z.infer<typeof researchSchema>;
+
+export type PartialResearchResult = Partial<ResearchResult>;
+
+/**
+ * A finished research run together with what produced it, so every stored
+ * version can be traced back to its model, provider and exact prompt.
+ */
+export interface ResearchRun {
+    result: ResearchResult;
+    model: string;
+    provider: string;
+    promptHash: string;
+    /** Token counts reported by the provider, if any */
+    usage: TokenUsage | null;
+}
+
+/**
+ * Validates a partially streamed research result field by field.
+ *
+ * Fields that fail their schema are left out; for list fields (growthMetrics,
+ * competitors, actionPlan) only the items that are already valid are kept,
+ * so lists grow item by item while the model is still writing.
+ *
+ * @param partial - Output of parsePartialJson
+ * @returns The fields that already satisfy researchSchema
+ */
+export function validatePartialResearch(partial: Record<string, unknown>): PartialResearchResult {
+    const validated: Record<string, unknown> = {};
+
+    for (const [key, fieldSchema] of Object.entries(researchSchema.shape)) {
+        const value = partial[key];
+        if (value === undefined) continue;
+
+        if (fieldSchema instanceof z.ZodArray) {
+            if (!Array.isArray(value)) continue;
+            const items = value.filter(item => fieldSchema.element.safeParse(item).success);
+            if (items.length > 0) validated[key] = items;
+        } else if (fieldSchema.safeParse(value).success) {
+            validated[key] = value;
+        }
+    }
+
+    return validated as PartialResearchResult;
+}
+
+/**
+ * Analyzes a startup idea using GPT-4o.
+ * 
+ * Takes the user's title and description and returns a comprehensive 
+ * research packet including market metrics and an action plan.
+ * The response is forced into a valid JSON format via system prompting and
+ * streamed, so callers can show sections as soon as they are complete; the
+ * final result is still validated against the full schema.
+ * When the idea was captured from a sketch or photo, the image is attached
+ * to the request so a vision-capable model can use it as context.
+ * 
+ * @param {string} title - The title of the startup concept
+ * @param {string} description - Detailed description of the idea
+ * @param ai - The requesting user and their routing config (routed as 'research', with fallback)
+ * @param image - Optional captured image (owner and path in vault-assets)
+ * @param onPartial - Called with the validated fields each time a new one completes
+ * @returns {Promise<ResearchRun>} The validated research packet plus model, provider and prompt hash
+ * @keyTechnologies OpenAI, GPT-4o, Zod
+ */
+export async function runResearch(
+    title: string,
+    description: string,
+    ai: AIRequestContext,
+    image?: { userId: string, assetPath: string },
+    onPartial?: (partial: PartialResearchResult) => void
+): Promise<ResearchRun> {
+    console.log('[Research] Starting research for:', title);
+
+    const systemPrompt = `You are an experienced startup research analyst. Your job is to ANALYZE and VALIDATE startup ideas by researching the market, competitors, and viability. The current date is January 2026.
+
+## Your Role:
+- YOU do the research and analysis - don't tell the founder to "go interview customers" or "validate the market"
+- YOU identify competitors, market gaps, and realistic opportunities
+- YOU provide actionable intelligence based on your analysis
+- Think like a thorough due diligence analyst, not a cheerleader
+
+## Analysis Standards:
+1. **Honest assessment** - If an idea has problems, say so clearly
+2. **Real competitor research** - Name actual companies, not generic categories
+3. **Specific market data** - Reference real market sizes when possible, acknowledge when estimating
+4. **Grounded action steps** - What should the founder BUILD or DO based on YOUR findings
+
+## Scoring (be conservative):
+- 0-30: Fundamental issues (saturated market, no clear differentiation, technically infeasible)
+- 31-50: Interesting but major gaps (unclear value prop, tough competitive landscape)
+- 51-70: Solid concept (clear problem, identifiable path forward, competitive but possible)
+- 71-85: Strong idea (validated problem space, clear differentiation, reasonable market)
+- 86-100: Exceptional (only with evidence of real traction or unique unfair advantage)
+
+## Action Plan Guidelines:
+- Based on YOUR analysis, recommend specific next steps
+- Focus on: building MVP features, targeting specific customer segments, differentiation strategies
+- Can mention IP protection IF the idea has genuinely novel technical innovation
+- Don't recommend "research" or "validation" - YOU just did that
+- Be specific about WHAT to build and WHO to target based on your competitive analysis
+
+Return JSON with this structure:
+{
+    "readinessScore": number (0-100),
+    "marketSize": "string (e.g., $2.1B SAM - cite basis for estimate)",
+    "targetAudience": "string (specific: role, company size, pain point)",
+    "topCompetitor": "string (single most direct competitor)",
+    "trend": "string (current market reality as of 2026)",
+    "growthMetrics": [{"year": "2026", "value": number}, {"year": "2027", "value": number}, {"year": "2028", "value": number}, {"year": "2029", "value": number}, {"year": "2030", "value": number}],
+    "competitors": [{"name": "string", "strength": "string", "weakness": "string"}, ...2-4 real companies],
+    "actionPlan": ["step 1 based on analysis", "step 2", "step 3"]
+}
+
+Return ONLY valid JSON. No markdown, no explanation.`;
+
+    try {
+        console.log('[Research] Calling AI API...');
+
+        const userPrompt = `Idea Title: ${title}\nIdea Description: ${description}\n\nRespond with ONLY the JSON object, no other text.`;
+
+        const promptHash = createHash('sha256')
+            .update(`${systemPrompt}\n\n${userPrompt}${image ? `\n\n[image] ${image.assetPath}` : ''}`)
+            .digest('hex');
+
+        let userContent: OpenAI.Chat.ChatCompletionUserMessageParam['content'] = userPrompt;
+        if (image) {
+            assertOwnAsset(image.userId, image.assetPath);
+            console.log('[Research] Attaching captured image to the request');
+            userContent = [
+                { type: 'text', text: `${userPrompt}\n\nThe attached image is the founder's original sketch/whiteboard of the idea.` },
+                { type: 'image_url', image_url: { url: await downloadAssetAsDataUrl(image.assetPath) } }
+            ];
+        }
+
+        // Note: response_format is OpenAI-specific, removed for compatibility with other providers
+        // A failed provider restarts the stream on the next one in the user's route
+        const { result: { text: content, usage }, candidate } = await withAIFallback('research', ai, async ({ client, model, profileName, baseURL }) => {
+            console.log('[Research] Using provider:', { profileName, baseURL, model });
+
+            const stream = await client.chat.completions.create({
+                model,
+                messages: [
+                    { role: "system", content: systemPrompt },
+                    { role: "user", content: userContent }
+                ],
+                stream: true,
+                // Providers send token counts in a final chunk without choices
+                stream_options: { include_usage: true }
+            });
+
+            let text = '';
+            let lastPartial = '';
+            let usage: TokenUsage | null = null;
+            for await (const chunk of stream) {
+                if (chunk.usage) usage = toTokenUsage(chunk.usage);
+                const delta = chunk.choices[0]?.delta?.content;
+                if (!delta) continue;
+                text += delta;
+
+                if (onPartial) {
+                    const parsed = parsePartialJson(text);
+                    if (!parsed) continue;
+                    const partial = validatePartialResearch(parsed);
+                    const serialized = JSON.stringify(partial);
+                    if (serialized !== lastPartial) {
+                        lastPartial = serialized;
+                        onPartial(partial);
+                    }
+                }
+            }
+            return { text, usage };
+        });
+
+        console.log('[Research] AI response received');
+        console.log('[Research] Raw content length:', content?.length);
+
+        if (!content) throw new Error("No response from AI");
+
+        // Try to extract JSON from the response (handle markdown code blocks)
+        let jsonStr = content.trim();
+
+        // Remove markdown code blocks if present
+        if (jsonStr.startsWith('```json')) {
+            jsonStr = jsonStr.slice(7);
+        } else if (jsonStr.startsWith('```')) {
+            jsonStr = jsonStr.slice(3);
+        }
+        if (jsonStr.endsWith('```')) {
+            jsonStr = jsonStr.slice(0, -3);
+        }
+        jsonStr = jsonStr.trim();
+
+        console.log('[Research] Attempting to parse JSON...');
+        const result = JSON.parse(jsonStr);
+        console.log('[Research] Parsed result, validating schema...');
+        const validated = researchSchema.parse(result);
+        console.log('[Research] Success! Readiness score:', validated.readinessScore);
+        return {
+            result: validated,
+            model: candidate.model,
+            provider: candidate.provider,
+            usage,
+            promptHash
+        };
+    } catch (error) {
+        console.error("[Research] FAILED:", error);
+        throw new Error(`Failed to process idea with AI: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
@@ -0,0 +1,95 @@
+/**
+ * @module lib/researchDiff
+ * @description Compares two research versions of the same idea.
+ *
+ * Pure and client-safe: the detail page computes diffs in the browser from
+ * the versions it already loaded.
+ */
+
+import type { ActionStepChange, AnalysisResult, ResearchDiff, TextChange } from '@/types';
+
+// Two steps sharing at least this share of their words count as a rewording
+const REWORD_SIMILARITY = 0.35;
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const textChange = (before?: string, after?: string): TextChange | null =>
+    normalize(before || '') === normalize(after || '')
+        ? null
+        : { before: before ?? null, after: after ?? null };
+
+const words = (text: string) => new Set(normalize(text).match(/[a-z0-9$%]+/g) || []);
+
+/**
+ * Jaccard similarity of the word sets of two sentences (0 = disjoint, 1 = same words).
+ */
+function similarity(a: string, b: string) {
+    const wordsA = words(a);
+    const wordsB = words(b);
+    if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+    let shared = 0;
+    wordsA.forEach(word => { if (wordsB.has(word)) shared++; });
+    return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Matches each new action step to the most similar unused old step.
+ * Identical steps are unchanged, similar ones reworded, the rest added/removed.
+ */
+function diffActionPlan(before: string[], after: string[]): ActionStepChange[] {
+    const unmatched = new Set(before.map((_, idx) => idx));
+    const changes: ActionStepChange[] = [];
+
+    for (const step of after) {
+        let bestIdx = -1;
+        let bestScore = 0;
+        unmatched.forEach(idx => {
+            const score = normalize(before[idx]) === normalize(step) ? 2 : similarity(before[idx], step);
+            if (score > bestScore) {
+                bestScore = score;
+                bestIdx = idx;
+            }
+        });
+
+        if (bestIdx !== -1 && bestScore >= REWORD_SIMILARITY) {
+            unmatched.delete(bestIdx);
+            changes.push(bestScore === 2
+                ? { type: 'unchanged', after: step }
+                : { type: 'reworded', before: before[bestIdx], after: step });
+        } else {
+            changes.push({ type: 'added', after: step });
+        }
+    }
+
+    unmatched.forEach(idx => changes.push({ type: 'removed', before: before[idx] }));
+    return changes;
+}
+
+/**
+ * Computes what changed between two research results.
+ *
+ * @param before - The older analysis
+ * @param after - The newer analysis
+ * @returns Score delta, changed headline fields, competitor churn and action step changes
+ */
+export function diffResearch(before: AnalysisResult, after: AnalysisResult): ResearchDiff {
+    const scoreBefore = before.readinessScore ?? null;
+    const scoreAfter = after.readinessScore ?? null;
+
+    const competitorsBefore = new Map((before.competitors || []).map(c => [normalize(c.name), c.name]));
+    const competitorsAfter = new Map((after.competitors || []).map(c => [normalize(c.name), c.name]));
+
+    return {
+        scoreBefore,
+        scoreAfter,
+        scoreDelta: scoreBefore !== null && scoreAfter !== null ? scoreAfter - scoreBefore : null,
+        marketSize: textChange(before.marketSize, after.marketSize),
+        targetAudience: textChange(before.targetAudience, after.targetAudience),
+        topCompetitor: textChange(before.topCompetitor, after.topCompetitor),
+        trend: textChange(before.trend, after.trend),
+        competitorsAdded: [...competitorsAfter].filter(([key]) => !competitorsBefore.has(key)).map(([, name]) => name),
+        competitorsRemoved: [...competitorsBefore].filter(([key]) => !competitorsAfter.has(key)).map(([, name]) => name),
+        actionPlan: diffActionPlan(before.actionPlan || [], after.actionPlan || [])
+    };
+}
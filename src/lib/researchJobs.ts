@@ -0,0 +1,441 @@
+/**
+ * @module lib/researchJobs
+ * @description Durable research job queue backed by the research_jobs table.
+ *
+ * The browser only enqueues work (src/app/actions/research.ts); the worker
+ * process (scripts/researchWorker.ts) claims jobs and owns the idea's whole
+ * Analyzing -> Ready/Error lifecycle, so closing the tab never strands an idea.
+ *
+ * Server-only: uses the service-role client.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { runResearch, type PartialResearchResult, type ResearchRun } from '@/lib/research';
+import { recordUsage } from '@/lib/usage';
+import { extractIdeaFromImage, transcribeVoiceNote } from '@/lib/capture';
+import type { AIRoutingConfig, AnalysisResult, Idea, ResearchJob, ResearchJobStatus } from '@/types';
+
+const MAX_JOBS_PER_USER = Number(process.env.RESEARCH_MAX_JOBS_PER_USER) || 2;
+const MAX_ATTEMPTS = Number(process.env.RESEARCH_JOB_MAX_ATTEMPTS) || 3;
+const RETRY_BASE_DELAY_MS = Number(process.env.RESEARCH_RETRY_BASE_MS) || 30_000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+// Well under claim_research_job's stale_after_seconds (10 minutes)
+const LOCK_HEARTBEAT_MS = 60_000;
+
+/**
+ * Work description stored with each job.
+ *
+ * - `config`: the user's provider profiles and task routing (keys are looked
+ *   up in the credential store when the job runs)
+ * - `capture`: a voice note or snapshot that still has to be turned into text
+ *   (the user-typed title/description, if any, take precedence)
+ * - `context`: replaces the idea description as the research prompt
+ *   (e.g. the refined prompt from Discovery Mode)
+ * - `enrichment`: fields merged into the final analysis result
+ */
+export interface ResearchJobPayload {
+    config?: AIRoutingConfig;
+    capture?: { kind: 'voice' | 'image'; title: string; description: string };
+    context?: string;
+    enrichment?: Pick<AnalysisResult, 'founderFit' | 'discoveryTldr' | 'evaluationCriteria'>;
+}
+
+export interface ResearchJobRow {
+    id: string;
+    idea_id: string;
+    user_id: string;
+    status: ResearchJobStatus;
+    payload: ResearchJobPayload;
+    attempts: number;
+    max_attempts: number;
+    run_after: string;
+    locked_at: string | null;
+    locked_by: string | null;
+    last_error: string | null;
+    partial_result: PartialResearchResult | null;
+    completed_at: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export const toResearchJob = (row: ResearchJobRow): ResearchJob => ({
+    id: row.id,
+    ideaId: row.idea_id,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAfter: row.run_after,
+    lastError: row.last_error,
+    partialResult: row.partial_result,
+    completedAt: row.completed_at,
+    createdAt: row.created_at
+});
+
+/**
+ * Exponential backoff: 30s, 60s, 120s, ... capped at ten minutes.
+ *
+ * @param attempts - Number of attempts made so far
+ * @returns Delay before the next attempt in milliseconds
+ */
+export function retryDelayMs(attempts: number) {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Merges a payload into an idea's queued job. Only matches while the job is
+ * still queued, so a worker that claims it meanwhile never sees a half-merged
+ * payload.
+ *
+ * @throws When the idea's active job is already running
+ */
+async function mergeIntoQueuedJob(ideaId: string, payload: ResearchJobPayload) {
+    const { data: queued } = await supabaseAdmin
+        .from('research_jobs')
+        .select('*')
+        .eq('idea_id', ideaId)
+        .eq('status', 'queued')
+        .maybeSingle();
+
+    if (queued) {
+        const { data: merged } = await supabaseAdmin
+            .from('research_jobs')
+            .update({ payload: { ...(queued as ResearchJobRow).payload, ...payload } })
+            .eq('id', queued.id)
+            .eq('status', 'queued')
+            .select('*')
+            .maybeSingle();
+        if (merged) return merged as ResearchJobRow;
+    }
+
+    throw new Error('Research is already running for this idea. Try again once it finishes.');
+}
+
+/**
+ * Queues research for an idea and moves it to 'Analyzing'.
+ *
+ * An idea has at most one active job. If one is still queued, the new payload
+ * is merged into it (newer fields win), so e.g. a refined prompt from discovery
+ * is not lost; once a job is running, queueing again fails. Callers check the
+ * user's role on the idea first.
+ *
+ * @param userId - Who queues the run (its usage is billed to them)
+ * @param ideaId - The idea to research
+ * @param payload - What the worker should do
+ * @returns The new or updated queued job
+ * @throws When research is already running for the idea
+ */
+export async function enqueueResearchJob(userId: string, ideaId: string, payload: ResearchJobPayload = {}) {
+    const { data: idea, error: ideaError } = await supabaseAdmin
+        .from('ideas')
+        .select('id')
+        .eq('id', ideaId)
+        .single();
+
+    if (ideaError || !idea) {
+        throw new Error('Idea not found');
+    }
+
+    const { data, error } = await supabaseAdmin
+        .from('research_jobs')
+        .insert({
+            idea_id: ideaId,
+            user_id: userId,
+            payload,
+            max_attempts: MAX_ATTEMPTS
+        })
+        .select('*')
+        .single();
+
+    let job = data as ResearchJobRow | null;
+
+    // 23505 = unique_violation on idx_research_jobs_active_idea
+    if (error?.code === '23505') {
+        job = await mergeIntoQueuedJob(ideaId, payload);
+    } else if (error) {
+        console.error('[ResearchJobs] Failed to enqueue:', error);
+        throw new Error('Failed to queue research');
+    }
+
+    if (!job) {
+        throw new Error('Failed to queue research');
+    }
+
+    await supabaseAdmin
+        .from('ideas')
+        .update({ status: 'Analyzing' })
+        .eq('id', ideaId);
+
+    return job;
+}
+
+/**
+ * Claims the next runnable job, respecting the per-user concurrency limit.
+ *
+ * @param workerId - Identifies the claiming worker (stored in locked_by)
+ * @returns The claimed job, or null if nothing is runnable right now
+ */
+export async function claimResearchJob(workerId: string): Promise<ResearchJobRow | null> {
+    const { data, error } = await supabaseAdmin.rpc('claim_research_job', {
+        worker_id: workerId,
+        max_per_user: MAX_JOBS_PER_USER
+    });
+
+    if (error) {
+        throw new Error(`Failed to claim research job: ${error.message}`);
+    }
+
+    return (data as ResearchJobRow[] | null)?.[0] || null;
+}
+
+/**
+ * Turns a captured voice note or snapshot into title/description text.
+ * The result is written back to the idea and the capture step is removed
+ * from the payload, so a retry never transcribes twice.
+ */
+async function runCaptureStep(job: ResearchJobRow, idea: Idea) {
+    const { capture, ...rest } = job.payload;
+    if (!capture || !idea.asset_path) return idea;
+
+    let { title, description } = capture;
+    // Capture runs on the primary research provider
+    const context = { userId: job.user_id, config: rest.config };
+
+    if (capture.kind === 'voice') {
+        const { transcript, suggestedTitle } = await transcribeVoiceNote(context, idea.asset_path, idea.id);
+        title = title || suggestedTitle;
+        description = description ? `${transcript}\n\n${description}` : transcript;
+    } else {
+        const extracted = await extractIdeaFromImage(context, idea.asset_path, idea.id);
+        title = title || extracted.title;
+        description = description || extracted.description;
+    }
+
+    await supabaseAdmin.from('ideas').update({ title, description }).eq('id', idea.id);
+    await supabaseAdmin.from('research_jobs').update({ payload: rest }).eq('id', job.id);
+    job.payload = rest;
+
+    return { ...idea, title, description };
+}
+
+/**
+ * Creates a writer that stores streamed research progress on the job.
+ * Writes are serialized and only the newest snapshot is kept while one is in
+ * flight, so a slow database never falls behind the model.
+ */
+function createPartialResultWriter(jobId: string) {
+    let pending: PartialResearchResult | null = null;
+    let writing: Promise<void> | null = null;
+
+    const flush = async () => {
+        while (pending) {
+            const partial = pending;
+            pending = null;
+            await supabaseAdmin
+                .from('research_jobs')
+                .update({ partial_result: partial, locked_at: new Date().toISOString() })
+                .eq('id', jobId);
+        }
+        writing = null;
+    };
+
+    const write = (partial: PartialResearchResult) => {
+        pending = partial;
+        if (!writing) writing = flush();
+    };
+
+    return { write, settled: () => writing || Promise.resolve() };
+}
+
+/**
+ * Refreshes a running job's lock until stopped, so a long run (or a model
+ * that is slow to start streaming) is never mistaken for a crashed worker
+ * and requeued while it is still going.
+ *
+ * @returns Stops the heartbeat
+ */
+function startLockHeartbeat(jobId: string) {
+    const timer = setInterval(async () => {
+        const { error } = await supabaseAdmin
+            .from('research_jobs')
+            .update({ locked_at: new Date().toISOString() })
+            .eq('id', jobId)
+            .eq('status', 'running');
+        if (error) console.warn(`[ResearchJobs] ${jobId} heartbeat failed:`, error.message);
+    }, LOCK_HEARTBEAT_MS);
+
+    return () => clearInterval(timer);
+}
+
+/**
+ * Stores a finished run as the idea's next immutable research version.
+ */
+async function saveResearchVersion(job: ResearchJobRow, analysisResult: AnalysisResult, run: ResearchRun) {
+    const { data: latest } = await supabaseAdmin
+        .from('research_versions')
+        .select('version')
+        .eq('idea_id', job.idea_id)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    const { error } = await supabaseAdmin
+        .from('research_versions')
+        .insert({
+            idea_id: job.idea_id,
+            user_id: job.user_id,
+            version: (latest?.version || 0) + 1,
+            analysis_result: analysisResult,
+            model: run.model,
+            provider: run.provider,
+            prompt_hash: run.promptHash,
+            research_job_id: job.id
+        });
+
+    if (error) {
+        throw new Error(`Failed to save research version: ${error.message}`);
+    }
+}
+
+/**
+ * Marks a job as permanently failed and moves its idea to 'Error'.
+ */
+async function failJob(job: ResearchJobRow, message: string) {
+    const now = new Date().toISOString();
+
+    await supabaseAdmin
+        .from('ideas')
+        .update({ status: 'Error', analysis_result: { error: message } })
+        .eq('id', job.idea_id);
+
+    await supabaseAdmin
+        .from('research_jobs')
+        .update({
+            status: 'failed',
+            last_error: message,
+            partial_result: null,
+            locked_at: null,
+            completed_at: now,
+            updated_at: now
+        })
+        .eq('id', job.id);
+}
+
+/**
+ * Runs a claimed job to completion.
+ *
+ * While the model streams, validated fields are stored in partial_result for
+ * live rendering. On success the result is stored as a new research version
+ * and the idea becomes 'Ready' with it. On failure the job is requeued with
+ * exponential backoff until max_attempts is reached, then the idea becomes
+ * 'Error'. Never throws.
+ *
+ * @param job - A job returned by claimResearchJob
+ */
+export async function processResearchJob(job: ResearchJobRow) {
+    const label = `[ResearchJobs] ${job.id} (attempt ${job.attempts}/${job.max_attempts})`;
+
+    // A job requeued after a worker crash can exceed its budget
+    if (job.attempts > job.max_attempts) {
+        await failJob(job, job.last_error || 'Research failed too many times');
+        return;
+    }
+
+    const { data } = await supabaseAdmin
+        .from('ideas')
+        .select('*')
+        .eq('id', job.idea_id)
+        .single();
+
+    if (!data) {
+        await failJob(job, 'Idea no longer exists');
+        return;
+    }
+
+    const partialWriter = createPartialResultWriter(job.id);
+    const stopHeartbeat = startLockHeartbeat(job.id);
+
+    try {
+        console.log(`${label} started`);
+        const idea = await runCaptureStep(job, data as Idea);
+        const { config, context, enrichment } = job.payload;
+
+        const run = await runResearch(
+            idea.title,
+            context || idea.description,
+            { userId: job.user_id, config },
+            // The image is only attached to runs its uploader queued; other members'
+            // runs research the text extracted from it when it was captured
+            idea.input_type === 'Image' && idea.asset_path && job.user_id === idea.user_id
+                ? { userId: job.user_id, assetPath: idea.asset_path }
+                : undefined,
+            partialWriter.write
+        );
+        await partialWriter.settled();
+        await recordUsage({
+            userId: job.user_id,
+            ideaId: job.idea_id,
+            task: 'research',
+            model: run.model,
+            provider: run.provider,
+            usage: run.usage
+        });
+
+        // Re-runs keep the discovery results of the previous version
+        const previous = idea.analysis_result;
+        const discoveryFields = enrichment || {
+            founderFit: previous?.founderFit,
+            discoveryTldr: previous?.discoveryTldr,
+            evaluationCriteria: previous?.evaluationCriteria
+        };
+        const analysisResult: AnalysisResult = { ...run.result, ...discoveryFields };
+        const now = new Date().toISOString();
+
+        await saveResearchVersion(job, analysisResult, run);
+
+        await supabaseAdmin
+            .from('ideas')
+            .update({ status: 'Ready', analysis_result: analysisResult })
+            .eq('id', job.idea_id);
+
+        await supabaseAdmin
+            .from('research_jobs')
+            .update({
+                status: 'succeeded',
+                last_error: null,
+                partial_result: null,
+                locked_at: null,
+                completed_at: now,
+                updated_at: now
+            })
+            .eq('id', job.id);
+
+        console.log(`${label} succeeded`);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await partialWriter.settled();
+
+        if (job.attempts >= job.max_attempts) {
+            console.error(`${label} failed permanently:`, message);
+            await failJob(job, message);
+            return;
+        }
+
+        const delay = retryDelayMs(job.attempts);
+        console.warn(`${label} failed, retrying in ${Math.round(delay / 1000)}s:`, message);
+
+        await supabaseAdmin
+            .from('research_jobs')
+            .update({
+                status: 'queued',
+                last_error: message,
+                partial_result: null,
+                run_after: new Date(Date.now() + delay).toISOString(),
+                locked_at: null,
+                locked_by: null,
+                updated_at: new Date().toISOString()
+            })
+            .eq('id', job.id);
+    } finally {
+        stopHeartbeat();
+    }
+}
@@ -0,0 +1,66 @@
+/**
+ * @module lib/shareTokens
+ * @description Token and password hashing for public share links.
+ *
+ * Share URLs carry a random 256-bit token; only its SHA-256 hash is stored, so a
+ * database leak does not expose working links. Optional link passwords are
+ * hashed with scrypt (asynchronously, so guesses don't block the server) and
+ * compared in constant time.
+ *
+ * Server-only: used by src/app/actions/share.ts, and for workspace invitation
+ * links by src/app/actions/workspaces.ts.
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const SCRYPT_KEY_LENGTH = 32;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+/**
+ * Generates a new URL-safe share token.
+ *
+ * @returns A base64url token (43 characters)
+ */
+export function generateShareToken() {
+    return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hashes a share token for storage and lookup.
+ *
+ * @param token - The raw token from the share URL
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashShareToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Hashes a share link password.
+ *
+ * @param password - The plain-text password chosen by the owner
+ * @returns `scrypt:<salt>:<hash>`
+ */
+export async function hashSharePassword(password: string) {
+    const salt = randomBytes(16).toString('hex');
+    const hash = (await scryptAsync(password, salt, SCRYPT_KEY_LENGTH)).toString('hex');
+    return `scrypt:${salt}:${hash}`;
+}
+
+/**
+ * Verifies a password against a stored share link hash.
+ *
+ * @param password - The password entered by the visitor
+ * @param stored - The stored `scrypt:<salt>:<hash>` value
+ * @returns Whether the password matches
+ */
+export async function verifySharePassword(password: string, stored: string) {
+    const [scheme, salt, hash] = stored.split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+    const expected = Buffer.from(hash, 'hex');
+    const actual = await scryptAsync(password, salt, expected.length);
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
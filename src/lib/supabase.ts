@@ -3,7 +3,7 @@
  * @description Supabase client configuration.
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!; // <--- REPLACE WITH YOUR ENV VAR FROM .ENV
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!; // <--- REPLACE WITH YOUR ENV VAR FROM .ENV
@@ -13,10 +13,18 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!; // <--- REPL
  * 
  * Provides access to Auth, Database, and Storage services.
  * RLS (Row Level Security) must be enabled on all tables to ensure data privacy.
+ * The auth session is kept in cookies, so server actions can resolve the
+ * signed-in user (lib/supabaseServer).
  * 
  * @keyTechnologies Supabase
  */
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = createBrowserClient(supabaseUrl, supabaseAnonKey);
+
+/**
+ * Private storage bucket for captured voice notes and concept snapshots.
+ * Created by schema.sql / scripts/setup_storage.sql.
+ */
+export const VAULT_ASSETS_BUCKET = 'vault-assets';
 
 /**
  * Uploads a file to Supabase Storage.
@@ -32,3 +40,22 @@ export async function uploadFile(bucket: string, path: string, file: File) {
     if (error) throw error;
     return data;
 }
+
+/**
+ * Creates a short-lived signed URL for a private vault asset.
+ *
+ * The bucket is private, so assets can only be displayed through signed URLs
+ * issued to their owner.
+ *
+ * @param path - The asset path inside the vault-assets bucket
+ * @param expiresIn - Lifetime of the URL in seconds
+ * @returns The signed URL, or null if it could not be created
+ */
+export async function getAssetUrl(path: string, expiresIn = 3600) {
+    const { data, error } = await supabase.storage.from(VAULT_ASSETS_BUCKET).createSignedUrl(path, expiresIn);
+    if (error) {
+        console.error('Failed to sign asset URL:', error);
+        return null;
+    }
+    return data.signedUrl;
+}
@@ -0,0 +1,60 @@
+/**
+ * @module lib/supabaseAdmin
+ * @description Service-role Supabase client for server-side code.
+ *
+ * Only import this from server actions, route handlers and worker scripts.
+ * The service-role key bypasses RLS, so callers are responsible for scoping
+ * every query to the right user.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!; // <--- REPLACE WITH YOUR ENV VAR FROM .ENV
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!; // <--- REPLACE WITH YOUR ENV VAR FROM .ENV
+
+/**
+ * Singleton Supabase client authenticated with the service-role key.
+ *
+ * @keyTechnologies Supabase
+ */
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+/**
+ * Downloads a private asset from the vault-assets bucket.
+ *
+ * @param path - The asset path inside the bucket
+ * @returns The file contents as a Blob
+ */
+export async function downloadAsset(path: string) {
+    const { data, error } = await supabaseAdmin.storage.from('vault-assets').download(path);
+    if (error || !data) {
+        throw new Error(`Failed to download asset: ${error?.message || 'not found'}`);
+    }
+    return data;
+}
+
+/**
+ * Downloads a private asset and encodes it as a base64 data URL, the form
+ * vision-capable chat models accept for inline images.
+ *
+ * @param path - The asset path inside the bucket
+ * @returns A `data:<mime>;base64,...` URL
+ */
+export async function downloadAssetAsDataUrl(path: string) {
+    const blob = await downloadAsset(path);
+    const base64 = Buffer.from(await blob.arrayBuffer()).toString('base64');
+    return `data:${blob.type || 'image/png'};base64,${base64}`;
+}
+
+/**
+ * Ensures an asset path lives inside the given user's folder
+ * (`<user_id>/...`) before the service-role client touches it.
+ *
+ * @param userId - The user the asset should belong to
+ * @param assetPath - The asset path inside the bucket
+ */
+export function assertOwnAsset(userId: string, assetPath: string) {
+    if (!assetPath.startsWith(`${userId}/`)) {
+        throw new Error('Asset does not belong to this user');
+    }
+}
@@ -0,0 +1,56 @@
+/**
+ * @module lib/supabaseServer
+ * @description Cookie-based Supabase client for server actions and route handlers.
+ *
+ * The browser client (lib/supabase) keeps the auth session in cookies, so the
+ * server can tell who is calling instead of trusting a user ID sent by the
+ * client. Resolve the caller here, then scope every supabaseAdmin query to them.
+ */
+
+import { cookies } from 'next/headers';
+import { createServerClient } from '@supabase/ssr';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+/**
+ * Creates a Supabase client acting as the user in the request's auth cookies.
+ *
+ * @keyTechnologies Supabase SSR, Next.js cookies
+ */
+export async function createSupabaseServerClient() {
+    const cookieStore = await cookies();
+
+    return createServerClient(supabaseUrl, supabaseAnonKey, {
+        cookies: {
+            getAll() {
+                return cookieStore.getAll();
+            },
+            setAll(cookiesToSet) {
+                try {
+                    cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+                } catch {
+                    // Called while rendering a Server Component, where cookies are read-only;
+                    // the refreshed session is written on the next action or route request
+                }
+            }
+        }
+    });
+}
+
+/**
+ * Resolves the signed-in user from the auth cookies. The token is verified with
+ * Supabase Auth, not just decoded.
+ *
+ * @returns The caller's user ID
+ * @throws When there is no valid session
+ */
+export async function requireUserId(): Promise<string> {
+    const supabase = await createSupabaseServerClient();
+    const { data: { user }, error } = await supabase.auth.getUser();
+
+    if (error || !user) {
+        throw new Error('Not authenticated');
+    }
+    return user.id;
+}
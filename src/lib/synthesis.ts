@@ -0,0 +1,96 @@
+/**
+ * @module lib/synthesis
+ * @description Validated discovery synthesis with automatic repair.
+ *
+ * Synthesis output is checked against the playbook's schema
+ * (lib/synthesisSchema). When it doesn't match, the validation errors are sent
+ * back to the model in a repair round-trip, up to SYNTHESIS_MAX_ATTEMPTS
+ * responses in total, after which the synthesis is rejected.
+ *
+ * Server-only: calls the AI providers and records usage.
+ */
+
+import type OpenAI from 'openai';
+import { withAIFallback } from '@/lib/aiProviders';
+import { recordUsage, toTokenUsage } from '@/lib/usage';
+import { validateSynthesis } from '@/lib/synthesisSchema';
+import { SYNTHESIS_REPAIR_PROMPT } from '@/config/discoveryPrompts';
+import type { DiscoveryPlaybook } from '@/config/discoveryPlaybooks';
+import type { AIRoutingConfig, DiscoverySynthesis } from '@/types';
+
+/** Model responses allowed per synthesis, including the first */
+const SYNTHESIS_MAX_ATTEMPTS = Math.max(1, Number(process.env.SYNTHESIS_MAX_ATTEMPTS) || 3);
+
+export interface SynthesisRequest {
+    userId: string;
+    ideaId: string | null;
+    sessionId: string;
+    playbook: DiscoveryPlaybook;
+    config?: AIRoutingConfig;
+    /** The messages that asked for the synthesis */
+    messages: OpenAI.Chat.ChatCompletionMessageParam[];
+}
+
+export type SynthesisResult =
+    | { output: DiscoverySynthesis; error: null }
+    | { output: null; error: string };
+
+/**
+ * Requests one synthesis response (JSON mode, routed as 'synthesis') and records its usage.
+ */
+async function requestSynthesis(request: SynthesisRequest, messages: OpenAI.Chat.ChatCompletionMessageParam[]) {
+    const { result: response, candidate } = await withAIFallback('synthesis', { userId: request.userId, config: request.config }, ({ client, model }) =>
+        client.chat.completions.create({
+            model,
+            messages,
+            response_format: { type: 'json_object' }
+        })
+    );
+    await recordUsage({
+        userId: request.userId,
+        ideaId: request.ideaId,
+        discoverySessionId: request.sessionId,
+        task: 'synthesis',
+        model: candidate.model,
+        provider: candidate.provider,
+        usage: toTokenUsage(response.usage)
+    });
+    return response.choices[0].message.content || '';
+}
+
+/**
+ * Validates synthesis output, repairing it with the model while attempts remain.
+ *
+ * @param request - Who the synthesis is for and the messages that asked for it
+ * @param firstResponse - The model's first response, if it was already requested
+ *   (e.g. streamed); otherwise it is requested here
+ * @returns The validated output, or the reason it was rejected after every attempt
+ */
+export async function generateSynthesis(request: SynthesisRequest, firstResponse?: string): Promise<SynthesisResult> {
+    const messages = [...request.messages];
+    let content = firstResponse ?? await requestSynthesis(request, messages);
+    let errors: string[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+        const validation = validateSynthesis(request.playbook, content);
+        if (validation.output) {
+            return { output: validation.output, error: null };
+        }
+        errors = validation.errors;
+        console.warn(`Synthesis attempt ${attempt}/${SYNTHESIS_MAX_ATTEMPTS} invalid:`, errors.join('; '));
+
+        if (attempt >= SYNTHESIS_MAX_ATTEMPTS) break;
+
+        messages.push(
+            { role: 'assistant', content },
+            { role: 'user', content: SYNTHESIS_REPAIR_PROMPT.replace('{errors}', errors.map(e => `- ${e}`).join('\n')) }
+        );
+        content = await requestSynthesis(request, messages);
+    }
+
+    const shown = errors.slice(0, 3).join('; ') + (errors.length > 3 ? ` (and ${errors.length - 3} more)` : '');
+    return {
+        output: null,
+        error: `The research prompt didn't match the expected format after ${SYNTHESIS_MAX_ATTEMPTS} attempts (${shown}). Please try again.`
+    };
+}
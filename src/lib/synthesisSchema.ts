@@ -0,0 +1,110 @@
+/**
+ * @module lib/synthesisSchema
+ * @description Zod schemas for discovery synthesis output.
+ *
+ * Mirrors SYNTHESIS_OUTPUT_SCHEMA (and the playbook variants of it): tldr and
+ * fullPrompt are always required; founderFit and tldr.founderFitScore only for
+ * playbooks with a founder-fit phase. Output that fails validation is sent back
+ * to the model with the errors (see lib/synthesis).
+ *
+ * Pure and client-safe.
+ */
+
+import { z } from 'zod';
+import type { DiscoveryPlaybook } from '@/config/discoveryPlaybooks';
+import type { DiscoverySynthesis } from '@/types';
+
+const text = z.string().trim().min(1);
+const textList = z.array(text);
+
+/**
+ * Founder-fit assessment, as stored in discovery_syntheses.founder_fit.
+ */
+export const founderFitSchema = z.object({
+    technicalSkills: z.object({
+        has: textList,
+        needs: textList
+    }),
+    domainExpertise: text,
+    resources: z.object({
+        time: text,
+        capital: text,
+        network: text
+    }),
+    motivation: text,
+    learningPath: textList,
+    hireRecommendations: textList
+});
+
+export const discoveryTldrSchema = z.object({
+    refinedIdea: text,
+    targetMarket: text,
+    keyDifferentiator: text,
+    mainRisks: textList.min(1),
+    founderFitScore: z.number().int().min(1).max(10).optional()
+});
+
+/**
+ * The research prompt, as stored in discovery_syntheses.full_prompt.
+ */
+export const refinedPromptSchema = z.object({
+    problemStatement: text,
+    targetCustomer: z.object({
+        profile: text,
+        painPoints: textList,
+        currentSolutions: text
+    }),
+    valueProposition: text,
+    hypotheses: textList.min(1),
+    competitiveResearch: textList,
+    marketIndicators: textList,
+    evaluationCriteria: textList
+});
+
+/**
+ * The synthesis output schema for a playbook.
+ *
+ * @param playbook - The session's playbook
+ */
+export function synthesisOutputSchema(playbook: DiscoveryPlaybook) {
+    if (!playbook.synthesis.founderFit) {
+        return z.object({ tldr: discoveryTldrSchema, fullPrompt: refinedPromptSchema });
+    }
+    return z.object({
+        tldr: discoveryTldrSchema.extend({ founderFitScore: z.number().int().min(1).max(10) }),
+        fullPrompt: refinedPromptSchema,
+        founderFit: founderFitSchema
+    });
+}
+
+export type SynthesisValidation =
+    | { output: DiscoverySynthesis; errors: null }
+    | { output: null; errors: string[] };
+
+/**
+ * Parses and validates raw synthesis output.
+ *
+ * @param playbook - The session's playbook, for its schema
+ * @param content - The raw model output (code fences are tolerated)
+ * @returns The validated output, or readable errors ("path: problem") to send back to the model
+ */
+export function validateSynthesis(playbook: DiscoveryPlaybook, content: string): SynthesisValidation {
+    let json: unknown;
+    try {
+        json = JSON.parse(content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, ''));
+    } catch {
+        return { output: null, errors: ['The response is not valid JSON'] };
+    }
+
+    const result = synthesisOutputSchema(playbook).safeParse(json);
+    if (result.success) {
+        return { output: result.data, errors: null };
+    }
+
+    return {
+        output: null,
+        errors: result.error.issues.map(issue =>
+            `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`
+        )
+    };
+}
@@ -0,0 +1,122 @@
+/**
+ * @module lib/transcription
+ * @description Pluggable speech-to-text backends for voice-note capture.
+ *
+ * Two backends are available, selected with `TRANSCRIPTION_PROVIDER`:
+ * - `openai` (default): the OpenAI-compatible `/audio/transcriptions` endpoint on
+ *   the user's primary research provider, with the key resolved for that
+ *   provider by lib/aiProviders. When `TRANSCRIPTION_BASE_URL` points somewhere
+ *   else, that endpoint gets `TRANSCRIPTION_API_KEY` instead, so a provider key
+ *   only ever goes to its own endpoint.
+ * - `local`: a self-hosted Whisper-compatible server (whisper.cpp, faster-whisper-server)
+ *   at `WHISPER_BASE_URL`, so audio never leaves your own infrastructure.
+ *
+ * Server-only: imported by lib/capture.
+ */
+
+import OpenAI, { toFile } from 'openai';
+import { providerFromBaseURL } from '@/lib/aiProviders';
+import type { TokenUsage } from '@/lib/usage';
+
+/** Endpoint and key from resolveAIConfig; never taken from a request */
+export interface TranscriptionConfig {
+    apiKey: string;
+    baseURL: string;
+}
+
+/** A transcript plus what the call consumed, for usage accounting */
+export interface TranscriptionResult {
+    text: string;
+    model: string;
+    provider: string;
+    /** Null when the backend doesn't bill by token (e.g. whisper-1 reports seconds) */
+    usage: TokenUsage | null;
+}
+
+/**
+ * A speech-to-text implementation that turns an audio file into plain text.
+ */
+export interface TranscriptionBackend {
+    name: string;
+    transcribe(audio: Blob, filename: string): Promise<TranscriptionResult>;
+}
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+
+/**
+ * Transcribes via an OpenAI-compatible provider (OpenAI, Groq, etc.).
+ */
+function createOpenAIBackend(config: TranscriptionConfig): TranscriptionBackend {
+    const overrideURL = process.env.TRANSCRIPTION_BASE_URL;
+    const usesProviderEndpoint = !overrideURL || overrideURL === config.baseURL;
+    const baseURL = usesProviderEndpoint ? config.baseURL : overrideURL;
+    // The resolved key belongs to the user's provider; a separate endpoint only gets its own key
+    const apiKey = usesProviderEndpoint ? config.apiKey : process.env.TRANSCRIPTION_API_KEY || 'not-needed';
+    const client = new OpenAI({ apiKey, baseURL });
+    const model = process.env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL;
+
+    return {
+        name: 'openai',
+        async transcribe(audio, filename) {
+            const response = await client.audio.transcriptions.create({
+                file: await toFile(audio, filename),
+                model
+            });
+            const usage = response.usage?.type === 'tokens'
+                ? { promptTokens: response.usage.input_tokens, completionTokens: response.usage.output_tokens }
+                : null;
+            return { text: response.text, model, provider: providerFromBaseURL(baseURL), usage };
+        }
+    };
+}
+
+/**
+ * Transcribes via a local Whisper-compatible server that exposes
+ * `POST {WHISPER_BASE_URL}/audio/transcriptions` without authentication.
+ */
+function createLocalWhisperBackend(): TranscriptionBackend {
+    const baseURL = (process.env.WHISPER_BASE_URL || 'http://localhost:8000/v1').replace(/\/$/, '');
+    const model = process.env.TRANSCRIPTION_MODEL || DEFAULT_TRANSCRIPTION_MODEL;
+
+    return {
+        name: 'local',
+        async transcribe(audio, filename) {
+            const form = new FormData();
+            form.append('file', audio, filename);
+            form.append('model', model);
+            form.append('response_format', 'json');
+
+            const response = await fetch(`${baseURL}/audio/transcriptions`, {
+                method: 'POST',
+                body: form
+            });
+
+            if (!response.ok) {
+                throw new Error(`Whisper server responded with ${response.status}`);
+            }
+
+            const data = await response.json() as { text?: string };
+            // Self-hosted servers don't report usage
+            return { text: data.text || '', model, provider: providerFromBaseURL(baseURL), usage: null };
+        }
+    };
+}
+
+/**
+ * Resolves the transcription backend configured for this deployment.
+ *
+ * @param config - The user's resolved provider (used by the `openai` backend)
+ * @returns The selected backend
+ */
+export function getTranscriptionBackend(config: TranscriptionConfig): TranscriptionBackend {
+    const provider = process.env.TRANSCRIPTION_PROVIDER || 'openai';
+
+    switch (provider) {
+        case 'local':
+            return createLocalWhisperBackend();
+        case 'openai':
+            return createOpenAIBackend(config);
+        default:
+            throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${provider}"`);
+    }
+}
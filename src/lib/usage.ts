@@ -0,0 +1,191 @@
+/**
+ * @module lib/usage
+ * @description Token usage logging, cost estimates and monthly budgets for AI calls.
+ *
+ * Every completion is logged to ai_usage with its task, model and token counts,
+ * plus a cost estimate from config/aiPricing. Logging never fails the AI call
+ * it describes: errors are reported and swallowed.
+ *
+ * Server-only: uses the service-role client.
+ */
+
+import type OpenAI from 'openai';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { MODEL_PRICES, type ModelPrice } from '@/config/aiPricing';
+import { budgetExceededMessage } from '@/lib/usageFormat';
+import type { BudgetStatus, UsageTask } from '@/types';
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+/** One row of the ai_usage_rollup function: usage grouped by month, model and idea */
+export interface UsageRollupRow {
+    month: string;
+    model: string;
+    idea_id: string | null;
+    calls: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    cost_usd: number;
+    unpriced_calls: number;
+}
+
+export interface UsageEntry {
+    userId: string;
+    task: UsageTask;
+    model: string;
+    provider: string;
+    usage: TokenUsage | null;
+    ideaId?: string | null;
+    discoverySessionId?: string | null;
+}
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+/**
+ * The built-in price table merged with `AI_MODEL_PRICES` overrides.
+ */
+function priceTable(): Record<string, ModelPrice> {
+    if (cachedPrices) return cachedPrices;
+
+    let overrides: Record<string, ModelPrice> = {};
+    try {
+        overrides = JSON.parse(process.env.AI_MODEL_PRICES || '{}');
+    } catch {
+        console.error('[Usage] AI_MODEL_PRICES is not valid JSON; using built-in prices');
+    }
+
+    cachedPrices = Object.fromEntries(
+        Object.entries({ ...MODEL_PRICES, ...overrides }).map(([model, price]) => [model.toLowerCase(), price])
+    );
+    return cachedPrices;
+}
+
+/**
+ * Finds the price for a model by longest matching prefix, ignoring any
+ * `vendor/` prefix (OpenRouter style).
+ *
+ * @param model - The model name sent to the provider
+ * @returns The price, or null if the model isn't in the table
+ */
+export function priceForModel(model: string): ModelPrice | null {
+    const name = model.toLowerCase().split('/').pop() || '';
+    const prices = priceTable();
+    if (prices[name]) return prices[name];
+
+    const match = Object.keys(prices)
+        .filter(key => name.startsWith(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return match ? prices[match] : null;
+}
+
+/**
+ * Estimates the cost of a call in USD.
+ *
+ * @returns The estimate, or null when the model has no price
+ */
+export function estimateCostUsd(model: string, usage: TokenUsage): number | null {
+    const price = priceForModel(model);
+    if (!price) return null;
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Converts the provider's usage block, if it sent one.
+ */
+export const toTokenUsage = (usage?: OpenAI.CompletionUsage | null): TokenUsage | null =>
+    usage ? { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 } : null;
+
+/**
+ * Logs one AI call. Providers that don't report usage are skipped with a warning.
+ *
+ * @param entry - Who made the call, for what, and what it consumed
+ */
+export async function recordUsage(entry: UsageEntry) {
+    if (!entry.usage) {
+        console.warn(`[Usage] ${entry.provider} did not report usage for ${entry.task} (${entry.model})`);
+        return;
+    }
+
+    const { error } = await supabaseAdmin.from('ai_usage').insert({
+        user_id: entry.userId,
+        idea_id: entry.ideaId || null,
+        discovery_session_id: entry.discoverySessionId || null,
+        task: entry.task,
+        model: entry.model,
+        provider: entry.provider,
+        prompt_tokens: entry.usage.promptTokens,
+        completion_tokens: entry.usage.completionTokens,
+        estimated_cost_usd: estimateCostUsd(entry.model, entry.usage)
+    });
+
+    if (error) {
+        console.error('[Usage] Failed to record usage:', error);
+    }
+}
+
+/**
+ * Start of the current calendar month (UTC).
+ */
+export const monthStart = (date = new Date()) =>
+    new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Loads the user's usage since a date, grouped by month, model and idea.
+ *
+ * @param userId - The user whose usage to load
+ * @param since - Start of the window
+ * @returns Rollup rows (numbers already coerced)
+ */
+export async function loadUsageRollup(userId: string, since: Date): Promise<UsageRollupRow[]> {
+    const { data, error } = await supabaseAdmin.rpc('ai_usage_rollup', {
+        p_user_id: userId,
+        p_since: since.toISOString()
+    });
+
+    if (error) {
+        throw new Error(`Failed to load usage: ${error.message}`);
+    }
+
+    return ((data || []) as UsageRollupRow[]).map(row => ({
+        ...row,
+        calls: Number(row.calls),
+        prompt_tokens: Number(row.prompt_tokens),
+        completion_tokens: Number(row.completion_tokens),
+        cost_usd: Number(row.cost_usd),
+        unpriced_calls: Number(row.unpriced_calls)
+    }));
+}
+
+/**
+ * Compares this month's estimated spend with the user's budget.
+ *
+ * @param userId - The user to check
+ * @returns The budget (if any), this month's spend and whether it's exceeded
+ */
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus> {
+    const [{ data: budget }, usage] = await Promise.all([
+        supabaseAdmin.from('ai_budgets').select('monthly_limit_usd').eq('user_id', userId).maybeSingle(),
+        loadUsageRollup(userId, monthStart())
+    ]);
+
+    const limitUsd = budget?.monthly_limit_usd != null ? Number(budget.monthly_limit_usd) : null;
+    const spentUsd = usage.reduce((sum, row) => sum + row.cost_usd, 0);
+
+    return { limitUsd, spentUsd, exceeded: limitUsd !== null && spentUsd >= limitUsd };
+}
+
+/**
+ * Throws when the user has spent their monthly budget.
+ *
+ * @param userId - The user to check
+ * @throws If the budget is exceeded
+ */
+export async function assertWithinBudget(userId: string) {
+    const status = await getBudgetStatus(userId);
+    if (status.exceeded) {
+        throw new Error(budgetExceededMessage(status));
+    }
+}
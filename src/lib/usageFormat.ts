@@ -0,0 +1,22 @@
+/**
+ * @module lib/usageFormat
+ * @description Formatting for AI usage and budget figures.
+ *
+ * Pure and client-safe: shared by the usage page, the budget checks before
+ * research is queued and the server-side budget error.
+ */
+
+import type { BudgetStatus } from '@/types';
+
+/**
+ * Formats an estimated cost, keeping sub-cent amounts visible.
+ */
+export const formatUsd = (amount: number) =>
+    amount > 0 && amount < 0.01 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+
+/**
+ * Explains why new research is blocked by the monthly budget.
+ */
+export const budgetExceededMessage = ({ limitUsd, spentUsd }: BudgetStatus) =>
+    `Monthly AI budget of ${formatUsd(limitUsd ?? 0)} reached (${formatUsd(spentUsd)} spent). ` +
+    'Raise or clear it on the Usage page to run new research.';
@@ -0,0 +1,93 @@
+/**
+ * @module lib/workspaceAccess
+ * @description Server-side role checks for workspaces and the ideas in them.
+ *
+ * Server actions use the service-role key, which bypasses RLS, so they check
+ * the caller's role here before reading or changing anything in a workspace.
+ */
+
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { hasWorkspaceRole } from '@/lib/workspaceRoles';
+import type { WorkspaceRole } from '@/types';
+
+/**
+ * Returns the caller's role in a workspace, failing unless it includes `required`.
+ *
+ * @param userId - The caller
+ * @param workspaceId - The workspace
+ * @param required - The least role needed
+ */
+export async function requireWorkspaceRole(userId: string, workspaceId: string, required: WorkspaceRole): Promise<WorkspaceRole> {
+    const { data } = await supabaseAdmin
+        .from('workspace_members')
+        .select('role')
+        .eq('workspace_id', workspaceId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!data) {
+        throw new Error('Workspace not found');
+    }
+    if (!hasWorkspaceRole(data.role, required)) {
+        throw new Error(`Only workspace ${required}s can do this`);
+    }
+    return data.role;
+}
+
+/**
+ * Returns the workspace of an idea and the caller's role in it, failing unless
+ * the role includes `required`.
+ *
+ * @param userId - The caller
+ * @param ideaId - The idea
+ * @param required - The least role needed
+ */
+export async function requireIdeaRole(userId: string, ideaId: string, required: WorkspaceRole) {
+    const { data: idea } = await supabaseAdmin
+        .from('ideas')
+        .select('workspace_id')
+        .eq('id', ideaId)
+        .maybeSingle();
+
+    if (!idea) {
+        throw new Error('Idea not found');
+    }
+    const role = await requireWorkspaceRole(userId, idea.workspace_id, required);
+    return { workspaceId: idea.workspace_id as string, role };
+}
+
+/**
+ * Lists the workspaces a user belongs to, e.g. to scope a report to every
+ * idea they can see.
+ *
+ * @param userId - The caller
+ * @returns The workspace IDs
+ */
+export async function listMemberWorkspaceIds(userId: string): Promise<string[]> {
+    const { data, error } = await supabaseAdmin
+        .from('workspace_members')
+        .select('workspace_id')
+        .eq('user_id', userId);
+
+    if (error) {
+        console.error('Error listing workspace memberships:', error);
+        throw new Error('Failed to load workspaces');
+    }
+    return (data || []).map(row => row.workspace_id as string);
+}
+
+/**
+ * Looks up users' email addresses, e.g. to show who a member or author is.
+ *
+ * @param userIds - The users
+ * @returns Email by user ID (null for deleted users)
+ * @keyTechnologies Supabase Auth Admin
+ */
+export async function getUserEmails(userIds: string[]): Promise<Map<string, string | null>> {
+    const unique = [...new Set(userIds)];
+    const emails = await Promise.all(unique.map(async userId => {
+        const { data } = await supabaseAdmin.auth.admin.getUserById(userId);
+        return [userId, data?.user?.email || null] as const;
+    }));
+    return new Map(emails);
+}
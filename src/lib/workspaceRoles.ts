@@ -0,0 +1,44 @@
+/**
+ * @module lib/workspaceRoles
+ * @description Workspace roles and what each one may do.
+ *
+ * Mirrors the RLS policies in schema.sql section 22: viewers read, editors
+ * also add and change ideas, owners also manage members and invitations.
+ *
+ * Pure and client-safe.
+ */
+
+import type { WorkspaceRole } from '@/types';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+    owner: 'Owner',
+    editor: 'Editor',
+    viewer: 'Viewer'
+};
+
+export const WORKSPACE_ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+    owner: 'Manages members and invitations',
+    editor: 'Adds, researches and edits ideas',
+    viewer: 'Reads ideas and reports'
+};
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+/**
+ * Whether a role includes everything another role may do.
+ *
+ * @param role - The member's role, or null for non-members
+ * @param required - The least role needed
+ */
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, required: WorkspaceRole): boolean {
+    return !!role && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Whether a value is a workspace role (e.g. from a form).
+ */
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+    return typeof value === 'string' && (WORKSPACE_ROLES as string[]).includes(value);
+}
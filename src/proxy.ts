@@ -0,0 +1,78 @@
+/**
+ * @module proxy
+ * @description Refreshes the Supabase session and guards the dashboard.
+ *
+ * Runs before every page and API request. The auth token in the session
+ * cookies is refreshed here, server-side, so server actions and server
+ * components always see a valid session. Requests for /dashboard/* without
+ * one are redirected to /login?next=<path>, and signed-in users opening the
+ * login page are sent on to where they were going. The requested path is
+ * passed on in a request header so server components can do the same.
+ *
+ * @dependencies @supabase/ssr, lib/authRedirect
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import { LOGIN_PATH, REQUEST_PATH_HEADER, loginPathFor, safeNextPath } from '@/lib/authRedirect';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+/**
+ * Redirects to a local path, keeping the refreshed session cookies.
+ */
+function redirectTo(request: NextRequest, response: NextResponse, path: string) {
+    const redirect = NextResponse.redirect(new URL(path, request.url));
+    response.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie));
+    return redirect;
+}
+
+/**
+ * @param request - The incoming request
+ * @returns The request passed through with refreshed cookies, or a redirect
+ * @keyTechnologies Next.js Proxy, Supabase SSR
+ */
+export async function proxy(request: NextRequest) {
+    const { pathname, search } = request.nextUrl;
+
+    // Copies the headers each time so refreshed cookies are forwarded too
+    const passThrough = () => {
+        const headers = new Headers(request.headers);
+        headers.set(REQUEST_PATH_HEADER, pathname + search);
+        return NextResponse.next({ request: { headers } });
+    };
+
+    let response = passThrough();
+
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+        cookies: {
+            getAll() {
+                return request.cookies.getAll();
+            },
+            setAll(cookiesToSet) {
+                // Visible to the rest of this request, and sent back to the browser
+                cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+                response = passThrough();
+                cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+            }
+        }
+    });
+
+    // getUser verifies the token with Supabase Auth and refreshes it when expired
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user && (pathname === '/dashboard' || pathname.startsWith('/dashboard/'))) {
+        return redirectTo(request, response, loginPathFor(pathname + search));
+    }
+    if (user && pathname === LOGIN_PATH) {
+        return redirectTo(request, response, safeNextPath(request.nextUrl.searchParams.get('next')));
+    }
+
+    return response;
+}
+
+export const config = {
+    // Everything except static assets
+    matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)']
+};
@@ -0,0 +1,110 @@
+/**
+ * @module test/fakeSupabase
+ * @description In-memory stand-in for the service-role Supabase client in tests.
+ *
+ * Supports the query-builder calls the server actions use (select, insert,
+ * update, eq, in, is, order, limit, single, maybeSingle). Tests seed `tables`
+ * and mock lib/supabaseAdmin with `supabaseAdmin` from here.
+ */
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+    data: unknown;
+    error: { code: string; message: string } | null;
+}
+
+export const tables: Record<string, Row[]> = {};
+
+/**
+ * Replaces the fake database contents, e.g. in beforeEach.
+ *
+ * @param seed - Rows per table; they are copied so tests can compare against the seed
+ */
+export function resetTables(seed: Record<string, Row[]>) {
+    for (const name of Object.keys(tables)) delete tables[name];
+    for (const [name, rows] of Object.entries(seed)) tables[name] = rows.map(row => ({ ...row }));
+}
+
+class FakeQuery implements PromiseLike<QueryResult> {
+    private filters: Array<(row: Row) => boolean> = [];
+    private patch: Row | null = null;
+    private inserted: Row[] | null = null;
+    private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+
+    constructor(private table: string) {}
+
+    select() { return this; }
+    order() { return this; }
+    limit() { return this; }
+
+    insert(values: Row | Row[]) {
+        this.inserted = (Array.isArray(values) ? values : [values]).map(row => ({ id: crypto.randomUUID(), ...row }));
+        return this;
+    }
+
+    update(patch: Row) {
+        this.patch = patch;
+        return this;
+    }
+
+    eq(column: string, value: unknown) {
+        this.filters.push(row => row[column] === value);
+        return this;
+    }
+
+    in(column: string, values: unknown[]) {
+        this.filters.push(row => values.includes(row[column]));
+        return this;
+    }
+
+    is(column: string, value: unknown) {
+        this.filters.push(row => (row[column] ?? null) === value);
+        return this;
+    }
+
+    single() {
+        this.mode = 'single';
+        return this;
+    }
+
+    maybeSingle() {
+        this.mode = 'maybeSingle';
+        return this;
+    }
+
+    then<T1 = QueryResult, T2 = never>(
+        onfulfilled?: ((value: QueryResult) => T1 | PromiseLike<T1>) | null,
+        onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null
+    ): PromiseLike<T1 | T2> {
+        return Promise.resolve(this.run()).then(onfulfilled, onrejected);
+    }
+
+    private run(): QueryResult {
+        const rows = (tables[this.table] ||= []);
+
+        let matched: Row[];
+        if (this.inserted) {
+            rows.push(...this.inserted);
+            matched = this.inserted;
+        } else {
+            matched = rows.filter(row => this.filters.every(filter => filter(row)));
+            if (this.patch) matched.forEach(row => Object.assign(row, this.patch));
+        }
+
+        if (this.mode === 'single') {
+            return matched.length === 1
+                ? { data: { ...matched[0] }, error: null }
+                : { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+        }
+        if (this.mode === 'maybeSingle') {
+            return { data: matched[0] ? { ...matched[0] } : null, error: null };
+        }
+        return { data: matched.map(row => ({ ...row })), error: null };
+    }
+}
+
+export const supabaseAdmin = {
+    from: (table: string) => new FakeQuery(table),
+    rpc: async () => ({ data: null, error: null })
+};
@@ -1,3 +1,65 @@
+export interface FounderFit {
+  technicalSkills: {
+    has: string[];
+    needs: string[];
+  };
+  domainExpertise: string;
+  resources: {
+    time: string;
+    capital: string;
+    network: string;
+  };
+  motivation: string;
+  learningPath: string[];
+  hireRecommendations: string[];
+}
+
+export interface DiscoveryTldr {
+  refinedIdea: string;
+  targetMarket: string;
+  keyDifferentiator: string;
+  mainRisks: string[];
+  founderFitScore?: number;
+}
+
+/** The research prompt produced by discovery synthesis */
+export interface RefinedPrompt {
+  problemStatement: string;
+  targetCustomer: {
+    profile: string;
+    painPoints: string[];
+    currentSolutions: string;
+  };
+  valueProposition: string;
+  hypotheses: string[];
+  competitiveResearch: string[];
+  marketIndicators: string[];
+  evaluationCriteria: string[];
+}
+
+/** Validated synthesis output (see lib/synthesisSchema) */
+export interface DiscoverySynthesis {
+  tldr: DiscoveryTldr;
+  fullPrompt: RefinedPrompt;
+  /** Absent for playbooks without a founder-fit phase */
+  founderFit?: FounderFit;
+}
+
+/** A completed session's synthesis, as stored in discovery_syntheses */
+export interface DiscoverySynthesisRecord {
+  sessionId: string;
+  ideaId: string | null;
+  playbookId: string;
+  playbookVersion: number;
+  /** Null only for backfilled sessions whose TL;DR couldn't be recovered */
+  tldr: DiscoveryTldr | null;
+  fullPrompt: RefinedPrompt;
+  founderFit: FounderFit | null;
+  founderFitScore: number | null;
+  evaluationCriteria: string[];
+  createdAt: string;
+}
+
 export interface AnalysisResult {
   readinessScore?: number;
   marketSize?: string;
@@ -14,25 +76,350 @@ export interface AnalysisResult {
     weakness: string;
   }>;
   actionPlan?: string[];
+  founderFit?: FounderFit;
+  discoveryTldr?: DiscoveryTldr;
+  evaluationCriteria?: string[];
   error?: string;
 }
 
+export type ReportSection =
+  | 'growth'
+  | 'competitors'
+  | 'actionPlan'
+  | 'discoveryTldr'
+  | 'founderFit'
+  | 'evaluationCriteria';
+
 export type IdeaStatus = 'Analyzing' | 'Ready' | 'Discovery' | 'Error';
 
 export type IdeaInputType = 'Text' | 'Voice' | 'Image';
 
 export type IdeaCaptureMode = 'quick' | 'discovery';
 
+export type IdeaStage = 'inbox' | 'discovery' | 'researched' | 'validating' | 'building' | 'archived';
+
 export interface Idea {
   id: string;
   user_id: string;
+  workspace_id: string;
   title: string;
   description: string;
   input_type: IdeaInputType;
+  asset_path: string | null;
   status: IdeaStatus;
+  stage: IdeaStage;
   capture_mode: IdeaCaptureMode;
   discovery_session_id: string | null;
   analysis_result: AnalysisResult | null;
+  research_completed_at: string | null;
+  previous_readiness_score: number | null;
   created_at: string;
   updated_at: string;
 }
+
+export interface IdeaSearchResult {
+  id: string;
+  title: string;
+  status: IdeaStatus;
+  rank: number;
+  title_highlight: string;
+  snippet: string;
+}
+
+export interface DiscoveryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+/** The model's assessment of one objective of the current discovery phase */
+export interface PhaseObjectiveStatus {
+  id: string;
+  label: string;
+  covered: boolean;
+  confidence: number;
+  /** What the founder said about it, summarized; null until they address it */
+  fact: string | null;
+}
+
+/** A session's checklist of what discovery has learned, keyed by phase */
+export type DiscoveryFacts = Partial<Record<string, PhaseObjectiveStatus[]>>;
+
+export interface DiscoveryTurnResult {
+  response: string;
+  currentPhase: string;
+  isComplete: boolean;
+  synthesisOutput: DiscoverySynthesis | null;
+  /** Why synthesis failed after every repair attempt; the turn was not saved */
+  synthesisError: string | null;
+  messageCount: number;
+  /** Objective coverage for the phase just discussed; null when the provider gave no structured control */
+  phaseProgress: PhaseObjectiveStatus[] | null;
+  /** The session's whole checklist after this turn */
+  facts: DiscoveryFacts;
+}
+
+/** Newline-delimited events sent by POST /api/discovery/stream */
+export type DiscoveryStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; result: DiscoveryTurnResult }
+  | { type: 'error'; message: string };
+
+export type ResearchJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ResearchJob {
+  id: string;
+  ideaId: string;
+  status: ResearchJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAfter: string;
+  lastError: string | null;
+  partialResult: AnalysisResult | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface ResearchVersion {
+  id: string;
+  ideaId: string;
+  version: number;
+  analysis: AnalysisResult;
+  model: string | null;
+  provider: string | null;
+  promptHash: string | null;
+  createdAt: string;
+}
+
+export interface TextChange {
+  before: string | null;
+  after: string | null;
+}
+
+export type ActionStepChange =
+  | { type: 'unchanged'; after: string }
+  | { type: 'reworded'; before: string; after: string }
+  | { type: 'added'; after: string }
+  | { type: 'removed'; before: string };
+
+export interface ResearchDiff {
+  scoreBefore: number | null;
+  scoreAfter: number | null;
+  scoreDelta: number | null;
+  marketSize: TextChange | null;
+  targetAudience: TextChange | null;
+  topCompetitor: TextChange | null;
+  trend: TextChange | null;
+  competitorsAdded: string[];
+  competitorsRemoved: string[];
+  actionPlan: ActionStepChange[];
+}
+
+export type AITask = 'discovery' | 'synthesis' | 'research';
+
+export interface AIProviderProfile {
+  id: string;
+  name: string;
+  /** Empty means the server's default endpoint (AI_BASE_URL) */
+  baseURL: string;
+  defaultModel: string;
+}
+
+/** A stored provider key as the browser sees it; the key itself never leaves the server */
+export interface AICredentialSummary {
+  profileId: string;
+  keyHint: string;
+  updatedAt: string;
+}
+
+export interface ConnectionTestResult {
+  ok: boolean;
+  message: string;
+  latencyMs: number;
+}
+
+export interface AITaskRoute {
+  profileId: string;
+  /** Empty means the profile's default model */
+  model: string;
+}
+
+/** Provider profiles plus, per task, a primary route followed by fallbacks */
+export interface AIRoutingConfig {
+  profiles: AIProviderProfile[];
+  routes: Partial<Record<AITask, AITaskRoute[]>>;
+}
+
+export interface AISettings extends AIRoutingConfig {
+  discoveryModeEnabled: boolean;
+}
+
+/** AI tasks as logged for usage; 'capture' reads ideas from images */
+export type UsageTask = AITask | 'capture';
+
+export interface BudgetStatus {
+  /** null when no monthly budget is set */
+  limitUsd: number | null;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+export interface UsageBucket {
+  key: string;
+  label: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface UsageSummary {
+  /** Oldest first, one bucket per month with usage */
+  byMonth: UsageBucket[];
+  byModel: UsageBucket[];
+  /** Keyed by idea ID; calls without an idea (or whose idea was deleted) are grouped under 'none' */
+  byIdea: UsageBucket[];
+  /** Models that were used but have no entry in the price table */
+  unpricedModels: string[];
+  budget: BudgetStatus;
+}
+
+export interface ShareLink {
+  id: string;
+  ideaId: string;
+  hiddenSections: ReportSection[];
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+export interface SharedReport {
+  title: string;
+  description: string;
+  analysis: AnalysisResult;
+  hiddenSections: ReportSection[];
+}
+
+export interface DigestIdea {
+  id: string;
+  title: string;
+  inputType: IdeaInputType;
+  status: IdeaStatus;
+  createdAt: string;
+}
+
+export interface DigestResearchRun {
+  ideaId: string;
+  title: string;
+  status: Extract<IdeaStatus, 'Ready' | 'Error'>;
+  completedAt: string;
+  readinessScore: number | null;
+  error: string | null;
+}
+
+export interface DigestScoreChange {
+  ideaId: string;
+  title: string;
+  previousScore: number;
+  currentScore: number;
+  delta: number;
+}
+
+export interface DigestDiscoverySession {
+  sessionId: string;
+  ideaId: string | null;
+  ideaTitle: string | null;
+  currentPhase: string;
+  /** Display name of the phase in the session's playbook */
+  phaseLabel: string;
+  messageCount: number;
+  startedAt: string;
+}
+
+export interface WeeklyDigest {
+  userId: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  newIdeas: DigestIdea[];
+  completedResearch: DigestResearchRun[];
+  scoreChanges: DigestScoreChange[];
+  activeDiscoverySessions: DigestDiscoverySession[];
+  totals: {
+    newIdeas: number;
+    researchReady: number;
+    researchFailed: number;
+    activeDiscoverySessions: number;
+    averageReadiness: number | null;
+  };
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+/** A workspace the current user belongs to */
+export interface Workspace {
+  id: string;
+  name: string;
+  /** The user's own default workspace, created automatically */
+  personal: boolean;
+  role: WorkspaceRole;
+  createdAt: string;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  email: string | null;
+  role: WorkspaceRole;
+  joinedAt: string;
+}
+
+/** A pending invitation; the token itself is only shown once, when created */
+export interface WorkspaceInvitation {
+  id: string;
+  email: string;
+  role: WorkspaceRole;
+  expiresAt: string;
+  createdAt: string;
+}
+
+/** The part of a report a comment thread is attached to */
+export type CommentSection = 'report' | 'competitors' | 'actionPlan';
+
+export interface CommentAnchor {
+  section: CommentSection;
+  /** Competitor name or action-plan step number; null for the report as a whole */
+  key: string | null;
+  /** What was commented on (e.g. the step's text), kept in case the report is re-run */
+  label: string | null;
+}
+
+export interface IdeaComment {
+  id: string;
+  /** The thread's first comment; null for that comment itself */
+  parentId: string | null;
+  anchor: CommentAnchor;
+  authorId: string;
+  authorEmail: string | null;
+  body: string;
+  /** User IDs of the workspace members mentioned with @ */
+  mentions: string[];
+  createdAt: string;
+}
+
+/** A top-level comment and its replies; resolving applies to the whole thread */
+export interface CommentThread {
+  root: IdeaComment;
+  replies: IdeaComment[];
+  resolvedAt: string | null;
+  resolvedBy: string | null;
+}
+
+/** Comments by others the user hasn't seen yet on one idea */
+export interface UnreadComments {
+  count: number;
+  /** Whether any of them mention the user */
+  mentioned: boolean;
+}